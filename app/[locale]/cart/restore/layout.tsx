@@ -0,0 +1,15 @@
+import { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'Restore Your Cart - Logen Store',
+  description: 'Pick up your saved cart where you left off.',
+  robots: 'noindex, nofollow', // Don't index user-specific pages
+};
+
+interface RestoreCartLayoutProps {
+  children: React.ReactNode;
+}
+
+export default function RestoreCartLayout({ children }: RestoreCartLayoutProps) {
+  return children;
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { ShoppingCart } from 'lucide-react';
+import IntelligentLink from '@/components/IntelligentLink';
+import { backgroundSync } from '@/lib/background-sync';
+import { isRTLLocale } from '@/lib/locales';
+import { useCartStore } from '@/lib/store';
+
+interface RestoreCartPageProps {
+  params: {
+    locale: string;
+  };
+}
+
+// Landing page for cart reminder links: rebuilds the saved cart on this device
+export default function RestoreCartPage({ params }: RestoreCartPageProps) {
+  const { locale } = params;
+  const isRTL = isRTLLocale(locale);
+  const t = useTranslations('cartRestore');
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const channel = searchParams.get('channel');
+  const next = searchParams.get('next');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) {
+      setError(t('invalidLink'));
+      return;
+    }
+
+    const controller = new AbortController();
+    const query = new URLSearchParams({ token });
+    if (channel) query.set('channel', channel);
+
+    fetch(`/api/v1/cart/restore?${query.toString()}`, { signal: controller.signal })
+      .then(async (response) => {
+        const result = await response.json().catch(() => null);
+        if (!response.ok || !result?.success) {
+          throw new Error(result?.error?.message || `Restore failed with status: ${response.status}`);
+        }
+
+        // Keep the original cart id so the checkout is attributed to the reminder
+        backgroundSync.adoptCartId(result.data.cartId);
+        useCartStore.getState().replaceItems(result.data.items);
+
+        if (next === 'checkout') {
+          router.replace(`/${locale}/checkout`);
+        } else {
+          useCartStore.getState().openCart();
+          router.replace(`/${locale}`);
+        }
+      })
+      .catch((err) => {
+        if (err?.name === 'AbortError') return;
+        console.error('Cart restore failed:', err);
+        setError(t('expired'));
+      });
+
+    return () => controller.abort();
+  }, [token, channel, next, locale, router, t]);
+
+  return (
+    <div className="pt-20 min-h-screen flex items-center justify-center" dir={isRTL ? 'rtl' : 'ltr'}>
+      <div className="text-center px-4">
+        <ShoppingCart className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+        {error ? (
+          <>
+            <h1 className="text-2xl font-bold text-gray-900 mb-4">
+              {t('failedTitle')}
+            </h1>
+            <p className="text-gray-600 mb-6">{error}</p>
+            <IntelligentLink
+              href={`/${locale}`}
+              className="bg-black text-white px-6 py-3 rounded-lg hover:bg-gray-800 transition-colors"
+            >
+              {t('continueShopping')}
+            </IntelligentLink>
+          </>
+        ) : (
+          <>
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-black mx-auto mb-4"></div>
+            <p className="text-gray-600">{t('restoring')}</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,18 +1,29 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { motion } from 'framer-motion';
 import Image from 'next/image';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { ArrowLeft, CreditCard, Truck, Shield, AlertCircle, CheckCircle } from 'lucide-react';
 import dynamic from 'next/dynamic';
+import { useTranslations } from 'next-intl';
 import { useCartStore } from '@/lib/store';
+import { pushNotifications } from '@/lib/push-notifications';
+import { backgroundSync } from '@/lib/background-sync';
+import { cartSync } from '@/lib/cart-sync';
 import { useMessages } from '@/hooks/useMessages';
 import { formatPrice } from '@/lib/utils';
 import { useAuth } from '@/lib/auth';
 import { apiClient, generateIdempotencyKey, handleApiError } from '@/lib/api';
 import { useCoupons } from '@/hooks/useCoupons';
+import { savePendingPayment } from '@/lib/payments';
+import { calculateQuote, pricingRules, PricingQuote } from '@/lib/pricing';
+import { CurrencyCode, sumInCurrency } from '@/lib/currency';
+import { currencyService, useCurrency } from '@/lib/currency-service';
+import { getContentLocale } from '@/lib/locales';
+import CountrySelect from '@/components/CountrySelect';
+import PaymentRecoveryNotice from '@/components/PaymentRecoveryNotice';
 
 // Lazy load notification prompt
 const NotificationPrompt = dynamic(() => import('@/components/NotificationPrompt'), {
@@ -31,8 +42,12 @@ export default function CheckoutPage({ params }: CheckoutPageProps) {
   const { items, getTotalPrice, getCartCurrency, clearCart } = useCartStore();
   const { isAuthenticated, user } = useAuth();
   const messages = useMessages();
+  const tCart = useTranslations('cart');
+  const t = useTranslations('checkout');
+  const tCurrency = useTranslations('currency');
   const { validateCoupon, validatingCoupon } = useCoupons();
   const router = useRouter();
+  const { displayCurrency, formatDisplayPrice } = useCurrency();
   
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -50,16 +65,52 @@ export default function CheckoutPage({ params }: CheckoutPageProps) {
     address: '',
     city: '',
     postalCode: '',
+    country: pricingRules.defaultCountry,
   });
 
   const [paymentMethod, setPaymentMethod] = useState<'cash' | 'card'>('cash');
 
+  // One key per checkout attempt, so a double click or a retry after a dropped
+  // response returns the order already placed instead of placing it twice
+  const idempotencyKeyRef = useRef<string | null>(null);
+
   const subtotal = getTotalPrice();
   const cartCurrency = getCartCurrency();
   const couponDiscount = appliedCoupon?.discountAmount || 0;
-  const shipping = 50; // Fixed shipping cost
-  const tax = Math.round((subtotal - couponDiscount) * 0.15); // 15% tax on discounted amount
-  const total = subtotal - couponDiscount + shipping + tax;
+
+  // Preview only; the checkout route recomputes the same quote authoritatively
+  const { quote, pricingError } = useMemo((): { quote: PricingQuote | null; pricingError: string | null } => {
+    try {
+      return {
+        quote: calculateQuote({
+          // Lines are priced in the settlement currency, converted when the cart mixes currencies
+          items: Array.isArray(items)
+            ? items.map((item) => ({
+                ...item,
+                price: sumInCurrency([{ price: item.price, quantity: 1, currency: item.currency }], cartCurrency, currencyService.getRates()),
+              }))
+            : [],
+          currency: cartCurrency,
+          destination: { country: formData.country, city: formData.city },
+          discount: couponDiscount,
+        }),
+        pricingError: null,
+      };
+    } catch (err) {
+      // Unsupported destinations and currencies without a rate block the order instead of crashing the page
+      if (err instanceof Error) {
+        return { quote: null, pricingError: err.message };
+      }
+      throw err;
+    }
+  }, [items, cartCurrency, formData.country, formData.city, couponDiscount]);
+
+  // A different cart or payment method is a new attempt
+  useEffect(() => {
+    idempotencyKeyRef.current = null;
+  }, [items, paymentMethod, appliedCoupon]);
+
+  const explanationLocale = getContentLocale(locale);
 
   // Form validation
   const validateForm = () => {
@@ -79,7 +130,7 @@ export default function CheckoutPage({ params }: CheckoutPageProps) {
     return Object.keys(errors).length === 0;
   };
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({
       ...prev,
@@ -136,11 +187,23 @@ export default function CheckoutPage({ params }: CheckoutPageProps) {
       return;
     }
 
+    if (pricingError) {
+      setError(pricingError);
+      return;
+    }
+
     setLoading(true);
     setError(null);
     setSuccess(null);
 
     try {
+      // Never submit prices or stock the catalog no longer agrees with
+      const changes = await cartSync.revalidate();
+      if (changes.length > 0) {
+        setError(tCart('itemsUpdated'));
+        return;
+      }
+
       // Generate product name from cart items
       const productName = items.length === 1 
         ? items[0].title 
@@ -155,19 +218,30 @@ export default function CheckoutPage({ params }: CheckoutPageProps) {
           image: item.image,
           size: item.size,
           color: item.color,
+          currency: item.currency,
         })) : [],
         productName,
         paymentMethod: paymentMethod,  // Use selected payment method instead of hardcoded 'card'
         couponCode: appliedCoupon?.coupon?.code,
         notes: 'Order from StyleHub',
+        locale,
+        expectedTotal: quote?.total,
       };
+      if (!idempotencyKeyRef.current) {
+        idempotencyKeyRef.current = generateIdempotencyKey();
+      }
 
       let result: any;
       if (isAuthenticated) {
         const requestData = {
           ...checkoutData,
-          currency: 'EGP' as const,
-          idempotencyKey: generateIdempotencyKey(),
+          // Shipping and tax are priced from the address stored on the order
+          shippingInfo: {
+            country: formData.country,
+            city: formData.city || undefined,
+          },
+          currency: cartCurrency as CurrencyCode,
+          idempotencyKey: idempotencyKeyRef.current,
         };
         console.log('Authenticated checkout request:', requestData);
         result = await apiClient.processAuthenticatedCheckout(requestData);
@@ -175,14 +249,27 @@ export default function CheckoutPage({ params }: CheckoutPageProps) {
         const requestData = {
           ...checkoutData,
           guestInfo: formData,
-          currency: 'EGP' as const,
-          idempotencyKey: generateIdempotencyKey(),
+          currency: cartCurrency as CurrencyCode,
+          idempotencyKey: idempotencyKeyRef.current,
         };
         console.log('Guest checkout request:', requestData);
         result = await apiClient.processCheckout(requestData);
       }
 
       if (result.success) {
+        if (result.clientSecret) {
+          // Keep the ordered items so a failed or abandoned payment can be retried from checkout
+          savePendingPayment({
+            orderId: result.orderId,
+            clientSecret: result.clientSecret,
+            locale,
+            items: [...items],
+          });
+        }
+        // Attributes the order to a cart reminder when one brought the shopper back
+        backgroundSync.syncCartCheckout(result.orderId);
+        // Purchased categories feed push campaign segments
+        pushNotifications.reportActivity({ purchasedProductIds: items.map((item) => item.id), cartItemCount: 0 });
         clearCart();
         setSuccess('Order placed successfully!');
         
@@ -193,7 +280,7 @@ export default function CheckoutPage({ params }: CheckoutPageProps) {
         setTimeout(() => {
           if (result.clientSecret) {
             // Handle Stripe payment
-            router.push(`/${locale}/payment?order=${result.orderId}&client_secret=${result.clientSecret}`);
+            router.push(`/${locale}/payment?order=${encodeURIComponent(result.orderId)}&client_secret=${encodeURIComponent(result.clientSecret)}`);
           } else {
             // COD order - redirect to success page immediately
             router.push(`/${locale}/order-success?order=${result.orderId}`);
@@ -219,6 +306,7 @@ export default function CheckoutPage({ params }: CheckoutPageProps) {
     return (
       <div className="pt-20 min-h-screen flex items-center justify-center">
         <div className="text-center">
+          <PaymentRecoveryNotice locale={locale} />
           <h1 className="text-2xl font-bold text-gray-900 mb-4">Your cart is empty</h1>
           <Link
             href="/"
@@ -246,6 +334,8 @@ export default function CheckoutPage({ params }: CheckoutPageProps) {
           <h1 className="text-3xl font-bold text-gray-900">Checkout</h1>
         </div>
 
+        <PaymentRecoveryNotice locale={locale} />
+
         {/* Error/Success Messages */}
         {error && (
           <motion.div
@@ -374,6 +464,8 @@ export default function CheckoutPage({ params }: CheckoutPageProps) {
                     )}
                   </div>
 
+                  <CountrySelect label={t('country')} value={formData.country} onChange={handleInputChange} />
+
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div>
                       <label htmlFor="city" className="block text-sm font-medium text-gray-700 mb-1">
@@ -418,6 +510,26 @@ export default function CheckoutPage({ params }: CheckoutPageProps) {
                 </div>
               )}
 
+              {isAuthenticated && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <CountrySelect label={t('deliveryCountry')} value={formData.country} onChange={handleInputChange} />
+                  <div>
+                    <label htmlFor="city" className="block text-sm font-medium text-gray-700 mb-1">
+                      {t('deliveryCity')}
+                    </label>
+                    <input
+                      type="text"
+                      id="city"
+                      name="city"
+                      value={formData.city}
+                      onChange={handleInputChange}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder={t('deliveryCityPlaceholder')}
+                    />
+                  </div>
+                </div>
+              )}
+
               {/* Payment Method Selection */}
               <div className="border-t pt-6">
                 <h3 className="text-lg font-medium text-gray-900 mb-4">Payment Method</h3>
@@ -557,7 +669,7 @@ export default function CheckoutPage({ params }: CheckoutPageProps) {
                   <div className="flex-1 min-w-0">
                     <h3 className="font-medium text-gray-900 truncate">{item.title}</h3>
                     <p className="text-sm text-gray-500">
-                      Qty: {item.quantity}
+                      {formatPrice(item.price, item.currency)} × {item.quantity}
                       {(item.size || item.color) && (
                         <span className="ml-2">
                           {item.size && `Size: ${item.size}`}
@@ -579,34 +691,58 @@ export default function CheckoutPage({ params }: CheckoutPageProps) {
             {/* Order Totals */}
             <div className="border-t pt-6 space-y-3">
               <div className="flex justify-between text-gray-600">
-                <span>Subtotal</span>
-                <span>{formatPrice(subtotal, cartCurrency)}</span>
+                <span>{t('subtotal', { count: quote?.itemCount ?? items.length })}</span>
+                <span>{formatPrice(quote?.subtotal ?? subtotal, cartCurrency)}</span>
               </div>
               {appliedCoupon && (
                 <div className="flex justify-between text-green-600">
                   <span>Coupon Discount ({appliedCoupon.coupon.code})</span>
-                  <span>-{formatPrice(couponDiscount, cartCurrency)}</span>
+                  <span>-{formatPrice(quote?.discount ?? couponDiscount, cartCurrency)}</span>
+                </div>
+              )}
+
+              {quote ? (
+                <>
+                  <div>
+                    <div className="flex justify-between text-gray-600">
+                      <span>Shipping</span>
+                      <span>{quote.shipping.free ? t('free') : formatPrice(quote.shipping.amount, cartCurrency)}</span>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">{quote.shipping.explanation[explanationLocale]}</p>
+                    {!quote.shipping.free && quote.shipping.amountToFreeShipping !== undefined && quote.shipping.amountToFreeShipping > 0 && (
+                      <p className="text-xs text-blue-600 mt-1">
+                        {t('freeShippingHint', { amount: formatPrice(quote.shipping.amountToFreeShipping, cartCurrency) })}
+                      </p>
+                    )}
+                  </div>
+                  <div>
+                    <div className="flex justify-between text-gray-600">
+                      <span>{quote.tax.mode === 'inclusive' ? t('taxIncluded') : tCart('tax')}</span>
+                      <span>{formatPrice(quote.tax.amount, cartCurrency)}</span>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">{quote.tax.explanation[explanationLocale]}</p>
+                  </div>
+                  <div className="border-t pt-3 flex justify-between text-lg font-bold text-gray-900">
+                    <span>Total</span>
+                    <span>{formatPrice(quote.total, cartCurrency)}</span>
+                  </div>
+                  <p className="text-xs text-gray-500 text-right rtl:text-left">
+                    {tCurrency('chargedIn', { currency: cartCurrency })}
+                    {displayCurrency && displayCurrency !== cartCurrency && ` (${formatDisplayPrice(quote.total, cartCurrency)})`}
+                  </p>
+                </>
+              ) : (
+                <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                  {pricingError}
                 </div>
               )}
-              <div className="flex justify-between text-gray-600">
-                <span>Shipping</span>
-                <span>{formatPrice(shipping, cartCurrency)}</span>
-              </div>
-              <div className="flex justify-between text-gray-600">
-                <span>Tax</span>
-                <span>{formatPrice(tax, cartCurrency)}</span>
-              </div>
-              <div className="border-t pt-3 flex justify-between text-lg font-bold text-gray-900">
-                <span>Total</span>
-                <span>{formatPrice(total, cartCurrency)}</span>
-              </div>
             </div>
 
             {/* Place Order Button */}
             <button
               type="submit"
               form="checkout-form"
-              disabled={loading}
+              disabled={loading || !quote}
               className="w-full mt-6 bg-black text-white py-4 rounded-full font-semibold text-lg hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {loading ? 'Processing...' : 'Place Order'}
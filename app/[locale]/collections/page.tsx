@@ -27,7 +27,7 @@ async function getInitialData() {
   try {
     // Fetch both categories and initial products in parallel for better performance
     const [categoriesResponse, productsResponse] = await Promise.allSettled([
-      fetch(`${process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3000/api/v1'}/category/AllCategory?limit=50`, {
+      fetch(`${process.env.BACKEND_API_URL || 'http://localhost:3000/api'}/v1/category/AllCategory?limit=50`, {
         next: { 
           revalidate: 300, // 5 minutes ISR
           tags: ['categories'] 
@@ -36,7 +36,7 @@ async function getInitialData() {
           'Content-Type': 'application/json',
         }
       }),
-      fetch(`${process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3000/api/v1'}/products?limit=20&page=1`, {
+      fetch(`${process.env.BACKEND_API_URL || 'http://localhost:3000/api'}/v1/products?limit=20&page=1`, {
         next: { 
           revalidate: 180, // 3 minutes ISR for products (more frequent updates)
           tags: ['products', 'collections'] 
@@ -3,6 +3,7 @@ import { notFound } from 'next/navigation';
 import Script from 'next/script';
 import { Inter, Tajawal } from 'next/font/google';
 import { config } from '@/lib/config';
+import { getTextDirection, isValidLocale, loadMessages } from '@/lib/i18n';
 import { generateLocalizedMetadata, generateHreflangAlternates } from '@/lib/seo-utils';
 import { Layout } from '@/components/Layout';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
@@ -12,6 +13,7 @@ import { SkipLinks } from '@/components/Accessibility/SkipLink';
 import { PerformanceMonitor } from '@/lib/performance';
 import StructuredDataComponent from '@/components/StructuredData';
 import QueryProvider from '@/components/QueryProvider';
+import I18nProvider from '@/components/I18nProvider';
 import Header from '@/components/Header';
 import Footer from '@/components/Footer';
 import dynamic from 'next/dynamic';
@@ -60,7 +62,7 @@ export async function generateMetadata({
     notFound();
   }
 
-  const isRTL = config.i18n.rtlLocales.includes(locale as 'ar');
+  const isRTL = getTextDirection(locale) === 'rtl';
   
   // Generate localized metadata using SEO utils
   const metadata = generateLocalizedMetadata('homepage', locale, {
@@ -112,29 +114,38 @@ export async function generateStaticParams() {
   }));
 }
 
-export default function LocaleLayout({
+export default async function LocaleLayout({
   children,
   params: { locale }
 }: {
   children: React.ReactNode;
   params: { locale: string };
 }) {
+  if (!isValidLocale(locale)) {
+    notFound();
+  }
+
+  // Loaded here so the first server render is already in the page's language
+  const messages = await loadMessages(locale);
+
   return (
-    <html lang={locale} dir={locale === 'ar' ? 'rtl' : 'ltr'}>
+    <html lang={locale} dir={getTextDirection(locale)}>
       <body className={inter.className}>
-        <QueryProvider>
-          <div className="min-h-screen bg-gray-50">
-            <Header />
-            <PageTransition>
-              <main className="flex-1">
-                {children}
-              </main>
-            </PageTransition>
-            <Footer />
-            <CartDrawer />
-            <NotificationToast />
-          </div>
-        </QueryProvider>
+        <I18nProvider locale={locale} messages={messages}>
+          <QueryProvider>
+            <div className="min-h-screen bg-gray-50">
+              <Header />
+              <PageTransition>
+                <main className="flex-1">
+                  {children}
+                </main>
+              </PageTransition>
+              <Footer />
+              <CartDrawer />
+              <NotificationToast />
+            </div>
+          </QueryProvider>
+        </I18nProvider>
       </body>
     </html>
   );
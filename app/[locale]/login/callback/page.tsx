@@ -0,0 +1,90 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { Loader2, ShieldAlert } from 'lucide-react';
+import IntelligentLink from '@/components/IntelligentLink';
+import { authService } from '@/lib/auth';
+import { isRTLLocale } from '@/lib/locales';
+import { sanitizeReturnTo } from '@/lib/route-policies';
+
+interface LoginCallbackPageProps {
+  params: {
+    locale: string;
+  };
+}
+
+// Codes with their own message; anything else (SESSION_FAILED, provider errors) gets the generic one
+const ERROR_CODES = ['ACCESS_DENIED', 'INVALID_STATE', 'EMAIL_REQUIRED', 'ACCOUNT_EXISTS', 'PROVIDER_LINKED', 'SESSION_REQUIRED'] as const;
+type ErrorCode = (typeof ERROR_CODES)[number];
+
+// Social sign-in lands here after the server has set the session cookies (or failed to)
+export default function LoginCallbackPage({ params }: LoginCallbackPageProps) {
+  const { locale } = params;
+  const isRTL = isRTLLocale(locale);
+  const t = useTranslations('login');
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const returnTo = sanitizeReturnTo(searchParams.get('returnTo')) || `/${locale}`;
+  const linked = searchParams.get('linked') === '1';
+  const [error, setError] = useState<string | null>(searchParams.get('error'));
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (error || started.current) return;
+    started.current = true;
+
+    // Connecting a provider leaves the current session as it was
+    if (linked) {
+      router.replace(returnTo);
+      return;
+    }
+
+    authService.completeExternalSignIn()
+      .then(() => router.replace(returnTo))
+      .catch(() => setError('SESSION_FAILED'));
+  }, [error, linked, returnTo, router]);
+
+  if (!error) {
+    return (
+      <div className="pt-20 min-h-screen flex items-center justify-center" dir={isRTL ? 'rtl' : 'ltr'}>
+        <div className="flex items-center gap-3 text-gray-600">
+          <Loader2 className="w-5 h-5 animate-spin" />
+          {t('callback.signingIn')}
+        </div>
+      </div>
+    );
+  }
+
+  const message = ERROR_CODES.indexOf(error as ErrorCode) !== -1
+    ? t(`callback.errors.${error as ErrorCode}`)
+    : t('callback.errors.default');
+
+  return (
+    <div className="pt-20 min-h-screen flex items-center justify-center" dir={isRTL ? 'rtl' : 'ltr'}>
+      <div className="text-center px-4 max-w-md">
+        <ShieldAlert className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+        <h1 className="text-2xl font-bold text-gray-900 mb-4">
+          {t('callback.failedTitle')}
+        </h1>
+        <p className="text-gray-600 mb-6">{message}</p>
+
+        <div className="flex items-center justify-center gap-3">
+          <IntelligentLink
+            href={`/${locale}/login?returnTo=${encodeURIComponent(returnTo)}`}
+            className="bg-black text-white px-6 py-3 rounded-lg hover:bg-gray-800 transition-colors"
+          >
+            {t('callback.tryAgain')}
+          </IntelligentLink>
+          <IntelligentLink
+            href={`/${locale}`}
+            className="px-6 py-3 rounded-lg border border-gray-300 hover:bg-gray-50 transition-colors"
+          >
+            {t('backHome')}
+          </IntelligentLink>
+        </div>
+      </div>
+    </div>
+  );
+}
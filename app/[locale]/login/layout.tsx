@@ -0,0 +1,15 @@
+import { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'Sign In - Logen Store',
+  description: 'Sign in to your Logen Store account.',
+  robots: 'noindex, nofollow', // Don't index user-specific pages
+};
+
+interface LoginLayoutProps {
+  children: React.ReactNode;
+}
+
+export default function LoginLayout({ children }: LoginLayoutProps) {
+  return children;
+}
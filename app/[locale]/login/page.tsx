@@ -0,0 +1,94 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { Lock, ShieldAlert } from 'lucide-react';
+import AuthModal from '@/components/AuthModal';
+import IntelligentLink from '@/components/IntelligentLink';
+import { authService, useAuth } from '@/lib/auth';
+import { isRTLLocale } from '@/lib/locales';
+import { sanitizeReturnTo } from '@/lib/route-policies';
+
+interface LoginPageProps {
+  params: {
+    locale: string;
+  };
+}
+
+// Where middleware sends visitors of protected pages; returns them to returnTo after signing in
+export default function LoginPage({ params }: LoginPageProps) {
+  const { locale } = params;
+  const isRTL = isRTLLocale(locale);
+  const t = useTranslations('login');
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const returnTo = sanitizeReturnTo(searchParams.get('returnTo')) || `/${locale}`;
+  const forbidden = searchParams.get('reason') === 'forbidden';
+  const { user, logout } = useAuth();
+  const [isAuthModalOpen, setIsAuthModalOpen] = useState(!forbidden);
+
+  // The modal closes both after signing in and when dismissed
+  const handleModalClose = () => {
+    setIsAuthModalOpen(false);
+    if (authService.getState().isAuthenticated) {
+      router.replace(returnTo);
+    }
+  };
+
+  const switchAccount = async () => {
+    await logout();
+    setIsAuthModalOpen(true);
+  };
+
+  return (
+    <div className="pt-20 min-h-screen flex items-center justify-center" dir={isRTL ? 'rtl' : 'ltr'}>
+      <div className="text-center px-4 max-w-md">
+        {forbidden ? (
+          <>
+            <ShieldAlert className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-4">
+              {t('forbiddenTitle')}
+            </h1>
+            <p className="text-gray-600 mb-6">
+              {user?.email ? t('forbiddenBodySignedIn', { email: user.email }) : t('forbiddenBody')}
+            </p>
+          </>
+        ) : (
+          <>
+            <Lock className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-4">
+              {t('requiredTitle')}
+            </h1>
+            <p className="text-gray-600 mb-6">
+              {t('requiredBody')}
+            </p>
+          </>
+        )}
+
+        <div className="flex items-center justify-center gap-3">
+          <button
+            onClick={forbidden ? switchAccount : () => setIsAuthModalOpen(true)}
+            className="bg-black text-white px-6 py-3 rounded-lg hover:bg-gray-800 transition-colors"
+          >
+            {forbidden
+              ? t('switchAccount')
+              : t('signIn')}
+          </button>
+          <IntelligentLink
+            href={`/${locale}`}
+            className="px-6 py-3 rounded-lg border border-gray-300 hover:bg-gray-50 transition-colors"
+          >
+            {t('backHome')}
+          </IntelligentLink>
+        </div>
+      </div>
+
+      <AuthModal
+        isOpen={isAuthModalOpen}
+        onClose={handleModalClose}
+        initialMode="login"
+      />
+    </div>
+  );
+}
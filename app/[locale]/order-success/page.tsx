@@ -3,10 +3,13 @@
 import { useEffect, useState } from 'react';
 import { useSearchParams } from 'next/navigation';
 import { motion } from 'framer-motion';
-import { CheckCircle, Package, ArrowRight, Search } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+import { CheckCircle, Package, ArrowRight, Search, FileText } from 'lucide-react';
 import dynamic from 'next/dynamic';
-import { useAuth } from '@/hooks/useAuth';
+import { useAuth } from '@/lib/auth';
 import { apiClient, handleApiError } from '@/lib/api';
+import { canIssueInvoice } from '@/lib/order-returns';
+import { useLanguage } from '@/hooks/useMessages';
 import IntelligentLink from '@/components/IntelligentLink';
 
 // Lazy load notification prompt
@@ -22,6 +25,9 @@ export default function OrderSuccessPage() {
   const [loading, setLoading] = useState(true);
   const [showNotificationPrompt, setShowNotificationPrompt] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { isAuthenticated } = useAuth();
+  const language = useLanguage();
+  const tInvoice = useTranslations('invoice');
 
   useEffect(() => {
     const fetchOrderStatus = async () => {
@@ -137,6 +143,16 @@ export default function OrderSuccessPage() {
               <span>View Order Details</span>
             </IntelligentLink>
             
+            {isAuthenticated && canIssueInvoice(orderStatus) && (
+              <a
+                href={apiClient.getInvoiceUrl(orderStatus.orderId, { locale: language })}
+                className="inline-flex items-center justify-center space-x-2 bg-white border border-gray-300 text-gray-700 px-6 py-3 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <FileText className="w-5 h-5" />
+                <span>{tInvoice('download')}</span>
+              </a>
+            )}
+
             <IntelligentLink
               href="/track-order"
               className="inline-flex items-center justify-center space-x-2 bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors"
@@ -1,11 +1,21 @@
 'use client';
 
+import { useState } from 'react';
 import { motion } from 'framer-motion';
+import { useTranslations } from 'next-intl';
 import Image from 'next/image';
 import Link from 'next/link';
-import { ArrowLeft, Package, Clock, CheckCircle, XCircle, Truck, CreditCard } from 'lucide-react';
+import { ArrowLeft, Package, Clock, CheckCircle, XCircle, Truck, CreditCard, RotateCcw, Ban, FileText, Printer } from 'lucide-react';
+import OrderReturns from '@/components/OrderReturns';
+import ReorderButton from '@/components/ReorderButton';
+import ReturnRequestModal from '@/components/ReturnRequestModal';
+import { apiClient, handleApiError } from '@/lib/api';
 import { useAuth } from '@/lib/auth';
-import { useOrder } from '@/hooks/useOrders';
+import { useOrder, useOrderReturns } from '@/hooks/useOrders';
+import { canCancelOrder, canIssueInvoice, canRequestReturn, getReturnableQuantities, getReturnDeadline } from '@/lib/order-returns';
+import { getFormatLocale } from '@/lib/locales';
+import { canReorder } from '@/lib/reorder';
+import { useLanguage } from '@/hooks/useMessages';
 import { formatPrice, decodeHtmlEntities } from '@/lib/utils';
 
 interface OrderPageProps {
@@ -23,6 +33,7 @@ const statusIcons = {
   rejected: XCircle,
   paid: CheckCircle,
   failed: XCircle,
+  cancelled: Ban,
 };
 
 const statusColors = {
@@ -34,11 +45,45 @@ const statusColors = {
   rejected: 'text-red-600 bg-red-50 border-red-200',
   paid: 'text-green-600 bg-green-50 border-green-200',
   failed: 'text-red-600 bg-red-50 border-red-200',
+  cancelled: 'text-gray-600 bg-gray-50 border-gray-200',
 };
 
 export default function OrderPage({ params }: OrderPageProps) {
   const { isAuthenticated, isLoading } = useAuth();
-  const { order, loading, error } = useOrder(params.orderId);
+  const language = useLanguage();
+  const t = useTranslations('orderActions');
+  const tInvoice = useTranslations('invoice');
+  const formatLocale = getFormatLocale(language);
+  const { order, loading, error, refetch } = useOrder(params.orderId);
+  const { returns, refetch: refetchReturns } = useOrderReturns(params.orderId);
+  const [confirmingCancel, setConfirmingCancel] = useState(false);
+  const [cancelReason, setCancelReason] = useState('');
+  const [cancelling, setCancelling] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+  const [isReturnModalOpen, setIsReturnModalOpen] = useState(false);
+
+  const handleCancelOrder = async () => {
+    setCancelling(true);
+    setActionError(null);
+
+    try {
+      await apiClient.cancelOrder(params.orderId, cancelReason.trim() || undefined);
+      setConfirmingCancel(false);
+      setActionMessage(t('cancelled'));
+      await refetch();
+    } catch (err) {
+      setActionError(handleApiError(err));
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  const handleReturnSubmitted = async () => {
+    setIsReturnModalOpen(false);
+    setActionMessage(t('returnSubmitted'));
+    await refetchReturns();
+  };
 
   if (isLoading) {
     return (
@@ -103,6 +148,8 @@ export default function OrderPage({ params }: OrderPageProps) {
 
   const StatusIcon = statusIcons[order.status as keyof typeof statusIcons] || Clock;
   const statusColorClass = statusColors[order.status as keyof typeof statusColors] || 'text-gray-600 bg-gray-50 border-gray-200';
+  const returnDeadline = getReturnDeadline(order);
+  const canReturn = canRequestReturn(order) && getReturnableQuantities(order, returns).some((quantity) => quantity > 0);
 
   return (
     <div className="pt-20 min-h-screen bg-gray-50">
@@ -131,7 +178,7 @@ export default function OrderPage({ params }: OrderPageProps) {
                       Order #{order._id.slice(-8)}
                     </h1>
                     <p className="text-gray-600">
-                      Placed on {new Date(order.createdAt).toLocaleDateString()}
+                      Placed on {new Date(order.createdAt).toLocaleDateString(formatLocale)}
                     </p>
                   </div>
                   <div className={`flex items-center space-x-2 px-4 py-2 rounded-full border ${statusColorClass}`}>
@@ -144,7 +191,7 @@ export default function OrderPage({ params }: OrderPageProps) {
 
                 {order.paidAt && (
                   <p className="text-sm text-green-600">
-                    Paid on {new Date(order.paidAt).toLocaleDateString()}
+                    Paid on {new Date(order.paidAt).toLocaleDateString(formatLocale)}
                   </p>
                 )}
               </div>
@@ -215,10 +262,100 @@ export default function OrderPage({ params }: OrderPageProps) {
                   </div>
                 </div>
               )}
+
+              <OrderReturns order={order} returns={returns} />
             </div>
 
             {/* Order Summary */}
             <div className="space-y-6">
+              {(canCancelOrder(order) || returnDeadline || actionMessage) && (
+                <div className="bg-white rounded-2xl p-6 shadow-sm">
+                  <h2 className="text-xl font-bold text-gray-900 mb-4">{t('title')}</h2>
+
+                  {actionMessage && (
+                    <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg text-green-700 text-sm">
+                      {actionMessage}
+                    </div>
+                  )}
+                  {actionError && (
+                    <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+                      {actionError}
+                    </div>
+                  )}
+
+                  {canCancelOrder(order) && (
+                    confirmingCancel ? (
+                      <div className="space-y-3">
+                        <p className="text-sm text-gray-600">
+                          {t('cancelConfirm')}
+                        </p>
+                        <textarea
+                          value={cancelReason}
+                          onChange={(e) => setCancelReason(e.target.value)}
+                          maxLength={500}
+                          rows={2}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          placeholder={t('cancelReason')}
+                        />
+                        <div className="flex space-x-2">
+                          <button
+                            onClick={handleCancelOrder}
+                            disabled={cancelling}
+                            className="flex-1 bg-red-600 text-white py-2 px-4 rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors"
+                          >
+                            {cancelling ? t('cancelling') : t('cancel')}
+                          </button>
+                          <button
+                            onClick={() => setConfirmingCancel(false)}
+                            disabled={cancelling}
+                            className="flex-1 border border-gray-300 py-2 px-4 rounded-lg hover:bg-gray-50 transition-colors"
+                          >
+                            {t('keep')}
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <button
+                        onClick={() => {
+                          setConfirmingCancel(true);
+                          setActionError(null);
+                        }}
+                        className="w-full flex items-center justify-center space-x-2 border border-red-200 text-red-600 py-2 px-4 rounded-lg hover:bg-red-50 transition-colors"
+                      >
+                        <Ban className="w-4 h-4" />
+                        <span>{t('cancel')}</span>
+                      </button>
+                    )
+                  )}
+
+                  {returnDeadline && (
+                    canReturn ? (
+                      <>
+                        <button
+                          onClick={() => {
+                            setIsReturnModalOpen(true);
+                            setActionMessage(null);
+                          }}
+                          className="w-full flex items-center justify-center space-x-2 border border-gray-300 py-2 px-4 rounded-lg hover:bg-gray-50 transition-colors"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                          <span>{t('returnItems')}</span>
+                        </button>
+                        <p className="text-sm text-gray-500 mt-2">
+                          {t('returnsUntil', { date: returnDeadline.toLocaleDateString(formatLocale) })}
+                        </p>
+                      </>
+                    ) : (
+                      <p className="text-sm text-gray-500">
+                        {returnDeadline.getTime() > Date.now()
+                          ? t('allReturned')
+                          : t('returnWindowClosed', { date: returnDeadline.toLocaleDateString(formatLocale) })}
+                      </p>
+                    )
+                  )}
+                </div>
+              )}
+
               <div className="bg-white rounded-2xl p-6 shadow-sm">
                 <h2 className="text-xl font-bold text-gray-900 mb-4">Order Summary</h2>
                 
@@ -237,6 +374,29 @@ export default function OrderPage({ params }: OrderPageProps) {
                     <span>{formatPrice(order.totalAmount, order.currency)}</span>
                   </div>
                 </div>
+
+                {canIssueInvoice(order) && (
+                  <div className="mt-6 flex space-x-2">
+                    <a
+                      href={apiClient.getInvoiceUrl(order._id, { locale: language })}
+                      className="flex-1 flex items-center justify-center space-x-2 border border-gray-300 py-2 px-4 rounded-lg hover:bg-gray-50 transition-colors"
+                    >
+                      <FileText className="w-4 h-4" />
+                      <span>{tInvoice('pdf')}</span>
+                    </a>
+                    <a
+                      href={apiClient.getInvoiceUrl(order._id, { locale: language, format: 'html' })}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center justify-center border border-gray-300 py-2 px-3 rounded-lg hover:bg-gray-50 transition-colors"
+                      aria-label={tInvoice('print')}
+                    >
+                      <Printer className="w-4 h-4" />
+                    </a>
+                  </div>
+                )}
+
+                {canReorder(order) && <ReorderButton order={order} className="mt-6" />}
               </div>
 
               {/* Payment Information */}
@@ -266,7 +426,7 @@ export default function OrderPage({ params }: OrderPageProps) {
                     <div>
                       <p className="font-medium text-gray-900">Order Placed</p>
                       <p className="text-sm text-gray-500">
-                        {new Date(order.createdAt).toLocaleString()}
+                        {new Date(order.createdAt).toLocaleString(formatLocale)}
                       </p>
                     </div>
                   </div>
@@ -279,12 +439,26 @@ export default function OrderPage({ params }: OrderPageProps) {
                       <div>
                         <p className="font-medium text-gray-900">Payment Confirmed</p>
                         <p className="text-sm text-gray-500">
-                          {new Date(order.paidAt).toLocaleString()}
+                          {new Date(order.paidAt).toLocaleString(formatLocale)}
                         </p>
                       </div>
                     </div>
                   )}
                   
+                  {order.status === 'cancelled' && (
+                    <div className="flex items-center space-x-3">
+                      <div className="w-8 h-8 bg-gray-100 rounded-full flex items-center justify-center">
+                        <Ban className="w-4 h-4 text-gray-600" />
+                      </div>
+                      <div>
+                        <p className="font-medium text-gray-900">{t('timelineCancelled')}</p>
+                        <p className="text-sm text-gray-500">
+                          {order.cancelledAt ? new Date(order.cancelledAt).toLocaleString(formatLocale) : t('cancelledStatus')}
+                        </p>
+                      </div>
+                    </div>
+                  )}
+
                   {order.status === 'delivered' && (
                     <div className="flex items-center space-x-3">
                       <div className="w-8 h-8 bg-green-100 rounded-full flex items-center justify-center">
@@ -302,6 +476,14 @@ export default function OrderPage({ params }: OrderPageProps) {
           </div>
         </motion.div>
       </div>
+
+      <ReturnRequestModal
+        order={order}
+        returns={returns}
+        isOpen={isReturnModalOpen}
+        onClose={() => setIsReturnModalOpen(false)}
+        onSubmitted={handleReturnSubmitted}
+      />
     </div>
   );
 }
\ No newline at end of file
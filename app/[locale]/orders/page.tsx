@@ -5,8 +5,10 @@ import { motion } from 'framer-motion';
 import Image from 'next/image';
 import Link from 'next/link';
 import { Package, Clock, CheckCircle, XCircle, Truck } from 'lucide-react';
+import ReorderButton from '@/components/ReorderButton';
 import { useAuth } from '@/lib/auth';
 import { useOrders } from '@/hooks/useOrders';
+import { canReorder } from '@/lib/reorder';
 import { formatPrice } from '@/lib/utils';
 
 const statusIcons = {
@@ -241,6 +243,8 @@ export default function OrdersPage() {
                           View Details
                         </Link>
                       </div>
+
+                      {canReorder(order) && <ReorderButton order={order} className="mt-4" />}
                     </motion.div>
                   );
                 })}
@@ -23,6 +23,11 @@ const CategoryStrip = dynamic(() => import('@/components/CategoryStrip'), {
   ),
 });
 
+// Personal to the signed-in shopper, so only rendered in the browser
+const BuyAgain = dynamic(() => import('@/components/BuyAgain'), {
+  ssr: false,
+});
+
 const ProductGrid = dynamic(() => import('@/components/ProductGrid'), {
   loading: () => (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
@@ -57,6 +62,9 @@ export default function HomePage({ params }: HomePageProps) {
           <HeroCarousel />
         </section>
 
+        {/* Buy Again - signed-in shoppers with past orders */}
+        <BuyAgain />
+
         {/* Category Strip */}
         <section className="py-8 px-4 max-w-7xl mx-auto">
           <Suspense fallback={
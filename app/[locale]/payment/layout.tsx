@@ -0,0 +1,15 @@
+import { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'Payment - Logen Store',
+  description: 'Complete the card payment for your Logen Store order.',
+  robots: 'noindex, nofollow', // Don't index user-specific pages
+};
+
+interface PaymentLayoutProps {
+  children: React.ReactNode;
+}
+
+export default function PaymentLayout({ children }: PaymentLayoutProps) {
+  return children;
+}
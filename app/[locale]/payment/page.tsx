@@ -0,0 +1,374 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { ArrowLeft, CreditCard, Shield, AlertCircle, Loader2, Clock } from 'lucide-react';
+import { apiClient } from '@/lib/api';
+import { isRTLLocale } from '@/lib/locales';
+import {
+  FAILED_ORDER_STATUSES,
+  PAID_ORDER_STATUSES,
+  PaymentResult,
+  PaymentSession,
+  clearPendingPayment,
+  getPaymentProvider,
+  getPendingPayment,
+  isPendingPaymentExpired,
+  savePendingPayment,
+  updatePendingPayment,
+} from '@/lib/payments';
+
+interface PaymentPageProps {
+  params: {
+    locale: string;
+  };
+}
+
+type PaymentStage = 'loading' | 'ready' | 'confirming' | 'action' | 'verifying' | 'timeout' | 'expired' | 'invalid';
+
+// How often and for how long to wait for the backend to mark the order paid
+const STATUS_POLL_INTERVAL = 2000;
+const STATUS_POLL_TIMEOUT = 90 * 1000;
+
+export default function PaymentPage({ params }: PaymentPageProps) {
+  const { locale } = params;
+  const isRTL = isRTLLocale(locale);
+  const t = useTranslations('payment');
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const orderId = searchParams.get('order');
+  // Stripe appends payment_intent_client_secret when returning from a redirect
+  const clientSecret = searchParams.get('client_secret') || searchParams.get('payment_intent_client_secret');
+  const returnedFromRedirect = searchParams.has('redirect_status');
+
+  const provider = getPaymentProvider();
+  const [stage, setStage] = useState<PaymentStage>('loading');
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const sessionRef = useRef<PaymentSession | null>(null);
+  const settledRef = useRef(false);
+  const pollingRef = useRef(false);
+  const stageRef = useRef<PaymentStage>(stage);
+  stageRef.current = stage;
+
+  const goToCheckout = useCallback((reason: 'failed' | 'cancelled', message?: string) => {
+    if (!orderId) return;
+    settledRef.current = true;
+    pollingRef.current = false;
+    updatePendingPayment(orderId, {
+      lastError: message,
+      abandonedAt: reason === 'cancelled' ? Date.now() : undefined,
+    });
+    router.replace(`/${locale}/checkout?payment=${reason}&order=${encodeURIComponent(orderId)}`);
+  }, [locale, orderId, router]);
+
+  const pollOrderStatus = useCallback(async () => {
+    if (!orderId || pollingRef.current) return;
+    pollingRef.current = true;
+    setStage('verifying');
+    setError(null);
+
+    const deadline = Date.now() + STATUS_POLL_TIMEOUT;
+    while (pollingRef.current && Date.now() < deadline) {
+      try {
+        const order = await apiClient.getOrderStatus(orderId);
+        const status = order?.status?.toLowerCase();
+
+        if (status && PAID_ORDER_STATUSES.includes(status)) {
+          settledRef.current = true;
+          pollingRef.current = false;
+          clearPendingPayment(orderId);
+          router.replace(`/${locale}/order-success?order=${encodeURIComponent(orderId)}`);
+          return;
+        }
+
+        if (status && FAILED_ORDER_STATUSES.includes(status)) {
+          goToCheckout('failed', t('paymentRejected'));
+          return;
+        }
+      } catch (err) {
+        // Transient errors are expected while the backend processes the webhook
+        console.error('Order status check failed:', err);
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, STATUS_POLL_INTERVAL));
+    }
+
+    if (pollingRef.current) {
+      pollingRef.current = false;
+      setStage('timeout');
+    }
+  }, [goToCheckout, locale, orderId, router, t]);
+
+  const handleResult = useCallback(async (result: PaymentResult): Promise<void> => {
+    const session = sessionRef.current;
+
+    switch (result.status) {
+      case 'succeeded':
+      case 'processing':
+        settledRef.current = true;
+        await pollOrderStatus();
+        return;
+
+      case 'requires_action':
+        if (!session) return;
+        setStage('action');
+        await handleResult(await session.handleNextAction());
+        return;
+
+      case 'requires_payment_method':
+        // Declined or failed authentication: the customer can try another card here
+        setError(result.error || t('cardDeclined'));
+        if (orderId) updatePendingPayment(orderId, { lastError: result.error });
+        setStage('ready');
+        return;
+
+      case 'canceled':
+      case 'failed':
+      default:
+        goToCheckout('failed', result.error);
+    }
+  }, [goToCheckout, orderId, pollOrderStatus, t]);
+
+  // The session outlives re-renders, so it reports results through the latest handler
+  const handleResultRef = useRef(handleResult);
+  handleResultRef.current = handleResult;
+
+  // Create the provider session and mount its card form
+  useEffect(() => {
+    if (!orderId || !clientSecret) {
+      setStage('invalid');
+      return;
+    }
+
+    const pending = getPendingPayment(orderId);
+    if (pending && isPendingPaymentExpired(pending) && !returnedFromRedirect) {
+      setStage('expired');
+      return;
+    }
+    if (!pending) {
+      // Opened directly (e.g. from another tab); track it so checkout can offer a retry
+      savePendingPayment({ orderId, clientSecret, locale, items: [] });
+    } else if (pending.abandonedAt) {
+      updatePendingPayment(orderId, { abandonedAt: undefined });
+    }
+
+    let cancelled = false;
+
+    provider.createSession({ orderId, clientSecret, locale })
+      .then(async (session) => {
+        if (cancelled) {
+          session.destroy();
+          return;
+        }
+        sessionRef.current = session;
+        if (containerRef.current) {
+          session.mount(containerRef.current);
+        }
+
+        if (returnedFromRedirect) {
+          setStage('verifying');
+          await handleResultRef.current(await session.retrieve());
+        } else {
+          setStage('ready');
+        }
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error('Failed to start payment session:', err);
+        setError(t('formUnavailable'));
+        setStage('ready');
+      });
+
+    return () => {
+      cancelled = true;
+      pollingRef.current = false;
+      sessionRef.current?.destroy();
+      sessionRef.current = null;
+    };
+  }, [orderId, clientSecret, locale, provider, returnedFromRedirect, t]);
+
+  // Leaving before the payment settles marks it abandoned so checkout can offer to resume
+  useEffect(() => {
+    if (!orderId) return;
+
+    const handlePageHide = () => {
+      if (!settledRef.current) {
+        updatePendingPayment(orderId, { abandonedAt: Date.now() });
+      }
+    };
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      if (stageRef.current === 'confirming' || stageRef.current === 'action' || stageRef.current === 'verifying') {
+        event.preventDefault();
+        event.returnValue = '';
+      }
+    };
+
+    window.addEventListener('pagehide', handlePageHide);
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide);
+      window.removeEventListener('beforeunload', handleBeforeUnload);
+      handlePageHide();
+    };
+  }, [orderId]);
+
+  const handlePay = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const session = sessionRef.current;
+    if (!session || !orderId || !clientSecret) return;
+
+    setStage('confirming');
+    setError(null);
+
+    try {
+      const returnUrl = `${window.location.origin}/${locale}/payment?order=${encodeURIComponent(orderId)}`;
+      await handleResult(await session.confirm(returnUrl));
+    } catch (err) {
+      console.error('Payment confirmation failed:', err);
+      setError(t('processingFailed'));
+      setStage('ready');
+    }
+  };
+
+  if (stage === 'invalid' || stage === 'expired') {
+    return (
+      <div className="pt-20 min-h-screen flex items-center justify-center" dir={isRTL ? 'rtl' : 'ltr'}>
+        <div className="text-center max-w-md px-4">
+          <Clock className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">
+            {stage === 'expired' ? t('sessionExpired') : t('invalidLink')}
+          </h1>
+          <p className="text-gray-600 mb-6">
+            {t('tryAgainHint')}
+          </p>
+          <Link
+            href={orderId ? `/${locale}/checkout?payment=failed&order=${encodeURIComponent(orderId)}` : `/${locale}/checkout`}
+            className="bg-black text-white px-6 py-3 rounded-lg hover:bg-gray-800 transition-colors"
+          >
+            {t('backToCheckout')}
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const busy = stage === 'loading' || stage === 'confirming' || stage === 'action' || stage === 'verifying';
+
+  return (
+    <div className="pt-20 min-h-screen bg-gray-50" dir={isRTL ? 'rtl' : 'ltr'}>
+      <div className="max-w-xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <button
+            type="button"
+            onClick={() => goToCheckout('cancelled')}
+            disabled={stage === 'confirming' || stage === 'action' || stage === 'verifying'}
+            className="inline-flex items-center space-x-2 rtl:space-x-reverse text-gray-600 hover:text-gray-900 mb-4 disabled:opacity-50"
+          >
+            <ArrowLeft className="w-4 h-4 rtl:rotate-180" />
+            <span>{t('cancelAndReturn')}</span>
+          </button>
+          <h1 className="text-3xl font-bold text-gray-900">{t('title')}</h1>
+          {orderId && (
+            <p className="text-gray-600 mt-2">
+              {t('order')} #{orderId.slice(-8)}
+            </p>
+          )}
+        </div>
+
+        {error && (
+          <motion.div
+            initial={{ opacity: 0, y: -20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-3 rtl:space-x-reverse"
+          >
+            <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+            <p className="text-red-700">{error}</p>
+          </motion.div>
+        )}
+
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-white rounded-lg shadow-sm p-6"
+        >
+          <div className="flex items-center space-x-2 rtl:space-x-reverse mb-6">
+            <CreditCard className="w-5 h-5 text-gray-700" />
+            <h2 className="text-xl font-semibold text-gray-900">
+              {t('cardDetails')}
+            </h2>
+            {provider.id === 'fake' && (
+              <span className="text-xs bg-yellow-100 text-yellow-800 px-2 py-1 rounded">{provider.name}</span>
+            )}
+          </div>
+
+          <form onSubmit={handlePay} className="space-y-6">
+            <div ref={containerRef} className={stage === 'verifying' || stage === 'timeout' ? 'hidden' : ''} />
+
+            {stage === 'action' && (
+              <p className="text-sm text-gray-600">
+                {t('bankVerification')}
+              </p>
+            )}
+
+            {stage === 'verifying' && (
+              <div className="flex flex-col items-center py-8 text-center">
+                <Loader2 className="w-10 h-10 text-gray-700 animate-spin mb-4" />
+                <p className="text-gray-700 font-medium">
+                  {t('confirming')}
+                </p>
+                <p className="text-sm text-gray-500 mt-1">
+                  {t('doNotClose')}
+                </p>
+              </div>
+            )}
+
+            {stage === 'timeout' && (
+              <div className="text-center py-6">
+                <p className="text-gray-700 mb-4">
+                  {t('stillConfirming')}
+                </p>
+                <div className="flex flex-col sm:flex-row gap-3 justify-center">
+                  <button
+                    type="button"
+                    onClick={pollOrderStatus}
+                    className="bg-black text-white px-6 py-3 rounded-lg hover:bg-gray-800 transition-colors"
+                  >
+                    {t('checkAgain')}
+                  </button>
+                  <Link
+                    href={`/${locale}/orders`}
+                    className="bg-gray-100 text-gray-700 px-6 py-3 rounded-lg hover:bg-gray-200 transition-colors"
+                  >
+                    {t('viewOrders')}
+                  </Link>
+                </div>
+              </div>
+            )}
+
+            {stage !== 'verifying' && stage !== 'timeout' && (
+              <button
+                type="submit"
+                disabled={busy}
+                className="w-full bg-black text-white py-4 rounded-full font-semibold hover:bg-gray-800 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center justify-center space-x-2 rtl:space-x-reverse"
+              >
+                {busy && <Loader2 className="w-4 h-4 animate-spin" />}
+                <span>
+                  {stage === 'loading' ? t('loading') : stage === 'ready' ? t('payNow') : t('processing')}
+                </span>
+              </button>
+            )}
+          </form>
+
+          <div className="mt-6 flex items-center space-x-2 rtl:space-x-reverse text-sm text-gray-500">
+            <Shield className="w-4 h-4" />
+            <span>{t('encrypted')}</span>
+          </div>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
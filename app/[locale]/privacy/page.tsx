@@ -159,7 +159,7 @@ export default function PrivacyPage({ params }: PrivacyPageProps) {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
                 </svg>
               </div>
-              {messages.pages?.privacyPolicy?.thirdPartyServices || 'Third-Party Services'}
+              {messages.pages?.privacyPolicy?.thirdParty || 'Third-Party Services'}
             </h2>
             <div className="text-gray-600 dark:text-gray-300 space-y-4">
               <p>
@@ -210,7 +210,7 @@ export default function PrivacyPage({ params }: PrivacyPageProps) {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 4.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
                 </svg>
               </div>
-              {messages.pages?.privacyPolicy?.contactInfo || 'Contact Information'}
+              {messages.pages?.privacyPolicy?.contact || 'Contact Information'}
             </h2>
             <div className="text-gray-600 dark:text-gray-300 space-y-2">
               <p>
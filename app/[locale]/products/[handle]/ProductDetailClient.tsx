@@ -9,10 +9,14 @@ import Link from 'next/link';
 import dynamic from 'next/dynamic';
 import { Suspense } from 'react';
 import { useQuery } from '@tanstack/react-query';
+import { useTranslations } from 'next-intl';
+import { isRTLLocale } from '@/lib/locales';
 import { useCartStore } from '@/lib/store';
 import { useMessages } from '@/hooks/useMessages';
-import { formatPrice, decodeHtmlEntities } from '@/lib/utils';
+import { decodeHtmlEntities } from '@/lib/utils';
+import { useCurrency } from '@/lib/currency-service';
 import { useNotificationStore } from '@/lib/store';
+import { useWishlist } from '@/lib/wishlist';
 import { getOptimizedImageProps, generateGradientBlurDataURL, RESPONSIVE_SIZES, imagePerformance } from '@/lib/image-optimization';
 import WarrantyBadge from '@/components/WarrantyBadge';
 
@@ -100,7 +104,6 @@ export default function ProductDetailClient({
   const [selectedColor, setSelectedColor] = useState('');
   const [quantity, setQuantity] = useState(1);
   const [showNotificationPrompt, setShowNotificationPrompt] = useState(false);
-  const [isWishlisted, setIsWishlisted] = useState(false);
   const [showRatingForm, setShowRatingForm] = useState(false);
   const [editingRating, setEditingRating] = useState(null);
   const [imageLoaded, setImageLoaded] = useState(false);
@@ -108,9 +111,14 @@ export default function ProductDetailClient({
   const router = useRouter();
   const { addItem } = useCartStore();
   const { addNotification } = useNotificationStore();
+  const { isWishlisted: isProductWishlisted, toggle: toggleWishlist } = useWishlist();
+  const { formatDisplayPrice } = useCurrency();
   const messages = useMessages();
+  const tCommon = useTranslations('common');
+  const tWishlist = useTranslations('wishlist');
 
-  const isRTL = locale === 'ar';
+  const isRTL = isRTLLocale(locale);
+  const isWishlisted = isProductWishlisted(product._id);
   const title = isRTL ? product.title?.ar || product.title?.en : product.title?.en || product.title?.ar;
   const description = isRTL ? product.description?.ar || product.description?.en : product.description?.en || product.description?.ar;
 
@@ -199,6 +207,23 @@ export default function ProductDetailClient({
     setShowNotificationPrompt(true);
   };
 
+  const handleToggleWishlist = async () => {
+    try {
+      const added = await toggleWishlist(product);
+      addNotification({
+        type: 'success',
+        title: tCommon('success'),
+        message: added ? tWishlist('productAdded') : tWishlist('productRemoved'),
+      });
+    } catch (error) {
+      addNotification({
+        type: 'error',
+        title: tCommon('error'),
+        message: tWishlist('updateFailed'),
+      });
+    }
+  };
+
   const handleShare = async () => {
     if (navigator.share) {
       try {
@@ -282,7 +307,9 @@ export default function ProductDetailClient({
               
               {/* Wishlist Button */}
               <button
-                onClick={() => setIsWishlisted(!isWishlisted)}
+                onClick={handleToggleWishlist}
+                aria-pressed={isWishlisted}
+                aria-label={isWishlisted ? tWishlist('remove') : tWishlist('add')}
                 className={`absolute top-4 right-4 p-2 rounded-full transition-colors ${
                   isWishlisted 
                     ? 'bg-red-500 text-white' 
@@ -354,7 +381,7 @@ export default function ProductDetailClient({
               </h1>
               <div className="flex items-center space-x-4 rtl:space-x-reverse">
                 <span className="text-3xl font-bold text-gray-900">
-                  {formatPrice(
+                  {formatDisplayPrice(
                     product.promotion?.isOnSale && product.promotion?.salePrice 
                       ? product.promotion.salePrice 
                       : product.price, 
@@ -363,7 +390,7 @@ export default function ProductDetailClient({
                 </span>
                 {product.promotion?.isOnSale && (product.promotion.originalPrice || product.price) && (
                   <span className="text-xl text-gray-500 line-through">
-                    {formatPrice(product.promotion.originalPrice || product.price, product.currency)}
+                    {formatDisplayPrice(product.promotion.originalPrice || product.price, product.currency)}
                   </span>
                 )}
               </div>
@@ -8,8 +8,8 @@ import { Minus, Plus, ShoppingBag, ArrowLeft } from 'lucide-react';
 import Link from 'next/link';
 import dynamic from 'next/dynamic';
 import { Suspense } from 'react';
-import { useCartStore, useLanguageStore } from '@/lib/store';
-import { useMessages } from '@/hooks/useMessages';
+import { useCartStore } from '@/lib/store';
+import { useLanguage, useMessages } from '@/hooks/useMessages';
 import { formatPrice, decodeHtmlEntities } from '@/lib/utils';
 import { useProduct } from '@/hooks/useProducts';
 import { useProducts } from '@/hooks/useProducts';
@@ -40,7 +40,7 @@ export default function ProductPage({ params }: ProductPageProps) {
   
   const { addItem } = useCartStore();
   const { addNotification } = useNotificationStore();
-  const { language } = useLanguageStore();
+  const language = useLanguage();
   const messages = useMessages();
 
   const { product, loading, error } = useProduct(undefined, params.handle);
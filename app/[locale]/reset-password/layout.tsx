@@ -0,0 +1,15 @@
+import { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'Reset Password - Logen Store',
+  description: 'Choose a new password for your account.',
+  robots: 'noindex, nofollow', // Don't index user-specific pages
+};
+
+interface ResetPasswordLayoutProps {
+  children: React.ReactNode;
+}
+
+export default function ResetPasswordLayout({ children }: ResetPasswordLayoutProps) {
+  return children;
+}
@@ -0,0 +1,216 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { Eye, EyeOff, KeyRound, Lock } from 'lucide-react';
+import AuthModal from '@/components/AuthModal';
+import IntelligentLink from '@/components/IntelligentLink';
+import { apiClient } from '@/lib/api';
+import { useAuth } from '@/lib/auth';
+import { isRTLLocale } from '@/lib/locales';
+
+interface ResetPasswordPageProps {
+  params: {
+    locale: string;
+  };
+}
+
+// Landing page for password reset links: checks the link, then asks for the new password
+export default function ResetPasswordPage({ params }: ResetPasswordPageProps) {
+  const { locale } = params;
+  const isRTL = isRTLLocale(locale);
+  const t = useTranslations('resetPassword');
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const { resetPassword } = useAuth();
+
+  const [status, setStatus] = useState<'checking' | 'ready' | 'invalid' | 'done'>('checking');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [cPassword, setCPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
+
+  useEffect(() => {
+    if (!token) {
+      setStatus('invalid');
+      return;
+    }
+
+    let cancelled = false;
+    apiClient.checkResetToken(token)
+      .then((result) => {
+        if (cancelled) return;
+        setEmail(result.email);
+        setStatus('ready');
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error('Reset link check failed:', err);
+        setStatus('invalid');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (password !== cPassword) {
+      setError(t('passwordsMismatch'));
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await resetPassword({ token: token! }, password, cPassword);
+      setStatus('done');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('failed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="pt-20 min-h-screen flex items-center justify-center" dir={isRTL ? 'rtl' : 'ltr'}>
+      <div className="w-full max-w-md px-4">
+        <KeyRound className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+
+        {status === 'checking' && (
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-black mx-auto mb-4"></div>
+            <p className="text-gray-600">{t('checkingLink')}</p>
+          </div>
+        )}
+
+        {status === 'invalid' && (
+          <div className="text-center">
+            <h1 className="text-2xl font-bold text-gray-900 mb-4">
+              {t('invalidTitle')}
+            </h1>
+            <p className="text-gray-600 mb-6">
+              {t('invalidBody')}
+            </p>
+            <button
+              onClick={() => setIsAuthModalOpen(true)}
+              className="bg-black text-white px-6 py-3 rounded-lg hover:bg-gray-800 transition-colors"
+            >
+              {t('signIn')}
+            </button>
+          </div>
+        )}
+
+        {status === 'ready' && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="text-center mb-6">
+              <h1 className="text-2xl font-bold text-gray-900 mb-2">
+                {t('title')}
+              </h1>
+              <p className="text-sm text-gray-600">
+                {t.rich('chooseFor', {
+                  email,
+                  account: (chunks) => <span className="font-medium" dir="ltr">{chunks}</span>,
+                })}
+              </p>
+            </div>
+
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+                {error}
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t('newPassword')}
+              </label>
+              <div className="relative">
+                <Lock className={`absolute ${isRTL ? 'right-3' : 'left-3'} top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5`} />
+                <input
+                  type={showPassword ? 'text' : 'password'}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="w-full px-10 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder={t('newPasswordPlaceholder')}
+                  minLength={8}
+                  required
+                />
+                <button
+                  type="button"
+                  onClick={() => setShowPassword(!showPassword)}
+                  className={`absolute ${isRTL ? 'left-3' : 'right-3'} top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600`}
+                >
+                  {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                </button>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t('confirmPassword')}
+              </label>
+              <div className="relative">
+                <Lock className={`absolute ${isRTL ? 'right-3' : 'left-3'} top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5`} />
+                <input
+                  type={showPassword ? 'text' : 'password'}
+                  value={cPassword}
+                  onChange={(e) => setCPassword(e.target.value)}
+                  className="w-full px-10 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder={t('confirmPasswordPlaceholder')}
+                  minLength={8}
+                  required
+                />
+              </div>
+            </div>
+
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full bg-black text-white py-3 px-4 rounded-lg hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {loading ? t('saving') : t('save')}
+            </button>
+          </form>
+        )}
+
+        {status === 'done' && (
+          <div className="text-center">
+            <h1 className="text-2xl font-bold text-gray-900 mb-4">
+              {t('doneTitle')}
+            </h1>
+            <p className="text-gray-600 mb-6">
+              {t('doneBody')}
+            </p>
+            <div className="flex items-center justify-center gap-3">
+              <button
+                onClick={() => setIsAuthModalOpen(true)}
+                className="bg-black text-white px-6 py-3 rounded-lg hover:bg-gray-800 transition-colors"
+              >
+                {t('signIn')}
+              </button>
+              <IntelligentLink
+                href={`/${locale}`}
+                className="px-6 py-3 rounded-lg border border-gray-300 hover:bg-gray-50 transition-colors"
+              >
+                {t('continueShopping')}
+              </IntelligentLink>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <AuthModal
+        isOpen={isAuthModalOpen}
+        onClose={() => setIsAuthModalOpen(false)}
+        initialMode="login"
+      />
+    </div>
+  );
+}
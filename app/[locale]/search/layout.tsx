@@ -0,0 +1,15 @@
+import { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'Search - Logen Store',
+  description: 'Search the Logen Store catalog by name, category or tag.',
+  robots: 'noindex, follow', // Result pages are endless query permutations
+};
+
+interface SearchLayoutProps {
+  children: React.ReactNode;
+}
+
+export default function SearchLayout({ children }: SearchLayoutProps) {
+  return children;
+}
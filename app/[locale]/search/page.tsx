@@ -0,0 +1,225 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { Search, SlidersHorizontal } from 'lucide-react';
+import { apiClient, handleApiError } from '@/lib/api';
+import { isRTLLocale } from '@/lib/locales';
+import { SearchQuery, SearchResult, SearchSort } from '@/lib/search';
+import { useSearchStore } from '@/lib/store';
+import SearchFilters from '@/components/SearchFilters';
+import SearchResults from '@/components/SearchResults';
+
+interface SearchPageProps {
+  params: {
+    locale: string;
+  };
+}
+
+const PAGE_SIZE = 24;
+
+const SORT_OPTIONS: SearchSort[] = ['relevance', 'price_asc', 'price_desc', 'newest'];
+
+function readNumber(value: string | null): number | undefined {
+  if (value === null || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+// The URL is the source of truth so results can be shared and survive back/forward
+function readQuery(searchParams: URLSearchParams): SearchQuery {
+  return {
+    q: searchParams.get('q') || '',
+    category: searchParams.get('category') || undefined,
+    minPrice: readNumber(searchParams.get('minPrice')),
+    maxPrice: readNumber(searchParams.get('maxPrice')),
+    inStock: searchParams.get('inStock') === 'true' || undefined,
+    onSale: searchParams.get('onSale') === 'true' || undefined,
+    sort: (searchParams.get('sort') as SearchSort) || 'relevance',
+    page: readNumber(searchParams.get('page')) || 1,
+  };
+}
+
+function toSearchParams(query: SearchQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query.q) params.set('q', query.q);
+  if (query.category) params.set('category', query.category);
+  if (query.minPrice !== undefined) params.set('minPrice', String(query.minPrice));
+  if (query.maxPrice !== undefined) params.set('maxPrice', String(query.maxPrice));
+  if (query.inStock) params.set('inStock', 'true');
+  if (query.onSale) params.set('onSale', 'true');
+  if (query.sort && query.sort !== 'relevance') params.set('sort', query.sort);
+  if (query.page && query.page > 1) params.set('page', String(query.page));
+  return params;
+}
+
+export default function SearchPage({ params }: SearchPageProps) {
+  const { locale } = params;
+  const isRTL = isRTLLocale(locale);
+  const t = useTranslations('search');
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const { addRecentSearch } = useSearchStore();
+
+  const query = readQuery(new URLSearchParams(searchParams.toString()));
+  const queryKey = toSearchParams(query).toString();
+
+  const [input, setInput] = useState(query.q || '');
+  const [result, setResult] = useState<SearchResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filtersOpen, setFiltersOpen] = useState(false);
+  const [reloadToken, setReloadToken] = useState(0);
+
+  useEffect(() => {
+    setInput(query.q || '');
+  }, [query.q]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+
+    apiClient
+      .searchProducts({ ...readQuery(new URLSearchParams(queryKey)), limit: PAGE_SIZE }, controller.signal)
+      .then((data) => setResult(data))
+      .catch((err) => {
+        if (err?.name === 'AbortError') return;
+        console.error('Search failed:', err);
+        setError(handleApiError(err));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [queryKey, reloadToken]);
+
+  const updateQuery = useCallback(
+    (changes: Partial<SearchQuery>) => {
+      // Any change other than paging starts again from the first page
+      const next = { ...query, page: 1, ...changes };
+      const nextParams = toSearchParams(next).toString();
+      router.push(nextParams ? `${pathname}?${nextParams}` : pathname, { scroll: changes.page !== undefined });
+    },
+    [query, pathname, router]
+  );
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const q = input.trim();
+    if (q) addRecentSearch(q);
+    updateQuery({ q });
+  };
+
+  const clearFilters = () => {
+    updateQuery({ category: undefined, minPrice: undefined, maxPrice: undefined, inStock: undefined, onSale: undefined });
+  };
+
+  const pagination = result?.pagination;
+  const total = pagination?.total || 0;
+
+  return (
+    <div className="pt-20 min-h-screen bg-gray-50" dir={isRTL ? 'rtl' : 'ltr'}>
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <form onSubmit={handleSubmit} className="relative max-w-2xl mb-6">
+          <Search className="absolute top-1/2 -translate-y-1/2 start-4 w-5 h-5 text-gray-400" />
+          <input
+            type="search"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder={t('placeholder')}
+            className="w-full ps-12 pe-4 py-3 rounded-full border border-gray-300 bg-white focus:outline-none focus:ring-2 focus:ring-black"
+            maxLength={100}
+            aria-label={t('label')}
+          />
+        </form>
+
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold text-gray-900">
+              {query.q ? t('resultsFor', { query: query.q }) : t('allProducts')}
+            </h1>
+            {result && (
+              <p className="text-gray-600 mt-1">
+                {t('count', { count: total })}
+                {result.corrected && (
+                  <span className="ms-2 text-gray-500">
+                    {t('corrected')}
+                  </span>
+                )}
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => setFiltersOpen(!filtersOpen)}
+              className="lg:hidden flex items-center gap-2 px-4 py-2 rounded-full border border-gray-300 bg-white text-sm"
+              aria-expanded={filtersOpen}
+            >
+              <SlidersHorizontal className="w-4 h-4" />
+              {t('filtersToggle')}
+            </button>
+            <select
+              value={query.sort}
+              onChange={(e) => updateQuery({ sort: e.target.value as SearchSort })}
+              className="px-4 py-2 rounded-full border border-gray-300 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-black"
+              aria-label={t('sortBy')}
+            >
+              {SORT_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {t(`sort.${option}`)}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+          <div className={`${filtersOpen ? 'block' : 'hidden'} lg:block bg-white rounded-2xl p-6 shadow-sm h-fit`}>
+            <SearchFilters
+              facets={result?.facets || null}
+              filters={query}
+              onChange={updateQuery}
+              onClear={clearFilters}
+            />
+          </div>
+
+          <div className="lg:col-span-3">
+            <SearchResults
+              products={result?.products || []}
+              loading={loading}
+              error={error}
+              onRetry={() => setReloadToken((token) => token + 1)}
+            />
+
+            {pagination && pagination.totalPages > 1 && (
+              <nav className="flex items-center justify-center gap-4 mt-12" aria-label={t('pagination')}>
+                <button
+                  onClick={() => updateQuery({ page: pagination.page - 1 })}
+                  disabled={pagination.page <= 1 || loading}
+                  className="px-6 py-2 rounded-full border border-gray-300 bg-white disabled:opacity-50"
+                >
+                  {t('previous')}
+                </button>
+                <span className="text-sm text-gray-600">
+                  {t('pageOf', { page: pagination.page, totalPages: pagination.totalPages })}
+                </span>
+                <button
+                  onClick={() => updateQuery({ page: pagination.page + 1 })}
+                  disabled={pagination.page >= pagination.totalPages || loading}
+                  className="px-6 py-2 rounded-full border border-gray-300 bg-white disabled:opacity-50"
+                >
+                  {t('next')}
+                </button>
+              </nav>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
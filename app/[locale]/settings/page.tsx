@@ -1,8 +1,10 @@
 import { Metadata } from 'next';
 import { Suspense } from 'react';
-import { Bell, User, Shield, Globe, CreditCard, Package } from 'lucide-react';
+import { Bell, User, Shield, Globe, CreditCard, Package, Link2 } from 'lucide-react';
 import NotificationSettings from '@/components/NotificationSettings';
+import SocialLogin from '@/components/SocialLogin';
 import { config } from '@/lib/config';
+import { getTranslator } from '@/lib/i18n';
 
 export const metadata: Metadata = {
   title: `Settings - ${config.site.name}`,
@@ -19,7 +21,9 @@ interface SettingsPageProps {
   params: { locale: string };
 }
 
-export default function SettingsPage({ params }: SettingsPageProps) {
+export default async function SettingsPage({ params }: SettingsPageProps) {
+  const t = await getTranslator(params.locale);
+
   return (
     <div className="min-h-screen bg-gray-50 py-8">
       <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -184,6 +188,22 @@ export default function SettingsPage({ params }: SettingsPageProps) {
               </div>
             </section>
 
+            {/* Connected Accounts Section */}
+            <section id="connected-accounts" className="bg-white rounded-lg shadow-sm border border-gray-200">
+              <div className="p-6 border-b border-gray-200">
+                <h3 className="text-xl font-semibold text-gray-900 flex items-center">
+                  <Link2 className="h-5 w-5 mr-2 text-blue-600" />
+                  {t('socialLogin.connectedAccounts')}
+                </h3>
+                <p className="text-gray-600 mt-1">
+                  {t('socialLogin.connectedAccountsHint')}
+                </p>
+              </div>
+              <div className="p-6">
+                <SocialLogin intent="link" returnTo={`/${params.locale}/settings#connected-accounts`} />
+              </div>
+            </section>
+
             {/* Privacy Section */}
             <section id="privacy" className="bg-white rounded-lg shadow-sm border border-gray-200">
               <div className="p-6 border-b border-gray-200">
@@ -1,14 +1,20 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
+import { useTranslations } from 'next-intl';
 import Image from 'next/image';
 import Link from 'next/link';
-import { ArrowLeft, Package, Clock, CheckCircle, XCircle, Truck, CreditCard, Search, AlertCircle, Mail, Phone } from 'lucide-react';
-import { apiClient, handleApiError, Order } from '@/lib/api';
+import { ArrowLeft, Package, Clock, CheckCircle, XCircle, Truck, CreditCard, Search, AlertCircle, Mail, Phone, Ban, ExternalLink } from 'lucide-react';
+import TrackingTimeline from '@/components/TrackingTimeline';
+import { apiClient, handleApiError } from '@/lib/api';
+import type { OrderTracking } from '@/lib/order-tracking';
 import { formatPrice, decodeHtmlEntities } from '@/lib/utils';
 import { useLocale } from '@/hooks/useLocale';
 
+// How often an order that is on its way is checked for new carrier scans
+const TRACKING_POLL_INTERVAL = 60 * 1000;
+
 const statusIcons = {
   pending: Clock,
   pending_cod: Clock,
@@ -18,6 +24,7 @@ const statusIcons = {
   rejected: XCircle,
   paid: CheckCircle,
   failed: XCircle,
+  cancelled: Ban,
 };
 
 const statusColors = {
@@ -29,6 +36,7 @@ const statusColors = {
   rejected: 'text-red-600 bg-red-50 border-red-200',
   paid: 'text-green-600 bg-green-50 border-green-200',
   failed: 'text-red-600 bg-red-50 border-red-200',
+  cancelled: 'text-gray-600 bg-gray-50 border-gray-200',
 };
 
 interface FormData {
@@ -45,7 +53,8 @@ interface FormErrors {
 }
 
 export default function TrackOrderPage() {
-  const { t, formatCurrency, getLocalizedPath } = useLocale();
+  const { t, formatCurrency, formatDate, getLocalizedPath } = useLocale();
+  const tTracking = useTranslations('tracking');
   const [formData, setFormData] = useState<FormData>({
     orderId: '',
     email: '',
@@ -54,7 +63,24 @@ export default function TrackOrderPage() {
   const [formErrors, setFormErrors] = useState<FormErrors>({});
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [order, setOrder] = useState<Order | null>(null);
+  const [order, setOrder] = useState<OrderTracking | null>(null);
+  const [trackedQuery, setTrackedQuery] = useState<{ orderId: string; email?: string; phone?: string } | null>(null);
+
+  // Keep an order in transit up to date; hidden tabs skip the check
+  useEffect(() => {
+    if (!order?.inTransit || !trackedQuery) return;
+
+    const timer = setInterval(async () => {
+      if (document.hidden) return;
+      try {
+        setOrder(await apiClient.trackOrder(trackedQuery));
+      } catch (err) {
+        // Keep showing the last known state; the next check may succeed
+      }
+    }, TRACKING_POLL_INTERVAL);
+
+    return () => clearInterval(timer);
+  }, [order?.inTransit, trackedQuery]);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -75,10 +101,11 @@ export default function TrackOrderPage() {
     }
     
     // Clear errors when user starts typing
-    if (formErrors[name as keyof FormErrors]) {
+    if (formErrors[name as keyof FormErrors] || (name !== 'orderId' && formErrors.contact)) {
       setFormErrors(prev => ({
         ...prev,
-        [name]: undefined
+        [name]: undefined,
+        ...(name !== 'orderId' && { contact: undefined })
       }));
     }
   };
@@ -94,6 +121,11 @@ export default function TrackOrderPage() {
     } else if (!/^[a-zA-Z0-9]{8}$/.test(formData.orderId)) {
       errors.orderId = 'Order ID must contain only letters and numbers';
     }
+
+    // The email or phone proves the order is yours before any details are shown
+    if (!formData.email.trim() && !formData.phone.trim()) {
+      errors.contact = tTracking('contactRequired');
+    }
     
     setFormErrors(errors);
     return Object.keys(errors).length === 0;
@@ -109,6 +141,7 @@ export default function TrackOrderPage() {
     setLoading(true);
     setError(null);
     setOrder(null);
+    setTrackedQuery(null);
     
     try {
       const trackingParams: { orderId: string; email?: string; phone?: string } = {
@@ -125,6 +158,7 @@ export default function TrackOrderPage() {
       
       const result = await apiClient.trackOrder(trackingParams);
       setOrder(result);
+      setTrackedQuery(trackingParams);
     } catch (err) {
       const errorMessage = handleApiError(err);
       setError(errorMessage);
@@ -159,7 +193,7 @@ export default function TrackOrderPage() {
           </Link>
           <h1 className="text-3xl font-bold text-gray-900">Track Your Order</h1>
           <p className="text-gray-600 mt-2">
-            Enter your order details to track your shipment status
+            Enter your order number and the email or phone number you ordered with
           </p>
         </div>
 
@@ -199,7 +233,7 @@ export default function TrackOrderPage() {
               {/* Email Field */}
               <div>
                 <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
-                  Email Address (Optional)
+                  Email Address
                 </label>
                 <div className="relative">
                   <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
@@ -223,7 +257,7 @@ export default function TrackOrderPage() {
               {/* Phone Field */}
               <div>
                 <label htmlFor="phone" className="block text-sm font-medium text-gray-700 mb-2">
-                  Phone Number (Optional)
+                  Phone Number
                 </label>
                 <div className="relative">
                   <Phone className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
@@ -300,7 +334,7 @@ export default function TrackOrderPage() {
             <div className="bg-gray-50 px-6 py-4 border-b">
               <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
                 <div>
-                  <h2 className="text-xl font-semibold text-gray-900">Order #{order._id}</h2>
+                  <h2 className="text-xl font-semibold text-gray-900">Order #{order.orderId.slice(-8)}</h2>
                   <p className="text-gray-600 text-sm mt-1">
                     Placed on {new Date(order.createdAt).toLocaleDateString()}
                   </p>
@@ -311,6 +345,50 @@ export default function TrackOrderPage() {
               </div>
             </div>
 
+            {/* Shipment */}
+            {(order.carrier || order.estimatedDelivery) && (
+              <div className="px-6 py-4 border-b grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                {order.carrier && (
+                  <div>
+                    <p className="text-gray-600">{tTracking('carrier')}</p>
+                    <p className="font-medium text-gray-900">
+                      {order.carrier.name} · {order.carrier.trackingNumber}
+                    </p>
+                    {order.carrier.trackingUrl && (
+                      <a
+                        href={order.carrier.trackingUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center text-blue-600 hover:text-blue-800 mt-1"
+                      >
+                        {tTracking('trackOnCarrier')}
+                        <ExternalLink className="w-3 h-3 ml-1" />
+                      </a>
+                    )}
+                  </div>
+                )}
+                {order.estimatedDelivery && (
+                  <div>
+                    <p className="text-gray-600">{tTracking('estimatedDelivery')}</p>
+                    <p className="font-medium text-gray-900">
+                      {formatDate(order.estimatedDelivery, 'PP')}
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Timeline */}
+            <div className="px-6 py-4 border-b">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-medium text-gray-900">{tTracking('history')}</h3>
+                {order.inTransit && (
+                  <span className="text-xs text-gray-500">{tTracking('autoUpdates')}</span>
+                )}
+              </div>
+              <TrackingTimeline timeline={order.timeline} paymentMethod={order.paymentMethod} />
+            </div>
+
             {/* Order Items */}
             <div className="px-6 py-4">
               <h3 className="text-lg font-medium text-gray-900 mb-4">Order Items</h3>
@@ -320,7 +398,7 @@ export default function TrackOrderPage() {
                     <div key={index} className="flex items-center space-x-4 p-4 bg-gray-50 rounded-lg">
                       <div className="flex-shrink-0">
                         <Image
-                          src={decodeHtmlEntities(item.image)}
+                          src={decodeHtmlEntities(item.image || '/placeholder-image.jpg')}
                           alt={item.title}
                           width={64}
                           height={64}
@@ -373,30 +451,10 @@ export default function TrackOrderPage() {
             {/* Shipping Information */}
             {order.shippingInfo && (
               <div className="px-6 py-4 border-t">
-                <h3 className="text-lg font-medium text-gray-900 mb-4">Shipping Information</h3>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
-                  <div>
-                    <p className="text-gray-600">Name</p>
-                    <p className="font-medium text-gray-900">
-                      {order.shippingInfo.firstName} {order.shippingInfo.lastName}
-                    </p>
-                  </div>
-                  <div>
-                    <p className="text-gray-600">Email</p>
-                    <p className="font-medium text-gray-900">{order.shippingInfo.email}</p>
-                  </div>
-                  <div>
-                    <p className="text-gray-600">Phone</p>
-                    <p className="font-medium text-gray-900">{order.shippingInfo.phone}</p>
-                  </div>
-                  <div>
-                    <p className="text-gray-600">Address</p>
-                    <p className="font-medium text-gray-900">
-                      {order.shippingInfo.address}, {order.shippingInfo.city}
-                      {order.shippingInfo.postalCode && `, ${order.shippingInfo.postalCode}`}
-                    </p>
-                  </div>
-                </div>
+                <h3 className="text-lg font-medium text-gray-900 mb-4">{tTracking('shippingTo')}</h3>
+                <p className="text-sm font-medium text-gray-900">
+                  {order.shippingInfo.firstName} {order.shippingInfo.lastName}, {order.shippingInfo.city}
+                </p>
               </div>
             )}
           </motion.div>
@@ -404,4 +462,4 @@ export default function TrackOrderPage() {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
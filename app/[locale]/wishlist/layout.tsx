@@ -0,0 +1,15 @@
+import { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'My Wishlist - Logen Store',
+  description: 'Products you saved for later at Logen Store.',
+  robots: 'noindex, nofollow', // Don't index user-specific pages
+};
+
+interface WishlistLayoutProps {
+  children: React.ReactNode;
+}
+
+export default function WishlistLayout({ children }: WishlistLayoutProps) {
+  return children;
+}
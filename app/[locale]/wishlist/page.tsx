@@ -0,0 +1,183 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import Image from 'next/image';
+import Link from 'next/link';
+import { Heart, ShoppingBag, Trash2 } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+import { getContentLocale, isRTLLocale } from '@/lib/locales';
+import { useCartStore, useNotificationStore, WishlistItem } from '@/lib/store';
+import { useAuth } from '@/lib/auth';
+import { useWishlist, wishlistService } from '@/lib/wishlist';
+import { decodeHtmlEntities } from '@/lib/utils';
+import { useCurrency } from '@/lib/currency-service';
+
+interface WishlistPageProps {
+  params: {
+    locale: string;
+  };
+}
+
+export default function WishlistPage({ params }: WishlistPageProps) {
+  const { locale } = params;
+  const isRTL = isRTLLocale(locale);
+  const contentLocale = getContentLocale(locale);
+  const t = useTranslations('wishlist');
+  const tCommon = useTranslations('common');
+  const [isClient, setIsClient] = useState(false);
+  const { items, remove } = useWishlist();
+  const { formatDisplayPrice } = useCurrency();
+  const { addItem, openCart } = useCartStore();
+  const { addNotification } = useNotificationStore();
+  const { isAuthenticated } = useAuth();
+
+  useEffect(() => {
+    setIsClient(true);
+  }, []);
+
+  // Pull the account wishlist with current prices and stock
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    wishlistService.loadFromServer();
+  }, [isAuthenticated]);
+
+  const handleRemove = async (item: WishlistItem) => {
+    try {
+      await remove(item.id);
+    } catch (error) {
+      addNotification({
+        type: 'error',
+        title: tCommon('error'),
+        message: t('removeFailed'),
+      });
+    }
+  };
+
+  const handleAddToCart = (item: WishlistItem) => {
+    if (!item.inStock) return;
+
+    addItem({
+      id: item.id,
+      title: item.title[contentLocale] || item.title.en,
+      price: item.price,
+      currency: item.currency,
+      image: item.image,
+    });
+    openCart();
+  };
+
+  // Persisted store is only available after hydration
+  if (!isClient) {
+    return (
+      <div className="pt-20 min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-black"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="pt-20 min-h-screen bg-gray-50" dir={isRTL ? 'rtl' : 'ltr'}>
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.6 }}
+        >
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-gray-900">
+              {t('title')}
+            </h1>
+            <p className="text-gray-600 mt-2">
+              {isAuthenticated
+                ? t('savedToAccount')
+                : t('signInToSync')}
+            </p>
+          </div>
+
+          {items.length === 0 ? (
+            <div className="text-center py-16">
+              <Heart className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+              <h2 className="text-xl font-semibold text-gray-900 mb-2">
+                {t('empty')}
+              </h2>
+              <p className="text-gray-600 mb-6">
+                {t('emptyHint')}
+              </p>
+              <Link
+                href={`/${locale}/collections`}
+                className="bg-black text-white px-6 py-3 rounded-lg hover:bg-gray-800 transition-colors"
+              >
+                {t('startShopping')}
+              </Link>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+              {items.map((item) => {
+                const title = decodeHtmlEntities(item.title[contentLocale] || item.title.en || item.title.ar);
+
+                return (
+                  <motion.div
+                    key={item.id}
+                    layout
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="bg-white rounded-2xl shadow-sm hover:shadow-md transition-shadow overflow-hidden"
+                  >
+                    <Link href={`/${locale}/products/${item.handle}`} className="block">
+                      <div className="relative w-full aspect-square bg-white">
+                        <Image
+                          src={item.image}
+                          alt={title}
+                          fill
+                          sizes="(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 25vw"
+                          style={{ objectFit: 'contain' }}
+                        />
+                      </div>
+                    </Link>
+
+                    <div className="p-4">
+                      <h3 className="font-semibold text-gray-900 mb-2 line-clamp-2 text-sm">{title}</h3>
+                      <div className="flex items-center justify-between mb-4">
+                        <span className="text-lg font-bold text-gray-900">
+                          {formatDisplayPrice(item.price, item.currency)}
+                        </span>
+                        {!item.inStock && (
+                          <span className="text-xs text-red-500 font-medium">
+                            {t('outOfStock')}
+                          </span>
+                        )}
+                      </div>
+
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => handleAddToCart(item)}
+                          disabled={!item.inStock}
+                          className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-lg font-medium transition-colors ${
+                            item.inStock
+                              ? 'bg-black text-white hover:bg-gray-800'
+                              : 'bg-gray-200 text-gray-500 cursor-not-allowed'
+                          }`}
+                        >
+                          <ShoppingBag className="w-4 h-4" />
+                          <span>{t('addToCart')}</span>
+                        </button>
+                        <button
+                          onClick={() => handleRemove(item)}
+                          className="p-2 rounded-lg bg-gray-100 text-gray-600 hover:bg-gray-200 transition-colors"
+                          aria-label={t('remove')}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  </motion.div>
+                );
+              })}
+            </div>
+          )}
+        </motion.div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import { NextRequest } from 'next/server';
+import { proxyToBackend } from '@/lib/backend-proxy';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: { path: string[] };
+}
+
+// Any /api/v1 endpoint without a route of its own here is answered by the backend
+function handler(request: NextRequest, { params }: RouteParams) {
+  return proxyToBackend(request, `v1/${params.path.map(encodeURIComponent).join('/')}`);
+}
+
+export { handler as GET, handler as POST, handler as PUT, handler as PATCH, handler as DELETE };
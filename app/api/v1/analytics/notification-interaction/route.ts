@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { recordCampaignInteraction } from '@/lib/campaigns';
+import { appendJsonLine, resolveDataPath } from '@/lib/file-store';
+import { RateLimiter, getClientIp } from '@/lib/rate-limit';
+
+const interactionLimiter = new RateLimiter({ limit: 60, windowMs: 60 * 1000 });
+
+// Reported by public/sw.js from its notificationclick and notificationclose handlers
+export async function POST(request: NextRequest) {
+  try {
+    if (!interactionLimiter.hit(getClientIp(request)).allowed) {
+      return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const action = typeof body?.action === 'string' ? body.action : '';
+    if (!action) {
+      return NextResponse.json({ error: 'Missing action' }, { status: 400 });
+    }
+
+    const data = body?.data || {};
+    const interaction = {
+      tag: typeof body?.tag === 'string' ? body.tag : undefined,
+      action,
+      type: typeof data.type === 'string' ? data.type : undefined,
+      campaignId: typeof data.campaignId === 'string' ? data.campaignId : undefined,
+      variantId: typeof data.variantId === 'string' ? data.variantId : undefined,
+      timestamp: Number(body?.timestamp) || Date.now()
+    };
+
+    await appendJsonLine(resolveDataPath('notification-interactions.jsonl'), interaction);
+
+    if (interaction.campaignId) {
+      // Action buttons count as clicks; only a dismissal counts as a close
+      await recordCampaignInteraction(
+        interaction.campaignId,
+        interaction.variantId,
+        action === 'close' ? 'close' : 'click'
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error recording notification interaction:', error);
+    return NextResponse.json(
+      { error: 'Failed to record interaction' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api-response';
+import { getContentLocale } from '@/lib/locales';
+import { isPasswordResetError, normalizeEmail, requestPasswordReset } from '@/lib/password-reset';
+import { RateLimiter, getClientIp } from '@/lib/rate-limit';
+
+const forgotPasswordLimiter = new RateLimiter({ limit: 10, windowMs: 60 * 60 * 1000 });
+
+// Sends (or resends) a password reset code and link to the given address
+export async function POST(request: NextRequest) {
+  const clientIp = getClientIp(request);
+  const rateLimit = forgotPasswordLimiter.hit(clientIp);
+  if (!rateLimit.allowed) {
+    return errorResponse(429, 'RATE_LIMITED', 'Too many requests', { retryAfter: rateLimit.retryAfter }, {
+      'Retry-After': String(rateLimit.retryAfter)
+    });
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const email = normalizeEmail(body?.email);
+    if (!email) {
+      return errorResponse(400, 'VALIDATION_ERROR', 'A valid email is required');
+    }
+
+    const result = await requestPasswordReset(email, getContentLocale(body?.locale), clientIp);
+
+    return NextResponse.json({
+      success: true,
+      message: 'If an account exists for this email, a reset code has been sent.',
+      data: result,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    if (isPasswordResetError(error)) {
+      return errorResponse(
+        error.status,
+        error.code,
+        error.message,
+        error.details,
+        error.details?.retryAfter ? { 'Retry-After': String(error.details.retryAfter) } : undefined
+      );
+    }
+
+    console.error('Forgot password error:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Failed to send reset code');
+  }
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getTokenExpiry, setSessionCookies } from '@/lib/session';
 
 // Backend API URL
 const BACKEND_API_URL = process.env.BACKEND_API_URL || 'http://localhost:3000/api';
@@ -44,8 +45,24 @@ export async function POST(request: NextRequest) {
       user: data.data?.user?.email || 'N/A' 
     });
 
-    // Return the backend response
-    return NextResponse.json(data);
+    const { accessToken, refreshToken, ...session } = data.data || {};
+    if (!accessToken) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid response from server'
+        },
+        { status: 502 }
+      );
+    }
+
+    // The tokens go into httpOnly cookies; the browser only gets the user and the expiry
+    const expiry = getTokenExpiry(accessToken);
+    if (!session.expiresAt && expiry) session.expiresAt = new Date(expiry).toISOString();
+
+    const nextResponse = NextResponse.json({ ...data, data: session });
+    setSessionCookies(nextResponse, { accessToken, refreshToken, expiresAt: session.expiresAt });
+    return nextResponse;
 
   } catch (error) {
     console.error('Login API Proxy Error:', error);
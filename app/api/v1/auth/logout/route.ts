@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { clearSessionCookies, getRequestAuthorization } from '@/lib/session';
 
 // Backend API URL
 const BACKEND_API_URL = process.env.BACKEND_API_URL || 'http://localhost:3000/api';
@@ -15,9 +16,9 @@ export async function POST(request: NextRequest) {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        // Forward any authorization headers if present
-        ...(request.headers.get('authorization') && {
-          'authorization': request.headers.get('authorization')!
+        // Forward the session if present
+        ...(getRequestAuthorization(request) && {
+          'authorization': getRequestAuthorization(request)!
         })
       }
     });
@@ -27,7 +28,7 @@ export async function POST(request: NextRequest) {
       const errorText = await response.text();
       console.error('Backend error response:', errorText);
       
-      return NextResponse.json(
+      const errorResponse = NextResponse.json(
         {
           success: false,
           message: `Backend API error: ${response.status} ${response.statusText}`,
@@ -35,6 +36,9 @@ export async function POST(request: NextRequest) {
         },
         { status: response.status }
       );
+      // The browser is signed out even when the backend couldn't revoke the token
+      clearSessionCookies(errorResponse);
+      return errorResponse;
     }
 
     const data = await response.json();
@@ -43,12 +47,13 @@ export async function POST(request: NextRequest) {
       message: data.message 
     });
 
-    // Return the backend response
-    return NextResponse.json(data);
+    const nextResponse = NextResponse.json(data);
+    clearSessionCookies(nextResponse);
+    return nextResponse;
 
   } catch (error) {
     console.error('Logout API Proxy Error:', error);
-    return NextResponse.json(
+    const errorResponse = NextResponse.json(
       {
         success: false,
         message: 'Failed to process logout request',
@@ -56,5 +61,7 @@ export async function POST(request: NextRequest) {
       },
       { status: 500 }
     );
+    clearSessionCookies(errorResponse);
+    return errorResponse;
   }
 }
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { config } from '@/lib/config';
+import {
+  clearOAuthFlowCookie,
+  completeOAuthFlow,
+  getOAuthProvider,
+  isOAuthError,
+  readOAuthFlowCookie,
+  signInWithOAuth,
+} from '@/lib/oauth';
+import { sanitizeReturnTo } from '@/lib/route-policies';
+import { getRequestAuthorization, setSessionCookies } from '@/lib/session';
+
+interface RouteParams {
+  params: { provider: string };
+}
+
+// The provider sends the browser back here with a code (or an error) and the state
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const flow = readOAuthFlowCookie(request);
+  const locale = flow?.locale || config.i18n.defaultLocale;
+
+  // The page that finishes sign-in on the client, or explains what went wrong
+  const result = new URL(`/${locale}/login/callback`, request.url);
+  result.searchParams.set('returnTo', sanitizeReturnTo(flow?.returnTo) || `/${locale}`);
+  result.searchParams.set('provider', params.provider);
+
+  const provider = getOAuthProvider(params.provider);
+  let response: NextResponse;
+
+  try {
+    if (!provider) {
+      result.searchParams.set('error', 'UNKNOWN_PROVIDER');
+      response = NextResponse.redirect(result, 303);
+    } else {
+      const profile = await completeOAuthFlow(provider, flow, request.nextUrl.searchParams);
+      const authorization = flow?.intent === 'link' ? getRequestAuthorization(request) : null;
+      if (flow?.intent === 'link' && !authorization) {
+        result.searchParams.set('error', 'SESSION_REQUIRED');
+        response = NextResponse.redirect(result, 303);
+      } else {
+        const session = await signInWithOAuth(profile, authorization);
+        if (authorization) result.searchParams.set('linked', '1');
+        response = NextResponse.redirect(result, 303);
+        if (!authorization) setSessionCookies(response, session);
+      }
+    }
+  } catch (error) {
+    if (!isOAuthError(error)) console.error('OAuth callback error:', error);
+    result.searchParams.set('error', isOAuthError(error) ? error.code : 'INTERNAL_ERROR');
+    response = NextResponse.redirect(result, 303);
+  }
+
+  clearOAuthFlowCookie(response);
+  return response;
+}
+
+/**
+ * form_post providers (Apple) return with a cross-site POST, which carries no
+ * SameSite=Lax cookies. Re-issuing it as a top-level GET brings the flow and
+ * session cookies along; the code is single-use and bound to the PKCE verifier.
+ */
+export async function POST(request: NextRequest) {
+  const form = await request.formData().catch(() => null);
+  const url = new URL(request.nextUrl.pathname, request.url);
+  form?.forEach((value, key) => {
+    if (typeof value === 'string') url.searchParams.set(key, value);
+  });
+  return NextResponse.redirect(url, 303);
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { config } from '@/lib/config';
+import { createOAuthFlow, getOAuthProvider, setOAuthFlowCookie } from '@/lib/oauth';
+import { RateLimiter, getClientIp } from '@/lib/rate-limit';
+import { sanitizeReturnTo } from '@/lib/route-policies';
+import { getRequestAuthorization } from '@/lib/session';
+
+const startLimiter = new RateLimiter({ limit: 30, windowMs: 15 * 60 * 1000 });
+
+interface RouteParams {
+  params: { provider: string };
+}
+
+// Starts sign-in (or, with intent=link, connecting an account) by sending the browser to the provider
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const searchParams = request.nextUrl.searchParams;
+  const requestedLocale = searchParams.get('locale') || '';
+  const locale = config.i18n.supportedLocales.indexOf(requestedLocale) !== -1
+    ? requestedLocale
+    : config.i18n.defaultLocale;
+  const returnTo = sanitizeReturnTo(searchParams.get('returnTo')) || `/${locale}`;
+  const intent = searchParams.get('intent') === 'link' ? 'link' : 'signin';
+
+  const fail = (code: string) => {
+    const url = new URL(`/${locale}/login/callback`, request.url);
+    url.searchParams.set('returnTo', returnTo);
+    url.searchParams.set('error', code);
+    return NextResponse.redirect(url);
+  };
+
+  const rateLimit = startLimiter.hit(getClientIp(request));
+  if (!rateLimit.allowed) return fail('RATE_LIMITED');
+
+  const provider = getOAuthProvider(params.provider);
+  if (!provider) return fail('UNKNOWN_PROVIDER');
+  if (intent === 'link' && !getRequestAuthorization(request)) return fail('SESSION_REQUIRED');
+
+  const { flow, authorizationUrl } = createOAuthFlow(provider, { returnTo, locale, intent });
+  const response = NextResponse.redirect(authorizationUrl);
+  setOAuthFlowCookie(response, flow);
+  return response;
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api-response';
+import { isMockIdpEnabled, issueMockCode, MockAuthorizationRequest, renderMockAuthorizePage } from '@/lib/oauth-mock-idp';
+
+function notFound() {
+  return errorResponse(404, 'NOT_FOUND', 'Mock identity provider is disabled');
+}
+
+function readAuthorizationRequest(params: { get(name: string): unknown }): MockAuthorizationRequest | null {
+  const value = (name: string) => {
+    const entry = params.get(name);
+    return typeof entry === 'string' ? entry : '';
+  };
+
+  const request = {
+    clientId: value('client_id'),
+    redirectUri: value('redirect_uri'),
+    state: value('state'),
+    codeChallenge: value('code_challenge'),
+    nonce: value('nonce') || undefined,
+  };
+  if (!request.clientId || !request.redirectUri || !request.state || !request.codeChallenge) return null;
+  if (value('code_challenge_method') !== 'S256') return null;
+  return request;
+}
+
+// Authorization endpoint: shows the sign-in form
+export async function GET(request: NextRequest) {
+  if (!isMockIdpEnabled()) return notFound();
+
+  const authorizationRequest = readAuthorizationRequest(request.nextUrl.searchParams);
+  if (!authorizationRequest) {
+    return new NextResponse('Invalid authorization request (PKCE with S256 is required)', { status: 400 });
+  }
+
+  return new NextResponse(renderMockAuthorizePage(authorizationRequest), {
+    headers: { 'Content-Type': 'text/html; charset=utf-8' },
+  });
+}
+
+// The form's answer: back to the client with a code, or with access_denied
+export async function POST(request: NextRequest) {
+  if (!isMockIdpEnabled()) return notFound();
+
+  const form = await request.formData().catch(() => null);
+  const authorizationRequest = form && readAuthorizationRequest(form);
+  if (!form || !authorizationRequest) {
+    return new NextResponse('Invalid authorization request', { status: 400 });
+  }
+
+  const redirect = new URL(authorizationRequest.redirectUri);
+  redirect.searchParams.set('state', authorizationRequest.state);
+
+  const email = form.get('email');
+  if (form.get('decision') !== 'allow' || typeof email !== 'string' || !email) {
+    redirect.searchParams.set('error', 'access_denied');
+  } else {
+    const name = form.get('name');
+    redirect.searchParams.set('code', issueMockCode(authorizationRequest, {
+      email: email.trim().toLowerCase(),
+      name: typeof name === 'string' ? name : '',
+      emailVerified: form.get('email_verified') === 'true',
+    }));
+  }
+
+  return NextResponse.redirect(redirect, 303);
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { exchangeMockCode, isMockIdpEnabled, isMockIdpError } from '@/lib/oauth-mock-idp';
+
+// Token endpoint, answering in the OAuth error format rather than the API one
+export async function POST(request: NextRequest) {
+  if (!isMockIdpEnabled()) {
+    return NextResponse.json({ error: 'invalid_client', error_description: 'Mock identity provider is disabled' }, { status: 404 });
+  }
+
+  const form = await request.formData().catch(() => null);
+  const value = (name: string) => {
+    const entry = form?.get(name);
+    return typeof entry === 'string' ? entry : '';
+  };
+
+  if (value('grant_type') !== 'authorization_code' || !value('code') || !value('code_verifier')) {
+    return NextResponse.json({ error: 'invalid_request', error_description: 'code and code_verifier are required' }, { status: 400 });
+  }
+
+  try {
+    const tokens = exchangeMockCode({
+      code: value('code'),
+      codeVerifier: value('code_verifier'),
+      clientId: value('client_id'),
+      redirectUri: value('redirect_uri'),
+    });
+    return NextResponse.json(tokens, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    if (isMockIdpError(error)) {
+      return NextResponse.json({ error: error.code, error_description: error.message }, { status: 400 });
+    }
+    console.error('Mock token endpoint error:', error);
+    return NextResponse.json({ error: 'server_error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { listOAuthProviders } from '@/lib/oauth';
+
+export const dynamic = 'force-dynamic';
+
+// Providers with credentials configured, for the sign-in buttons
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    data: { providers: listOAuthProviders() },
+    timestamp: new Date().toISOString()
+  });
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getRequestAuthorization } from '@/lib/session';
 
 // Backend API URL
 const BACKEND_API_URL = process.env.BACKEND_API_URL || 'http://localhost:3000/api';
@@ -15,9 +16,9 @@ export async function GET(request: NextRequest) {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
-        // Forward any authorization headers if present
-        ...(request.headers.get('authorization') && {
-          'authorization': request.headers.get('authorization')!
+        // Forward the session if present
+        ...(getRequestAuthorization(request) && {
+          'authorization': getRequestAuthorization(request)!
         })
       }
     });
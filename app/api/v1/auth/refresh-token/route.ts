@@ -1,12 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { clearSessionCookies, getTokenExpiry, REFRESH_COOKIE, setSessionCookies } from '@/lib/session';
 
 // Backend API URL
 const BACKEND_API_URL = process.env.BACKEND_API_URL || 'http://localhost:3000/api';
 
 export async function POST(request: NextRequest) {
   try {
-    // Get the request body
-    const body = await request.json();
+    // Browsers send the refresh cookie; other clients may still post the token
+    const body = await request.json().catch(() => ({}));
+    const refreshToken = request.cookies.get(REFRESH_COOKIE)?.value || body?.refreshToken;
+    if (!refreshToken) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'No session to refresh'
+        },
+        { status: 401 }
+      );
+    }
     
     // Build the backend URL - use v1 path since that's where the actual implementation is
     const backendUrl = `${BACKEND_API_URL}/v1/auth/refresh-token`;
@@ -19,7 +30,7 @@ export async function POST(request: NextRequest) {
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify(body)
+      body: JSON.stringify({ refreshToken })
     });
 
     if (!response.ok) {
@@ -27,7 +38,7 @@ export async function POST(request: NextRequest) {
       const errorText = await response.text();
       console.error('Backend error response:', errorText);
       
-      return NextResponse.json(
+      const errorResponse = NextResponse.json(
         {
           success: false,
           message: `Backend API error: ${response.status} ${response.statusText}`,
@@ -35,6 +46,11 @@ export async function POST(request: NextRequest) {
         },
         { status: response.status }
       );
+      // A rejected refresh token ends the session
+      if (response.status === 401 || response.status === 403) {
+        clearSessionCookies(errorResponse);
+      }
+      return errorResponse;
     }
 
     const data = await response.json();
@@ -42,8 +58,28 @@ export async function POST(request: NextRequest) {
       success: data.success 
     });
 
-    // Return the backend response
-    return NextResponse.json(data);
+    const { accessToken, refreshToken: nextRefreshToken, ...session } = data.data || {};
+    if (!accessToken) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid response from server'
+        },
+        { status: 502 }
+      );
+    }
+
+    // The browser schedules its next refresh from the expiry
+    const expiry = getTokenExpiry(accessToken);
+    if (!session.expiresAt && expiry) session.expiresAt = new Date(expiry).toISOString();
+
+    const nextResponse = NextResponse.json({ ...data, data: session });
+    setSessionCookies(nextResponse, {
+      accessToken,
+      refreshToken: nextRefreshToken || (body?.refreshToken === refreshToken ? refreshToken : undefined),
+      expiresAt: session.expiresAt
+    });
+    return nextResponse;
 
   } catch (error) {
     console.error('Refresh Token API Proxy Error:', error);
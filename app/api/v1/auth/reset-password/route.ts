@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api-response';
+import {
+  checkResetToken,
+  isPasswordResetError,
+  normalizeEmail,
+  PasswordResetError,
+  resetPassword,
+} from '@/lib/password-reset';
+import { RateLimiter, getClientIp } from '@/lib/rate-limit';
+import { clearSessionCookies } from '@/lib/session';
+
+// The backend locks out wrong codes per address and client IP; this only slows down sweeps across addresses
+const resetLimiter = new RateLimiter({ limit: 20, windowMs: 15 * 60 * 1000 });
+
+function passwordResetErrorResponse(error: PasswordResetError) {
+  return errorResponse(
+    error.status,
+    error.code,
+    error.message,
+    error.details,
+    error.details?.retryAfter ? { 'Retry-After': String(error.details.retryAfter) } : undefined
+  );
+}
+
+function rateLimitedResponse(retryAfter: number) {
+  return errorResponse(429, 'RATE_LIMITED', 'Too many requests', { retryAfter }, { 'Retry-After': String(retryAfter) });
+}
+
+// Checks a reset link so the page can show the account before asking for a password
+export async function GET(request: NextRequest) {
+  const rateLimit = resetLimiter.hit(getClientIp(request));
+  if (!rateLimit.allowed) return rateLimitedResponse(rateLimit.retryAfter);
+
+  try {
+    const result = await checkResetToken(request.nextUrl.searchParams.get('token'));
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    if (isPasswordResetError(error)) return passwordResetErrorResponse(error);
+
+    console.error('Reset link check error:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Failed to check reset link');
+  }
+}
+
+// Sets a new password with either { email, code } or { token } from a reset link
+export async function POST(request: NextRequest) {
+  const clientIp = getClientIp(request);
+  const rateLimit = resetLimiter.hit(clientIp);
+  if (!rateLimit.allowed) return rateLimitedResponse(rateLimit.retryAfter);
+
+  try {
+    const body = await request.json().catch(() => null);
+    const password = typeof body?.password === 'string' ? body.password : '';
+    const email = normalizeEmail(body?.email);
+    const token = typeof body?.token === 'string' ? body.token : undefined;
+    const code = typeof body?.code === 'string' ? body.code.trim() : '';
+
+    if (!token && (!email || !/^\d{6}$/.test(code))) {
+      return errorResponse(400, 'VALIDATION_ERROR', 'A reset link or an email and 6-digit code are required');
+    }
+    if (password !== body?.cPassword) {
+      return errorResponse(400, 'VALIDATION_ERROR', 'Passwords do not match');
+    }
+
+    await resetPassword(token ? { token } : { email: email!, code }, password, clientIp);
+
+    // The backend revoked every session, so drop this browser's cookies too
+    const response = NextResponse.json({
+      success: true,
+      message: 'Password reset successfully. Please sign in with your new password.',
+      timestamp: new Date().toISOString()
+    });
+    clearSessionCookies(response);
+    return response;
+  } catch (error) {
+    if (isPasswordResetError(error)) return passwordResetErrorResponse(error);
+
+    console.error('Reset password error:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Failed to reset password');
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getAccountCart,
+  isAccountCartError,
+  mergeCartItems,
+  normalizeCartItems,
+  revalidateCartItems,
+  saveAccountCart
+} from '@/lib/account-cart';
+import { errorResponse } from '@/lib/api-response';
+import { getRequestAuthorization } from '@/lib/session';
+
+// Merges the guest cart into the account cart after login, see mergeCartItems for the rules
+export async function POST(request: NextRequest) {
+  const authorization = getRequestAuthorization(request);
+  if (!authorization) {
+    return errorResponse(401, 'UNAUTHORIZED', 'Authentication required');
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const guestItems = normalizeCartItems(body?.items);
+
+    const account = await getAccountCart(authorization);
+    const { items, changes } = await revalidateCartItems(mergeCartItems(account.items, guestItems));
+    const saved = await saveAccountCart(authorization, items);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        items: saved.items,
+        updatedAt: saved.updatedAt,
+        changes
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Cart Merge API Proxy Error:', error);
+    if (isAccountCartError(error)) {
+      return NextResponse.json(error.body || {}, { status: error.status });
+    }
+    return errorResponse(500, 'PROXY_ERROR', 'Failed to merge cart', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { errorResponse } from '@/lib/api-response';
+import { getCartRecoveryStats } from '@/lib/cart-recovery';
+
+// Reminder, restore and attributed conversion totals for abandoned cart recovery
+export async function GET(request: NextRequest) {
+  const denied = await requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const stats = await getCartRecoveryStats();
+
+    return NextResponse.json({
+      success: true,
+      data: stats,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error loading cart recovery stats:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Failed to load cart recovery stats');
+  }
+}
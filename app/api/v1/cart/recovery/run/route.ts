@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { runCartRecovery } from '@/lib/cart-recovery';
+
+// Entry point for an external cron on deployments without a long-running process
+export async function POST(request: NextRequest) {
+  const denied = await requireAdmin(request);
+  if (denied) return denied;
+
+  await runCartRecovery();
+
+  return NextResponse.json({
+    success: true,
+    message: 'Cart recovery run completed',
+    timestamp: new Date().toISOString()
+  });
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api-response';
+import { restoreCart } from '@/lib/cart-recovery';
+import { RateLimiter, getClientIp } from '@/lib/rate-limit';
+
+const restoreLimiter = new RateLimiter({ limit: 20, windowMs: 60 * 1000 });
+
+// Resolves a reminder's restore link into the exact cart it was sent for
+export async function GET(request: NextRequest) {
+  if (!restoreLimiter.hit(getClientIp(request)).allowed) {
+    return errorResponse(429, 'RATE_LIMITED', 'Too many requests');
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const cart = await restoreCart(searchParams.get('token') || '', searchParams.get('channel') || undefined);
+
+    if (!cart) {
+      return errorResponse(404, 'NOT_FOUND', 'This cart link has expired or is invalid');
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: cart,
+        timestamp: new Date().toISOString()
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('Error restoring cart:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Failed to restore cart');
+  }
+}
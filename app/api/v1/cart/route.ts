@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getAccountCart,
+  isAccountCartError,
+  normalizeCartItems,
+  revalidateCartItems,
+  saveAccountCart
+} from '@/lib/account-cart';
+import { errorResponse } from '@/lib/api-response';
+import { getRequestAuthorization } from '@/lib/session';
+
+function backendError(error: unknown, message: string) {
+  if (isAccountCartError(error)) {
+    return NextResponse.json(error.body || {}, { status: error.status });
+  }
+  return errorResponse(500, 'PROXY_ERROR', message, error instanceof Error ? error.message : 'Unknown error');
+}
+
+// The account cart, re-priced against the live catalog
+export async function GET(request: NextRequest) {
+  const authorization = getRequestAuthorization(request);
+  if (!authorization) {
+    return errorResponse(401, 'UNAUTHORIZED', 'Authentication required');
+  }
+
+  try {
+    const cart = await getAccountCart(authorization);
+    const { items, changes } = await revalidateCartItems(cart.items);
+
+    // Persist the corrections so every device sees the same cart
+    const saved = changes.length > 0 ? await saveAccountCart(authorization, items) : cart;
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        items: saved.items,
+        updatedAt: saved.updatedAt,
+        changes
+      },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Cart API Proxy Error:', error);
+    return backendError(error, 'Failed to fetch cart from backend');
+  }
+}
+
+// Replaces the account cart with the client's copy
+export async function PUT(request: NextRequest) {
+  const authorization = getRequestAuthorization(request);
+  if (!authorization) {
+    return errorResponse(401, 'UNAUTHORIZED', 'Authentication required');
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!Array.isArray(body?.items)) {
+      return errorResponse(400, 'VALIDATION_ERROR', 'items must be an array');
+    }
+
+    const saved = await saveAccountCart(authorization, normalizeCartItems(body.items));
+
+    return NextResponse.json({
+      success: true,
+      data: saved,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Save Cart API Proxy Error:', error);
+    return backendError(error, 'Failed to save cart');
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/admin-auth';
+import { errorResponse } from '@/lib/api-response';
+import { ensureCartRecoveryScheduler, recordCartCheckout, recordCartSnapshot } from '@/lib/cart-recovery';
+import { RateLimiter, getClientIp } from '@/lib/rate-limit';
+
+const syncLimiter = new RateLimiter({ limit: 60, windowMs: 60 * 1000 });
+
+/**
+ * Receives cart events from lib/background-sync.ts. Full snapshots and
+ * checkouts feed abandoned cart recovery; per-item updates are acknowledged
+ * only, since the snapshot that follows them carries the whole cart.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!syncLimiter.hit(getClientIp(request)).allowed) {
+      return errorResponse(429, 'RATE_LIMITED', 'Too many requests');
+    }
+
+    const body = await request.json().catch(() => null);
+    const data = body?.data || {};
+    if (typeof body?.type !== 'string') {
+      return errorResponse(400, 'VALIDATION_ERROR', 'Missing sync type');
+    }
+
+    ensureCartRecoveryScheduler();
+
+    if (body.type === 'cart-snapshot') {
+      if (typeof data.cartId !== 'string' || !Array.isArray(data.items)) {
+        return errorResponse(400, 'VALIDATION_ERROR', 'Cart id and items are required');
+      }
+
+      // Identity comes from the session, never from the payload
+      const user = await getRequestUser(request);
+      await recordCartSnapshot(
+        {
+          cartId: data.cartId,
+          items: data.items,
+          locale: data.locale,
+          pushEndpoint: typeof data.pushEndpoint === 'string' ? data.pushEndpoint : undefined
+        },
+        { userId: user?.id, email: user?.email }
+      );
+    } else if (body.type === 'cart-checkout') {
+      if (typeof data.cartId !== 'string' || typeof data.orderId !== 'string') {
+        return errorResponse(400, 'VALIDATION_ERROR', 'Cart id and order id are required');
+      }
+      await recordCartCheckout(data.cartId, data.orderId);
+    }
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error syncing cart:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Failed to sync cart');
+  }
+}
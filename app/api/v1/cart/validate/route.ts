@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { normalizeCartItems, revalidateCartItems } from '@/lib/account-cart';
+import { errorResponse } from '@/lib/api-response';
+import { RateLimiter, getClientIp } from '@/lib/rate-limit';
+
+const validateLimiter = new RateLimiter({ limit: 30, windowMs: 60 * 1000 });
+
+// Re-prices any cart (guest or account) against the live catalog before checkout
+export async function POST(request: NextRequest) {
+  if (!validateLimiter.hit(getClientIp(request)).allowed) {
+    return errorResponse(429, 'RATE_LIMITED', 'Too many requests');
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!Array.isArray(body?.items)) {
+      return errorResponse(400, 'VALIDATION_ERROR', 'items must be an array');
+    }
+
+    const result = await revalidateCartItems(normalizeCartItems(body.items));
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Cart validation error:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Failed to validate cart');
+  }
+}
@@ -1,89 +1,50 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { v4 as uuidv4 } from 'uuid';
-
-// Mock database - in a real app, this would be a proper database
-const orders: any[] = [];
+import { errorResponse } from '@/lib/api-response';
+import { isOrderServiceError, placeOrder, toCheckoutResponse } from '@/lib/order-service';
+import { isPricingError } from '@/lib/pricing';
+import { fetchSessionUser, getRequestAuthorization } from '@/lib/session';
 
 export async function POST(request: NextRequest) {
+  const authorization = getRequestAuthorization(request);
+  if (!authorization) {
+    return errorResponse(401, 'UNAUTHORIZED', 'Authentication required');
+  }
+
   try {
     const body = await request.json();
-    const { 
-      items, 
-      productName, 
-      paymentMethod, 
-      currency, 
-      idempotencyKey,
-      couponCode,
-      notes 
-    } = body;
-
-    // In a real app, you would extract user info from JWT token
-    // For now, we'll use mock user data
-    const userId = 'auth_user_123';
-    const userInfo = {
-      firstName: 'John',
-      lastName: 'Doe',
-      email: 'john.doe@example.com',
-      phone: '+1234567890',
-      address: '123 Main St',
-      city: 'Cairo',
-      postalCode: '12345'
-    };
 
-    // Validate required fields
-    if (!items || !Array.isArray(items) || items.length === 0) {
-      return NextResponse.json(
-        {
-          success: false,
-          message: 'Items are required'
-        },
-        { status: 400 }
-      );
+    const user = await fetchSessionUser(authorization);
+    if (!user) {
+      return errorResponse(401, 'UNAUTHORIZED', 'Your session has expired, please sign in again');
     }
 
-    // Calculate total amount
-    const totalAmount = items.reduce((sum: number, item: any) => {
-      return sum + (item.price * item.quantity);
-    }, 0);
-
-    // Create order
-    const orderId = uuidv4();
-    const order = {
-      _id: orderId,
-      userId,
-      productName: productName || items.map((item: any) => item.title).join(', '),
-      items,
-      shippingInfo: userInfo,
-      totalAmount,
-      currency: currency || 'EGP',
-      status: paymentMethod === 'cash' ? 'pending_cod' : 'pending',
-      paymentMethod,
-      paymentGateway: paymentMethod === 'cash' ? 'cod' : 'stripe',
-      createdAt: new Date().toISOString(),
-      couponCode,
-      notes,
-      idempotencyKey
-    };
-
-    // Store order (in real app, save to database)
-    orders.push(order);
-
-    console.log('Authenticated order created:', orderId);
-
-    // Return success response
-    return NextResponse.json({
-      success: true,
-      message: 'Order placed successfully',
-      orderId,
-      userId,
-      totalAmount,
-      currency: currency || 'EGP',
-      status: order.status,
-      clientSecret: paymentMethod === 'card' ? `pi_${orderId}_secret` : undefined,
-      paymentToken: paymentMethod === 'card' ? `tok_${orderId}` : undefined
+    // The account holds the contact details; the checkout form only asks where to deliver
+    const [firstName, ...lastName] = (user.userName || '').trim().split(/\s+/);
+    const placed = await placeOrder(body, {
+      userId: user.id,
+      shippingInfo: {
+        firstName: firstName || user.email,
+        lastName: lastName.join(' '),
+        email: user.email,
+        phone: String(body?.shippingInfo?.phone || ''),
+        address: String(body?.shippingInfo?.address || ''),
+        city: String(body?.shippingInfo?.city || ''),
+        postalCode: body?.shippingInfo?.postalCode ? String(body.shippingInfo.postalCode) : undefined,
+        country: body?.shippingInfo?.country ? String(body.shippingInfo.country).toUpperCase() : undefined
+      },
+      authorization
     });
 
+    return NextResponse.json(toCheckoutResponse(placed));
+
   } catch (error) {
+    if (isPricingError(error)) {
+      return errorResponse(400, error.code, error.message);
+    }
+    if (isOrderServiceError(error)) {
+      return errorResponse(error.status, error.code, error.message, error.details);
+    }
+
     console.error('Authenticated Checkout API Error:', error);
     return NextResponse.json(
       {
@@ -93,4 +54,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -1,8 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-// Mock database - in a real app, this would be a proper database
-// This should be shared with the checkout routes
-const orders: any[] = [];
+import { errorResponse } from '@/lib/api-response';
+import { getOrderStatus, isOrderServiceError } from '@/lib/order-service';
+import { getRequestAuthorization } from '@/lib/session';
 
 export async function GET(
   request: NextRequest,
@@ -12,58 +11,29 @@ export async function GET(
     const orderId = params.orderId;
 
     if (!orderId) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: {
-            code: 'MISSING_ORDER_ID',
-            message: 'Order ID is required'
-          }
-        },
-        { status: 400 }
-      );
+      return errorResponse(400, 'MISSING_ORDER_ID', 'Order ID is required');
     }
 
-    // Find order by ID
-    const order = orders.find(o => o._id === orderId);
+    const status = await getOrderStatus(orderId, getRequestAuthorization(request));
 
-    if (!order) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: {
-            code: 'ORDER_NOT_FOUND',
-            message: 'Order not found'
-          }
-        },
-        { status: 404 }
-      );
+    if (!status) {
+      return errorResponse(404, 'ORDER_NOT_FOUND', 'Order not found');
     }
 
-    // Return order status
-    return NextResponse.json({
-      success: true,
-      data: {
-        orderId: order._id,
-        status: order.status,
-        totalAmount: order.totalAmount,
-        currency: order.currency,
-        paymentGateway: order.paymentGateway,
-        createdAt: order.createdAt
-      }
-    });
-
-  } catch (error) {
-    console.error('Order Status API Error:', error);
     return NextResponse.json(
       {
-        success: false,
-        error: {
-          code: 'INTERNAL_ERROR',
-          message: 'Failed to fetch order status'
-        }
+        success: true,
+        data: status
       },
-      { status: 500 }
+      { headers: { 'Cache-Control': 'private, no-store' } }
     );
+
+  } catch (error) {
+    if (isOrderServiceError(error)) {
+      return errorResponse(error.status, error.code, error.message);
+    }
+
+    console.error('Order Status API Error:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Failed to fetch order status');
   }
-}
\ No newline at end of file
+}
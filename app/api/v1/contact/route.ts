@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { errorResponse } from '@/lib/api-response';
+import {
+  deliverContactSubmission,
+  isContactSubmissionDelivered,
+  isValidSubmissionId,
+  detectContactSpam,
+  normalizeContactSubmission,
+  validateContactSubmission,
+} from '@/lib/contact';
+import { RateLimiter, getClientIp } from '@/lib/rate-limit';
+
+// Limits are per server instance; the backend proxy applies its own as well
+const ipLimiter = new RateLimiter({ limit: 5, windowMs: 10 * 60 * 1000 });
+const emailLimiter = new RateLimiter({ limit: 3, windowMs: 60 * 60 * 1000 });
+
+function rateLimitedResponse(retryAfter: number) {
+  return errorResponse(
+    429,
+    'RATE_LIMITED',
+    'Too many messages. Please try again later.',
+    { retryAfter },
+    { 'Retry-After': retryAfter.toString() }
+  );
+}
+
+// Accept direct submissions as well as background sync replays,
+// which wrap the form fields as { formType, fields } or { data: { fields } }
+function unwrapPayload(body: any): Record<string, any> {
+  if (body?.data?.fields && typeof body.data.fields === 'object') {
+    return body.data.fields;
+  }
+  if (body?.fields && typeof body.fields === 'object') {
+    return body.fields;
+  }
+  return body || {};
+}
+
+export async function POST(request: NextRequest) {
+  // Every attempt counts, spam and invalid ones included, before any work is done
+  const ip = getClientIp(request);
+  const ipLimit = ipLimiter.hit(ip);
+  if (!ipLimit.allowed) {
+    return rateLimitedResponse(ipLimit.retryAfter);
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return errorResponse(400, 'INVALID_BODY', 'Request body must be a JSON object');
+    }
+
+    const payload = unwrapPayload(body);
+
+    const spamReason = detectContactSpam(payload);
+    if (spamReason) {
+      console.warn('Contact submission rejected as spam:', { ip, reason: spamReason });
+      return errorResponse(422, 'SPAM_REJECTED', 'Your message could not be accepted');
+    }
+
+    const validation = validateContactSubmission(payload);
+    if (!validation.valid) {
+      return errorResponse(400, 'VALIDATION_ERROR', 'Please correct the highlighted fields', validation.errors);
+    }
+
+    const headerKey = request.headers.get('idempotency-key');
+    const submissionId = payload.submissionId
+      || (isValidSubmissionId(headerKey) ? headerKey : uuidv4());
+    const submission = normalizeContactSubmission(payload, { submissionId, ip });
+
+    const emailLimit = emailLimiter.hit(submission.email);
+    if (!emailLimit.allowed) {
+      return rateLimitedResponse(emailLimit.retryAfter);
+    }
+
+    // Replays of an already delivered submission are acknowledged without re-sending
+    if (await isContactSubmissionDelivered(submissionId)) {
+      return NextResponse.json({
+        success: true,
+        message: 'Message sent successfully',
+        data: {
+          submissionId,
+          duplicate: true
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const result = await deliverContactSubmission(submission);
+
+    if (!result.duplicate) {
+      console.log(`Contact submission ${submissionId} delivered via ${result.backend}`);
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Message sent successfully',
+      data: {
+        submissionId,
+        duplicate: result.duplicate
+      },
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Contact API Error:', error);
+    return errorResponse(
+      502,
+      'DELIVERY_FAILED',
+      'Failed to send message',
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
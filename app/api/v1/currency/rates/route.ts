@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api-response';
+import { getExchangeRates } from '@/lib/exchange-rates';
+import { CACHE_DURATIONS } from '@/lib/cache';
+
+// Re-render at most hourly; the provider keeps its own in-memory cache between renders
+export const revalidate = 3600;
+
+export async function GET() {
+  try {
+    const rates = await getExchangeRates();
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Exchange rates retrieved successfully',
+        data: rates,
+        timestamp: new Date().toISOString()
+      },
+      {
+        headers: {
+          'Cache-Control': `public, s-maxage=${CACHE_DURATIONS.LONG}, stale-while-revalidate=${CACHE_DURATIONS.VERY_LONG}`
+        }
+      }
+    );
+  } catch (error) {
+    console.error('Exchange Rates API Error:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Failed to retrieve exchange rates');
+  }
+}
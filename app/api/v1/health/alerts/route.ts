@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { errorResponse } from '@/lib/api-response';
+import {
+  getAlertRules,
+  getRecentAlerts,
+  isAlertRuleValidationError,
+  saveAlertRules,
+} from '@/lib/health-alerts';
+
+export const dynamic = 'force-dynamic';
+
+// Alert rules, whether they are the built-in defaults, and the latest alerts fired
+export async function GET(request: NextRequest) {
+  const denied = await requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const [{ rules, defaults }, recent] = await Promise.all([getAlertRules(), getRecentAlerts()]);
+
+    return NextResponse.json({
+      success: true,
+      data: { rules, defaults, recent },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error listing health alert rules:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Failed to list alert rules');
+  }
+}
+
+// Replaces every rule: { "rules": [...] }
+export async function PUT(request: NextRequest) {
+  const denied = await requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return errorResponse(400, 'INVALID_BODY', 'Request body must be a JSON object');
+    }
+
+    const rules = await saveAlertRules(body.rules);
+
+    return NextResponse.json({
+      success: true,
+      data: { rules, defaults: false },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    if (isAlertRuleValidationError(error)) {
+      return errorResponse(400, 'VALIDATION_ERROR', 'Invalid alert rules', error.details);
+    }
+    console.error('Error saving health alert rules:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Failed to save alert rules');
+  }
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { checkLiveness } from '@/lib/health-checks';
+
+export const dynamic = 'force-dynamic';
+
+// Kubernetes liveness probe: 503 when the process should be restarted
+export async function GET() {
+  const report = await checkLiveness();
+  return NextResponse.json(report, {
+    status: report.status === 'healthy' ? 200 : 503,
+    headers: { 'Cache-Control': 'no-store' },
+  });
+}
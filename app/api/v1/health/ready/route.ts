@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { checkReadiness } from '@/lib/health-checks';
+
+export const dynamic = 'force-dynamic';
+
+// Kubernetes readiness probe: 503 takes the pod out of the load balancer until its dependencies answer
+export async function GET() {
+  const report = await checkReadiness();
+  return NextResponse.json(report, {
+    status: report.status === 'healthy' ? 200 : 503,
+    headers: { 'Cache-Control': 'no-store' },
+  });
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getPushSubscriptionStore,
+  getSubscriptionId,
+  normalizeAudienceProfile,
+} from '@/lib/push-subscriptions';
+import { getIndexedProducts } from '@/lib/search-index';
+import { ensureCampaignScheduler } from '@/lib/campaigns';
+import { RateLimiter, getClientIp } from '@/lib/rate-limit';
+
+const activityLimiter = new RateLimiter({ limit: 30, windowMs: 60 * 1000 });
+const MAX_PURCHASED_PRODUCTS = 50;
+
+/**
+ * Keeps the audience profile behind a push subscription current for campaign
+ * segments: locale, timezone, last activity, cart size and purchased categories
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!activityLimiter.hit(getClientIp(request)).allowed) {
+      return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (typeof body?.endpoint !== 'string') {
+      return NextResponse.json({ error: 'Missing endpoint' }, { status: 400 });
+    }
+
+    ensureCampaignScheduler();
+    const subscriptionStore = getPushSubscriptionStore();
+    const record = await subscriptionStore.get(getSubscriptionId(body.endpoint));
+    if (!record) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 });
+    }
+
+    // Categories come from the catalog, never from the client
+    let purchasedCategories: string[] | undefined;
+    if (Array.isArray(body.purchasedProductIds) && body.purchasedProductIds.length > 0) {
+      const products = await getIndexedProducts(
+        body.purchasedProductIds.filter((id: unknown) => typeof id === 'string').slice(0, MAX_PURCHASED_PRODUCTS)
+      );
+      purchasedCategories = products.map((product) => product.category?._id).filter(Boolean);
+    }
+
+    const changes = {
+      locale: body.locale,
+      timezone: body.timezone,
+      cartItemCount: body.cartItemCount,
+      lastActiveAt: new Date().toISOString(),
+      purchasedCategories
+    };
+    await subscriptionStore.update(record.id, { profile: normalizeAudienceProfile(changes, record.profile) });
+
+    // A purchase belongs to the account, so the user's other devices learn it too
+    if (purchasedCategories?.length && record.userId) {
+      const devices = await subscriptionStore.getByUserId(record.userId);
+      await Promise.all(
+        devices
+          .filter((device) => device.id !== record.id)
+          .map((device) => subscriptionStore.update(device.id, {
+            profile: normalizeAudienceProfile({ purchasedCategories }, device.profile)
+          }))
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error recording notification activity:', error);
+    return NextResponse.json(
+      { error: 'Failed to record activity' },
+      { status: 500 }
+    );
+  }
+}
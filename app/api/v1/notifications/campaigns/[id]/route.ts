@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { errorResponse } from '@/lib/api-response';
+import {
+  deleteCampaign,
+  getCampaign,
+  isCampaignValidationError,
+  updateCampaign,
+} from '@/lib/campaigns';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const denied = await requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const campaign = await getCampaign(params.id);
+    if (!campaign) {
+      return errorResponse(404, 'NOT_FOUND', 'Campaign not found');
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: campaign,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error loading campaign:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Failed to load campaign');
+  }
+}
+
+// Edits and status changes: { status: 'scheduled' | 'paused' | 'cancelled' | 'draft' }
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const denied = await requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return errorResponse(400, 'INVALID_BODY', 'Request body must be a JSON object');
+    }
+
+    const campaign = await updateCampaign(params.id, body);
+    if (!campaign) {
+      return errorResponse(404, 'NOT_FOUND', 'Campaign not found');
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: campaign,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    if (isCampaignValidationError(error)) {
+      return errorResponse(400, 'VALIDATION_ERROR', 'Invalid campaign', error.details);
+    }
+    console.error('Error updating campaign:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Failed to update campaign');
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const denied = await requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const deleted = await deleteCampaign(params.id);
+    if (!deleted) {
+      return errorResponse(404, 'NOT_FOUND', 'Campaign not found');
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Campaign deleted successfully',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error deleting campaign:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Failed to delete campaign');
+  }
+}
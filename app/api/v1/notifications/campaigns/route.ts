@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { errorResponse } from '@/lib/api-response';
+import {
+  createCampaign,
+  ensureCampaignScheduler,
+  isCampaignValidationError,
+  listCampaigns,
+} from '@/lib/campaigns';
+
+export async function GET(request: NextRequest) {
+  const denied = await requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    ensureCampaignScheduler();
+    const campaigns = await listCampaigns();
+
+    return NextResponse.json({
+      success: true,
+      data: campaigns,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error listing campaigns:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Failed to list campaigns');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const denied = await requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return errorResponse(400, 'INVALID_BODY', 'Request body must be a JSON object');
+    }
+
+    ensureCampaignScheduler();
+    const campaign = await createCampaign(body);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: campaign,
+        timestamp: new Date().toISOString()
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (isCampaignValidationError(error)) {
+      return errorResponse(400, 'VALIDATION_ERROR', 'Invalid campaign', error.details);
+    }
+    console.error('Error creating campaign:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Failed to create campaign');
+  }
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { runCampaignScheduler } from '@/lib/campaigns';
+
+// Entry point for an external cron on deployments without a long-running process
+export async function POST(request: NextRequest) {
+  const denied = await requireAdmin(request);
+  if (denied) return denied;
+
+  await runCampaignScheduler();
+
+  return NextResponse.json({
+    success: true,
+    message: 'Campaign scheduler run completed',
+    timestamp: new Date().toISOString()
+  });
+}
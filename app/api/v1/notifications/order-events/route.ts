@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { errorResponse } from '@/lib/api-response';
+import { getInvoiceLocale, sendOrderConfirmationEmail } from '@/lib/invoice';
+import { notifyOrderCancelled, notifyRefundStatus } from '@/lib/order-notifications';
+import { ReturnStatus } from '@/lib/order-returns';
+
+const RETURN_STATUSES: ReturnStatus[] = ['requested', 'approved', 'rejected', 'received', 'refunded', 'cancelled'];
+
+function validationError(message: string) {
+  return errorResponse(400, 'VALIDATION_ERROR', message);
+}
+
+/**
+ * Order events reported by the backend (with ADMIN_API_KEY) or by staff:
+ * { type: 'order-cancelled', userId, orderId } for cancellations made on the
+ * backend's side, and { type: 'refund-status', userId, orderId, returnId,
+ * status, rmaNumber?, refundAmount?, currency? } whenever a return moves on.
+ * { type: 'order-confirmed', userId, orderId, order, locale? } emails the
+ * confirmation with the invoice once a card payment has gone through.
+ */
+export async function POST(request: NextRequest) {
+  const denied = await requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const userId = typeof body?.userId === 'string' ? body.userId : '';
+    const orderId = typeof body?.orderId === 'string' ? body.orderId : '';
+    if (!userId || !orderId) {
+      return validationError('userId and orderId are required');
+    }
+
+    let stats;
+    if (body.type === 'order-cancelled') {
+      stats = await notifyOrderCancelled(userId, orderId);
+    } else if (body.type === 'refund-status') {
+      if (typeof body.returnId !== 'string' || RETURN_STATUSES.indexOf(body.status) === -1) {
+        return validationError('returnId and a valid status are required');
+      }
+      stats = await notifyRefundStatus({
+        userId,
+        orderId,
+        returnId: body.returnId,
+        status: body.status,
+        rmaNumber: typeof body.rmaNumber === 'string' ? body.rmaNumber : undefined,
+        refundAmount: typeof body.refundAmount === 'number' ? body.refundAmount : undefined,
+        currency: typeof body.currency === 'string' ? body.currency : undefined,
+      });
+    } else if (body.type === 'order-confirmed') {
+      if (!body.order || typeof body.order !== 'object' || body.order._id !== orderId) {
+        return validationError('order must be the confirmed order');
+      }
+      const emailed = await sendOrderConfirmationEmail(body.order, getInvoiceLocale(body.locale));
+      return NextResponse.json({
+        success: true,
+        data: { emailed },
+        timestamp: new Date().toISOString()
+      });
+    } else {
+      return validationError('type must be order-cancelled, refund-status or order-confirmed');
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { delivered: stats?.successful || 0, stats },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Order event notification error:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Failed to send order notification');
+  }
+}
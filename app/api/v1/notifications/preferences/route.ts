@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPushSubscriptionStore, getSubscriptionId, normalizePreferences } from '@/lib/push-subscriptions';
+
+// Preference updates keyed by endpoint, as sent by lib/push-notifications
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const endpoint = body?.endpoint;
+    const preferences = body?.preferences;
+
+    if (typeof endpoint !== 'string' || !preferences || typeof preferences !== 'object') {
+      return NextResponse.json(
+        { error: 'Missing endpoint or preferences' },
+        { status: 400 }
+      );
+    }
+
+    const subscriptionStore = getPushSubscriptionStore();
+    const subscriptionId = getSubscriptionId(endpoint);
+    const existingSubscription = await subscriptionStore.get(subscriptionId);
+
+    if (!existingSubscription) {
+      return NextResponse.json(
+        { error: 'Subscription not found' },
+        { status: 404 }
+      );
+    }
+
+    const updated = await subscriptionStore.update(subscriptionId, {
+      preferences: normalizePreferences(preferences, existingSubscription.preferences)
+    });
+
+    return NextResponse.json({
+      success: true,
+      preferences: updated?.preferences,
+      message: 'Preferences updated successfully'
+    });
+
+  } catch (error) {
+    console.error('Error updating preferences:', error);
+    return NextResponse.json(
+      { error: 'Failed to update preferences' },
+      { status: 500 }
+    );
+  }
+}
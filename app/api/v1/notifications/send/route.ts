@@ -1,13 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import webpush from 'web-push';
-import { getAllSubscriptions, getSubscriptionsByUserId, getSubscriptionsByPreference } from '../subscribe/route';
-
-// Configure web-push with VAPID keys
-webpush.setVapidDetails(
-  `mailto:${process.env.VAPID_CONTACT_EMAIL || 'admin@logen-store.com'}`,
-  process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY!,
-  process.env.VAPID_PRIVATE_KEY!
-);
+import {
+  getPushSubscriptionStore,
+  isPushPreferenceKey,
+  isWebPushConfigured,
+  PushPreferenceKey,
+  sendPushNotifications,
+  StoredPushSubscription,
+} from '@/lib/push-subscriptions';
 
 interface SendNotificationRequest {
   type: 'order' | 'promotion' | 'newProduct' | 'priceDrop' | 'cartReminder' | 'review' | 'broadcast';
@@ -47,18 +46,33 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!isWebPushConfigured()) {
+      return NextResponse.json(
+        { error: 'Push notifications are not configured' },
+        { status: 503 }
+      );
+    }
+
+    if (targetPreference && !isPushPreferenceKey(targetPreference)) {
+      return NextResponse.json(
+        { error: `Unknown notification preference: ${targetPreference}` },
+        { status: 400 }
+      );
+    }
+
     // Determine which subscriptions to send to
-    let targetSubscriptions;
+    const subscriptionStore = getPushSubscriptionStore();
+    let targetSubscriptions: StoredPushSubscription[];
     
     if (userId) {
       // Send to specific user
-      targetSubscriptions = getSubscriptionsByUserId(userId);
+      targetSubscriptions = await subscriptionStore.getByUserId(userId);
     } else if (targetPreference) {
       // Send to users with specific preference enabled
-      targetSubscriptions = getSubscriptionsByPreference(targetPreference);
+      targetSubscriptions = await subscriptionStore.getByPreference(targetPreference as PushPreferenceKey);
     } else {
       // Broadcast to all subscriptions
-      targetSubscriptions = getAllSubscriptions();
+      targetSubscriptions = await subscriptionStore.getAll();
     }
 
     if (targetSubscriptions.length === 0) {
@@ -87,33 +101,15 @@ export async function POST(request: NextRequest) {
       silent: false
     });
 
-    // Send notifications
-    const results = await Promise.allSettled(
-      targetSubscriptions.map(async (sub) => {
-        try {
-          await webpush.sendNotification(sub.subscription, payload);
-          return { success: true, endpoint: sub.subscription.endpoint };
-        } catch (error) {
-          console.error('Failed to send notification:', error);
-          return { success: false, endpoint: sub.subscription.endpoint, error };
-        }
-      })
-    );
-
-    // Count successful and failed sends
-    const successful = results.filter(r => r.status === 'fulfilled' && r.value.success).length;
-    const failed = results.filter(r => r.status === 'rejected' || (r.status === 'fulfilled' && !r.value.success)).length;
+    // Send notifications; expired subscriptions are pruned from the store
+    const stats = await sendPushNotifications(targetSubscriptions, payload);
 
-    console.log(`Notification sent: ${successful} successful, ${failed} failed`);
+    console.log(`Notification sent: ${stats.successful} successful, ${stats.failed} failed, ${stats.pruned} pruned`);
 
     return NextResponse.json({
       success: true,
-      message: `Notification sent to ${successful} subscribers`,
-      stats: {
-        total: targetSubscriptions.length,
-        successful,
-        failed
-      }
+      message: `Notification sent to ${stats.successful} subscribers`,
+      stats
     });
 
   } catch (error) {
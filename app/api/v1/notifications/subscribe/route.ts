@@ -1,90 +1,77 @@
 import { NextRequest, NextResponse } from 'next/server';
-import webpush from 'web-push';
-
-// Configure web-push with VAPID keys
-webpush.setVapidDetails(
-  `mailto:${process.env.VAPID_CONTACT_EMAIL || 'admin@logen-store.com'}`,
-  process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY!,
-  process.env.VAPID_PRIVATE_KEY!
-);
+import { getRequestUser } from '@/lib/admin-auth';
+import type { ContentLocale } from '@/lib/locales';
+import {
+  getPushSubscriptionStore,
+  getSubscriptionId,
+  isValidWebPushSubscription,
+  normalizePreferences,
+  PushPreferences,
+  registerPushSubscription,
+  sendPushNotifications,
+  WebPushSubscription,
+} from '@/lib/push-subscriptions';
 
 interface SubscriptionRequest {
-  subscription: PushSubscription;
-  userId?: string;
-  preferences?: {
-    orders: boolean;
-    promotions: boolean;
-    newProducts: boolean;
-    priceDrops: boolean;
-    cartReminders: boolean;
-    reviews: boolean;
-  };
+  subscription?: WebPushSubscription;
+  preferences?: Partial<PushPreferences>;
+  locale?: ContentLocale;
+  timezone?: string;
+  // lib/push-notifications posts the subscription fields at the top level
+  endpoint?: string;
+  keys?: WebPushSubscription['keys'];
 }
 
-// In a real application, you would store subscriptions in a database
-// For this example, we'll use a simple in-memory store
-const subscriptions = new Map<string, {
-  subscription: PushSubscription;
-  userId?: string;
-  preferences: any;
-  createdAt: Date;
-}>();
-
 export async function POST(request: NextRequest) {
   try {
     const body: SubscriptionRequest = await request.json();
-    const { subscription, userId, preferences } = body;
+    const { preferences } = body;
+    const subscription = body.subscription || { endpoint: body.endpoint, keys: body.keys };
 
-    if (!subscription || !subscription.endpoint) {
+    if (!isValidWebPushSubscription(subscription)) {
       return NextResponse.json(
         { error: 'Invalid subscription object' },
         { status: 400 }
       );
     }
 
-    // Generate a unique ID for the subscription
-    const subscriptionId = Buffer.from(subscription.endpoint).toString('base64');
-
-    // Store the subscription
-    subscriptions.set(subscriptionId, {
-      subscription,
-      userId,
-      preferences: preferences || {
-        orders: true,
-        promotions: true,
-        newProducts: false,
-        priceDrops: true,
-        cartReminders: true,
-        reviews: true
-      },
-      createdAt: new Date()
+    // Only the verified session decides whose alerts reach this browser; a userId in the body is ignored
+    const user = await getRequestUser(request);
+
+    const subscriptionStore = getPushSubscriptionStore();
+    const isNew = !(await subscriptionStore.get(getSubscriptionId(subscription.endpoint)));
+    const record = await registerPushSubscription(subscription, user?.id, preferences, {
+      locale: body.locale,
+      timezone: body.timezone
     });
 
-    console.log(`New subscription registered: ${subscriptionId}`);
-
-    // Send a welcome notification
-    try {
-      const payload = JSON.stringify({
-        title: 'Notifications Enabled! 🔔',
-        body: 'You\'ll now receive updates about your orders and exclusive offers.',
-        icon: '/icons/icon-192x192.png',
-        badge: '/icons/badge-72x72.png',
-        tag: 'welcome',
-        data: {
-          type: 'welcome',
-          url: '/'
-        }
-      });
-
-      await webpush.sendNotification(subscription, payload);
-    } catch (notificationError) {
-      console.error('Failed to send welcome notification:', notificationError);
-      // Don't fail the subscription if welcome notification fails
+    console.log(`${isNew ? 'New subscription registered' : 'Subscription refreshed'}: ${record.id}`);
+
+    // Send a welcome notification the first time this browser subscribes
+    if (isNew) {
+      try {
+        const payload = JSON.stringify({
+          title: 'Notifications Enabled! 🔔',
+          body: 'You\'ll now receive updates about your orders and exclusive offers.',
+          icon: '/icons/icon-192x192.png',
+          badge: '/icons/badge-72x72.png',
+          tag: 'welcome',
+          data: {
+            type: 'welcome',
+            url: '/'
+          }
+        });
+
+        await sendPushNotifications([record], payload);
+      } catch (notificationError) {
+        console.error('Failed to send welcome notification:', notificationError);
+        // Don't fail the subscription if welcome notification fails
+      }
     }
 
     return NextResponse.json({
       success: true,
-      subscriptionId,
+      subscriptionId: record.id,
       message: 'Subscription registered successfully'
     });
 
@@ -109,7 +96,8 @@ export async function PUT(request: NextRequest) {
       );
     }
 
-    const existingSubscription = subscriptions.get(subscriptionId);
+    const subscriptionStore = getPushSubscriptionStore();
+    const existingSubscription = await subscriptionStore.get(subscriptionId);
     if (!existingSubscription) {
       return NextResponse.json(
         { error: 'Subscription not found' },
@@ -117,9 +105,9 @@ export async function PUT(request: NextRequest) {
       );
     }
 
-    // Update preferences
-    existingSubscription.preferences = preferences;
-    subscriptions.set(subscriptionId, existingSubscription);
+    await subscriptionStore.update(subscriptionId, {
+      preferences: normalizePreferences(preferences, existingSubscription.preferences)
+    });
 
     console.log(`Preferences updated for subscription: ${subscriptionId}`);
 
@@ -149,8 +137,8 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    const deleted = subscriptions.delete(subscriptionId);
-    
+    const deleted = await getPushSubscriptionStore().remove(subscriptionId);
+
     if (!deleted) {
       return NextResponse.json(
         { error: 'Subscription not found' },
@@ -173,20 +161,3 @@ export async function DELETE(request: NextRequest) {
     );
   }
 }
-
-// Helper function to get all subscriptions (for sending notifications)
-export function getAllSubscriptions() {
-  return Array.from(subscriptions.values());
-}
-
-// Helper function to get subscriptions by user ID
-export function getSubscriptionsByUserId(userId: string) {
-  return Array.from(subscriptions.values()).filter(sub => sub.userId === userId);
-}
-
-// Helper function to get subscriptions by preference
-export function getSubscriptionsByPreference(preferenceKey: string) {
-  return Array.from(subscriptions.values()).filter(
-    sub => sub.preferences[preferenceKey] === true
-  );
-}
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPushSubscriptionStore, getSubscriptionId } from '@/lib/push-subscriptions';
+
+// Unsubscribe keyed by endpoint, as sent by lib/push-notifications
+export async function DELETE(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const endpoint = body?.endpoint;
+
+    if (typeof endpoint !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing endpoint' },
+        { status: 400 }
+      );
+    }
+
+    const subscriptionId = getSubscriptionId(endpoint);
+    // Already gone is fine: the browser side has unsubscribed either way
+    const deleted = await getPushSubscriptionStore().remove(subscriptionId);
+
+    if (deleted) {
+      console.log(`Subscription unregistered: ${subscriptionId}`);
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Subscription removed successfully'
+    });
+
+  } catch (error) {
+    console.error('Error removing subscription:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove subscription' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Order } from '@/lib/api';
+import { errorResponse } from '@/lib/api-response';
+import { notifyOrderCancelled } from '@/lib/order-notifications';
+import { canCancelOrder } from '@/lib/order-returns';
+import { getRequestAuthorization } from '@/lib/session';
+
+// Backend API URL
+const BACKEND_API_URL = process.env.BACKEND_API_URL || 'http://localhost:3000/api';
+
+interface RouteParams {
+  params: { orderId: string };
+}
+
+// Cancels an order that has not shipped yet
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const authorization = getRequestAuthorization(request);
+  if (!authorization) {
+    return errorResponse(401, 'UNAUTHORIZED', 'Authentication required');
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const reason = typeof body?.reason === 'string' ? body.reason.trim().slice(0, 500) : undefined;
+    const orderUrl = `${BACKEND_API_URL}/v1/order/${encodeURIComponent(params.orderId)}`;
+    const headers = {
+      'Content-Type': 'application/json',
+      'authorization': authorization
+    };
+
+    // The backend only returns the caller's own orders, so this also checks ownership
+    const orderResponse = await fetch(orderUrl, { headers, cache: 'no-store' });
+    if (!orderResponse.ok) {
+      const errorData = await orderResponse.json().catch(() => ({}));
+      return NextResponse.json(errorData, { status: orderResponse.status });
+    }
+    const order: Order | undefined = (await orderResponse.json())?.data;
+    if (!order) {
+      return errorResponse(404, 'ORDER_NOT_FOUND', 'Order not found');
+    }
+    if (!canCancelOrder(order)) {
+      return errorResponse(409, 'ORDER_NOT_CANCELLABLE', 'This order can no longer be cancelled');
+    }
+
+    const response = await fetch(`${orderUrl}/cancel`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ reason }),
+      cache: 'no-store'
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      console.error('Backend response not ok:', response.status, response.statusText, errorData);
+      return NextResponse.json(errorData, { status: response.status });
+    }
+
+    const data = await response.json();
+
+    notifyOrderCancelled(order.userId, order._id).catch((error) => {
+      console.error('Order cancelled notification failed:', error);
+    });
+
+    return NextResponse.json(data);
+
+  } catch (error) {
+    console.error('Cancel Order API Proxy Error:', error);
+    return errorResponse(500, 'PROXY_ERROR', 'Failed to cancel order', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Order } from '@/lib/api';
+import { errorResponse } from '@/lib/api-response';
+import {
+  createInvoice,
+  getInvoiceFilename,
+  getInvoiceLocale,
+  isInvoiceError,
+  renderInvoiceHtml,
+  renderInvoicePdf
+} from '@/lib/invoice';
+import { RateLimiter } from '@/lib/rate-limit';
+import { getRequestAuthorization } from '@/lib/session';
+
+// Backend API URL
+const BACKEND_API_URL = process.env.BACKEND_API_URL || 'http://localhost:3000/api';
+
+// PDF rendering starts a browser page, so downloads are capped per order
+const pdfLimiter = new RateLimiter({ limit: 10, windowMs: 10 * 60 * 1000 });
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: { orderId: string };
+}
+
+/**
+ * The order's tax invoice: ?format=pdf (default) downloads it, ?format=html
+ * opens the printable page. ?locale=ar renders it in Arabic.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const authorization = getRequestAuthorization(request);
+  if (!authorization) {
+    return errorResponse(401, 'UNAUTHORIZED', 'Authentication required');
+  }
+
+  const { searchParams } = new URL(request.url);
+  const locale = getInvoiceLocale(searchParams.get('locale'));
+  const format = searchParams.get('format') === 'html' ? 'html' : 'pdf';
+
+  try {
+    // The backend only returns the caller's own orders, so this also checks ownership
+    const orderResponse = await fetch(`${BACKEND_API_URL}/v1/order/${encodeURIComponent(params.orderId)}`, {
+      headers: {
+        'Content-Type': 'application/json',
+        'authorization': authorization
+      },
+      cache: 'no-store'
+    });
+    if (!orderResponse.ok) {
+      const errorData = await orderResponse.json().catch(() => ({}));
+      return NextResponse.json(errorData, { status: orderResponse.status });
+    }
+    const order: Order | undefined = (await orderResponse.json())?.data;
+    if (!order) {
+      return errorResponse(404, 'ORDER_NOT_FOUND', 'Order not found');
+    }
+
+    const invoice = await createInvoice(order);
+    const headers = {
+      'Cache-Control': 'private, no-store',
+      'X-Robots-Tag': 'noindex'
+    };
+
+    if (format === 'html') {
+      return new NextResponse(await renderInvoiceHtml(invoice, locale), {
+        headers: { ...headers, 'Content-Type': 'text/html; charset=utf-8' }
+      });
+    }
+
+    const rateLimit = pdfLimiter.hit(order._id);
+    if (!rateLimit.allowed) {
+      return errorResponse(429, 'RATE_LIMITED', 'Too many invoice downloads, please try again later', undefined, {
+        'Retry-After': String(rateLimit.retryAfter)
+      });
+    }
+
+    const pdf = await renderInvoicePdf(invoice, locale);
+    return new NextResponse(pdf, {
+      headers: {
+        ...headers,
+        'Content-Type': 'application/pdf',
+        'Content-Length': String(pdf.length),
+        'Content-Disposition': `attachment; filename="${getInvoiceFilename(invoice)}"`
+      }
+    });
+
+  } catch (error) {
+    if (isInvoiceError(error)) {
+      return errorResponse(error.status, error.code, error.message);
+    }
+
+    console.error('Invoice API Error:', error);
+    return errorResponse(500, 'INVOICE_ERROR', 'Failed to create invoice', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Order } from '@/lib/api';
+import { errorResponse } from '@/lib/api-response';
+import { notifyRefundStatus } from '@/lib/order-notifications';
+import {
+  canRequestReturn,
+  isValidReturnPhoto,
+  MAX_RETURN_PHOTOS,
+  ReturnRequest,
+  ReturnRequestInput,
+  RETURN_VALIDATION_MESSAGES,
+  validateReturnRequest,
+} from '@/lib/order-returns';
+import { getRequestAuthorization } from '@/lib/session';
+
+// Backend API URL
+const BACKEND_API_URL = process.env.BACKEND_API_URL || 'http://localhost:3000/api';
+
+interface RouteParams {
+  params: { orderId: string };
+}
+
+function proxyError(message: string, error: unknown) {
+  return errorResponse(500, 'PROXY_ERROR', message, error instanceof Error ? error.message : 'Unknown error');
+}
+
+function getOrderUrl(orderId: string): string {
+  return `${BACKEND_API_URL}/v1/order/${encodeURIComponent(orderId)}`;
+}
+
+async function fetchReturns(orderId: string, authorization: string): Promise<Response> {
+  return fetch(`${getOrderUrl(orderId)}/returns`, {
+    headers: {
+      'Content-Type': 'application/json',
+      'authorization': authorization
+    },
+    cache: 'no-store'
+  });
+}
+
+// Return requests filed for an order, with their current status
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const authorization = getRequestAuthorization(request);
+  if (!authorization) {
+    return errorResponse(401, 'UNAUTHORIZED', 'Authentication required');
+  }
+
+  try {
+    const response = await fetchReturns(params.orderId, authorization);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      console.error('Backend response not ok:', response.status, response.statusText, errorData);
+      return NextResponse.json(errorData, { status: response.status });
+    }
+
+    const data = await response.json();
+    if (!Array.isArray(data.data)) {
+      data.data = [];
+    }
+
+    return NextResponse.json(data);
+
+  } catch (error) {
+    console.error('Order Returns API Proxy Error:', error);
+    return proxyError('Failed to fetch return requests', error);
+  }
+}
+
+/**
+ * Files a return (RMA) request. Expects multipart form data: items (JSON
+ * array of { lineIndex, quantity }), reason, refundMethod, an optional
+ * comment and up to MAX_RETURN_PHOTOS photos.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const authorization = getRequestAuthorization(request);
+  if (!authorization) {
+    return errorResponse(401, 'UNAUTHORIZED', 'Authentication required');
+  }
+
+  try {
+    const form = await request.formData().catch(() => null);
+    if (!form) {
+      return errorResponse(400, 'VALIDATION_ERROR', 'Expected multipart form data');
+    }
+
+    let items: ReturnRequestInput['items'];
+    try {
+      items = JSON.parse(String(form.get('items') || '[]'));
+    } catch (error) {
+      return errorResponse(400, 'VALIDATION_ERROR', 'Invalid item list');
+    }
+
+    const input = {
+      items: Array.isArray(items) ? items.map((item) => ({ lineIndex: item?.lineIndex, quantity: item?.quantity })) : [],
+      reason: form.get('reason'),
+      refundMethod: form.get('refundMethod'),
+      comment: typeof form.get('comment') === 'string' ? String(form.get('comment')).trim() : undefined,
+    } as ReturnRequestInput;
+
+    const photos = form.getAll('photos').filter((entry): entry is File => typeof entry !== 'string');
+    if (photos.length > MAX_RETURN_PHOTOS || photos.some((photo) => !isValidReturnPhoto(photo))) {
+      return errorResponse(400, 'VALIDATION_ERROR', `Add up to ${MAX_RETURN_PHOTOS} JPEG, PNG or WebP photos of at most 5 MB each`);
+    }
+
+    // Check against the order and earlier returns before anything is uploaded
+    const headers = {
+      'Content-Type': 'application/json',
+      'authorization': authorization
+    };
+    const [orderResponse, returnsResponse] = await Promise.all([
+      fetch(getOrderUrl(params.orderId), { headers, cache: 'no-store' }),
+      fetchReturns(params.orderId, authorization),
+    ]);
+    if (!orderResponse.ok) {
+      const errorData = await orderResponse.json().catch(() => ({}));
+      return NextResponse.json(errorData, { status: orderResponse.status });
+    }
+
+    const order: Order | undefined = (await orderResponse.json())?.data;
+    const returns: ReturnRequest[] = returnsResponse.ok
+      ? ((await returnsResponse.json())?.data || [])
+      : [];
+    if (!order) {
+      return errorResponse(404, 'ORDER_NOT_FOUND', 'Order not found');
+    }
+    if (!canRequestReturn(order)) {
+      return errorResponse(409, 'RETURN_NOT_ALLOWED', 'This order is not eligible for a return');
+    }
+
+    const validationError = validateReturnRequest(input, order, returns, photos.length);
+    if (validationError) {
+      return errorResponse(400, 'VALIDATION_ERROR', RETURN_VALIDATION_MESSAGES[validationError]);
+    }
+
+    const backendForm = new FormData();
+    backendForm.set('items', JSON.stringify(input.items.map((item) => ({
+      ...item,
+      title: order.items?.[item.lineIndex]?.title,
+    }))));
+    backendForm.set('reason', input.reason);
+    backendForm.set('refundMethod', input.refundMethod);
+    if (input.comment) backendForm.set('comment', input.comment);
+    photos.forEach((photo) => backendForm.append('photos', photo, photo.name));
+
+    // No Content-Type: fetch sets the multipart boundary itself
+    const response = await fetch(`${getOrderUrl(params.orderId)}/returns`, {
+      method: 'POST',
+      headers: { 'authorization': authorization },
+      body: backendForm,
+      cache: 'no-store'
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      console.error('Backend response not ok:', response.status, response.statusText, errorData);
+      return NextResponse.json(errorData, { status: response.status });
+    }
+
+    const data = await response.json();
+    const created: ReturnRequest | undefined = data?.data;
+
+    if (created?._id) {
+      notifyRefundStatus({
+        userId: order.userId,
+        orderId: order._id,
+        returnId: created._id,
+        rmaNumber: created.rmaNumber,
+        status: created.status || 'requested',
+      }).catch((error) => {
+        console.error('Return request notification failed:', error);
+      });
+    }
+
+    return NextResponse.json(data, { status: response.status });
+
+  } catch (error) {
+    console.error('Create Return API Proxy Error:', error);
+    return proxyError('Failed to submit return request', error);
+  }
+}
@@ -1,140 +1,65 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api-response';
+import { findOrderForTracking, isOrderServiceError } from '@/lib/order-service';
+import { getOrderTracking, isTrackingError, matchesOrderContact } from '@/lib/order-tracking';
+import { RateLimiter, getClientIp } from '@/lib/rate-limit';
 
-// Mock database - in a real app, this would be a proper database
-// This should be shared with the checkout routes
-const orders: any[] = [];
+// Only failed lookups count, so a tracking page polling a real order is never blocked
+const failedLookupLimiter = new RateLimiter({ limit: 10, windowMs: 15 * 60 * 1000 });
 
-export async function GET(request: NextRequest) {
-  try {
-    const { searchParams } = new URL(request.url);
-    const orderId = searchParams.get('orderId');
-    const email = searchParams.get('email');
-    const phone = searchParams.get('phone');
-
-    console.log('Order tracking request:', { orderId, email, phone });
+export const dynamic = 'force-dynamic';
 
-    if (!orderId) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: {
-            code: 'MISSING_ORDER_ID',
-            message: 'Order ID is required'
-          }
-        },
-        { status: 400 }
-      );
-    }
-
-    // Find order by ID
-    let order = orders.find(o => o._id === orderId);
+/**
+ * Tracks an order by its number (the last 8 characters of the id, or the
+ * full id) together with the email or phone it was placed with. Unknown
+ * orders and contact details that don't match get the same answer, so the
+ * endpoint can't be used to find out which order numbers exist.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const orderId = (searchParams.get('orderId') || '').trim();
+  const email = (searchParams.get('email') || '').trim();
+  const phone = (searchParams.get('phone') || '').trim();
 
-    // If order not found in memory, create a mock order for testing
-    if (!order) {
-      // Create a mock order for demonstration
-      order = {
-        _id: orderId,
-        status: 'processing',
-        totalAmount: 299.99,
-        currency: 'EGP',
-        paymentGateway: 'stripe',
-        createdAt: new Date().toISOString(),
-        items: [
-          {
-            id: 'product-1',
-            name: 'Sample Product',
-            quantity: 1,
-            price: 299.99
-          }
-        ],
-        shippingInfo: {
-          firstName: 'John',
-          lastName: 'Doe',
-          email: email || 'customer@example.com',
-          phone: phone || '+1234567890',
-          address: '123 Main St',
-          city: 'Cairo'
-        },
-        trackingNumber: `TRK${orderId.slice(-6).toUpperCase()}`,
-        estimatedDelivery: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000).toISOString() // 3 days from now
-      };
-      
-      // Add to orders array for future requests
-      orders.push(order);
-    }
+  if (!/^[a-zA-Z0-9]{8,32}$/.test(orderId)) {
+    return errorResponse(400, 'INVALID_ORDER_ID', 'Enter the order number from your confirmation email');
+  }
+  if (!email && !phone) {
+    return errorResponse(400, 'CONTACT_REQUIRED', 'Enter the email or phone number used for the order');
+  }
 
-    // Verify email or phone if provided (for security)
-    if (email && order.shippingInfo?.email !== email) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: {
-            code: 'INVALID_CREDENTIALS',
-            message: 'Email does not match order records'
-          }
-        },
-        { status: 403 }
-      );
-    }
+  const clientIp = getClientIp(request);
+  const rateLimit = failedLookupLimiter.check(clientIp);
+  if (!rateLimit.allowed) {
+    return errorResponse(429, 'RATE_LIMITED', 'Too many attempts, please try again later', undefined, {
+      'Retry-After': String(rateLimit.retryAfter)
+    });
+  }
 
-    if (phone && order.shippingInfo?.phone !== phone) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: {
-            code: 'INVALID_CREDENTIALS',
-            message: 'Phone number does not match order records'
-          }
-        },
-        { status: 403 }
-      );
-    }
+  const notFound = () => {
+    failedLookupLimiter.hit(clientIp);
+    return errorResponse(404, 'ORDER_NOT_FOUND', 'No order matches these details');
+  };
 
-    // Return order tracking information
-    return NextResponse.json({
-      success: true,
-      data: {
-        orderId: order._id,
-        status: order.status,
-        totalAmount: order.totalAmount,
-        currency: order.currency,
-        paymentGateway: order.paymentGateway,
-        createdAt: order.createdAt,
-        trackingNumber: order.trackingNumber,
-        estimatedDelivery: order.estimatedDelivery,
-        items: order.items,
-        shippingInfo: {
-          firstName: order.shippingInfo?.firstName,
-          lastName: order.shippingInfo?.lastName,
-          address: order.shippingInfo?.address,
-          city: order.shippingInfo?.city
-        },
-        statusHistory: [
-          {
-            status: 'confirmed',
-            timestamp: order.createdAt,
-            description: 'Order confirmed and payment processed'
-          },
-          {
-            status: 'processing',
-            timestamp: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(), // 2 hours ago
-            description: 'Order is being prepared for shipment'
-          }
-        ]
-      }
-    });
+  try {
+    const order = await findOrderForTracking(orderId);
+    if (!order || !matchesOrderContact(order, { email, phone })) return notFound();
 
-  } catch (error) {
-    console.error('Order Tracking API Error:', error);
     return NextResponse.json(
       {
-        success: false,
-        error: {
-          code: 'INTERNAL_ERROR',
-          message: 'Failed to track order'
-        }
+        success: true,
+        data: await getOrderTracking(order),
+        timestamp: new Date().toISOString()
       },
-      { status: 500 }
+      { headers: { 'Cache-Control': 'private, no-store' } }
     );
+
+  } catch (error) {
+    if (isTrackingError(error) || isOrderServiceError(error)) {
+      return errorResponse(error.status, error.code, error.message);
+    }
+
+    console.error('Order Tracking API Error:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Failed to track order');
   }
-}
\ No newline at end of file
+}
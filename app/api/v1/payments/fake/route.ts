@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api-response';
+import {
+  fakePaymentOrderStatus,
+  isFakePaymentGatewayEnabled,
+  isFakePaymentSecretValid,
+  recordFakePayment,
+} from '@/lib/fake-payment-gateway';
+import { recordOrderPayment } from '@/lib/order-service';
+
+const FAKE_STATUSES = ['succeeded', 'processing', 'requires_action', 'requires_payment_method', 'canceled', 'failed'];
+
+export async function POST(request: NextRequest) {
+  // Only available while the local test provider is active outside production
+  if (!isFakePaymentGatewayEnabled()) {
+    return errorResponse(404, 'NOT_FOUND', 'Fake payment gateway is disabled');
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const { orderId, clientSecret, status } = body || {};
+
+    if (typeof orderId !== 'string' || !orderId || typeof clientSecret !== 'string' || !FAKE_STATUSES.includes(status)) {
+      return errorResponse(400, 'VALIDATION_ERROR', 'orderId, clientSecret and a valid status are required');
+    }
+
+    // Same check Stripe makes: only the secret issued for this order can settle it
+    if (!(await isFakePaymentSecretValid(orderId, clientSecret))) {
+      return errorResponse(403, 'INVALID_CLIENT_SECRET', 'The client secret does not belong to this order');
+    }
+
+    const record = await recordFakePayment({ orderId, clientSecret, status });
+    console.log(`Fake payment for order ${orderId} recorded as ${status}`);
+
+    // Stands in for the provider webhook: settled outcomes move the order along
+    const orderStatus = fakePaymentOrderStatus(status);
+    if (orderStatus) {
+      await recordOrderPayment(orderId, orderStatus);
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Payment recorded',
+      data: record,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Fake Payment API Error:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Failed to record payment', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
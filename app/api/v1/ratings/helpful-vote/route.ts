@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getRequestAuthorization } from '@/lib/session';
 
 // Backend API URL
 const BACKEND_API_URL = process.env.BACKEND_API_URL || 'http://localhost:3000/api';
@@ -14,8 +15,8 @@ export async function POST(request: NextRequest) {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        ...(request.headers.get('authorization') && {
-          'authorization': request.headers.get('authorization')!
+        ...(getRequestAuthorization(request) && {
+          'authorization': getRequestAuthorization(request)!
         })
       },
       body: JSON.stringify(body)
@@ -58,8 +59,8 @@ export async function DELETE(request: NextRequest) {
       method: 'DELETE',
       headers: {
         'Content-Type': 'application/json',
-        ...(request.headers.get('authorization') && {
-          'authorization': request.headers.get('authorization')!
+        ...(getRequestAuthorization(request) && {
+          'authorization': getRequestAuthorization(request)!
         })
       },
       body: JSON.stringify(body)
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getRequestAuthorization } from '@/lib/session';
 
 const BACKEND_API_URL = process.env.BACKEND_API_URL || 'http://localhost:3001/api';
 
@@ -38,8 +39,8 @@ export async function GET(
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
-        ...(request.headers.get('authorization') && {
-          'authorization': request.headers.get('authorization')!
+        ...(getRequestAuthorization(request) && {
+          'authorization': getRequestAuthorization(request)!
         })
       }
     });
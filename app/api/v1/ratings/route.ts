@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getRequestAuthorization } from '@/lib/session';
 
 // Backend API URL
 const BACKEND_API_URL = process.env.BACKEND_API_URL || 'http://localhost:3000/api';
@@ -13,8 +14,8 @@ export async function GET(request: NextRequest) {
       headers: {
         'Content-Type': 'application/json',
         // Forward authorization header if present
-        ...(request.headers.get('authorization') && {
-          'Authorization': request.headers.get('authorization')!
+        ...(getRequestAuthorization(request) && {
+          'Authorization': getRequestAuthorization(request)!
         })
       },
       cache: 'no-store'
@@ -54,8 +55,8 @@ export async function POST(request: NextRequest) {
       headers: {
         'Content-Type': 'application/json',
         // Forward authorization header if present
-        ...(request.headers.get('authorization') && {
-          'Authorization': request.headers.get('authorization')!
+        ...(getRequestAuthorization(request) && {
+          'Authorization': getRequestAuthorization(request)!
         })
       },
       body: JSON.stringify(body),
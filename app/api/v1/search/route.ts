@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api-response';
+import { searchProducts } from '@/lib/search-index';
+import { SearchSort } from '@/lib/search';
+
+const SORTS: SearchSort[] = ['relevance', 'price_asc', 'price_desc', 'newest'];
+
+function parseNumber(value: string | null): number | undefined {
+  if (value === null || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const sort = searchParams.get('sort') as SearchSort | null;
+
+    const result = await searchProducts({
+      q: (searchParams.get('q') || '').slice(0, 200),
+      category: searchParams.get('category') || undefined,
+      minPrice: parseNumber(searchParams.get('minPrice')),
+      maxPrice: parseNumber(searchParams.get('maxPrice')),
+      inStock: searchParams.get('inStock') === 'true',
+      onSale: searchParams.get('onSale') === 'true',
+      sort: sort && SORTS.indexOf(sort) !== -1 ? sort : 'relevance',
+      page: parseNumber(searchParams.get('page')),
+      limit: parseNumber(searchParams.get('limit')),
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result.products,
+      facets: result.facets,
+      pagination: result.pagination,
+      corrected: result.corrected,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Search API Error:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Failed to search products', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
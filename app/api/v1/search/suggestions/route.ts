@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api-response';
+import { getContentLocale } from '@/lib/locales';
+import { getSearchSuggestions } from '@/lib/search-index';
+import { MIN_QUERY_LENGTH } from '@/lib/search';
+
+const MAX_SUGGESTIONS = 10;
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const q = (searchParams.get('q') || '').trim().slice(0, 100);
+    const locale = getContentLocale(searchParams.get('locale'));
+    const limit = Math.min(parseInt(searchParams.get('limit') || '6', 10) || 6, MAX_SUGGESTIONS);
+
+    const suggestions = q.length >= MIN_QUERY_LENGTH
+      ? await getSearchSuggestions(q, locale, limit)
+      : [];
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: suggestions,
+        timestamp: new Date().toISOString()
+      },
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=300'
+        }
+      }
+    );
+  } catch (error) {
+    console.error('Search Suggestions API Error:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Failed to load search suggestions');
+  }
+}
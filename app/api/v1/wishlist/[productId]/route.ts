@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api-response';
+import { getRequestAuthorization } from '@/lib/session';
+import { removeWishlistWatch, updateSessionWatches } from '@/lib/wishlist-alerts';
+
+// Backend API URL
+const BACKEND_API_URL = process.env.BACKEND_API_URL || 'http://localhost:3000/api';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { productId: string } }
+) {
+  const authorization = getRequestAuthorization(request);
+  if (!authorization) {
+    return errorResponse(401, 'UNAUTHORIZED', 'Authentication required');
+  }
+
+  try {
+    const backendUrl = `${BACKEND_API_URL}/v1/wishlist/${encodeURIComponent(params.productId)}`;
+
+    console.log('Proxying remove wishlist item request to backend:', backendUrl);
+
+    const response = await fetch(backendUrl, {
+      method: 'DELETE',
+      headers: {
+        'Content-Type': 'application/json',
+        'authorization': authorization
+      }
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      console.error('Backend response not ok:', response.status, response.statusText, errorData);
+      return NextResponse.json(errorData, { status: response.status });
+    }
+
+    const data = await response.json();
+    await updateSessionWatches(authorization, (userId) => removeWishlistWatch(userId, params.productId));
+    return NextResponse.json(data);
+
+  } catch (error) {
+    console.error('Remove Wishlist Item API Proxy Error:', error);
+    return errorResponse(
+      500,
+      'PROXY_ERROR',
+      'Failed to remove item from wishlist',
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
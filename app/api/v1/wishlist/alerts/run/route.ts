@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { runWishlistAlerts } from '@/lib/wishlist-alerts';
+
+// Entry point for an external cron on deployments without a long-running process
+export async function POST(request: NextRequest) {
+  const denied = await requireAdmin(request);
+  if (denied) return denied;
+
+  await runWishlistAlerts();
+
+  return NextResponse.json({
+    success: true,
+    message: 'Wishlist alert run completed',
+    timestamp: new Date().toISOString()
+  });
+}
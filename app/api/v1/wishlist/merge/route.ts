@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api-response';
+import { getRequestAuthorization } from '@/lib/session';
+import { syncWishlistWatches, updateSessionWatches } from '@/lib/wishlist-alerts';
+
+// Backend API URL
+const BACKEND_API_URL = process.env.BACKEND_API_URL || 'http://localhost:3000/api';
+
+// Upper bound on guest items merged in one request
+const MAX_MERGE_ITEMS = 200;
+
+export async function POST(request: NextRequest) {
+  const authorization = getRequestAuthorization(request);
+  if (!authorization) {
+    return errorResponse(401, 'UNAUTHORIZED', 'Authentication required');
+  }
+
+  try {
+    const body = await request.json();
+    const items = Array.isArray(body?.items) ? body.items : [];
+
+    // Drop malformed entries and duplicates before they reach the backend
+    const seen = new Set<string>();
+    const sanitizedItems = items
+      .filter((item: any) => item && typeof item.productId === 'string' && item.productId.length > 0)
+      .filter((item: any) => {
+        if (seen.has(item.productId)) return false;
+        seen.add(item.productId);
+        return true;
+      })
+      .slice(0, MAX_MERGE_ITEMS)
+      .map((item: any) => ({
+        productId: item.productId,
+        addedAt: item.addedAt || new Date().toISOString(),
+        priceAtAdd: typeof item.priceAtAdd === 'number' ? item.priceAtAdd : undefined
+      }));
+
+    const backendUrl = `${BACKEND_API_URL}/v1/wishlist/merge`;
+
+    console.log('Proxying wishlist merge request to backend:', backendUrl, { items: sanitizedItems.length });
+
+    const response = await fetch(backendUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'authorization': authorization
+      },
+      body: JSON.stringify({ items: sanitizedItems }),
+      cache: 'no-store'
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      console.error('Backend response not ok:', response.status, response.statusText, errorData);
+      return NextResponse.json(errorData, { status: response.status });
+    }
+
+    const data = await response.json();
+
+    // Ensure data.data is always an array
+    if (!Array.isArray(data.data)) {
+      data.data = [];
+    }
+
+    await updateSessionWatches(authorization, (userId) => syncWishlistWatches(userId, data.data));
+
+    return NextResponse.json(data);
+
+  } catch (error) {
+    console.error('Wishlist Merge API Proxy Error:', error);
+    return errorResponse(500, 'PROXY_ERROR', 'Failed to merge wishlist', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api-response';
+import { getRequestAuthorization } from '@/lib/session';
+import { addWishlistWatch, syncWishlistWatches, updateSessionWatches } from '@/lib/wishlist-alerts';
+
+// Backend API URL
+const BACKEND_API_URL = process.env.BACKEND_API_URL || 'http://localhost:3000/api';
+
+function unauthorized() {
+  return errorResponse(401, 'UNAUTHORIZED', 'Authentication required');
+}
+
+export async function GET(request: NextRequest) {
+  const authorization = getRequestAuthorization(request);
+  if (!authorization) {
+    return unauthorized();
+  }
+
+  try {
+    const backendUrl = `${BACKEND_API_URL}/v1/wishlist`;
+
+    const response = await fetch(backendUrl, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        'authorization': authorization
+      },
+      cache: 'no-store'
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      console.error('Backend response not ok:', response.status, response.statusText, errorData);
+      return NextResponse.json(errorData, { status: response.status });
+    }
+
+    const data = await response.json();
+
+    // Ensure data.data is always an array
+    if (!Array.isArray(data.data)) {
+      data.data = [];
+    }
+
+    // Price-drop and back-in-stock alerts are checked against this snapshot
+    await updateSessionWatches(authorization, (userId) => syncWishlistWatches(userId, data.data));
+
+    return NextResponse.json(data);
+
+  } catch (error) {
+    console.error('Wishlist API Proxy Error:', error);
+    return errorResponse(
+      500,
+      'PROXY_ERROR',
+      'Failed to fetch wishlist from backend',
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const authorization = getRequestAuthorization(request);
+  if (!authorization) {
+    return unauthorized();
+  }
+
+  try {
+    const body = await request.json();
+
+    if (!body?.productId) {
+      return errorResponse(400, 'VALIDATION_ERROR', 'productId is required');
+    }
+
+    const backendUrl = `${BACKEND_API_URL}/v1/wishlist`;
+
+    const response = await fetch(backendUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'authorization': authorization
+      },
+      body: JSON.stringify({
+        productId: body.productId,
+        priceAtAdd: body.priceAtAdd
+      }),
+      cache: 'no-store'
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      console.error('Backend response not ok:', response.status, response.statusText, errorData);
+      return NextResponse.json(errorData, { status: response.status });
+    }
+
+    const data = await response.json();
+    await updateSessionWatches(authorization, (userId) =>
+      addWishlistWatch(userId, body.productId, typeof body.priceAtAdd === 'number' ? body.priceAtAdd : undefined)
+    );
+    return NextResponse.json(data, { status: response.status });
+
+  } catch (error) {
+    console.error('Add to Wishlist API Proxy Error:', error);
+    return errorResponse(500, 'PROXY_ERROR', 'Failed to add item to wishlist', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
@@ -33,23 +33,6 @@ export default function sitemap(): MetadataRoute.Sitemap {
     },
   ];
 
-  // Add localized versions
-  const localizedPages: MetadataRoute.Sitemap = [];
-  
-  const locales = Array.isArray(config.i18n.locales) ? config.i18n.locales : [];
-  if (locales.length > 0) {
-    locales.forEach(locale => {
-      if (Array.isArray(staticPages) && staticPages.length > 0) {
-        staticPages.forEach(page => {
-          localizedPages.push({
-            ...page,
-            url: locale === 'en' ? page.url : `${baseUrl}/${locale}${page.url.replace(baseUrl, '')}`,
-          });
-        });
-      }
-    });
-  }
-
   // Product pages (mock data - in real app, fetch from database)
   const productPages: MetadataRoute.Sitemap = [
     {
@@ -106,5 +89,17 @@ export default function sitemap(): MetadataRoute.Sitemap {
     },
   ];
 
-  return [...localizedPages, ...productPages, ...categoryPages];
+  // Every locale, the default included, is served under its prefix; unprefixed URLs only redirect
+  const localizedPages: MetadataRoute.Sitemap = [];
+
+  config.i18n.locales.forEach(locale => {
+    [...staticPages, ...productPages, ...categoryPages].forEach(page => {
+      localizedPages.push({
+        ...page,
+        url: `${baseUrl}/${locale}${page.url.replace(baseUrl, '')}`,
+      });
+    });
+  });
+
+  return localizedPages;
 }
\ No newline at end of file
@@ -2,24 +2,40 @@
 
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useTranslations } from 'next-intl';
 import { X, Mail, Lock, User, Phone, Eye, EyeOff } from 'lucide-react';
 import { useAuth } from '@/lib/auth';
+import { useLanguage } from '@/hooks/useMessages';
+import { getContentLocale } from '@/lib/locales';
+import SocialLogin from './SocialLogin';
+
+type AuthMode = 'login' | 'signup' | 'verify' | 'forgot' | 'reset';
 
 interface AuthModalProps {
   isOpen: boolean;
   onClose: () => void;
   initialMode?: 'login' | 'signup';
+  // Also open on its own to sign the user back in when their session expires
+  listenForSessionExpiry?: boolean;
 }
 
-export default function AuthModal({ isOpen, onClose, initialMode = 'login' }: AuthModalProps) {
-  const [mode, setMode] = useState<'login' | 'signup' | 'verify'>(initialMode);
+export default function AuthModal({ isOpen, onClose, initialMode = 'login', listenForSessionExpiry = false }: AuthModalProps) {
+  const [mode, setMode] = useState<AuthMode>(initialMode);
   const [showPassword, setShowPassword] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [verificationEmail, setVerificationEmail] = useState('');
+  const [resetEmail, setResetEmail] = useState('');
+  const [resendAvailableAt, setResendAvailableAt] = useState(0);
+  const [resendIn, setResendIn] = useState(0);
   
-  const { login, signup, confirmEmail } = useAuth();
+  const { user, sessionExpired, login, signup, confirmEmail, forgotPassword, resetPassword, dismissSessionExpired } = useAuth();
+  const language = useLanguage();
+  const tLogin = useTranslations('login');
+  const tReset = useTranslations('resetPassword');
+  const expiredPrompt = listenForSessionExpiry && sessionExpired;
+  const visible = isOpen || expiredPrompt;
 
   const [formData, setFormData] = useState({
     email: '',
@@ -38,6 +54,11 @@ export default function AuthModal({ isOpen, onClose, initialMode = 'login' }: Au
     setError(null);
   };
 
+  const handleClose = () => {
+    if (expiredPrompt) dismissSessionExpired();
+    onClose();
+  };
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -45,7 +66,7 @@ export default function AuthModal({ isOpen, onClose, initialMode = 'login' }: Au
 
     try {
       await login(formData.email, formData.password);
-      onClose();
+      handleClose();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Login failed');
     } finally {
@@ -102,6 +123,69 @@ export default function AuthModal({ isOpen, onClose, initialMode = 'login' }: Au
     }
   };
 
+  const handleForgotPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await forgotPassword(formData.email, getContentLocale(language));
+      setResetEmail(formData.email);
+      setResendAvailableAt(new Date(result.resendAvailableAt).getTime());
+      setMode('reset');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : tReset('modal.sendFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResendCode = async () => {
+    setLoading(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const result = await forgotPassword(resetEmail, getContentLocale(language));
+      setResendAvailableAt(new Date(result.resendAvailableAt).getTime());
+      setFormData({ ...formData, verificationCode: '' });
+      setSuccess(tReset('modal.resent'));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : tReset('modal.resendFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    if (formData.password !== formData.cPassword) {
+      setError(tReset('passwordsMismatch'));
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const message = await resetPassword(
+        { email: resetEmail, code: formData.verificationCode },
+        formData.password,
+        formData.cPassword
+      );
+      setSuccess(message);
+      setTimeout(() => {
+        setMode('login');
+        resetForm();
+      }, 2000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : tReset('failed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const resetForm = () => {
     setFormData({
       email: '',
@@ -115,7 +199,7 @@ export default function AuthModal({ isOpen, onClose, initialMode = 'login' }: Au
     setSuccess(null);
   };
 
-  const switchMode = (newMode: 'login' | 'signup') => {
+  const switchMode = (newMode: 'login' | 'signup' | 'forgot') => {
     setMode(newMode);
     resetForm();
   };
@@ -128,9 +212,17 @@ export default function AuthModal({ isOpen, onClose, initialMode = 'login' }: Au
     }
   }, [isOpen, initialMode]);
 
+  // Ask for the password again, keeping whatever the page behind the modal holds
+  useEffect(() => {
+    if (expiredPrompt) {
+      setMode('login');
+      setFormData((current) => ({ ...current, email: user?.email || '', password: '' }));
+    }
+  }, [expiredPrompt, user?.email]);
+
   // Prevent body scroll when modal is open
   useEffect(() => {
-    if (isOpen) {
+    if (visible) {
       // Store current scroll position
       const scrollY = window.scrollY;
       
@@ -151,23 +243,52 @@ export default function AuthModal({ isOpen, onClose, initialMode = 'login' }: Au
         window.scrollTo(0, scrollY);
       };
     }
-  }, [isOpen]);
+  }, [visible]);
+
+  // Count down until another reset code can be requested
+  useEffect(() => {
+    const update = () => setResendIn(Math.max(0, Math.ceil((resendAvailableAt - Date.now()) / 1000)));
+    update();
+    if (resendAvailableAt <= Date.now()) return;
+
+    const timer = setInterval(update, 1000);
+    return () => clearInterval(timer);
+  }, [resendAvailableAt]);
 
   // Reset form when switching modes
   useEffect(() => {
     resetForm();
   }, [mode]);
 
+  // Shared by email verification and password reset
+  const renderCodeField = () => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">
+        Verification Code
+      </label>
+      <input
+        type="text"
+        name="verificationCode"
+        value={formData.verificationCode}
+        onChange={handleInputChange}
+        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-center text-lg tracking-widest"
+        placeholder="Enter 6-digit code"
+        maxLength={6}
+        required
+      />
+    </div>
+  );
+
   return (
     <AnimatePresence>
-      {isOpen && (
+      {visible && (
         <>
           {/* Backdrop */}
           <motion.div
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
             exit={{ opacity: 0 }}
-            onClick={onClose}
+            onClick={handleClose}
             className="fixed inset-0 bg-black/50 z-50"
           />
 
@@ -182,12 +303,14 @@ export default function AuthModal({ isOpen, onClose, initialMode = 'login' }: Au
               {/* Header */}
               <div className="flex items-center justify-between mb-6">
                 <h2 className="text-2xl font-bold text-gray-900">
-                  {mode === 'login' && 'Welcome Back'}
+                  {mode === 'login' && (expiredPrompt ? tLogin('sessionExpiredTitle') : 'Welcome Back')}
                   {mode === 'signup' && 'Create Account'}
                   {mode === 'verify' && 'Verify Email'}
+                  {mode === 'forgot' && tReset('modal.forgotTitle')}
+                  {mode === 'reset' && tReset('modal.resetTitle')}
                 </h2>
                 <button
-                  onClick={onClose}
+                  onClick={handleClose}
                   className="p-2 hover:bg-gray-100 rounded-full transition-colors"
                 >
                   <X className="w-5 h-5" />
@@ -209,6 +332,12 @@ export default function AuthModal({ isOpen, onClose, initialMode = 'login' }: Au
               {/* Login Form */}
               {mode === 'login' && (
                 <form onSubmit={handleLogin} className="space-y-4">
+                  {expiredPrompt && (
+                    <p className="text-sm text-gray-600">
+                      {tLogin('sessionExpired')}
+                    </p>
+                  )}
+
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
                       Email
@@ -250,6 +379,15 @@ export default function AuthModal({ isOpen, onClose, initialMode = 'login' }: Au
                         {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
                       </button>
                     </div>
+                    <div className="mt-1 text-right">
+                      <button
+                        type="button"
+                        onClick={() => switchMode('forgot')}
+                        className="text-sm text-blue-600 hover:text-blue-700"
+                      >
+                        {tReset('modal.forgotLink')}
+                      </button>
+                    </div>
                   </div>
 
                   <button
@@ -260,6 +398,8 @@ export default function AuthModal({ isOpen, onClose, initialMode = 'login' }: Au
                     {loading ? 'Signing in...' : 'Sign In'}
                   </button>
 
+                  <SocialLogin />
+
                   <p className="text-center text-sm text-gray-600">
                     Don't have an account?{' '}
                     <button
@@ -381,6 +521,8 @@ export default function AuthModal({ isOpen, onClose, initialMode = 'login' }: Au
                     {loading ? 'Creating account...' : 'Create Account'}
                   </button>
 
+                  <SocialLogin />
+
                   <p className="text-center text-sm text-gray-600">
                     Already have an account?{' '}
                     <button
@@ -404,21 +546,7 @@ export default function AuthModal({ isOpen, onClose, initialMode = 'login' }: Au
                     </p>
                   </div>
 
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Verification Code
-                    </label>
-                    <input
-                      type="text"
-                      name="verificationCode"
-                      value={formData.verificationCode}
-                      onChange={handleInputChange}
-                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-center text-lg tracking-widest"
-                      placeholder="Enter 6-digit code"
-                      maxLength={6}
-                      required
-                    />
-                  </div>
+                  {renderCodeField()}
 
                   <button
                     type="submit"
@@ -440,6 +568,133 @@ export default function AuthModal({ isOpen, onClose, initialMode = 'login' }: Au
                   </p>
                 </form>
               )}
+
+              {/* Forgot Password Form */}
+              {mode === 'forgot' && (
+                <form onSubmit={handleForgotPassword} className="space-y-4">
+                  <p className="text-sm text-gray-600">
+                    {tReset('modal.forgotIntro')}
+                  </p>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {tReset('modal.email')}
+                    </label>
+                    <div className="relative">
+                      <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+                      <input
+                        type="email"
+                        name="email"
+                        value={formData.email}
+                        onChange={handleInputChange}
+                        className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder={tReset('modal.emailPlaceholder')}
+                        required
+                      />
+                    </div>
+                  </div>
+
+                  <button
+                    type="submit"
+                    disabled={loading}
+                    className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {loading ? tReset('modal.sending') : tReset('modal.sendCode')}
+                  </button>
+
+                  <p className="text-center text-sm text-gray-600">
+                    {tReset('modal.remembered')}{' '}
+                    <button
+                      type="button"
+                      onClick={() => switchMode('login')}
+                      className="text-blue-600 hover:text-blue-700 font-medium"
+                    >
+                      {tReset('modal.signIn')}
+                    </button>
+                  </p>
+                </form>
+              )}
+
+              {/* Reset Password Form */}
+              {mode === 'reset' && (
+                <form onSubmit={handleResetPassword} className="space-y-4">
+                  <div className="text-center mb-4">
+                    <p className="text-sm text-gray-600">
+                      {tReset.rich('modal.codeSentTo', {
+                        email: resetEmail,
+                        account: (chunks) => <span className="font-medium" dir="ltr">{chunks}</span>,
+                      })}
+                    </p>
+                  </div>
+
+                  {renderCodeField()}
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {tReset('newPassword')}
+                    </label>
+                    <div className="relative">
+                      <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+                      <input
+                        type={showPassword ? 'text' : 'password'}
+                        name="password"
+                        value={formData.password}
+                        onChange={handleInputChange}
+                        className="w-full pl-10 pr-12 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder={tReset('newPasswordPlaceholder')}
+                        minLength={8}
+                        required
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setShowPassword(!showPassword)}
+                        className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                      >
+                        {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                      </button>
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {tReset('confirmPassword')}
+                    </label>
+                    <div className="relative">
+                      <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+                      <input
+                        type={showPassword ? 'text' : 'password'}
+                        name="cPassword"
+                        value={formData.cPassword}
+                        onChange={handleInputChange}
+                        className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder={tReset('confirmPasswordPlaceholder')}
+                        minLength={8}
+                        required
+                      />
+                    </div>
+                  </div>
+
+                  <button
+                    type="submit"
+                    disabled={loading}
+                    className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {loading ? tReset('modal.resetting') : tReset('modal.resetTitle')}
+                  </button>
+
+                  <p className="text-center text-sm text-gray-600">
+                    {tReset('modal.noCode')}{' '}
+                    <button
+                      type="button"
+                      onClick={handleResendCode}
+                      disabled={loading || resendIn > 0}
+                      className="text-blue-600 hover:text-blue-700 font-medium disabled:text-gray-400 disabled:cursor-not-allowed"
+                    >
+                      {resendIn > 0 ? tReset('modal.resendIn', { seconds: resendIn }) : tReset('modal.resend')}
+                    </button>
+                  </p>
+                </form>
+              )}
             </motion.div>
           </div>
         </>
@@ -0,0 +1,110 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { ShoppingBag } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+import { useBuyAgain } from '@/hooks/useOrders';
+import { useLanguage } from '@/hooks/useMessages';
+import { getEffectivePrice } from '@/lib/api';
+import { useAuth } from '@/lib/auth';
+import { useCurrency } from '@/lib/currency-service';
+import { addItemsToCart, describeReorderChange } from '@/lib/reorder';
+import { getContentLocale, isRTLLocale } from '@/lib/locales';
+import { useNotificationStore } from '@/lib/store';
+
+// Homepage strip of the signed-in shopper's most frequently purchased products
+export default function BuyAgain() {
+  const { isAuthenticated } = useAuth();
+  const { entries } = useBuyAgain();
+  const language = useLanguage();
+  const { addNotification } = useNotificationStore();
+  const { formatDisplayPrice } = useCurrency();
+  const t = useTranslations('buyAgain');
+  const [addingId, setAddingId] = useState<string | null>(null);
+
+  if (!isAuthenticated || entries.length === 0) return null;
+
+  const isRTL = isRTLLocale(language);
+
+  const handleAdd = async (entry: (typeof entries)[number]) => {
+    setAddingId(entry.product._id);
+
+    try {
+      // One of the product, in the size and color bought last time
+      const { added, changes } = await addItemsToCart([{ ...entry.item, quantity: 1 }], getContentLocale(language));
+      const change = changes[0];
+
+      if (added.length === 0) {
+        addNotification({
+          type: 'warning',
+          title: t('unavailable'),
+          message: change ? describeReorderChange(change, getContentLocale(language)) : '',
+        });
+        return;
+      }
+
+      addNotification({
+        type: 'success',
+        title: t('title'),
+        message: change
+          ? describeReorderChange(change, getContentLocale(language))
+          : t('added', { title: added[0].title }),
+      });
+    } finally {
+      setAddingId(null);
+    }
+  };
+
+  return (
+    <section className="py-8 px-4 max-w-7xl mx-auto">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">{t('title')}</h2>
+        <p className="text-gray-600 mt-1">{t('subtitle')}</p>
+      </div>
+
+      <div className="flex space-x-4 rtl:space-x-reverse overflow-x-auto pb-2">
+        {entries.map((entry) => {
+          const { product } = entry;
+          const title = isRTL ? product.title?.ar || product.title?.en : product.title?.en || product.title?.ar;
+          const variant = [entry.item.size, entry.item.color].filter(Boolean).join(' / ');
+
+          return (
+            <div key={product._id} className="flex-shrink-0 w-44 bg-white rounded-2xl shadow-sm overflow-hidden">
+              <Link href={`/${language}/products/${product.handle}`} className="block">
+                <div className="relative w-full aspect-square bg-gray-100">
+                  <Image
+                    src={product.images?.[0]?.secure_url || entry.item.image || '/placeholder-image.jpg'}
+                    alt={title}
+                    fill
+                    className="object-cover"
+                    sizes="176px"
+                  />
+                </div>
+              </Link>
+              <div className="p-3">
+                <p className="font-medium text-gray-900 truncate">{title}</p>
+                {variant && <p className="text-xs text-gray-500 truncate">{variant}</p>}
+                <p className="text-xs text-gray-500">
+                  {t('ordered', { count: entry.orderCount })}
+                </p>
+                <p className="font-semibold text-gray-900 mt-1">
+                  {formatDisplayPrice(getEffectivePrice(product), product.currency)}
+                </p>
+                <button
+                  onClick={() => handleAdd(entry)}
+                  disabled={addingId === product._id}
+                  className="mt-2 w-full flex items-center justify-center space-x-1 rtl:space-x-reverse bg-black text-white text-sm py-2 rounded-lg hover:bg-gray-800 disabled:opacity-50 transition-colors"
+                >
+                  <ShoppingBag className="w-4 h-4" />
+                  <span>{addingId === product._id ? t('adding') : t('add')}</span>
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
@@ -8,6 +8,7 @@ import dynamic from 'next/dynamic';
 import { useCartStore } from '@/lib/store';
 import { useMessages } from '@/hooks/useMessages';
 import { formatPrice } from '@/lib/utils';
+import { useCurrency } from '@/lib/currency-service';
 import { memo, useMemo, useState } from 'react';
 import { 
   useOptimizedCallback, 
@@ -131,6 +132,7 @@ const CartDrawer = memo(() => {
   
   const { items, isOpen, closeCart, updateQuantity, removeItem, getTotalPrice, getCartCurrency } = useCartStore();
   const messages = useMessages();
+  const { displayCurrency, formatDisplayPrice } = useCurrency();
   const [showNotificationPrompt, setShowNotificationPrompt] = useState(false);
 
   // Memoized calculations
@@ -228,6 +230,11 @@ const CartDrawer = memo(() => {
                     <span>{messages.cart.subtotal}</span>
                     <span>{formatPrice(cartData.total, cartData.currency)}</span>
                   </div>
+                  {displayCurrency && displayCurrency !== cartData.currency && (
+                    <p className="text-sm text-gray-500 text-right rtl:text-left -mt-3">
+                      {formatDisplayPrice(cartData.total, cartData.currency)}
+                    </p>
+                  )}
                   <Link
                     href="/checkout"
                     onClick={handleCloseCart}
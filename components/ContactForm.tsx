@@ -3,6 +3,7 @@
 import React, { useState } from 'react';
 import { Send, Mail, User, MessageSquare, AlertCircle } from 'lucide-react';
 import { backgroundSync } from '@/lib/background-sync';
+import { generateIdempotencyKey } from '@/lib/api';
 import { useMessages } from '@/hooks/useMessages';
 
 interface ContactFormProps {
@@ -38,6 +39,9 @@ export function ContactForm({ onSuccess, className = '' }: ContactFormProps) {
   const [errors, setErrors] = useState<FormErrors>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitStatus, setSubmitStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  // Spam protection: a field humans never see and the time the form was opened
+  const [honeypot, setHoneypot] = useState('');
+  const [formStartedAt, setFormStartedAt] = useState(() => Date.now());
 
   const validateForm = (): boolean => {
     const newErrors: FormErrors = {};
@@ -93,6 +97,18 @@ export function ContactForm({ onSuccess, className = '' }: ContactFormProps) {
     }
   };
 
+  const resetForm = () => {
+    setFormData({
+      firstName: '',
+      lastName: '',
+      email: '',
+      subject: '',
+      message: ''
+    });
+    setHoneypot('');
+    setFormStartedAt(Date.now());
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -103,60 +119,59 @@ export function ContactForm({ onSuccess, className = '' }: ContactFormProps) {
     setIsSubmitting(true);
     setSubmitStatus('idle');
 
+    // One id per submission lets the server ignore background sync replays it already delivered
+    const payload = {
+      ...formData,
+      submissionId: generateIdempotencyKey(),
+      website: honeypot,
+      formStartedAt,
+      timestamp: Date.now(),
+      userAgent: navigator.userAgent,
+      url: window.location.href
+    };
+
     try {
-      // Try to submit immediately if online
       if (navigator.onLine) {
         const response = await fetch('/api/v1/contact', {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
           },
-          body: JSON.stringify({
-            ...formData,
-            timestamp: Date.now(),
-            userAgent: navigator.userAgent,
-            url: window.location.href
-          }),
+          body: JSON.stringify(payload),
         });
 
         if (!response.ok) {
-          throw new Error('Failed to send message');
+          const result = await response.json().catch(() => null);
+
+          // Validation, spam and rate limit rejections will not succeed on a retry
+          if (response.status >= 400 && response.status < 500) {
+            if (response.status === 400 && result?.error?.details && typeof result.error.details === 'object') {
+              setErrors(result.error.details);
+            }
+            setSubmitStatus('error');
+            return;
+          }
+
+          throw new Error(result?.error?.message || 'Failed to send message');
         }
+      } else {
+        // Queue while offline; the service worker replays it against /api/v1/contact
+        await backgroundSync.syncFormSubmission('contact-form', payload);
       }
 
-      // Always sync with background sync for reliability
-      await backgroundSync.syncFormSubmission('contact-form', {
-        ...formData,
-        timestamp: Date.now(),
-        userAgent: navigator.userAgent,
-        url: window.location.href
-      });
-
-      // Reset form on success
-      setFormData({
-        firstName: '',
-        lastName: '',
-        email: '',
-        subject: '',
-        message: ''
-      });
-      
+      resetForm();
       setSubmitStatus('success');
       onSuccess?.();
 
     } catch (error) {
       console.error('Error submitting contact form:', error);
       
-      // Still try background sync on error
+      // Network or server failure: queue the same submission for background sync
       try {
-        await backgroundSync.syncFormSubmission('contact-form', {
-          ...formData,
-          timestamp: Date.now(),
-          userAgent: navigator.userAgent,
-          url: window.location.href,
-          error: error instanceof Error ? error.message : 'Unknown error'
-        });
+        await backgroundSync.syncFormSubmission('contact-form', payload);
+        resetForm();
         setSubmitStatus('success'); // Show success since it will sync later
+        onSuccess?.();
       } catch (syncError) {
         console.error('Background sync also failed:', syncError);
         setSubmitStatus('error');
@@ -198,6 +213,20 @@ export function ContactForm({ onSuccess, className = '' }: ContactFormProps) {
       )}
 
       <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="hidden" aria-hidden="true">
+          {/* i18n-ignore: bots read this label, shoppers never see or hear it */}
+          <label htmlFor="contact-website">Website</label>
+          <input
+            id="contact-website"
+            type="text"
+            name="website"
+            tabIndex={-1}
+            autoComplete="off"
+            value={honeypot}
+            onChange={(e) => setHoneypot(e.target.value)}
+          />
+        </div>
+
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
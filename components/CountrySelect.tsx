@@ -0,0 +1,35 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+
+// Destinations offered at checkout; anything else ships under the international zone
+export const SHIPPING_COUNTRIES = ['EG', 'SA', 'AE', 'KW', 'QA', 'BH', 'OM', 'US', 'GB'] as const;
+
+interface CountrySelectProps {
+  label: string;
+  value: string;
+  onChange: (event: React.ChangeEvent<HTMLSelectElement>) => void;
+}
+
+export default function CountrySelect({ label, value, onChange }: CountrySelectProps) {
+  const t = useTranslations('checkout.countries');
+
+  return (
+    <div>
+      <label htmlFor="country" className="block text-sm font-medium text-gray-700 mb-1">
+        {label}
+      </label>
+      <select
+        id="country"
+        name="country"
+        value={value}
+        onChange={onChange}
+        className="w-full px-4 py-3 border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      >
+        {SHIPPING_COUNTRIES.map((code) => (
+          <option key={code} value={code}>{t(code)}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
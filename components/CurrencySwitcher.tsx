@@ -0,0 +1,27 @@
+'use client';
+
+import { useCurrency } from '@/lib/currency-service';
+import { useTranslations } from 'next-intl';
+
+export default function CurrencySwitcher() {
+  const { displayCurrency, setDisplayCurrency, availableCurrencies } = useCurrency();
+  const t = useTranslations('currency');
+
+  return (
+    <div className="relative">
+      <select
+        value={displayCurrency || ''}
+        onChange={(e) => setDisplayCurrency(e.target.value || null)}
+        className="px-3 py-1 rounded-full bg-gray-100 hover:bg-gray-200 transition-colors text-sm font-medium focus:outline-none focus:ring-2 focus:ring-blue-500"
+        aria-label={t('display')}
+      >
+        <option value="">{t('original')}</option>
+        {availableCurrencies.map((currency) => (
+          <option key={currency.code} value={currency.code}>
+            {currency.code}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -1,14 +1,18 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
-import { ShoppingBag, Menu, X, User } from 'lucide-react';
+import { ShoppingBag, Menu, X, User, Heart, Search } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useTranslations } from 'next-intl';
 import dynamic from 'next/dynamic';
-import { useCartStore, useLanguageStore } from '@/lib/store';
-import { useMessages } from '@/hooks/useMessages';
+import { useCartStore } from '@/lib/store';
+import { useLanguage, useMessages } from '@/hooks/useMessages';
 import { useScrollDirection } from '@/hooks/useScrollDirection';
 import { useAuth } from '@/lib/auth';
+import { useWishlist } from '@/lib/wishlist';
+import { useNotificationActivity } from '@/lib/push-notifications';
+import { useCartSync } from '@/lib/cart-sync';
 import AuthModal from './AuthModal';
 import UserMenu from './UserMenu';
 import Logo from './Logo';
@@ -19,21 +23,56 @@ const LanguageToggle = dynamic(() => import('./LanguageToggle'), {
   loading: () => <div className="w-16 h-8 bg-gray-100 rounded-full animate-pulse"></div>,
 });
 
+const CurrencySwitcher = dynamic(() => import('./CurrencySwitcher'), {
+  ssr: false,
+  loading: () => <div className="w-16 h-8 bg-gray-100 rounded-full animate-pulse"></div>,
+});
+
+// Search modal is only fetched once the user opens it
+const SearchModal = dynamic(() => import('./SearchModal'), {
+  ssr: false,
+});
+
 export default function Header() {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
   const [mounted, setMounted] = useState(false);
   const { openCart, getTotalItems } = useCartStore();
-  const { language } = useLanguageStore();
+  const language = useLanguage();
   const messages = useMessages();
+  const tSearch = useTranslations('search');
+  const tWishlist = useTranslations('wishlist');
   const { scrollDirection, scrollY } = useScrollDirection();
-  const { isAuthenticated, isLoading } = useAuth();
+  const { isAuthenticated, isLoading, user } = useAuth();
+  const { count: wishlistCount } = useWishlist();
+
+  useCartSync(isAuthenticated ? user?.id : undefined);
+  // Locale, visit and cart signals for push campaign segments
+  useNotificationActivity();
 
   useEffect(() => {
     setMounted(true);
   }, []);
 
+  // Ctrl/Cmd+K or "/" opens search from anywhere outside a text field
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      const isTyping = !!target && (target.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName));
+
+      if ((event.key === 'k' && (event.metaKey || event.ctrlKey)) || (event.key === '/' && !isTyping)) {
+        event.preventDefault();
+        setIsSearchOpen(true);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   const totalItems = getTotalItems();
+  const closeSearch = useCallback(() => setIsSearchOpen(false), []);
 
   const headerVariants = {
     visible: {
@@ -95,6 +134,11 @@ export default function Header() {
           {/* Right Side Actions */}
           <div className="flex items-center space-x-4 rtl:space-x-reverse">
             {mounted && <LanguageToggle />}
+            {mounted && (
+              <div className="hidden sm:block">
+                <CurrencySwitcher />
+              </div>
+            )}
             
             {/* Auth Section */}
             {mounted && !isLoading && (
@@ -113,6 +157,33 @@ export default function Header() {
               </>
             )}
             
+            {/* Search Button */}
+            <button
+              onClick={() => setIsSearchOpen(true)}
+              className="p-2 text-gray-700 hover:text-gray-900 transition-colors"
+              aria-label={tSearch('label')}
+            >
+              <Search className="w-6 h-6" />
+            </button>
+
+            {/* Wishlist Link */}
+            <Link
+              href={`/${language}/wishlist`}
+              className="relative p-2 text-gray-700 hover:text-gray-900 transition-colors"
+              aria-label={mounted ? tWishlist('linkLabelWithCount', { count: wishlistCount }) : tWishlist('linkLabel')}
+              suppressHydrationWarning={true}
+            >
+              <Heart className="w-6 h-6" />
+              {mounted && wishlistCount > 0 && (
+                <span
+                  className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full w-5 h-5 flex items-center justify-center"
+                  suppressHydrationWarning={true}
+                >
+                  {wishlistCount}
+                </span>
+              )}
+            </Link>
+
             {/* Cart Button */}
             <button
               onClick={openCart}
@@ -186,7 +257,16 @@ export default function Header() {
       <AuthModal
         isOpen={isAuthModalOpen}
         onClose={() => setIsAuthModalOpen(false)}
+        listenForSessionExpiry
       />
+
+      {/* Search Modal */}
+      {mounted && (
+        <SearchModal
+          isOpen={isSearchOpen}
+          onClose={closeSearch}
+        />
+      )}
     </motion.header>
   );
 }
\ No newline at end of file
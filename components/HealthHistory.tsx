@@ -0,0 +1,179 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle, CheckCircle, History } from 'lucide-react';
+import { clsx } from 'clsx';
+import { useHealthHistory } from '@/hooks/useHealth';
+import { useLocale } from '@/hooks/useLocale';
+import { HealthSparkPoint, HealthWindow } from '@/types';
+
+interface HealthHistoryProps {
+  className?: string;
+}
+
+function formatCheckName(name: string) {
+  return name.replace(/([A-Z])/g, ' $1').trim();
+}
+
+// Average latency per slice of the window; gaps where nothing was recorded break the line
+function Sparkline({ points, width = 120, height = 28 }: { points: HealthSparkPoint[]; width?: number; height?: number }) {
+  const values = points.map((point) => point.latency).filter((latency): latency is number => latency !== null);
+  if (values.length === 0) return null;
+
+  const max = Math.max(...values) || 1;
+  const step = points.length > 1 ? width / (points.length - 1) : width;
+  const segments: string[][] = [[]];
+  points.forEach((point, index) => {
+    if (point.latency === null) {
+      if (segments[segments.length - 1].length > 0) segments.push([]);
+      return;
+    }
+    const x = (index * step).toFixed(1);
+    const y = (height - 2 - (point.latency / max) * (height - 4)).toFixed(1);
+    segments[segments.length - 1].push(`${x},${y}`);
+  });
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className="text-blue-500" aria-hidden="true">
+      {segments.filter((segment) => segment.length > 0).map((segment, index) =>
+        segment.length === 1 ? (
+          <circle key={index} cx={segment[0].split(',')[0]} cy={segment[0].split(',')[1]} r="1.5" fill="currentColor" />
+        ) : (
+          <polyline key={index} points={segment.join(' ')} fill="none" stroke="currentColor" strokeWidth="1.5" />
+        )
+      )}
+    </svg>
+  );
+}
+
+export function HealthHistory({ className }: HealthHistoryProps) {
+  const { t, formatNumber, getRelativeTime } = useLocale();
+  const { history } = useHealthHistory();
+  const [trendWindow, setTrendWindow] = useState<HealthWindow>('24h');
+
+  if (!history) return null;
+
+  const formatUptime = (uptime: number | null) =>
+    uptime === null ? t('health.noData') : formatNumber(uptime / 100, { style: 'percent', maximumFractionDigits: 2 });
+
+  return (
+    <div className={clsx('space-y-4', className)}>
+      {/* Uptime per check */}
+      <div className="bg-white dark:bg-gray-800 p-4 rounded-lg border">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <div className="flex items-center gap-3">
+            <History className="w-5 h-5 text-blue-500" />
+            <h3 className="font-semibold">{t('health.history')}</h3>
+            <span className="text-sm text-gray-500">
+              {t('health.sloTarget', { value: formatNumber(history.sloTarget / 100, { style: 'percent', maximumFractionDigits: 2 }) })}
+            </span>
+          </div>
+          <div className="flex gap-1">
+            {history.windows.map((name) => (
+              <button
+                key={name}
+                onClick={() => setTrendWindow(name)}
+                className={clsx(
+                  'px-2 py-1 rounded text-xs',
+                  name === trendWindow ? 'bg-blue-500 text-white' : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+                )}
+              >
+                {t(`health.windows.${name}`)}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-500 text-start">
+                <th className="py-2 text-start font-medium">{t('health.check')}</th>
+                {history.windows.map((name) => (
+                  <th key={name} className="py-2 text-end font-medium">{t(`health.windows.${name}`)}</th>
+                ))}
+                <th className="py-2 text-end font-medium">{t('health.latencyTrend')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {Object.entries(history.checks).map(([name, check]) => (
+                <tr key={name} className="border-t">
+                  <td className="py-2 capitalize">
+                    {formatCheckName(name)}
+                    {check.critical && (
+                      <span className="ms-2 text-xs text-red-600">{t('health.critical')}</span>
+                    )}
+                  </td>
+                  {history.windows.map((windowName) => {
+                    const uptime = check.uptime[windowName];
+                    return (
+                      <td
+                        key={windowName}
+                        className={clsx(
+                          'py-2 text-end tabular-nums',
+                          uptime === null ? 'text-gray-400' : uptime < history.sloTarget ? 'text-red-600' : 'text-green-600'
+                        )}
+                      >
+                        {formatUptime(uptime)}
+                      </td>
+                    );
+                  })}
+                  <td className="py-2">
+                    <div className="flex justify-end">
+                      <Sparkline points={check.latency[trendWindow]} />
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Incidents */}
+      <div className="bg-white dark:bg-gray-800 p-4 rounded-lg border">
+        <div className="flex items-center gap-3 mb-4">
+          <AlertTriangle className="w-5 h-5 text-yellow-500" />
+          <h3 className="font-semibold">{t('health.incidents')}</h3>
+        </div>
+
+        {history.incidents.length === 0 ? (
+          <p className="text-sm text-gray-500">{t('health.noIncidents')}</p>
+        ) : (
+          <ul className="space-y-3">
+            {history.incidents.map((incident) => (
+              <li key={incident.id} className="flex items-start gap-3 text-sm">
+                {incident.status === 'open' ? (
+                  <AlertTriangle className="w-4 h-4 mt-0.5 text-red-500 flex-shrink-0" />
+                ) : (
+                  <CheckCircle className="w-4 h-4 mt-0.5 text-green-500 flex-shrink-0" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium capitalize">{formatCheckName(incident.check)}</span>
+                    <span
+                      className={clsx(
+                        'px-1.5 py-0.5 rounded text-xs',
+                        incident.status === 'open' ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'
+                      )}
+                    >
+                      {incident.status === 'open' ? t('health.incidentOpen') : t('health.incidentResolved')}
+                    </span>
+                  </div>
+                  <p className="text-gray-600 dark:text-gray-400 truncate">{incident.message}</p>
+                  <p className="text-xs text-gray-500">
+                    {t('health.incidentStarted', { time: getRelativeTime(incident.openedAt) })}
+                    {incident.resolvedAt && ` · ${t('health.incidentEnded', { time: getRelativeTime(incident.resolvedAt) })}`}
+                    {` · ${t('health.failures', { count: incident.failures })}`}
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default HealthHistory;
@@ -7,7 +7,6 @@ import {
   CheckCircle, 
   Clock, 
   Cpu, 
-  Database, 
   HardDrive, 
   MemoryStick, 
   RefreshCw, 
@@ -17,6 +16,7 @@ import {
   WifiOff 
 } from 'lucide-react';
 import { useHealth } from '@/hooks/useHealth';
+import { HealthHistory } from './HealthHistory';
 import { useLocale } from '@/hooks/useLocale';
 import { clsx } from 'clsx';
 
@@ -59,6 +59,11 @@ export function HealthStatus({
         : 'basic'
   );
 
+  // The dashboard shows request metrics next to the detailed checks
+  const { metrics: liveMetrics } = useHealth('metrics');
+  const requestMetrics = metrics || (variant === 'dashboard' ? liveMetrics : undefined);
+  const uptime = (health || detailedHealth)?.uptime;
+
   const [lastRefresh, setLastRefresh] = useState<Date>(new Date());
 
   useEffect(() => {
@@ -320,7 +325,7 @@ export function HealthStatus({
                   {t('health.uptime', { fallback: 'Uptime' })}
                 </h3>
                 <p className="text-sm text-gray-600 dark:text-gray-400">
-                  {health ? formatUptime(health.uptime) : 'N/A'}
+                  {uptime !== undefined ? formatUptime(uptime) : 'N/A'}
                 </p>
               </div>
             </div>
@@ -346,7 +351,7 @@ export function HealthStatus({
         </div>
 
         {/* Metrics */}
-        {metrics && (
+        {requestMetrics && (
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div className="bg-white dark:bg-gray-800 p-4 rounded-lg border">
               <div className="flex items-center gap-3 mb-3">
@@ -358,42 +363,46 @@ export function HealthStatus({
               <div className="space-y-2 text-sm">
                 <div className="flex justify-between">
                   <span>{t('health.total', { fallback: 'Total' })}:</span>
-                  <span>{formatNumber(metrics.requests.total)}</span>
+                  <span>{formatNumber(requestMetrics.requests.total)}</span>
                 </div>
                 <div className="flex justify-between">
                   <span>{t('health.success', { fallback: 'Success' })}:</span>
-                  <span className="text-green-600">{formatNumber(metrics.requests.success)}</span>
+                  <span className="text-green-600">{formatNumber(requestMetrics.requests.success)}</span>
                 </div>
                 <div className="flex justify-between">
                   <span>{t('health.errors', { fallback: 'Errors' })}:</span>
-                  <span className="text-red-600">{formatNumber(metrics.requests.error)}</span>
+                  <span className="text-red-600">{formatNumber(requestMetrics.requests.error)}</span>
                 </div>
                 <div className="flex justify-between">
                   <span>{t('health.avgResponseTime', { fallback: 'Avg Response' })}:</span>
-                  <span>{metrics.requests.averageResponseTime}ms</span>
+                  <span>{requestMetrics.requests.averageResponseTime}ms</span>
                 </div>
               </div>
             </div>
 
             <div className="bg-white dark:bg-gray-800 p-4 rounded-lg border">
               <div className="flex items-center gap-3 mb-3">
-                <Database className="w-5 h-5 text-blue-500" />
+                <Clock className="w-5 h-5 text-blue-500" />
                 <h3 className="font-semibold">
-                  {t('health.database', { fallback: 'Database' })}
+                  {t('health.latency', { fallback: 'Latency' })}
                 </h3>
               </div>
               <div className="space-y-2 text-sm">
                 <div className="flex justify-between">
-                  <span>{t('health.connections', { fallback: 'Connections' })}:</span>
-                  <span>{formatNumber(metrics.database.connections)}</span>
+                  <span>{t('health.p50', { fallback: 'Median' })}:</span>
+                  <span>{t('health.milliseconds', { value: formatNumber(requestMetrics.requests.p50 || 0) })}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>{t('health.p95', { fallback: '95th percentile' })}:</span>
+                  <span>{t('health.milliseconds', { value: formatNumber(requestMetrics.requests.p95 || 0) })}</span>
                 </div>
                 <div className="flex justify-between">
-                  <span>{t('health.queries', { fallback: 'Queries' })}:</span>
-                  <span>{formatNumber(metrics.database.queries)}</span>
+                  <span>{t('health.p99', { fallback: '99th percentile' })}:</span>
+                  <span>{t('health.milliseconds', { value: formatNumber(requestMetrics.requests.p99 || 0) })}</span>
                 </div>
                 <div className="flex justify-between">
-                  <span>{t('health.avgQueryTime', { fallback: 'Avg Query Time' })}:</span>
-                  <span>{metrics.database.averageQueryTime}ms</span>
+                  <span>{t('health.perMinute', { fallback: 'Last minute' })}:</span>
+                  <span>{formatNumber(requestMetrics.requests.perMinute || 0)}</span>
                 </div>
               </div>
             </div>
@@ -408,21 +417,24 @@ export function HealthStatus({
               <div className="space-y-2 text-sm">
                 <div className="flex justify-between">
                   <span>{t('health.hits', { fallback: 'Hits' })}:</span>
-                  <span className="text-green-600">{formatNumber(metrics.cache.hits)}</span>
+                  <span className="text-green-600">{formatNumber(requestMetrics.cache.hits)}</span>
                 </div>
                 <div className="flex justify-between">
                   <span>{t('health.misses', { fallback: 'Misses' })}:</span>
-                  <span className="text-red-600">{formatNumber(metrics.cache.misses)}</span>
+                  <span className="text-red-600">{formatNumber(requestMetrics.cache.misses)}</span>
                 </div>
                 <div className="flex justify-between">
                   <span>{t('health.hitRate', { fallback: 'Hit Rate' })}:</span>
-                  <span>{(metrics.cache.hitRate * 100).toFixed(1)}%</span>
+                  <span>{(requestMetrics.cache.hitRate * 100).toFixed(1)}%</span>
                 </div>
               </div>
             </div>
           </div>
         )}
 
+        {/* Uptime History and Incidents */}
+        <HealthHistory />
+
         {/* Refresh Button */}
         <div className="flex justify-center">
           <button
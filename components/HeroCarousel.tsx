@@ -5,8 +5,7 @@ import Image from 'next/image';
 import { motion, AnimatePresence } from 'framer-motion';
 import { ChevronLeft, ChevronRight } from 'lucide-react';
 import dynamic from 'next/dynamic';
-import { useMessages } from '@/hooks/useMessages';
-import { useLanguageStore } from '@/lib/store';
+import { useLanguage, useMessages } from '@/hooks/useMessages';
 
 // Lazy load GSAP for animations
 const GSAPAnimations = dynamic(() => import('./GSAPAnimations'), {
@@ -42,7 +41,7 @@ export default function HeroCarousel() {
   const intervalRef = useRef<NodeJS.Timeout>();
   const heroRef = useRef<HTMLDivElement>(null);
   const messages = useMessages();
-  const { language } = useLanguageStore();
+  const language = useLanguage();
 
   useEffect(() => {
     setIsClient(true);
@@ -0,0 +1,42 @@
+'use client';
+
+import { useEffect } from 'react';
+import { IntlError, NextIntlClientProvider } from 'next-intl';
+import { config } from '@/lib/config';
+import { Messages, isValidLocale } from '@/lib/i18n';
+import { useLanguageStore } from '@/lib/store';
+
+interface I18nProviderProps {
+  locale: string;
+  messages: Messages;
+  children: React.ReactNode;
+}
+
+function reportIntlError(error: IntlError) {
+  // A missing translation falls back to its key; only worth noise while developing
+  if (process.env.NODE_ENV === 'development') {
+    console.warn(error.message);
+  }
+}
+
+export default function I18nProvider({ locale, messages, children }: I18nProviderProps) {
+  const setLanguage = useLanguageStore((state) => state.setLanguage);
+
+  // Code outside React (cart sync, push notifications) reads the language store; keep it on the route's locale
+  useEffect(() => {
+    if (isValidLocale(locale)) {
+      setLanguage(locale);
+    }
+  }, [locale, setLanguage]);
+
+  return (
+    <NextIntlClientProvider
+      locale={locale}
+      messages={messages}
+      timeZone={config.i18n.timeZone}
+      onError={reportIntlError}
+    >
+      {children}
+    </NextIntlClientProvider>
+  );
+}
@@ -1,24 +1,31 @@
 'use client';
 
-import { useLanguageStore } from '@/lib/store';
+import { useLocale } from '@/hooks/useLocale';
 import { motion } from 'framer-motion';
 
 export default function LanguageToggle() {
-  const { language, setLanguage } = useLanguageStore();
+  // The language lives in the URL, so switching navigates to the next locale's page
+  const { locale: language, availableLocales, switchLocale } = useLocale();
+  const index = availableLocales.findIndex((locale) => locale.code === language);
+  const next = availableLocales[(index + 1) % availableLocales.length];
+
+  if (!next || next.code === language) {
+    return null;
+  }
 
   return (
     <div className="relative">
       <motion.button
         whileHover={{ scale: 1.05 }}
         whileTap={{ scale: 0.95 }}
-        onClick={() => setLanguage(language === 'en' ? 'ar' : 'en')}
+        onClick={() => switchLocale(next.code)}
         className="flex items-center space-x-2 rtl:space-x-reverse px-3 py-1 rounded-full bg-gray-100 hover:bg-gray-200 transition-colors"
-        aria-label={`Switch to ${language === 'en' ? 'Arabic' : 'English'}`}
+        aria-label={`Switch to ${next.name}`}
       >
         <span className="text-sm font-medium">
-          {language === 'en' ? 'العربية' : 'English'}
+          {next.nativeName}
         </span>
       </motion.button>
     </div>
   );
-}
\ No newline at end of file
+}
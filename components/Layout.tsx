@@ -1,7 +1,8 @@
 'use client';
 
 import dynamic from 'next/dynamic';
-import { useLanguageStore } from '@/lib/store';
+import { useLanguage } from '@/hooks/useMessages';
+import { isRTLLocale } from '@/lib/locales';
 import { useEffect, useState } from 'react';
 import Header from './Header';
 import Footer from './Footer';
@@ -28,7 +29,7 @@ interface LayoutProps {
 }
 
 export default function Layout({ children, locale }: LayoutProps) {
-  const { language } = useLanguageStore();
+  const language = useLanguage();
   const [mounted, setMounted] = useState(false);
 
   useEffect(() => {
@@ -37,7 +38,7 @@ export default function Layout({ children, locale }: LayoutProps) {
 
   useEffect(() => {
     document.documentElement.lang = language;
-    document.documentElement.dir = language === 'ar' ? 'rtl' : 'ltr';
+    document.documentElement.dir = isRTLLocale(language) ? 'rtl' : 'ltr';
     
     // Preload critical resources
     const preloadLink = document.createElement('link');
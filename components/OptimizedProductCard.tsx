@@ -6,12 +6,16 @@ import IntelligentLink from './IntelligentLink';
 import WarrantyBadge from './WarrantyBadge';
 import { useRouter } from 'next/navigation';
 import { motion } from 'framer-motion';
-import { ShoppingBag } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+import { ShoppingBag, Heart } from 'lucide-react';
 import { useInView } from 'react-intersection-observer';
-import { useCartStore, useLanguageStore, useNotificationStore } from '@/lib/store';
-import { useMessages } from '@/hooks/useMessages';
-import { formatPrice, decodeHtmlEntities } from '@/lib/utils';
+import { isRTLLocale } from '@/lib/locales';
+import { useCartStore, useNotificationStore } from '@/lib/store';
+import { useLanguage, useMessages } from '@/hooks/useMessages';
+import { decodeHtmlEntities } from '@/lib/utils';
+import { useCurrency } from '@/lib/currency-service';
 import { Product as ApiProduct } from '@/lib/api';
+import { useWishlist } from '@/lib/wishlist';
 import { generateGradientBlurDataURL, RESPONSIVE_SIZES } from '@/lib/image-optimization';
 
 interface OptimizedProductCardProps {
@@ -24,9 +28,12 @@ const OptimizedProductCard = memo(({ product, priority = false, className = '' }
   const [imageLoaded, setImageLoaded] = useState(false);
   const [isHovered, setIsHovered] = useState(false);
   const { addItem } = useCartStore();
-  const { language } = useLanguageStore();
+  const language = useLanguage();
   const { addNotification } = useNotificationStore();
+  const { isWishlisted, toggle: toggleWishlist } = useWishlist();
+  const { formatDisplayPrice } = useCurrency();
   const messages = useMessages();
+  const tWishlist = useTranslations('wishlist');
   const router = useRouter();
 
   const { ref, inView } = useInView({
@@ -35,7 +42,7 @@ const OptimizedProductCard = memo(({ product, priority = false, className = '' }
     rootMargin: '50px',
   });
 
-  const isRTL = language === 'ar';
+  const isRTL = isRTLLocale(language);
   const title = isRTL ? product.title?.ar || product.title?.en : product.title?.en || product.title?.ar;
   const description = isRTL ? product.description?.ar || product.description?.en : product.description?.en || product.description?.ar;
 
@@ -73,6 +80,28 @@ const OptimizedProductCard = memo(({ product, priority = false, className = '' }
     });
   }, [product, title, primaryImageUrl, addItem, addNotification, isRTL]);
 
+  const wishlisted = isWishlisted(product._id);
+
+  const handleToggleWishlist = useCallback(async (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    try {
+      const added = await toggleWishlist(product);
+      addNotification({
+        type: 'success',
+        title: added ? tWishlist('added') : tWishlist('removed'),
+        message: title,
+      });
+    } catch (error) {
+      addNotification({
+        type: 'error',
+        title: tWishlist('updateFailedTitle'),
+        message: error instanceof Error ? error.message : tWishlist('updateFailed'),
+      });
+    }
+  }, [product, title, toggleWishlist, addNotification, tWishlist]);
+
   const handleProductClick = useCallback(() => {
     // Prefetch the product page
     router.prefetch(`/${language}/products/${product.handle}`);
@@ -169,6 +198,20 @@ const OptimizedProductCard = memo(({ product, priority = false, className = '' }
             </div>
           )}
 
+          {/* Wishlist Toggle */}
+          <button
+            onClick={handleToggleWishlist}
+            aria-pressed={wishlisted}
+            aria-label={wishlisted ? tWishlist('remove') : tWishlist('add')}
+            className={`absolute bottom-3 left-3 p-2 rounded-full transition-all duration-300 ${
+              wishlisted
+                ? 'bg-red-500 text-white'
+                : 'bg-white/80 text-gray-600 hover:bg-white translate-y-8 group-hover:translate-y-0'
+            }`}
+          >
+            <Heart className={`w-4 h-4 ${wishlisted ? 'fill-current' : ''}`} />
+          </button>
+
           {/* Quick Add Button */}
           <button
             onClick={handleAddToCart}
@@ -194,15 +237,15 @@ const OptimizedProductCard = memo(({ product, priority = false, className = '' }
               {product.promotion?.isOnSale ? (
                 <>
                   <span className="text-lg font-bold text-red-600">
-                    {formatPrice(product.promotion.salePrice, product.currency)}
+                    {formatDisplayPrice(product.promotion.salePrice, product.currency)}
                   </span>
                   <span className="text-sm text-gray-500 line-through">
-                    {formatPrice(product.promotion.originalPrice || product.price, product.currency)}
+                    {formatDisplayPrice(product.promotion.originalPrice || product.price, product.currency)}
                   </span>
                 </>
               ) : (
                 <span className="text-lg font-bold text-gray-900">
-                  {formatPrice(product.price, product.currency)}
+                  {formatDisplayPrice(product.price, product.currency)}
                 </span>
               )}
             </div>
@@ -0,0 +1,106 @@
+'use client';
+
+import { RotateCcw, CheckCircle, XCircle, Clock, Package, CreditCard } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+import type { Order } from '@/lib/api';
+import { getFormatLocale } from '@/lib/locales';
+import { isRefundMethod, isReturnReason, ReturnRequest, ReturnStatus } from '@/lib/order-returns';
+import { formatPrice } from '@/lib/utils';
+import { useLanguage } from '@/hooks/useMessages';
+
+interface OrderReturnsProps {
+  order: Order;
+  returns: ReturnRequest[];
+}
+
+const STATUS_DETAILS: Record<ReturnStatus, { icon: typeof Clock; className: string }> = {
+  requested: { icon: Clock, className: 'text-yellow-600 bg-yellow-50 border-yellow-200' },
+  approved: { icon: CheckCircle, className: 'text-blue-600 bg-blue-50 border-blue-200' },
+  rejected: { icon: XCircle, className: 'text-red-600 bg-red-50 border-red-200' },
+  received: { icon: Package, className: 'text-purple-600 bg-purple-50 border-purple-200' },
+  refunded: { icon: CreditCard, className: 'text-green-600 bg-green-50 border-green-200' },
+  cancelled: { icon: XCircle, className: 'text-gray-600 bg-gray-50 border-gray-200' },
+};
+
+function getStatus(status: ReturnStatus): ReturnStatus {
+  return STATUS_DETAILS[status] ? status : 'requested';
+}
+
+// Return requests of an order and where each one stands
+export default function OrderReturns({ order, returns }: OrderReturnsProps) {
+  const t = useTranslations('returns');
+  const language = useLanguage();
+
+  if (returns.length === 0) return null;
+
+  const formatLocale = getFormatLocale(language);
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-sm">
+      <h2 className="text-xl font-bold text-gray-900 mb-4 flex items-center">
+        <RotateCcw className="w-5 h-5 mr-2" />
+        {t('title')}
+      </h2>
+
+      <div className="space-y-4">
+        {returns.map((request) => {
+          const status = getStatus(request.status);
+          const StatusIcon = STATUS_DETAILS[status].icon;
+
+          return (
+            <div key={request._id} className="border border-gray-100 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-3">
+                <div>
+                  <p className="font-medium text-gray-900">{t('rma', { number: request.rmaNumber })}</p>
+                  <p className="text-sm text-gray-500">
+                    {t('requestedOn', { date: new Date(request.createdAt).toLocaleDateString(formatLocale) })}
+                  </p>
+                </div>
+                <div className={`flex items-center space-x-1 px-3 py-1 rounded-full border text-sm ${STATUS_DETAILS[status].className}`}>
+                  <StatusIcon className="w-4 h-4" />
+                  <span className="font-medium">{t(`status.${status}`)}</span>
+                </div>
+              </div>
+
+              <ul className="text-sm text-gray-700 space-y-1 mb-3">
+                {request.items.map((item) => (
+                  <li key={item.lineIndex}>
+                    {item.quantity} × {item.title || order.items?.[item.lineIndex]?.title || t('item')}
+                  </li>
+                ))}
+              </ul>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm text-gray-600">
+                <p>{t('reasonLine', { reason: isReturnReason(request.reason) ? t(`reasons.${request.reason}`) : request.reason })}</p>
+                <p>
+                  {t('refundToLine', {
+                    method: isRefundMethod(request.refundMethod) ? t(`refundMethods.${request.refundMethod}.label`) : request.refundMethod,
+                  })}
+                </p>
+                {request.refundAmount !== undefined && (
+                  <p className="font-medium text-gray-900">
+                    {t('refundLine', { amount: formatPrice(request.refundAmount, request.currency || order.currency) })}
+                  </p>
+                )}
+              </div>
+
+              {request.statusHistory && request.statusHistory.length > 0 && (
+                <ol className="mt-3 border-t border-gray-100 pt-3 space-y-1 text-sm">
+                  {request.statusHistory.map((entry, index) => (
+                    <li key={index} className="flex justify-between text-gray-600">
+                      <span>
+                        {t(`status.${getStatus(entry.status)}`)}
+                        {entry.note && <span className="text-gray-500"> · {entry.note}</span>}
+                      </span>
+                      <span className="text-gray-500">{new Date(entry.at).toLocaleString(formatLocale)}</span>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { AlertCircle, CreditCard, ShoppingBag } from 'lucide-react';
+import { getTextDirection } from '@/lib/locales';
+import { useCartStore } from '@/lib/store';
+import {
+  PendingPayment,
+  clearPendingPayment,
+  getPendingPayment,
+  isPendingPaymentExpired,
+} from '@/lib/payments';
+
+interface PaymentRecoveryNoticeProps {
+  locale: string;
+}
+
+// Put an unpaid order's items back in the cart, skipping lines that are already there
+const restoreCart = (payment: PendingPayment) => {
+  const { items, addItem } = useCartStore.getState();
+  payment.items.forEach((item) => {
+    const inCart = items.some(
+      (existing) => existing.id === item.id && existing.size === item.size && existing.color === item.color
+    );
+    if (!inCart) {
+      addItem(item);
+    }
+  });
+};
+
+// Offers to resume or retry an unpaid card order after the payment page failed or was left
+export default function PaymentRecoveryNotice({ locale }: PaymentRecoveryNoticeProps) {
+  const t = useTranslations('payment.recovery');
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const reason = searchParams.get('payment');
+  const orderParam = searchParams.get('order');
+  const [pending, setPending] = useState<PendingPayment | null>(null);
+  const [expired, setExpired] = useState(false);
+
+  useEffect(() => {
+    const payment = getPendingPayment(orderParam || undefined);
+    if (!payment) return;
+
+    // The order was never paid; put its items back so the customer can check out again
+    if (isPendingPaymentExpired(payment)) {
+      restoreCart(payment);
+      clearPendingPayment(payment.orderId);
+      setExpired(true);
+      return;
+    }
+
+    if (reason || payment.abandonedAt || payment.lastError) {
+      setPending(payment);
+    }
+  }, [orderParam, reason]);
+
+  const handleRetry = () => {
+    if (!pending) return;
+    router.push(
+      `/${locale}/payment?order=${encodeURIComponent(pending.orderId)}&client_secret=${encodeURIComponent(pending.clientSecret)}`
+    );
+  };
+
+  const handleEditOrder = () => {
+    if (!pending) return;
+    restoreCart(pending);
+    clearPendingPayment(pending.orderId);
+    setPending(null);
+    router.replace(`/${locale}/checkout`);
+  };
+
+  if (expired) {
+    return (
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center space-x-3 rtl:space-x-reverse"
+      >
+        <AlertCircle className="w-5 h-5 text-yellow-600 flex-shrink-0" />
+        <p className="text-yellow-800">
+          {t('expired')}
+        </p>
+      </motion.div>
+    );
+  }
+
+  if (!pending) return null;
+
+  const failed = reason === 'failed' || (!!pending.lastError && reason !== 'cancelled');
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className={`mb-6 p-4 rounded-lg border ${failed ? 'bg-red-50 border-red-200' : 'bg-blue-50 border-blue-200'}`}
+      dir={getTextDirection(locale)}
+    >
+      <div className="flex items-start space-x-3 rtl:space-x-reverse">
+        <AlertCircle className={`w-5 h-5 flex-shrink-0 mt-0.5 ${failed ? 'text-red-500' : 'text-blue-500'}`} />
+        <div className="flex-1">
+          <p className={`font-medium ${failed ? 'text-red-800' : 'text-blue-800'}`}>
+            {failed
+              ? t('failedTitle')
+              : t('pendingTitle')}
+            {' '}#{pending.orderId.slice(-8)}
+          </p>
+          {failed && pending.lastError && (
+            <p className="text-sm text-red-700 mt-1">{pending.lastError}</p>
+          )}
+          <div className="flex flex-col sm:flex-row gap-3 mt-3">
+            <button
+              type="button"
+              onClick={handleRetry}
+              className="inline-flex items-center justify-center space-x-2 rtl:space-x-reverse bg-black text-white px-4 py-2 rounded-lg hover:bg-gray-800 transition-colors"
+            >
+              <CreditCard className="w-4 h-4" />
+              <span>{failed ? t('retry') : t('resume')}</span>
+            </button>
+            {pending.items.length > 0 && (
+              <button
+                type="button"
+                onClick={handleEditOrder}
+                className="inline-flex items-center justify-center space-x-2 rtl:space-x-reverse bg-white text-gray-700 border border-gray-300 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <ShoppingBag className="w-4 h-4" />
+                <span>{t('editOrder')}</span>
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
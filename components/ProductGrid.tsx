@@ -18,7 +18,7 @@ export default function ProductGrid() {
       <div className="container mx-auto px-4 sm:px-6 lg:px-8">
         <div className="text-center mb-12">
           <h2 className="text-3xl md:text-4xl font-bold text-gray-900 mb-4">
-            {messages.products.title}
+            {messages.products.featured}
           </h2>
         </div>
 
@@ -122,8 +122,7 @@ export function RatingForm({
         
         const result = await updateRatingMutation.mutateAsync({
           ratingId: existingRating._id,
-          data: updateData,
-          token: localStorage.getItem('authToken') || undefined
+          data: updateData
         });
         
         console.log('Rating updated successfully:', result);
@@ -135,8 +134,7 @@ export function RatingForm({
         };
         
         const result = await createRatingMutation.mutateAsync({
-          data: createData,
-          token: localStorage.getItem('authToken') || undefined
+          data: createData
         });
         
         console.log('Rating created successfully:', result);
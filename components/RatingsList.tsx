@@ -56,13 +56,11 @@ export function RatingsList({
     try {
       if (isHelpful) {
         await helpfulVoteMutation.addVote.mutateAsync({
-          ratingId,
-          token: localStorage.getItem('authToken') || undefined
+          ratingId
         });
       } else {
         await helpfulVoteMutation.removeVote.mutateAsync({
-          ratingId,
-          token: localStorage.getItem('authToken') || undefined
+          ratingId
         });
       }
       refetch();
@@ -78,8 +76,7 @@ export function RatingsList({
 
     try {
       await deleteRatingMutation.mutateAsync({
-        ratingId,
-        token: localStorage.getItem('authToken') || undefined
+        ratingId
       });
       refetch();
     } catch (error) {
@@ -0,0 +1,83 @@
+'use client';
+
+import { useState } from 'react';
+import { RefreshCw, AlertTriangle } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+import type { Order } from '@/lib/api';
+import { getContentLocale } from '@/lib/locales';
+import { describeReorderChange, reorderOrder, ReorderChange } from '@/lib/reorder';
+import { useCartStore, useNotificationStore } from '@/lib/store';
+import { useLanguage } from '@/hooks/useMessages';
+
+interface ReorderButtonProps {
+  order: Order;
+  className?: string;
+}
+
+// Puts the lines of a past order back in the cart and lists anything that changed since
+export default function ReorderButton({ order, className = '' }: ReorderButtonProps) {
+  const [reordering, setReordering] = useState(false);
+  const [changes, setChanges] = useState<ReorderChange[]>([]);
+  const t = useTranslations('reorder');
+  const language = useLanguage();
+  const locale = getContentLocale(language);
+  const { openCart } = useCartStore();
+  const { addNotification } = useNotificationStore();
+
+  const handleReorder = async () => {
+    setReordering(true);
+    setChanges([]);
+
+    try {
+      const result = await reorderOrder(order, locale);
+      setChanges(result.changes);
+
+      if (result.added.length === 0) {
+        addNotification({
+          type: 'warning',
+          title: t('nothingAdded'),
+          message: t('noneAvailable'),
+        });
+        return;
+      }
+
+      addNotification({
+        type: 'success',
+        title: t('addedTitle'),
+        message: result.changes.length > 0
+          ? t('addedWithChanges', { count: result.added.length })
+          : t('added', { count: result.added.length }),
+      });
+      openCart();
+    } finally {
+      setReordering(false);
+    }
+  };
+
+  return (
+    <div className={className}>
+      <button
+        onClick={handleReorder}
+        disabled={reordering}
+        className="w-full flex items-center justify-center space-x-2 bg-black text-white px-4 py-2 rounded-lg hover:bg-gray-800 disabled:opacity-50 transition-colors"
+      >
+        <RefreshCw className={`w-4 h-4 ${reordering ? 'animate-spin' : ''}`} />
+        <span>{reordering ? t('adding') : t('reorder')}</span>
+      </button>
+
+      {changes.length > 0 && (
+        <div className="mt-3 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          <p className="flex items-center font-medium mb-1">
+            <AlertTriangle className="w-4 h-4 mr-1" />
+            {t('changes')}
+          </p>
+          <ul className="space-y-1">
+            {changes.map((change, index) => (
+              <li key={index}>{describeReorderChange(change, locale)}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
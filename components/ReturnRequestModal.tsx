@@ -0,0 +1,326 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Minus, Plus, Camera, Trash2 } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+import { apiClient, Order, handleApiError } from '@/lib/api';
+import {
+  getRefundMethods,
+  getReturnableQuantities,
+  isValidReturnPhoto,
+  MAX_RETURN_COMMENT_LENGTH,
+  MAX_RETURN_PHOTOS,
+  RETURN_PHOTO_TYPES,
+  RETURN_REASONS,
+  RefundMethod,
+  ReturnReason,
+  ReturnRequest,
+  validateReturnRequest,
+} from '@/lib/order-returns';
+import { decodeHtmlEntities } from '@/lib/utils';
+
+interface ReturnRequestModalProps {
+  order: Order;
+  returns: ReturnRequest[];
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmitted: (request: ReturnRequest) => void;
+}
+
+export default function ReturnRequestModal({ order, returns, isOpen, onClose, onSubmitted }: ReturnRequestModalProps) {
+  const t = useTranslations('returns');
+  const available = getReturnableQuantities(order, returns);
+  const refundMethods = getRefundMethods(order);
+
+  const [quantities, setQuantities] = useState<number[]>([]);
+  const [reason, setReason] = useState<ReturnReason | ''>('');
+  const [comment, setComment] = useState('');
+  const [refundMethod, setRefundMethod] = useState<RefundMethod>(refundMethods[0]);
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [previews, setPreviews] = useState<string[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from a clean form every time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setQuantities((order.items || []).map(() => 0));
+    setReason('');
+    setComment('');
+    setRefundMethod(getRefundMethods(order)[0]);
+    setPhotos([]);
+    setError(null);
+  }, [isOpen, order]);
+
+  // Object URLs for the thumbnails, released when the photos change
+  useEffect(() => {
+    const urls = photos.map((photo) => URL.createObjectURL(photo));
+    setPreviews(urls);
+    return () => urls.forEach((url) => URL.revokeObjectURL(url));
+  }, [photos]);
+
+  const setQuantity = (lineIndex: number, quantity: number) => {
+    setQuantities((current) => current.map((value, index) =>
+      index === lineIndex ? Math.max(0, Math.min(available[index], quantity)) : value
+    ));
+    setError(null);
+  };
+
+  const handlePhotos = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    e.target.value = '';
+
+    if (selected.some((file) => !isValidReturnPhoto(file))) {
+      setError(t('request.invalidPhoto'));
+      return;
+    }
+    if (photos.length + selected.length > MAX_RETURN_PHOTOS) {
+      setError(t('request.photoLimit', { max: MAX_RETURN_PHOTOS }));
+      return;
+    }
+    setPhotos([...photos, ...selected]);
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const input = {
+      items: quantities
+        .map((quantity, lineIndex) => ({ lineIndex, quantity }))
+        .filter((item) => item.quantity > 0),
+      reason: reason as ReturnReason,
+      comment: comment.trim() || undefined,
+      refundMethod,
+    };
+
+    const validationError = validateReturnRequest(input, order, returns, photos.length);
+    if (validationError) {
+      setError(t(`errors.${validationError}`, { max: validationError === 'commentLength' ? MAX_RETURN_COMMENT_LENGTH : MAX_RETURN_PHOTOS }));
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const created = await apiClient.createReturnRequest(order._id, input, photos);
+      onSubmitted(created);
+    } catch (err) {
+      setError(handleApiError(err));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const selectedReason = RETURN_REASONS.filter((entry) => entry.value === reason)[0];
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/50 z-50"
+          />
+
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 pointer-events-none">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.9, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.9, y: 20 }}
+              className="bg-white rounded-2xl shadow-2xl w-full max-w-lg p-6 pointer-events-auto max-h-[90vh] overflow-y-auto"
+            >
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-2xl font-bold text-gray-900">{t('request.title')}</h2>
+                <button
+                  onClick={onClose}
+                  className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                  aria-label={t('request.close')}
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              {error && (
+                <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+                  {error}
+                </div>
+              )}
+
+              <form onSubmit={handleSubmit} className="space-y-6">
+                {/* Items */}
+                <div>
+                  <h3 className="font-medium text-gray-900 mb-2">{t('request.items')}</h3>
+                  <div className="space-y-3">
+                    {(order.items || []).map((item, index) => (
+                      <div key={index} className="flex items-center space-x-3 p-3 border border-gray-100 rounded-lg">
+                        <div className="relative w-12 h-12 rounded-lg overflow-hidden bg-gray-100 flex-shrink-0">
+                          <Image
+                            src={decodeHtmlEntities(item.image || '/placeholder-image.jpg')}
+                            alt={item.title}
+                            fill
+                            className="object-cover"
+                            sizes="48px"
+                          />
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <p className="font-medium text-gray-900 truncate">{item.title}</p>
+                          <p className="text-sm text-gray-500">
+                            {available[index] > 0
+                              ? t('request.returnable', { available: available[index], total: item.quantity })
+                              : t('request.alreadyReturned')}
+                          </p>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <button
+                            type="button"
+                            onClick={() => setQuantity(index, (quantities[index] || 0) - 1)}
+                            disabled={!quantities[index]}
+                            className="p-1 rounded-full border border-gray-300 disabled:opacity-40"
+                            aria-label={t('request.less', { title: item.title })}
+                          >
+                            <Minus className="w-4 h-4" />
+                          </button>
+                          <span className="w-6 text-center">{quantities[index] || 0}</span>
+                          <button
+                            type="button"
+                            onClick={() => setQuantity(index, (quantities[index] || 0) + 1)}
+                            disabled={(quantities[index] || 0) >= available[index]}
+                            className="p-1 rounded-full border border-gray-300 disabled:opacity-40"
+                            aria-label={t('request.more', { title: item.title })}
+                          >
+                            <Plus className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Reason */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {t('request.reason')}
+                  </label>
+                  <select
+                    value={reason}
+                    onChange={(e) => {
+                      setReason(e.target.value as ReturnReason);
+                      setError(null);
+                    }}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    required
+                  >
+                    <option value="" disabled>{t('request.chooseReason')}</option>
+                    {RETURN_REASONS.map((entry) => (
+                      <option key={entry.value} value={entry.value}>{t(`reasons.${entry.value}`)}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {t('request.details')}
+                  </label>
+                  <textarea
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                    maxLength={MAX_RETURN_COMMENT_LENGTH}
+                    rows={3}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder={t('request.detailsPlaceholder')}
+                  />
+                </div>
+
+                {/* Photos */}
+                <div>
+                  <p className="block text-sm font-medium text-gray-700 mb-1">
+                    {selectedReason?.needsPhotos ? t('request.photosRequired') : t('request.photosOptional')}
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {previews.map((url, index) => (
+                      <div key={url} className="relative w-20 h-20 rounded-lg overflow-hidden bg-gray-100">
+                        <Image
+                          src={url}
+                          alt={t('request.photo', { number: index + 1 })}
+                          fill
+                          unoptimized
+                          sizes="80px"
+                          className="object-cover"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setPhotos(photos.filter((_, i) => i !== index))}
+                          className="absolute top-1 right-1 p-1 bg-white/90 rounded-full"
+                          aria-label={t('request.removePhoto', { number: index + 1 })}
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </button>
+                      </div>
+                    ))}
+                    {photos.length < MAX_RETURN_PHOTOS && (
+                      <label className="w-20 h-20 flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-gray-400 text-gray-500">
+                        <Camera className="w-5 h-5" />
+                        <span className="text-xs mt-1">{t('request.addPhoto')}</span>
+                        <input
+                          type="file"
+                          accept={RETURN_PHOTO_TYPES.join(',')}
+                          multiple
+                          onChange={handlePhotos}
+                          className="hidden"
+                        />
+                      </label>
+                    )}
+                  </div>
+                </div>
+
+                {/* Refund method */}
+                <div>
+                  <p className="block text-sm font-medium text-gray-700 mb-2">{t('request.refundTo')}</p>
+                  <div className="space-y-2">
+                    {refundMethods.map((method) => (
+                      <label
+                        key={method}
+                        className={`flex items-start space-x-3 p-3 border rounded-lg cursor-pointer ${
+                          refundMethod === method ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                        }`}
+                      >
+                        <input
+                          type="radio"
+                          name="refundMethod"
+                          value={method}
+                          checked={refundMethod === method}
+                          onChange={() => setRefundMethod(method)}
+                          className="mt-1"
+                        />
+                        <span>
+                          <span className="block font-medium text-gray-900">{t(`refundMethods.${method}.label`)}</span>
+                          <span className="block text-sm text-gray-500">{t(`refundMethods.${method}.description`)}</span>
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <button
+                  type="submit"
+                  disabled={submitting}
+                  className="w-full bg-black text-white py-3 px-4 rounded-lg hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {submitting ? t('request.submitting') : t('request.submit')}
+                </button>
+              </form>
+            </motion.div>
+          </div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
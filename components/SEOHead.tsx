@@ -5,6 +5,7 @@ import { useSEO } from '@/hooks/useSEO';
 import { useLocale } from '@/hooks/useLocale';
 import { SEOMetadata, OpenGraphData, TwitterCardData, StructuredData } from '@/types';
 import { config } from '@/lib/config';
+import { getOpenGraphLocale } from '@/lib/locales';
 import { generateHreflangAlternates, generateCanonicalUrl } from '@/lib/seo-utils';
 
 interface SEOHeadProps {
@@ -113,9 +114,10 @@ export function SEOHead({
       <meta property="og:type" content={type} />
       <meta property="og:url" content={canonicalUrl} />
       <meta property="og:site_name" content={config.site.name} />
-      <meta property="og:locale" content={locale === 'ar' ? 'ar_SA' : 'en_US'} />
-      {locale === 'ar' && <meta property="og:locale:alternate" content="en_US" />}
-      {locale === 'en' && <meta property="og:locale:alternate" content="ar_SA" />}
+      <meta property="og:locale" content={getOpenGraphLocale(locale)} />
+      {config.i18n.locales.filter((alternate) => alternate !== locale).map((alternate) => (
+        <meta key={alternate} property="og:locale:alternate" content={getOpenGraphLocale(alternate)} />
+      ))}
       <meta property="og:image" content={finalImage} />
       <meta property="og:image:alt" content={finalTitle} />
       <meta property="og:image:width" content="1200" />
@@ -161,7 +163,7 @@ export function SEOHead({
       <link rel="manifest" href="/manifest.json" />
       
       {/* DNS Prefetch and Preconnect */}
-      <link rel="dns-prefetch" href={config.api.baseUrl} />
+      {/^https?:/.test(config.api.baseUrl) && <link rel="dns-prefetch" href={config.api.baseUrl} />}
       <link rel="preconnect" href="https://fonts.googleapis.com" />
       <link rel="preconnect" href="https://fonts.gstatic.com" crossOrigin="anonymous" />
       <link rel="preconnect" href="https://cdnjs.cloudflare.com" />
@@ -0,0 +1,141 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import type { SearchFacets, SearchFilters as SearchFilterValues } from '@/lib/search';
+
+interface SearchFiltersProps {
+  facets: SearchFacets | null;
+  filters: SearchFilterValues;
+  onChange: (changes: Partial<SearchFilterValues>) => void;
+  onClear: () => void;
+}
+
+function parsePrice(value: string): number | undefined {
+  if (!value.trim()) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+export default function SearchFilters({ facets, filters, onChange, onClear }: SearchFiltersProps) {
+  const t = useTranslations('search.filters');
+  const [minPrice, setMinPrice] = useState(filters.minPrice?.toString() || '');
+  const [maxPrice, setMaxPrice] = useState(filters.maxPrice?.toString() || '');
+
+  // Follow URL changes (back/forward, clear all)
+  useEffect(() => {
+    setMinPrice(filters.minPrice?.toString() || '');
+    setMaxPrice(filters.maxPrice?.toString() || '');
+  }, [filters.minPrice, filters.maxPrice]);
+
+  const hasFilters = !!(
+    filters.category ||
+    filters.minPrice !== undefined ||
+    filters.maxPrice !== undefined ||
+    filters.inStock ||
+    filters.onSale
+  );
+
+  const applyPrice = (event?: React.FormEvent) => {
+    event?.preventDefault();
+    const min = parsePrice(minPrice);
+    const max = parsePrice(maxPrice);
+    if (min !== filters.minPrice || max !== filters.maxPrice) {
+      onChange({ minPrice: min, maxPrice: max });
+    }
+  };
+
+  return (
+    <aside className="space-y-8" aria-label={t('label')}>
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">{t('title')}</h2>
+        {hasFilters && (
+          <button onClick={onClear} className="text-sm text-gray-500 hover:text-gray-900 underline">
+            {t('clearAll')}
+          </button>
+        )}
+      </div>
+
+      {/* Category */}
+      <fieldset>
+        <legend className="text-sm font-semibold text-gray-900 mb-3">{t('category')}</legend>
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="radio"
+              name="search-category"
+              checked={!filters.category}
+              onChange={() => onChange({ category: undefined })}
+            />
+            {t('allCategories')}
+          </label>
+          {facets?.categories.map((category) => (
+            <label key={category.id} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="radio"
+                name="search-category"
+                checked={filters.category === category.id}
+                onChange={() => onChange({ category: category.id })}
+              />
+              <span className="flex-1 capitalize">{category.name}</span>
+              <span className="text-gray-400">{category.count}</span>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      {/* Price range */}
+      <fieldset>
+        <legend className="text-sm font-semibold text-gray-900 mb-3">{t('price')}</legend>
+        <form onSubmit={applyPrice} className="flex items-center gap-2">
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            value={minPrice}
+            onChange={(e) => setMinPrice(e.target.value)}
+            onBlur={() => applyPrice()}
+            placeholder={facets ? String(Math.floor(facets.price.min)) : t('min')}
+            aria-label={t('minLabel')}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-black"
+          />
+          <span className="text-gray-400">–</span>
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            value={maxPrice}
+            onChange={(e) => setMaxPrice(e.target.value)}
+            onBlur={() => applyPrice()}
+            placeholder={facets ? String(Math.ceil(facets.price.max)) : t('max')}
+            aria-label={t('maxLabel')}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-black"
+          />
+        </form>
+      </fieldset>
+
+      {/* Availability */}
+      <fieldset className="space-y-2">
+        <legend className="text-sm font-semibold text-gray-900 mb-3">{t('availability')}</legend>
+        <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!filters.inStock}
+            onChange={(e) => onChange({ inStock: e.target.checked || undefined })}
+          />
+          <span className="flex-1">{t('inStock')}</span>
+          {facets && <span className="text-gray-400">{facets.inStock}</span>}
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!filters.onSale}
+            onChange={(e) => onChange({ onSale: e.target.checked || undefined })}
+          />
+          <span className="flex-1">{t('onSale')}</span>
+          {facets && <span className="text-gray-400">{facets.onSale}</span>}
+        </label>
+      </fieldset>
+    </aside>
+  );
+}
@@ -0,0 +1,225 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Loader2, Search, X } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+import { apiClient } from '@/lib/api';
+import { getContentLocale, isRTLLocale } from '@/lib/locales';
+import { MIN_QUERY_LENGTH, SearchSuggestion } from '@/lib/search';
+import { useSearchStore } from '@/lib/store';
+import { useLanguage } from '@/hooks/useMessages';
+import SearchSuggestions, { getSearchOptionCount, getSearchOptionId } from './SearchSuggestions';
+
+interface SearchModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Wait for a pause in typing before asking the server for suggestions
+const SUGGESTION_DEBOUNCE_MS = 250;
+
+export default function SearchModal({ isOpen, onClose }: SearchModalProps) {
+  const router = useRouter();
+  const language = useLanguage();
+  const { recentSearches, addRecentSearch, removeRecentSearch, clearRecentSearches } = useSearchStore();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const [query, setQuery] = useState('');
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const isRTL = isRTLLocale(language);
+  const t = useTranslations('search');
+  const trimmed = query.trim();
+  const optionCount = getSearchOptionCount(query, suggestions, recentSearches);
+
+  // Start fresh every time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setQuery('');
+      setSuggestions([]);
+      setActiveIndex(-1);
+      // Focus after the enter animation has mounted the input
+      const timer = setTimeout(() => inputRef.current?.focus(), 50);
+      return () => clearTimeout(timer);
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    document.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      document.body.style.overflow = previousOverflow;
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen, onClose]);
+
+  useEffect(() => {
+    setActiveIndex(-1);
+
+    if (trimmed.length < MIN_QUERY_LENGTH) {
+      setSuggestions([]);
+      setLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setLoading(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        const results = await apiClient.getSearchSuggestions(trimmed, getContentLocale(language), controller.signal);
+        setSuggestions(results);
+      } catch (error) {
+        if ((error as Error)?.name !== 'AbortError') {
+          console.error('Failed to load search suggestions:', error);
+          setSuggestions([]);
+        }
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    }, SUGGESTION_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [trimmed, language]);
+
+  const submitQuery = (value: string) => {
+    const q = value.trim();
+    if (!q) return;
+    addRecentSearch(q);
+    onClose();
+    router.push(`/${language}/search?q=${encodeURIComponent(q)}`);
+  };
+
+  const selectSuggestion = (suggestion: SearchSuggestion) => {
+    addRecentSearch(trimmed || suggestion.label);
+    onClose();
+    if (suggestion.type === 'category') {
+      router.push(`/${language}/search?category=${encodeURIComponent(suggestion.id)}`);
+    } else {
+      router.push(`/${language}/products/${suggestion.handle}`);
+    }
+  };
+
+  const handleInputKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        if (optionCount > 0) setActiveIndex((index) => (index + 1) % optionCount);
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        if (optionCount > 0) setActiveIndex((index) => (index <= 0 ? optionCount - 1 : index - 1));
+        break;
+      case 'Enter': {
+        event.preventDefault();
+        if (!trimmed && activeIndex >= 0) {
+          submitQuery(recentSearches[activeIndex]);
+        } else if (activeIndex >= 0 && activeIndex < suggestions.length) {
+          selectSuggestion(suggestions[activeIndex]);
+        } else {
+          submitQuery(query);
+        }
+        break;
+      }
+    }
+  };
+
+  // Keep the highlighted option visible while arrowing through a long list
+  useEffect(() => {
+    if (activeIndex >= 0) {
+      document.getElementById(getSearchOptionId(activeIndex))?.scrollIntoView({ block: 'nearest' });
+    }
+  }, [activeIndex]);
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/50 z-50"
+          />
+
+          <div className="fixed inset-0 z-50 flex items-start justify-center p-4 pt-20 pointer-events-none">
+            <motion.div
+              initial={{ opacity: 0, y: -20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+              role="dialog"
+              aria-modal="true"
+              aria-label={t('label')}
+              dir={isRTL ? 'rtl' : 'ltr'}
+              className="bg-white rounded-2xl shadow-2xl w-full max-w-xl pointer-events-auto overflow-hidden"
+            >
+              <div className="flex items-center gap-3 px-4 border-b border-gray-200">
+                <Search className="w-5 h-5 text-gray-400 flex-shrink-0" />
+                <input
+                  ref={inputRef}
+                  type="search"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  onKeyDown={handleInputKeyDown}
+                  placeholder={t('placeholder')}
+                  className="flex-1 py-4 bg-transparent text-gray-900 placeholder-gray-400 focus:outline-none"
+                  role="combobox"
+                  aria-expanded={optionCount > 0}
+                  aria-controls="search-options"
+                  aria-activedescendant={activeIndex >= 0 ? getSearchOptionId(activeIndex) : undefined}
+                  autoComplete="off"
+                  maxLength={100}
+                />
+                {loading && <Loader2 className="w-4 h-4 text-gray-400 animate-spin" />}
+                <button
+                  onClick={onClose}
+                  className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                  aria-label={t('modal.close')}
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div id="search-options" className="max-h-[60vh] overflow-y-auto">
+                <SearchSuggestions
+                  query={query}
+                  suggestions={suggestions}
+                  recentSearches={recentSearches}
+                  activeIndex={activeIndex}
+                  loading={loading}
+                  onSelectSuggestion={selectSuggestion}
+                  onSelectQuery={submitQuery}
+                  onRemoveRecent={removeRecentSearch}
+                  onClearRecent={clearRecentSearches}
+                  onHover={setActiveIndex}
+                />
+              </div>
+
+              <div className="hidden sm:flex items-center gap-4 px-4 py-2 border-t border-gray-100 text-xs text-gray-400">
+                <span>↑↓ {t('modal.navigate')}</span>
+                <span>↵ {t('modal.select')}</span>
+                <span>{t('modal.dismiss')}</span>
+              </div>
+            </motion.div>
+          </div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
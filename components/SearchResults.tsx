@@ -0,0 +1,71 @@
+'use client';
+
+import { SearchX } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+import OptimizedProductCard from './OptimizedProductCard';
+import type { Product } from '@/lib/api';
+
+interface SearchResultsProps {
+  products: Product[];
+  loading?: boolean;
+  error?: string | null;
+  onRetry?: () => void;
+}
+
+export default function SearchResults({ products, loading = false, error = null, onRetry }: SearchResultsProps) {
+  const t = useTranslations('search.results');
+
+  if (loading && products.length === 0) {
+    return (
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 lg:gap-8">
+        {[...Array(6)].map((_, i) => (
+          <div key={i} className="animate-pulse space-y-4">
+            <div className="aspect-square bg-gray-200 rounded-2xl"></div>
+            <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+            <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-16">
+        <p className="text-xl text-red-500 mb-4">{t('failed')}</p>
+        <p className="text-gray-600 mb-6">{error}</p>
+        {onRetry && (
+          <button
+            onClick={onRetry}
+            className="bg-black text-white px-6 py-2 rounded-full font-semibold hover:bg-gray-800 transition-colors"
+          >
+            {t('retry')}
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  if (products.length === 0) {
+    return (
+      <div className="text-center py-16">
+        <SearchX className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+        <p className="text-xl text-gray-700 mb-2">{t('empty')}</p>
+        <p className="text-gray-500">
+          {t('emptyHint')}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 lg:gap-8 transition-opacity ${loading ? 'opacity-60' : ''}`}
+      aria-busy={loading}
+    >
+      {products.map((product, index) => (
+        <OptimizedProductCard key={product._id} product={product} priority={index < 3} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+'use client';
+
+import Image from 'next/image';
+import { Clock, Search, Tag, X } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+import { useLanguage } from '@/hooks/useMessages';
+import { useCurrency } from '@/lib/currency-service';
+import { getFormatLocale } from '@/lib/locales';
+import type { SearchSuggestion } from '@/lib/search';
+
+interface SearchSuggestionsProps {
+  query: string;
+  suggestions: SearchSuggestion[];
+  recentSearches: string[];
+  activeIndex: number;
+  loading?: boolean;
+  onSelectSuggestion: (suggestion: SearchSuggestion) => void;
+  onSelectQuery: (query: string) => void;
+  onRemoveRecent: (query: string) => void;
+  onClearRecent: () => void;
+  onHover: (index: number) => void;
+}
+
+export function getSearchOptionId(index: number) {
+  return `search-option-${index}`;
+}
+
+/**
+ * Options are indexed in render order so the modal can drive them from the keyboard:
+ * recent searches while the query is empty, otherwise suggestions followed by "search for …"
+ */
+export function getSearchOptionCount(query: string, suggestions: SearchSuggestion[], recentSearches: string[]) {
+  return query.trim() ? suggestions.length + 1 : recentSearches.length;
+}
+
+export default function SearchSuggestions({
+  query,
+  suggestions,
+  recentSearches,
+  activeIndex,
+  loading = false,
+  onSelectSuggestion,
+  onSelectQuery,
+  onRemoveRecent,
+  onClearRecent,
+  onHover,
+}: SearchSuggestionsProps) {
+  const { formatDisplayPrice } = useCurrency();
+  const language = useLanguage();
+  const t = useTranslations('search.suggestions');
+  const trimmed = query.trim();
+
+  const optionClass = (index: number) =>
+    `w-full flex items-center gap-3 px-4 py-3 text-start transition-colors ${
+      index === activeIndex ? 'bg-gray-100' : 'hover:bg-gray-50'
+    }`;
+
+  if (!trimmed) {
+    if (recentSearches.length === 0) {
+      return (
+        <p className="px-4 py-6 text-center text-sm text-gray-500">
+          {t('hint')}
+        </p>
+      );
+    }
+
+    return (
+      <div>
+        <div className="flex items-center justify-between px-4 pt-3 pb-1">
+          <span className="text-xs font-semibold uppercase tracking-wide text-gray-500">
+            {t('recent')}
+          </span>
+          <button onClick={onClearRecent} className="text-xs text-gray-500 hover:text-gray-900">
+            {t('clearAll')}
+          </button>
+        </div>
+        <ul role="listbox" aria-label={t('recent')}>
+          {recentSearches.map((recent, index) => (
+            <li key={recent} className="flex items-center" role="presentation">
+              <button
+                id={getSearchOptionId(index)}
+                role="option"
+                aria-selected={index === activeIndex}
+                onClick={() => onSelectQuery(recent)}
+                onMouseEnter={() => onHover(index)}
+                className={optionClass(index)}
+              >
+                <Clock className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                <span className="flex-1 truncate text-gray-800">{recent}</span>
+              </button>
+              <button
+                onClick={() => onRemoveRecent(recent)}
+                className="p-2 mx-2 text-gray-400 hover:text-gray-700"
+                aria-label={t('removeRecent', { query: recent })}
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+
+  return (
+    <ul role="listbox" aria-label={t('label')} aria-busy={loading}>
+      {suggestions.map((suggestion, index) => (
+        <li key={`${suggestion.type}-${suggestion.id}`} role="presentation">
+          <button
+            id={getSearchOptionId(index)}
+            role="option"
+            aria-selected={index === activeIndex}
+            onClick={() => onSelectSuggestion(suggestion)}
+            onMouseEnter={() => onHover(index)}
+            className={optionClass(index)}
+          >
+            {suggestion.type === 'category' ? (
+              <span className="w-10 h-10 rounded-lg bg-gray-100 flex items-center justify-center flex-shrink-0">
+                <Tag className="w-4 h-4 text-gray-500" />
+              </span>
+            ) : (
+              <span className="relative w-10 h-10 rounded-lg overflow-hidden bg-gray-100 flex-shrink-0">
+                {suggestion.image && (
+                  <Image src={suggestion.image} alt="" fill sizes="40px" className="object-cover" />
+                )}
+              </span>
+            )}
+            <span className="flex-1 min-w-0">
+              <span className="block truncate text-gray-900">{suggestion.label}</span>
+              <span className="block text-xs text-gray-500">
+                {suggestion.type === 'category'
+                  ? t('category')
+                  : suggestion.price !== undefined && formatDisplayPrice(suggestion.price, suggestion.currency, getFormatLocale(language))}
+              </span>
+            </span>
+          </button>
+        </li>
+      ))}
+
+      {!loading && suggestions.length === 0 && (
+        <li className="px-4 py-3 text-sm text-gray-500" role="presentation">
+          {t('none')}
+        </li>
+      )}
+
+      <li role="presentation" className="border-t border-gray-100">
+        <button
+          id={getSearchOptionId(suggestions.length)}
+          role="option"
+          aria-selected={activeIndex === suggestions.length}
+          onClick={() => onSelectQuery(trimmed)}
+          onMouseEnter={() => onHover(suggestions.length)}
+          className={optionClass(suggestions.length)}
+        >
+          <Search className="w-4 h-4 text-gray-400 flex-shrink-0" />
+          <span className="flex-1 truncate text-gray-800">
+            {t('searchFor', { query: trimmed })}
+          </span>
+        </button>
+      </li>
+    </ul>
+  );
+}
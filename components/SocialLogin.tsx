@@ -0,0 +1,84 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+import { apiClient, OAuthProviderInfo } from '@/lib/api';
+import { useLanguage } from '@/hooks/useMessages';
+
+interface SocialLoginProps {
+  // 'link' connects the provider to the signed-in account instead of signing in
+  intent?: 'signin' | 'link';
+  // Where to land afterwards; defaults to the current page
+  returnTo?: string;
+}
+
+// Shared by every instance on the page; the list only changes with server config
+let providersRequest: Promise<OAuthProviderInfo[]> | null = null;
+
+function loadProviders(): Promise<OAuthProviderInfo[]> {
+  if (!providersRequest) {
+    providersRequest = apiClient.getOAuthProviders().catch((error) => {
+      console.error('Failed to load sign-in providers:', error);
+      providersRequest = null;
+      return [];
+    });
+  }
+  return providersRequest;
+}
+
+export default function SocialLogin({ intent = 'signin', returnTo }: SocialLoginProps) {
+  const language = useLanguage();
+  const t = useTranslations('socialLogin');
+  const [providers, setProviders] = useState<OAuthProviderInfo[]>([]);
+  const [redirecting, setRedirecting] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    loadProviders().then((list) => {
+      if (active) setProviders(list);
+    });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  // Nothing configured on the server, so there is nothing to offer
+  if (providers.length === 0) return null;
+
+  const startSignIn = (provider: string) => {
+    setRedirecting(provider);
+    window.location.href = apiClient.getOAuthSignInUrl(provider, {
+      locale: language,
+      returnTo: returnTo || `${window.location.pathname}${window.location.search}`,
+      intent,
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      {intent === 'signin' && (
+        <div className="flex items-center gap-3 text-sm text-gray-500">
+          <span className="flex-1 h-px bg-gray-200" />
+          {t('or')}
+          <span className="flex-1 h-px bg-gray-200" />
+        </div>
+      )}
+
+      {providers.map((provider) => (
+        <button
+          key={provider.id}
+          type="button"
+          onClick={() => startSignIn(provider.id)}
+          disabled={redirecting !== null}
+          className="w-full flex items-center justify-center gap-2 border border-gray-300 py-2 px-4 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {redirecting === provider.id && <Loader2 className="w-4 h-4 animate-spin" />}
+          {intent === 'link'
+            ? t('connect', { provider: provider.name })
+            : t('continueWith', { provider: provider.name })}
+        </button>
+      ))}
+    </div>
+  );
+}
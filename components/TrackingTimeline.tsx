@@ -0,0 +1,83 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { Circle, CreditCard, Package, Truck, MapPin, AlertTriangle, Ban, Home, ClipboardCheck } from 'lucide-react';
+import { useLanguage } from '@/hooks/useMessages';
+import { getFormatLocale } from '@/lib/locales';
+import { TRACKING_STAGES, TrackingEvent, TrackingEventType } from '@/lib/order-tracking';
+
+interface TrackingTimelineProps {
+  timeline: TrackingEvent[];
+  paymentMethod?: string;
+}
+
+const EVENT_ICONS: Record<TrackingEventType, typeof Circle> = {
+  placed: ClipboardCheck,
+  paid: CreditCard,
+  packed: Package,
+  shipped: Truck,
+  out_for_delivery: Truck,
+  delivered: Home,
+  exception: AlertTriangle,
+  cancelled: Ban,
+};
+
+// Every event so far, then the milestones still to come
+export default function TrackingTimeline({ timeline, paymentMethod }: TrackingTimelineProps) {
+  const t = useTranslations('tracking.events');
+  const formatLocale = getFormatLocale(useLanguage());
+  const reached = timeline.map((event) => event.type);
+  const finished = reached.indexOf('delivered') !== -1 || reached.indexOf('cancelled') !== -1;
+  const lastStage = TRACKING_STAGES.reduce((last, stage, index) => (reached.indexOf(stage) !== -1 ? index : last), -1);
+  const upcoming = finished
+    ? []
+    : TRACKING_STAGES
+      .slice(lastStage + 1)
+      // Cash orders are paid on delivery, so there is no separate payment step to wait for
+      .filter((stage) => stage !== 'paid' || paymentMethod !== 'cash');
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-3">
+      {timeline.map((event, index) => {
+        const label = t(event.type);
+        const Icon = EVENT_ICONS[event.type];
+        const isLatest = index === timeline.length - 1;
+        const isProblem = event.type === 'exception' || event.type === 'cancelled';
+
+        return (
+          <li key={`${event.type}-${event.timestamp}-${index}`} className="mb-6 ml-6">
+            <span
+              className={`absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full ring-4 ring-white ${
+                isProblem ? 'bg-red-100 text-red-600' : isLatest ? 'bg-black text-white' : 'bg-green-100 text-green-600'
+              }`}
+            >
+              <Icon className="w-3 h-3" />
+            </span>
+            <p className={`font-medium ${isLatest ? 'text-gray-900' : 'text-gray-700'}`}>{label}</p>
+            {event.description && event.description !== label && (
+              <p className="text-sm text-gray-600">{event.description}</p>
+            )}
+            <div className="flex flex-wrap items-center gap-x-3 text-sm text-gray-500">
+              <time dateTime={event.timestamp}>{new Date(event.timestamp).toLocaleString(formatLocale)}</time>
+              {event.location && (
+                <span className="inline-flex items-center">
+                  <MapPin className="w-3 h-3 mr-1" />
+                  {event.location}
+                </span>
+              )}
+            </div>
+          </li>
+        );
+      })}
+
+      {upcoming.map((stage) => (
+        <li key={stage} className="mb-6 ml-6">
+          <span className="absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full ring-4 ring-white bg-gray-100 text-gray-400">
+            <Circle className="w-3 h-3" />
+          </span>
+          <p className="font-medium text-gray-400">{t(stage)}</p>
+        </li>
+      ))}
+    </ol>
+  );
+}
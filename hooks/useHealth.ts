@@ -1,8 +1,7 @@
 'use client';
 
 import useSWR from 'swr';
-import { HealthStatus, HealthMetrics, DetailedHealthStatus } from '@/types';
-import { config } from '@/lib/config';
+import { HealthStatus, HealthMetrics, DetailedHealthStatus, HealthHistory } from '@/types';
 import { getCachedHealthData, memoryCache } from '@/lib/cache';
 
 const fetcher = async (url: string) => {
@@ -21,8 +20,11 @@ const fetcher = async (url: string) => {
   return data;
 };
 
+// This app's health API; config.api.endpoints.health is the backend's
+const HEALTH_API = '/api/v1/health';
+
 export function useHealth(type: 'basic' | 'detailed' | 'metrics' = 'basic') {
-  const apiUrl = `${config.api.endpoints.health}?type=${type}`;
+  const apiUrl = `${HEALTH_API}?type=${type}`;
   
   const { data, error, isLoading, mutate } = useSWR<HealthStatus | DetailedHealthStatus | HealthMetrics>(
     apiUrl,
@@ -90,7 +92,7 @@ export function useHealth(type: 'basic' | 'detailed' | 'metrics' = 'basic') {
   // Check specific service health
   const checkServiceHealth = async (serviceName: string) => {
     try {
-      const response = await fetch(config.api.endpoints.health, {
+      const response = await fetch(HEALTH_API, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -196,4 +198,27 @@ export function useHealth(type: 'basic' | 'detailed' | 'metrics' = 'basic') {
     getStatusIcon,
     refresh: mutate,
   };
-}
\ No newline at end of file
+}
+
+// Uptime per window, latency sparklines and incidents recorded by the health monitor
+export function useHealthHistory() {
+  const { data, error, isLoading, mutate } = useSWR<HealthHistory>(
+    `${HEALTH_API}?type=history`,
+    fetcher,
+    {
+      // The monitor records a run a minute by default
+      refreshInterval: 60000,
+      revalidateOnFocus: true,
+      dedupingInterval: 10000,
+      errorRetryCount: 3,
+      errorRetryInterval: 2000,
+    }
+  );
+
+  return {
+    history: data,
+    isLoading,
+    hasError: !!error,
+    refresh: mutate,
+  };
+}
@@ -1,10 +1,22 @@
 'use client';
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useCallback, useMemo } from 'react';
 import { useRouter, useParams, usePathname } from 'next/navigation';
+import { useMessages as useIntlMessages, useTranslations } from 'next-intl';
 import { format as formatDate } from 'date-fns';
 import { LocaleConfig, CurrencyConfig } from '@/types';
 import { config, locales, currencies } from '@/lib/config';
+import { getCurrencyConfig } from '@/lib/currency';
+import type { MessageKey } from '@/lib/i18n';
+import { useCurrencyStore } from '@/lib/store';
+
+// date-fns localized date presets and their Intl equivalents
+const DATE_STYLES: Record<string, 'short' | 'medium' | 'long' | 'full'> = {
+  P: 'short',
+  PP: 'medium',
+  PPP: 'long',
+  PPPP: 'full',
+};
 
 export function useLocale() {
   const router = useRouter();
@@ -19,8 +31,10 @@ export function useLocale() {
     return locales.find(l => l.code === currentLocale) || locales[0];
   }, [currentLocale]);
 
-  // Get current currency (can be extended to be user-specific)
-  const [currency, setCurrency] = useState<CurrencyConfig>(currencies[0]);
+  // Current currency follows the user's display currency selection
+  const { displayCurrency, setDisplayCurrency } = useCurrencyStore();
+  const currency = useMemo(() => getCurrencyConfig(displayCurrency), [displayCurrency]);
+  const setCurrency = useCallback((next: CurrencyConfig) => setDisplayCurrency(next.code), [setDisplayCurrency]);
 
   // Switch locale
   const switchLocale = useCallback((newLocale: string) => {
@@ -42,7 +56,7 @@ export function useLocale() {
       ? currencies.find(c => c.code === currencyCode) || currency
       : currency;
     
-    const targetLocale = locale || currentLocale;
+    const targetLocale = locale || localeConfig.formatLocale;
 
     try {
       return new Intl.NumberFormat(targetLocale, {
@@ -55,7 +69,7 @@ export function useLocale() {
       // Fallback formatting
       return `${targetCurrency.symbol}${amount.toFixed(targetCurrency.decimals)}`;
     }
-  }, [currency, currentLocale]);
+  }, [currency, localeConfig]);
 
   // Format number
   const formatNumber = useCallback((
@@ -63,11 +77,11 @@ export function useLocale() {
     options?: Intl.NumberFormatOptions
   ) => {
     try {
-      return new Intl.NumberFormat(currentLocale, options).format(number);
+      return new Intl.NumberFormat(localeConfig.formatLocale, options).format(number);
     } catch (error) {
       return number.toString();
     }
-  }, [currentLocale]);
+  }, [localeConfig]);
 
   // Format date
   const formatDateLocalized = useCallback((
@@ -79,11 +93,19 @@ export function useLocale() {
         ? new Date(date) 
         : date;
       
+      // The localized presets are formatted by Intl in the locale's conventions
+      const dateStyle = DATE_STYLES[formatString];
+      if (dateStyle) {
+        return new Intl.DateTimeFormat(localeConfig.formatLocale, {
+          dateStyle,
+          timeZone: config.i18n.timeZone,
+        }).format(dateObj);
+      }
       return formatDate(dateObj, formatString);
     } catch (error) {
       return date.toString();
     }
-  }, []);
+  }, [localeConfig]);
 
   // Get relative time (e.g., "2 hours ago")
   const getRelativeTime = useCallback((date: Date | string | number) => {
@@ -92,7 +114,7 @@ export function useLocale() {
         ? new Date(date) 
         : date;
       
-      const rtf = new Intl.RelativeTimeFormat(currentLocale, { numeric: 'auto' });
+      const rtf = new Intl.RelativeTimeFormat(localeConfig.formatLocale, { numeric: 'auto' });
       const now = new Date();
       const diffInSeconds = Math.floor((dateObj.getTime() - now.getTime()) / 1000);
       
@@ -119,7 +141,7 @@ export function useLocale() {
     } catch (error) {
       return date.toString();
     }
-  }, [currentLocale]);
+  }, [localeConfig]);
 
   // Get text direction
   const textDirection = useMemo(() => localeConfig.direction, [localeConfig]);
@@ -127,68 +149,32 @@ export function useLocale() {
   // Check if current locale is RTL
   const isRTL = useMemo(() => localeConfig.direction === 'rtl', [localeConfig]);
 
-  // Get localized path
+  // Get localized path; every locale is served under its prefix
   const getLocalizedPath = useCallback((path: string, locale?: string) => {
     const targetLocale = locale || currentLocale;
-    
-    if (targetLocale === config.i18n.defaultLocale) {
-      return path;
-    }
-    
     return `/${targetLocale}${path}`;
   }, [currentLocale]);
 
   // Get alternate language links for SEO
   const getAlternateLinks = useCallback((path: string) => {
     return locales.map(locale => ({
-      hreflang: locale.code,
+      hreflang: locale.hreflang,
       href: `${config.site.url}${getLocalizedPath(path, locale.code)}`,
     }));
   }, [getLocalizedPath]);
 
-  // Load messages for current locale
-  const [messages, setMessages] = useState<Record<string, string>>({});
-  const [isLoadingMessages, setIsLoadingMessages] = useState(true);
-
-  useEffect(() => {
-    const loadMessages = async () => {
-      try {
-        setIsLoadingMessages(true);
-        const response = await import(`@/data/messages.${currentLocale}.json`);
-        setMessages(response.default || {});
-      } catch (error) {
-        console.warn(`Failed to load messages for locale ${currentLocale}:`, error);
-        // Fallback to English
-        try {
-          const fallbackResponse = await import(`@/data/messages.en.json`);
-          setMessages(fallbackResponse.default as any || {});
-        } catch (fallbackError) {
-          console.error('Failed to load fallback messages:', fallbackError);
-          setMessages({});
-        }
-      } finally {
-        setIsLoadingMessages(false);
-      }
-    };
-
-    loadMessages();
-  }, [currentLocale]);
+  // Messages come from the [locale] layout, already loaded on the server
+  const messages = useIntlMessages() as Record<string, any>;
+  const translate = useTranslations();
 
-  // Translate function
+  // Loose translate for dynamic keys; a missing key falls back to params.fallback or the key itself
   const t = useCallback((key: string, params?: Record<string, string | number>) => {
-    let message = messages[key] || key;
-    
-    if (params) {
-      const entries = Object.entries(params);
-      if (Array.isArray(entries) && entries.length > 0) {
-        entries.forEach(([paramKey, value]) => {
-          message = message.replace(new RegExp(`{{${paramKey}}}`, 'g'), String(value));
-        });
-      }
+    const { fallback, ...values } = params || {};
+    if (!translate.has(key as MessageKey)) {
+      return fallback !== undefined ? String(fallback) : key;
     }
-    
-    return message;
-  }, [messages]);
+    return translate(key as MessageKey, values);
+  }, [translate]);
 
   return {
     // Current locale info
@@ -219,6 +205,6 @@ export function useLocale() {
     // Translation
     t,
     messages,
-    isLoadingMessages,
+    isLoadingMessages: false,
   };
 }
\ No newline at end of file
@@ -1,11 +1,12 @@
-import { useLanguageStore } from '@/lib/store';
-import messagesEn from '@/data/messages.en.json';
-import messagesAr from '@/data/messages.ar.json';
+import { useLocale as useIntlLocale, useMessages as useIntlMessages } from 'next-intl';
+import type { Locale, Messages } from '@/lib/i18n';
 
-export function useMessages() {
-  const { language } = useLanguageStore();
-  
-  const messages = language === 'ar' ? messagesAr : messagesEn;
-  
-  return messages;
-}
\ No newline at end of file
+// Catalog of the current route's locale, provided by the [locale] layout
+export function useMessages(): Messages {
+  return useIntlMessages() as Messages;
+}
+
+// Language of the current route; use this rather than the language store in components
+export function useLanguage(): Locale {
+  return useIntlLocale() as Locale;
+}
@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
-import { apiClient, Order, handleApiError } from '@/lib/api';
+import { apiClient, Order, Product, handleApiError } from '@/lib/api';
 import { useAuth } from '@/lib/auth';
+import type { ReturnRequest } from '@/lib/order-returns';
+import { FrequentPurchase, getFrequentlyPurchased } from '@/lib/reorder';
 
 interface UseOrdersOptions {
   page?: number;
@@ -138,4 +140,86 @@ export function useOrder(orderId?: string) {
     error,
     refetch: fetchOrder,
   };
-}
\ No newline at end of file
+}
+
+export function useOrderReturns(orderId?: string) {
+  const [returns, setReturns] = useState<ReturnRequest[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { isAuthenticated } = useAuth();
+
+  const fetchReturns = async () => {
+    if (!orderId || !isAuthenticated) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await apiClient.getOrderReturns(orderId);
+      setReturns(result);
+    } catch (err) {
+      setError(handleApiError(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchReturns();
+  }, [orderId, isAuthenticated]);
+
+  return {
+    returns,
+    loading,
+    error,
+    refetch: fetchReturns,
+  };
+}
+
+export interface BuyAgainEntry extends FrequentPurchase {
+  product: Product;
+}
+
+// Frequently purchased products that can still be bought, for the "Buy again" strip
+export function useBuyAgain(limit = 8) {
+  const [entries, setEntries] = useState<BuyAgainEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { isAuthenticated } = useAuth();
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setEntries([]);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    (async () => {
+      try {
+        const result = await apiClient.getUserOrders({ limit: 50, sortBy: 'createdAt', sortOrder: 'desc' });
+        const purchases = getFrequentlyPurchased(Array.isArray(result.orders) ? result.orders : [], limit);
+        const products = await Promise.all(
+          purchases.map((purchase) => apiClient.getProductById(purchase.item.id).catch(() => null))
+        );
+
+        if (!cancelled) {
+          setEntries(purchases
+            .map((purchase, index) => ({ ...purchase, product: products[index] as Product }))
+            .filter((entry) => entry.product && entry.product.inStock));
+        }
+      } catch (err) {
+        // The strip is optional; without order history there is simply nothing to show
+        if (!cancelled) setEntries([]);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthenticated, limit]);
+
+  return { entries, loading };
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { getFormatLocale } from '@/lib/locales';
 
 // Types
 export interface Rating {
@@ -59,12 +60,10 @@ export interface RatingFilters {
 }
 
 // API functions
+// Same-origin proxies, so browser requests carry the session cookie
 const API_BASE = '/api/v1/ratings';
 
 async function fetchProductRatings(productId: string, filters: RatingFilters = {}) {
-  // Only try to get auth token on client side
-  const authToken = typeof window !== 'undefined' ? localStorage.getItem('authToken') : null;
-  
   // Use absolute URL for server-side requests
   const baseUrl = typeof window !== 'undefined' 
     ? '' 
@@ -86,13 +85,11 @@ async function fetchProductRatings(productId: string, filters: RatingFilters = {
   console.log('🚀 Fetching ratings for product:', productId);
   console.log('🔗 Request URL:', url);
   console.log('📄 Filters:', filters);
-  console.log('🔑 Auth Token:', authToken ? 'Available' : 'Not available');
   console.log('🌐 Environment:', typeof window !== 'undefined' ? 'Client' : 'Server');
   
   const response = await fetch(url, {
     headers: {
       'Content-Type': 'application/json',
-      ...(authToken && { Authorization: authToken }),
     },
     // Add cache control for better SSR performance
     cache: typeof window !== 'undefined' ? 'default' : 'no-store'
@@ -114,9 +111,6 @@ async function fetchProductRatings(productId: string, filters: RatingFilters = {
 }
 
 async function fetchProductRatingStats(productId: string) {
-  // Only try to get auth token on client side
-  const authToken = typeof window !== 'undefined' ? localStorage.getItem('authToken') : null;
-  
   // Use absolute URL for server-side requests
   const baseUrl = typeof window !== 'undefined' 
     ? '' 
@@ -126,13 +120,11 @@ async function fetchProductRatingStats(productId: string) {
   
   console.log('🚀 Fetching rating stats for product:', productId);
   console.log('🔗 Request URL:', url);
-  console.log('🔑 Auth Token:', authToken ? 'Available' : 'Not available');
   console.log('🌐 Environment:', typeof window !== 'undefined' ? 'Client' : 'Server');
   
   const response = await fetch(url, {
     headers: {
       'Content-Type': 'application/json',
-      ...(authToken && { Authorization: authToken }),
     },
     // Add cache control for better SSR performance
     cache: typeof window !== 'undefined' ? 'default' : 'no-store'
@@ -154,7 +146,7 @@ async function fetchProductRatingStats(productId: string) {
 }
 
 async function createRating(data: CreateRatingData, token?: string) {
-  const authToken = token || (typeof window !== 'undefined' ? localStorage.getItem('authToken') : null);
+  const authToken = token;
   
   const response = await fetch(API_BASE, {
     method: 'POST',
@@ -182,7 +174,7 @@ async function createRating(data: CreateRatingData, token?: string) {
 }
 
 async function updateRating(ratingId: string, data: UpdateRatingData, token?: string) {
-  const authToken = token || (typeof window !== 'undefined' ? localStorage.getItem('authToken') : null);
+  const authToken = token;
   
   const response = await fetch(`${API_BASE}/${ratingId}`, {
     method: 'PUT',
@@ -210,7 +202,7 @@ async function updateRating(ratingId: string, data: UpdateRatingData, token?: st
 }
 
 async function deleteRating(ratingId: string, token?: string) {
-  const authToken = token || (typeof window !== 'undefined' ? localStorage.getItem('authToken') : null);
+  const authToken = token;
   
   const response = await fetch(`${API_BASE}/${ratingId}`, {
     method: 'DELETE',
@@ -231,7 +223,7 @@ async function deleteRating(ratingId: string, token?: string) {
 }
 
 async function addHelpfulVote(ratingId: string, token?: string) {
-  const authToken = token || (typeof window !== 'undefined' ? localStorage.getItem('authToken') : null);
+  const authToken = token;
   
   const response = await fetch(`${API_BASE}/helpful-vote`, {
     method: 'POST',
@@ -253,7 +245,7 @@ async function addHelpfulVote(ratingId: string, token?: string) {
 }
 
 async function removeHelpfulVote(ratingId: string, token?: string) {
-  const authToken = token || (typeof window !== 'undefined' ? localStorage.getItem('authToken') : null);
+  const authToken = token;
   
   const response = await fetch(`${API_BASE}/helpful-vote`, {
     method: 'DELETE',
@@ -403,7 +395,7 @@ export function useRatingUtils() {
 
   const formatRatingDate = (dateString: string, locale: string = 'en'): string => {
     const date = new Date(dateString);
-    return date.toLocaleDateString(locale === 'ar' ? 'ar-SA' : 'en-US', {
+    return date.toLocaleDateString(getFormatLocale(locale), {
       year: 'numeric',
       month: 'long',
       day: 'numeric',
@@ -0,0 +1,19 @@
+/**
+ * Server startup hook
+ * Refuses to start with an incomplete locale (missing catalog, keys or
+ * registry entry) rather than serving pages that fall back to raw keys, then
+ * starts counting requests for the health metrics and the health monitor
+ * that records the health history.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { validateLocales } = await import('./lib/i18n');
+  await validateLocales();
+
+  const { startRequestMetrics } = await import('./lib/request-metrics');
+  startRequestMetrics();
+
+  const { ensureHealthMonitor } = await import('./lib/health-monitor');
+  ensureHealthMonitor();
+}
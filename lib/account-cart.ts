@@ -0,0 +1,221 @@
+import { getEffectivePrice, isOptionAvailable, Product } from './api';
+import type { CartItem } from './store';
+import { BASE_CURRENCY } from './currency';
+import { getIndexedProducts } from './search-index';
+import { cleanString } from './utils';
+
+/**
+ * Account Cart
+ * Server-side helpers behind /api/v1/cart: the account cart stored by the
+ * backend, the guest/account merge rules applied at login, and revalidation
+ * of every line against the live catalog so prices, stock and options are
+ * never taken from a stale client copy.
+ */
+
+const BACKEND_API_URL = process.env.BACKEND_API_URL || 'http://localhost:3000/api';
+
+export const MAX_CART_ITEMS = 50;
+export const MAX_LINE_QUANTITY = 99;
+
+export interface AccountCart {
+  items: CartItem[];
+  updatedAt: string | null;
+}
+
+export interface CartLineChange {
+  key: string;
+  productId: string;
+  type: 'price' | 'unavailable' | 'removed';
+  previousPrice?: number;
+  price?: number;
+  currency?: string;
+}
+
+export interface CartValidationResult {
+  items: CartItem[];
+  changes: CartLineChange[];
+}
+
+export class AccountCartError extends Error {
+  constructor(message: string, public status: number, public body?: any) {
+    super(message);
+    this.name = 'AccountCartError';
+  }
+}
+
+export function isAccountCartError(error: unknown): error is AccountCartError {
+  return error instanceof Error && error.name === 'AccountCartError';
+}
+
+// A line is a product in a given size and color
+export function getCartLineKey(item: Pick<CartItem, 'id' | 'size' | 'color'>): string {
+  return [item.id, item.size || '', item.color || ''].join('|');
+}
+
+// Keeps only well-formed lines and folds duplicates of the same line together
+export function normalizeCartItems(input: unknown): CartItem[] {
+  if (!Array.isArray(input)) return [];
+
+  const lines: Record<string, CartItem> = {};
+  const order: string[] = [];
+
+  input.forEach((item: any) => {
+    const id = cleanString(item?.id, 100);
+    const title = cleanString(item?.title, 200);
+    const price = Number(item?.price);
+    const quantity = Math.floor(Number(item?.quantity));
+    if (!id || !title || !Number.isFinite(price) || price < 0 || !(quantity >= 1)) return;
+
+    const image = cleanString(item?.image, 500);
+    const line: CartItem = {
+      id,
+      title,
+      price,
+      quantity: Math.min(quantity, MAX_LINE_QUANTITY),
+      image: image && (image.startsWith('/') || image.startsWith('https://')) ? image : '',
+      size: cleanString(item?.size, 50),
+      color: cleanString(item?.color, 50),
+      currency: cleanString(item?.currency, 3),
+    };
+
+    const key = getCartLineKey(line);
+    if (lines[key]) {
+      lines[key].quantity = Math.min(lines[key].quantity + line.quantity, MAX_LINE_QUANTITY);
+    } else if (order.length < MAX_CART_ITEMS) {
+      lines[key] = line;
+      order.push(key);
+    }
+  });
+
+  return order.map((key) => lines[key]);
+}
+
+/**
+ * Merge rules for a guest cart joining an account cart at login:
+ * - lines only in one cart are kept as they are
+ * - a line in both keeps the larger quantity rather than the sum, since the
+ *   guest cart is often the same cart the account already holds from an
+ *   earlier session on this device
+ * - account lines come first, guest-only lines follow in the guest's order
+ */
+export function mergeCartItems(account: CartItem[], guest: CartItem[]): CartItem[] {
+  const merged = account.map((item) => ({ ...item }));
+
+  guest.forEach((guestItem) => {
+    const key = getCartLineKey(guestItem);
+    const existing = merged.find((item) => getCartLineKey(item) === key);
+    if (existing) {
+      existing.quantity = Math.min(Math.max(existing.quantity, guestItem.quantity), MAX_LINE_QUANTITY);
+    } else if (merged.length < MAX_CART_ITEMS) {
+      merged.push({ ...guestItem });
+    }
+  });
+
+  return merged;
+}
+
+// Live product data; the search index (itself backed by the bundled catalog) covers backend outages
+async function fetchProducts(ids: string[]): Promise<Record<string, Product>> {
+  const products: Record<string, Product> = {};
+  const missing: string[] = [];
+
+  await Promise.all(ids.map(async (id) => {
+    try {
+      const response = await fetch(`${BACKEND_API_URL}/products/${encodeURIComponent(id)}`, {
+        headers: { 'Content-Type': 'application/json' },
+        cache: 'no-store',
+      });
+      if (response.status === 404) return;
+      if (!response.ok) throw new Error(`Backend API responded with status: ${response.status}`);
+
+      const data = await response.json();
+      if (data?.data?._id) {
+        products[id] = data.data;
+      }
+    } catch (error) {
+      missing.push(id);
+    }
+  }));
+
+  if (missing.length > 0) {
+    console.error(`Cart revalidation: backend unavailable for ${missing.length} products, using the catalog index`);
+    (await getIndexedProducts(missing)).forEach((product) => {
+      products[product._id] = product;
+    });
+  }
+
+  return products;
+}
+
+/**
+ * Re-prices every line from the catalog and drops lines that are gone, out
+ * of stock or no longer offered in the chosen size or color. Each adjustment
+ * is reported so the shopper can be told what changed.
+ */
+export async function revalidateCartItems(items: CartItem[]): Promise<CartValidationResult> {
+  const ids = Array.from(new Set(items.map((item) => item.id)));
+  const products = ids.length > 0 ? await fetchProducts(ids) : {};
+  const validated: CartItem[] = [];
+  const changes: CartLineChange[] = [];
+
+  items.forEach((item) => {
+    const key = getCartLineKey(item);
+    const product = products[item.id];
+
+    if (!product) {
+      changes.push({ key, productId: item.id, type: 'removed' });
+      return;
+    }
+    if (!product.inStock || !isOptionAvailable(product.sizes, item.size) || !isOptionAvailable(product.colors, item.color)) {
+      changes.push({ key, productId: item.id, type: 'unavailable' });
+      return;
+    }
+
+    const price = getEffectivePrice(product);
+    // The catalog decides the currency; products and lines without one are in the base currency
+    const currency = product.currency || BASE_CURRENCY;
+    // A line declared in another currency is repriced, which checkout refuses as a changed cart
+    if (price !== item.price || currency !== (item.currency || BASE_CURRENCY)) {
+      changes.push({ key, productId: item.id, type: 'price', previousPrice: item.price, price, currency });
+    }
+
+    validated.push({ ...item, price, currency });
+  });
+
+  return { items: validated, changes };
+}
+
+// Backend storage
+async function requestBackend(authorization: string, init: RequestInit = {}): Promise<AccountCart> {
+  const response = await fetch(`${BACKEND_API_URL}/v1/cart`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      'authorization': authorization,
+    },
+    cache: 'no-store',
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error('Backend response not ok:', response.status, response.statusText, errorData);
+    throw new AccountCartError('Cart backend request failed', response.status, errorData);
+  }
+
+  const data = await response.json().catch(() => ({}));
+  return {
+    items: normalizeCartItems(data?.data?.items),
+    updatedAt: typeof data?.data?.updatedAt === 'string' ? data.data.updatedAt : null,
+  };
+}
+
+export function getAccountCart(authorization: string): Promise<AccountCart> {
+  return requestBackend(authorization);
+}
+
+export function saveAccountCart(authorization: string, items: CartItem[]): Promise<AccountCart> {
+  return requestBackend(authorization, {
+    method: 'PUT',
+    body: JSON.stringify({ items }),
+  });
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { User } from './api';
+import { errorResponse } from './api-response';
+import { isAdminRole } from './route-policies';
+import { fetchSessionUser, getRequestAuthorization } from './session';
+
+/**
+ * Admin Authorization
+ * Resolves the signed-in user behind a request and guards admin-only API
+ * routes. Admin requests are accepted with an admin user's session,
+ * verified against the backend profile endpoint, or with the ADMIN_API_KEY
+ * shared secret for automation (cron jobs, scripts).
+ */
+
+export function hasAdminApiKey(request: NextRequest): boolean {
+  const apiKey = process.env.ADMIN_API_KEY;
+  return !!apiKey && request.headers.get('x-api-key') === apiKey;
+}
+
+// Resolves the signed-in user behind a request's session cookie or bearer token, if any
+export async function getRequestUser(request: NextRequest): Promise<User | null> {
+  const authorization = getRequestAuthorization(request);
+  return authorization ? fetchSessionUser(authorization) : null;
+}
+
+export async function getAdminUser(request: NextRequest): Promise<User | null> {
+  const user = await getRequestUser(request);
+  return user && isAdminRole(user.role) ? user : null;
+}
+
+// Returns an error response to send back, or null when the caller is an admin
+export async function requireAdmin(request: NextRequest): Promise<NextResponse | null> {
+  if (hasAdminApiKey(request) || (await getAdminUser(request))) {
+    return null;
+  }
+
+  return getRequestAuthorization(request)
+    ? errorResponse(403, 'FORBIDDEN', 'Admin access required')
+    : errorResponse(401, 'UNAUTHORIZED', 'Authentication required');
+}
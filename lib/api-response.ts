@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+
+/**
+ * API Responses
+ * The error envelope every route handler in this app answers with:
+ * { success: false, error: { code, message, details? }, timestamp }.
+ */
+
+export function errorResponse(
+  status: number,
+  code: string,
+  message: string,
+  details?: unknown,
+  headers?: HeadersInit
+) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code,
+        message,
+        ...(details !== undefined && { details })
+      },
+      timestamp: new Date().toISOString()
+    },
+    { status, headers }
+  );
+}
@@ -1,7 +1,22 @@
 import { CartItem } from './store';
+import type { CartLineChange } from './account-cart';
+import type { PricingQuote } from './pricing';
+import type { CurrencyCode } from './currency';
+import type { ContentLocale } from './locales';
+import type { ReturnRequest, ReturnRequestInput } from './order-returns';
+import type { OrderTracking } from './order-tracking';
+import type { SearchQuery, SearchResult, SearchSuggestion } from './search';
 
 // API Configuration
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3000/api';
+// Browsers call this app's own /api routes so the httpOnly session cookie travels with every request;
+// those routes (and app/api/v1/[...path] for the rest) reach the backend. Server components call the backend directly.
+const API_BASE_URL = typeof window === 'undefined'
+  ? process.env.BACKEND_API_URL || 'http://localhost:3000/api'
+  : process.env.NEXT_PUBLIC_API_BASE_URL || '/api';
+// Routes only this app serves (checkout, tracking, search); server-side callers need the absolute site URL
+const APP_API_URL = typeof window === 'undefined'
+  ? `${process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3001'}/api`
+  : '/api';
 const API_VERSION = process.env.NEXT_PUBLIC_API_VERSION || 'v1';
 
 // Types
@@ -30,11 +45,15 @@ export interface User {
   profileImage?: string;
 }
 
+// The tokens themselves stay in httpOnly cookies set by the auth routes
 export interface AuthResponse {
   user: User;
-  accessToken: string;
-  refreshToken: string;
-  expiresAt: string;
+  expiresAt?: string;
+}
+
+export interface OAuthProviderInfo {
+  id: string;
+  name: string;
 }
 
 export interface Product {
@@ -96,6 +115,14 @@ export interface Category {
   createdAt: string;
 }
 
+export interface OrderShipment {
+  // Carrier adapter id, see lib/order-tracking
+  carrier: string;
+  trackingNumber: string;
+  shippedAt?: string;
+  estimatedDelivery?: string;
+}
+
 export interface Order {
   _id: string;
   userId: string;
@@ -109,13 +136,38 @@ export interface Order {
     address: string;
     city: string;
     postalCode?: string;
+    // ISO country code; shipping and tax for the order are priced from it
+    country?: string;
   };
   totalAmount: number;
   currency: string;
   status: string;
   paymentMethod: string;
+  couponCode?: string;
+  // Shipping, tax and discount breakdown computed at checkout
+  pricing?: PricingQuote;
+  invoiceNumber?: string;
+  invoiceIssuedAt?: string;
+  shipment?: OrderShipment;
+  statusHistory?: Array<{ status: string; at: string; note?: string }>;
   createdAt: string;
+  updatedAt?: string;
   paidAt?: string;
+  deliveredAt?: string;
+  cancelledAt?: string;
+}
+
+export interface AccountCartResponse {
+  items: CartItem[];
+  updatedAt: string | null;
+  changes?: CartLineChange[];
+}
+
+export interface WishlistEntry {
+  productId: string;
+  addedAt: string;
+  priceAtAdd?: number;
+  product?: Product;
 }
 
 export interface CheckoutRequest {
@@ -129,12 +181,25 @@ export interface CheckoutRequest {
     address: string;
     city: string;
     postalCode?: string;
+    country?: string;
+  };
+  // Delivery details for signed-in checkouts; the account supplies the name and email
+  shippingInfo?: {
+    phone?: string;
+    address?: string;
+    city?: string;
+    postalCode?: string;
+    country?: string;
   };
   paymentMethod: 'cash' | 'card';  // Changed from 'cod' | 'stripe' to 'cash' | 'card'
-  currency: 'EGP' | 'USD';
+  currency: CurrencyCode;  // Settlement currency, see resolveSettlementCurrency
   idempotencyKey: string;
   couponCode?: string;
   notes?: string;
+  // Language of the confirmation email and invoice
+  locale?: string;
+  // Total the shopper was shown; the order is refused if the server quote differs
+  expectedTotal?: number;
 }
 
 export interface CheckoutResponse {
@@ -147,38 +212,117 @@ export interface CheckoutResponse {
   status: string;
   clientSecret?: string;
   paymentToken?: string;
+  pricing?: PricingQuote;
+  // The idempotency key had already placed this order
+  duplicate?: boolean;
+}
+
+export interface SessionExpiredEvent {
+  type: 'session-expired';
+  // The request whose 401 could not be recovered by a refresh
+  url: string;
+  at: string;
 }
 
+// Renew this long before the access token expires
+const SESSION_REFRESH_MARGIN = 60 * 1000;
+const SESSION_EXPIRES_KEY = 'sessionExpiresAt';
+
 // API Client Class
 class ApiClient {
   private baseURL: string;
   private version: string;
+  private refreshing: Promise<boolean> | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private sessionListeners: Array<(event: SessionExpiredEvent) => void> = [];
 
   constructor() {
     this.baseURL = API_BASE_URL;
     this.version = API_VERSION;
+
+    if (typeof window !== 'undefined' && this.isAuthenticated()) {
+      this.scheduleSessionRefresh(localStorage.getItem(SESSION_EXPIRES_KEY) || undefined);
+    }
   }
 
-  private getAuthToken(): string | null {
-    if (typeof window === 'undefined') return null;
-    return localStorage.getItem('authToken');
+  // The session cookie is httpOnly; the auth service keeps the signed-in user in localStorage
+  isAuthenticated(): boolean {
+    if (typeof window === 'undefined') return false;
+    return !!localStorage.getItem('userData');
   }
 
-  private getHeaders(includeAuth = true): HeadersInit {
-    const headers: HeadersInit = {
+  // No Authorization header: the session cookie travels with every same-origin request
+  private getHeaders(): HeadersInit {
+    return {
       'Content-Type': 'application/json',
       'X-API-Version': this.version,
     };
+  }
+
+  onSessionExpired(listener: (event: SessionExpiredEvent) => void): () => void {
+    this.sessionListeners.push(listener);
+    return () => {
+      this.sessionListeners = this.sessionListeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Fetch with session recovery: a 401 on a signed-in request triggers one
+   * refresh, shared by every request that fails meanwhile, and the request is
+   * replayed once it succeeds. Auth endpoints are left alone, since a 401 there
+   * means wrong credentials rather than an expired session.
+   */
+  private async request(url: string, init: RequestInit = {}): Promise<Response> {
+    const response = await fetch(url, init);
+    if (response.status !== 401 || !this.isAuthenticated() || /\/auth\/(?!profile)/.test(url)) {
+      return response;
+    }
+
+    if (await this.refreshOnce()) {
+      return fetch(url, init);
+    }
+
+    const event: SessionExpiredEvent = { type: 'session-expired', url, at: new Date().toISOString() };
+    this.sessionListeners.forEach(listener => listener(event));
+    return response;
+  }
 
-    if (includeAuth) {
-      const token = this.getAuthToken();
-      if (token) {
-        // Use the full token as it already contains the "user " prefix
-        headers.Authorization = token;
-      }
+  private refreshOnce(): Promise<boolean> {
+    if (!this.refreshing) {
+      this.refreshing = this.refreshSession()
+        .then(() => true)
+        .catch((error) => {
+          console.error('Session refresh failed:', error);
+          return false;
+        })
+        .finally(() => {
+          this.refreshing = null;
+        });
     }
+    return this.refreshing;
+  }
+
+  // Renews the session shortly before it expires, so active users never hit a 401
+  scheduleSessionRefresh(expiresAt?: string): void {
+    if (typeof window === 'undefined') return;
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.refreshTimer = null;
+
+    const expiry = expiresAt ? new Date(expiresAt).getTime() : NaN;
+    if (!Number.isFinite(expiry)) return;
+    localStorage.setItem(SESSION_EXPIRES_KEY, expiresAt!);
+
+    const delay = Math.max(5000, expiry - Date.now() - SESSION_REFRESH_MARGIN);
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      if (this.isAuthenticated()) this.refreshOnce();
+    }, delay);
+  }
 
-    return headers;
+  clearSessionRefresh(): void {
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.refreshTimer = null;
+    if (typeof window !== 'undefined') localStorage.removeItem(SESSION_EXPIRES_KEY);
   }
 
   private getApiUrl(endpoint: string): string {
@@ -192,15 +336,19 @@ class ApiClient {
   private getCheckoutApiUrl(endpoint: string): string {
     // For checkout endpoints, use the frontend API routes without v1
     const cleanEndpoint = endpoint.startsWith('/') ? endpoint.slice(1) : endpoint;
-    const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3001';
-    return `${baseUrl}/api/${cleanEndpoint}`;
+    return `${APP_API_URL}/${cleanEndpoint}`;
   }
 
   private getOrderApiUrl(endpoint: string): string {
     // For order endpoints, use the frontend API routes without v1
     const cleanEndpoint = endpoint.startsWith('/') ? endpoint.slice(1) : endpoint;
-    const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3001';
-    return `${baseUrl}/api/${cleanEndpoint}`;
+    return `${APP_API_URL}/${cleanEndpoint}`;
+  }
+
+  private getSearchApiUrl(endpoint: string): string {
+    // Search is served by the frontend's local index, not the backend
+    const cleanEndpoint = endpoint.startsWith('/') ? endpoint.slice(1) : endpoint;
+    return `${APP_API_URL}/v1/${cleanEndpoint}`;
   }
 
   private async handleResponse<T>(response: Response): Promise<T> {
@@ -215,13 +363,14 @@ class ApiClient {
 
   // Authentication APIs
   async login(email: string, password: string): Promise<AuthResponse> {
-    const response = await fetch(this.getApiUrl('auth/login'), {
+    const response = await this.request(this.getApiUrl('auth/login'), {
       method: 'POST',
-      headers: this.getHeaders(false),
+      headers: this.getHeaders(),
       body: JSON.stringify({ email, password }),
     });
 
     const data = await this.handleResponse<ApiResponse<AuthResponse>>(response);
+    this.scheduleSessionRefresh(data.data?.expiresAt);
     return data.data!;
   }
 
@@ -232,9 +381,9 @@ class ApiClient {
     userName: string;
     phone: string;
   }): Promise<{ message: string }> {
-    const response = await fetch(this.getApiUrl('auth/signup'), {
+    const response = await this.request(this.getApiUrl('auth/signup'), {
       method: 'POST',
-      headers: this.getHeaders(false),
+      headers: this.getHeaders(),
       body: JSON.stringify(userData),
     });
 
@@ -242,37 +391,95 @@ class ApiClient {
   }
 
   async confirmEmail(email: string, code: string): Promise<{ message: string }> {
-    const response = await fetch(this.getApiUrl('auth/confirm-email'), {
+    const response = await this.request(this.getApiUrl('auth/confirm-email'), {
       method: 'POST',
-      headers: this.getHeaders(false),
+      headers: this.getHeaders(),
       body: JSON.stringify({ email, code }),
     });
 
     return this.handleResponse<{ message: string }>(response);
   }
 
-  async getUserProfile(): Promise<User> {
-    const response = await fetch(this.getApiUrl('user/profile'), {
+  async forgotPassword(email: string, locale: ContentLocale): Promise<{ message: string; resendAvailableAt: string }> {
+    const response = await this.request(this.getApiUrl('auth/forgot-password'), {
+      method: 'POST',
       headers: this.getHeaders(),
+      body: JSON.stringify({ email, locale }),
     });
 
-    const data = await this.handleResponse<ApiResponse<User>>(response);
+    const data = await this.handleResponse<ApiResponse<{ resendAvailableAt: string }>>(response);
+    return { message: data.message || '', resendAvailableAt: data.data!.resendAvailableAt };
+  }
+
+  async checkResetToken(token: string): Promise<{ email: string; expiresAt: string }> {
+    const response = await this.request(`${this.getApiUrl('auth/reset-password')}?token=${encodeURIComponent(token)}`, {
+      headers: this.getHeaders(),
+    });
+
+    const data = await this.handleResponse<ApiResponse<{ email: string; expiresAt: string }>>(response);
     return data.data!;
   }
 
-  async refreshToken(refreshToken: string): Promise<{ accessToken: string }> {
+  async resetPassword(
+    proof: { email: string; code: string } | { token: string },
+    password: string,
+    cPassword: string
+  ): Promise<{ message: string }> {
+    const response = await this.request(this.getApiUrl('auth/reset-password'), {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify({ ...proof, password, cPassword }),
+    });
+
+    return this.handleResponse<{ message: string }>(response);
+  }
+
+  async getOAuthProviders(): Promise<OAuthProviderInfo[]> {
+    const response = await this.request(this.getApiUrl('auth/oauth'), {
+      headers: this.getHeaders(),
+    });
+
+    const data = await this.handleResponse<ApiResponse<{ providers: OAuthProviderInfo[] }>>(response);
+    return data.data?.providers || [];
+  }
+
+  // Where the browser goes to sign in with a provider, or to connect one to the signed-in account
+  getOAuthSignInUrl(
+    provider: string,
+    options: { locale: string; returnTo: string; intent?: 'signin' | 'link' }
+  ): string {
+    const params = new URLSearchParams({ locale: options.locale, returnTo: options.returnTo });
+    if (options.intent === 'link') params.set('intent', 'link');
+    return `${this.getApiUrl(`auth/oauth/${encodeURIComponent(provider)}`)}?${params.toString()}`;
+  }
+
+  async getUserProfile(): Promise<User> {
+    const response = await this.request(this.getApiUrl('auth/profile'), {
+      headers: this.getHeaders(),
+    });
+
+    const data = await this.handleResponse<ApiResponse<User | { user: User }>>(response);
+    return 'user' in data.data! ? data.data.user : data.data!;
+  }
+
+  /**
+   * Renews the session cookie from the refresh cookie. A refresh token from
+   * an older localStorage session can be passed once to move it into cookies.
+   */
+  async refreshSession(legacyRefreshToken?: string): Promise<{ expiresAt?: string }> {
     const response = await fetch(this.getApiUrl('auth/refresh-token'), {
       method: 'POST',
-      headers: this.getHeaders(false),
-      body: JSON.stringify({ refreshToken }),
+      headers: this.getHeaders(),
+      body: JSON.stringify(legacyRefreshToken ? { refreshToken: legacyRefreshToken } : {}),
     });
 
-    const data = await this.handleResponse<ApiResponse<{ accessToken: string }>>(response);
-    return data.data!;
+    const data = await this.handleResponse<ApiResponse<{ expiresAt?: string }>>(response);
+    this.scheduleSessionRefresh(data.data?.expiresAt);
+    return data.data || {};
   }
 
   async logout(): Promise<{ message: string }> {
-    const response = await fetch(this.getApiUrl('auth/logout'), {
+    const response = await this.request(this.getApiUrl('auth/logout'), {
       method: 'POST',
       headers: this.getHeaders(),
     });
@@ -305,9 +512,9 @@ class ApiClient {
     if (params?.inStock !== undefined) searchParams.append('inStock', params.inStock.toString());
     if (params?.sort) searchParams.append('sort', params.sort);
 
-const response = await fetch(this.getApiUrl(`products?${searchParams}`), {
+const response = await this.request(this.getApiUrl(`products?${searchParams}`), {
       method: 'GET',
-      headers: this.getHeaders(false),
+      headers: this.getHeaders(),
     });
 
     const apiResponse = await this.handleResponse<{
@@ -328,9 +535,9 @@ const response = await fetch(this.getApiUrl(`products?${searchParams}`), {
   }
 
   async getProductById(productId: string): Promise<Product> {
-    const response = await fetch(this.getApiUrl(`products/${encodeURIComponent(productId)}`), {
+    const response = await this.request(this.getApiUrl(`products/${encodeURIComponent(productId)}`), {
       method: 'GET',
-      headers: this.getHeaders(false),
+      headers: this.getHeaders(),
     });
 
     const data = await this.handleResponse<ApiResponse<Product>>(response);
@@ -341,9 +548,9 @@ const response = await fetch(this.getApiUrl(`products?${searchParams}`), {
   }
 
   async getProductByHandle(handle: string): Promise<Product> {
-    const response = await fetch(this.getApiUrl(`products/handle/${encodeURIComponent(handle)}`), {
+    const response = await this.request(this.getApiUrl(`products/handle/${encodeURIComponent(handle)}`), {
       method: 'GET',
-      headers: this.getHeaders(false),
+      headers: this.getHeaders(),
     });
 
     const data = await this.handleResponse<ApiResponse<Product>>(response);
@@ -353,6 +560,53 @@ const response = await fetch(this.getApiUrl(`products?${searchParams}`), {
     return data.data;
   }
 
+  // Search APIs
+  async searchProducts(params: SearchQuery, signal?: AbortSignal): Promise<SearchResult> {
+    const searchParams = new URLSearchParams();
+    if (params.q) searchParams.append('q', params.q);
+    if (params.category) searchParams.append('category', params.category);
+    if (params.minPrice !== undefined) searchParams.append('minPrice', params.minPrice.toString());
+    if (params.maxPrice !== undefined) searchParams.append('maxPrice', params.maxPrice.toString());
+    if (params.inStock) searchParams.append('inStock', 'true');
+    if (params.onSale) searchParams.append('onSale', 'true');
+    if (params.sort) searchParams.append('sort', params.sort);
+    if (params.page) searchParams.append('page', params.page.toString());
+    if (params.limit) searchParams.append('limit', params.limit.toString());
+
+    const response = await this.request(this.getSearchApiUrl(`search?${searchParams}`), {
+      method: 'GET',
+      headers: this.getHeaders(),
+      signal,
+    });
+
+    const apiResponse = await this.handleResponse<{
+      success: boolean;
+      data: SearchResult['products'];
+      facets: SearchResult['facets'];
+      pagination: SearchResult['pagination'];
+      corrected?: boolean;
+    }>(response);
+
+    return {
+      products: apiResponse.data || [],
+      facets: apiResponse.facets,
+      pagination: apiResponse.pagination,
+      corrected: apiResponse.corrected,
+    };
+  }
+
+  async getSearchSuggestions(q: string, locale: ContentLocale, signal?: AbortSignal): Promise<SearchSuggestion[]> {
+    const searchParams = new URLSearchParams({ q, locale });
+    const response = await this.request(this.getSearchApiUrl(`search/suggestions?${searchParams}`), {
+      method: 'GET',
+      headers: this.getHeaders(),
+      signal,
+    });
+
+    const data = await this.handleResponse<ApiResponse<SearchSuggestion[]>>(response);
+    return data.data || [];
+  }
+
   // Category APIs
   async getCategories(params?: {
     page?: number;
@@ -368,9 +622,9 @@ const response = await fetch(this.getApiUrl(`products?${searchParams}`), {
     if (params?.type) searchParams.append('type', params.type);
     if (params?.sort) searchParams.append('sort', params.sort);
 
-const response = await fetch(this.getApiUrl(`category/AllCategory?${searchParams}`), {
+const response = await this.request(this.getApiUrl(`category/AllCategory?${searchParams}`), {
       method: 'GET',
-      headers: this.getHeaders(false),
+      headers: this.getHeaders(),
     });
 
     const data = await this.handleResponse<ApiResponse<Category[]>>(response);
@@ -378,9 +632,9 @@ const response = await fetch(this.getApiUrl(`category/AllCategory?${searchParams
   }
 
   async getCategoryById(categoryId: string): Promise<Category> {
-    const response = await fetch(this.getApiUrl(`category/${categoryId}`), {
+    const response = await this.request(this.getApiUrl(`category/${categoryId}`), {
       method: 'GET',
-      headers: this.getHeaders(false),
+      headers: this.getHeaders(),
     });
 
     const data = await this.handleResponse<ApiResponse<Category>>(response);
@@ -407,7 +661,7 @@ const response = await fetch(this.getApiUrl(`category/AllCategory?${searchParams
     couponCode?: string;
     note?: string;
   }): Promise<Order> {
-    const response = await fetch(this.getApiUrl('order/cart'), {
+    const response = await this.request(this.getApiUrl('order/cart'), {
       method: 'POST',
       headers: this.getHeaders(),
       body: JSON.stringify(orderData),
@@ -436,7 +690,7 @@ const response = await fetch(this.getApiUrl(`category/AllCategory?${searchParams
     if (params?.sortBy) searchParams.append('sortBy', params.sortBy);
     if (params?.sortOrder) searchParams.append('sortOrder', params.sortOrder);
 
-    const response = await fetch(this.getApiUrl(`order?${searchParams}`), {
+    const response = await this.request(this.getApiUrl(`order?${searchParams}`), {
       method: 'GET',
       headers: this.getHeaders(),
     });
@@ -449,7 +703,7 @@ const response = await fetch(this.getApiUrl(`category/AllCategory?${searchParams
   }
 
   async getOrderById(orderId: string): Promise<Order> {
-    const response = await fetch(this.getApiUrl(`order/${orderId}`), {
+    const response = await this.request(this.getApiUrl(`order/${orderId}`), {
       method: 'GET',
       headers: this.getHeaders(),
     });
@@ -463,7 +717,7 @@ const response = await fetch(this.getApiUrl(`category/AllCategory?${searchParams
     sessionId?: string;
     finalAmount: number;
   }> {
-    const response = await fetch(this.getApiUrl(`order/${orderId}/checkout`), {
+    const response = await this.request(this.getApiUrl(`order/${orderId}/checkout`), {
       method: 'POST',
       headers: this.getHeaders(),
     });
@@ -472,12 +726,57 @@ const response = await fetch(this.getApiUrl(`category/AllCategory?${searchParams
     return data.data!;
   }
 
+  // Opened directly by the browser, which sends the session cookie along
+  getInvoiceUrl(orderId: string, options: { locale: string; format?: 'pdf' | 'html' }): string {
+    const params = new URLSearchParams({ locale: options.locale, format: options.format || 'pdf' });
+    return `${this.getApiUrl(`order/${encodeURIComponent(orderId)}/invoice`)}?${params.toString()}`;
+  }
+
+  async cancelOrder(orderId: string, reason?: string): Promise<Order | undefined> {
+    const response = await this.request(this.getApiUrl(`order/${orderId}/cancel`), {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify({ reason }),
+    });
+
+    const data = await this.handleResponse<ApiResponse<Order>>(response);
+    return data.data;
+  }
+
+  async getOrderReturns(orderId: string): Promise<ReturnRequest[]> {
+    const response = await this.request(this.getApiUrl(`order/${orderId}/returns`), {
+      headers: this.getHeaders(),
+    });
+
+    const data = await this.handleResponse<ApiResponse<ReturnRequest[]>>(response);
+    return Array.isArray(data.data) ? data.data : [];
+  }
+
+  async createReturnRequest(orderId: string, input: ReturnRequestInput, photos: File[] = []): Promise<ReturnRequest> {
+    const form = new FormData();
+    form.set('items', JSON.stringify(input.items));
+    form.set('reason', input.reason);
+    form.set('refundMethod', input.refundMethod);
+    if (input.comment) form.set('comment', input.comment);
+    photos.forEach((photo) => form.append('photos', photo));
+
+    // Multipart body, so no JSON Content-Type; the browser adds the boundary
+    const response = await this.request(this.getApiUrl(`order/${orderId}/returns`), {
+      method: 'POST',
+      headers: { 'X-API-Version': this.version },
+      body: form,
+    });
+
+    const data = await this.handleResponse<ApiResponse<ReturnRequest>>(response);
+    return data.data!;
+  }
+
   // Checkout APIs
   async processCheckout(checkoutData: CheckoutRequest): Promise<CheckoutResponse> {
     console.log('API Client - processCheckout data:', checkoutData);
-    const response = await fetch(this.getCheckoutApiUrl('checkout'), {
+    const response = await this.request(this.getCheckoutApiUrl('checkout'), {
       method: 'POST',
-      headers: this.getHeaders(false),
+      headers: this.getHeaders(),
       body: JSON.stringify(checkoutData),
     });
 
@@ -486,7 +785,7 @@ const response = await fetch(this.getApiUrl(`category/AllCategory?${searchParams
 
   async processAuthenticatedCheckout(checkoutData: Omit<CheckoutRequest, 'guestInfo'>): Promise<CheckoutResponse> {
     console.log('API Client - processAuthenticatedCheckout data:', checkoutData);
-    const response = await fetch(this.getCheckoutApiUrl('checkout/authenticated'), {
+    const response = await this.request(this.getCheckoutApiUrl('checkout/authenticated'), {
       method: 'POST',
       headers: this.getHeaders(),
       body: JSON.stringify(checkoutData),
@@ -503,9 +802,9 @@ const response = await fetch(this.getApiUrl(`category/AllCategory?${searchParams
     paymentGateway: string;
     createdAt: string;
   }> {
-const response = await fetch(this.getCheckoutApiUrl(`checkout/order/${orderId}/status`), {
+const response = await this.request(this.getCheckoutApiUrl(`checkout/order/${orderId}/status`), {
       method: 'GET',
-      headers: this.getHeaders(false),
+      headers: this.getHeaders(),
     });
 
     const data = await this.handleResponse<ApiResponse<any>>(response);
@@ -516,18 +815,18 @@ const response = await fetch(this.getCheckoutApiUrl(`checkout/order/${orderId}/s
     orderId: string;
     email?: string;
     phone?: string;
-  }): Promise<Order> {
+  }): Promise<OrderTracking> {
     const queryParams = new URLSearchParams();
     queryParams.append('orderId', params.orderId);
     if (params.email) queryParams.append('email', params.email);
     if (params.phone) queryParams.append('phone', params.phone);
 
-const response = await fetch(this.getOrderApiUrl(`order/track?${queryParams.toString()}`), {
+    const response = await this.request(this.getOrderApiUrl(`order/track?${queryParams.toString()}`), {
       method: 'GET',
-      headers: this.getHeaders(false),
+      headers: this.getHeaders(),
     });
 
-    const data = await this.handleResponse<ApiResponse<Order>>(response);
+    const data = await this.handleResponse<ApiResponse<OrderTracking>>(response);
     return data.data!;
   }
 
@@ -543,9 +842,9 @@ const response = await fetch(this.getOrderApiUrl(`order/track?${queryParams.toSt
     discountAmount: number;
     finalAmount: number;
   }> {
-    const response = await fetch(this.getApiUrl('coupon/validate'), {
+    const response = await this.request(this.getApiUrl('coupon/validate'), {
       method: 'POST',
-      headers: this.getHeaders(false),
+      headers: this.getHeaders(),
       body: JSON.stringify({ code, orderAmount }),
     });
 
@@ -568,20 +867,106 @@ const response = await fetch(this.getOrderApiUrl(`order/track?${queryParams.toSt
       reason: string;
     };
   }> {
-const response = await fetch(this.getApiUrl(`coupon/details/${couponCode}`), {
+const response = await this.request(this.getApiUrl(`coupon/details/${couponCode}`), {
       method: 'GET',
-      headers: this.getHeaders(false),
+      headers: this.getHeaders(),
     });
 
     const data = await this.handleResponse<ApiResponse<any>>(response);
     return data.data!;
   }
 
+  // Wishlist APIs
+  async getWishlist(): Promise<WishlistEntry[]> {
+    const response = await this.request(this.getApiUrl('wishlist'), {
+      method: 'GET',
+      headers: this.getHeaders(),
+    });
+
+    const data = await this.handleResponse<ApiResponse<WishlistEntry[]>>(response);
+    return Array.isArray(data.data) ? data.data : [];
+  }
+
+  async addToWishlist(productId: string, priceAtAdd?: number): Promise<WishlistEntry> {
+    const response = await this.request(this.getApiUrl('wishlist'), {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify({ productId, priceAtAdd }),
+    });
+
+    const data = await this.handleResponse<ApiResponse<WishlistEntry>>(response);
+    return data.data!;
+  }
+
+  async removeFromWishlist(productId: string): Promise<{ message: string }> {
+    const response = await this.request(this.getApiUrl(`wishlist/${encodeURIComponent(productId)}`), {
+      method: 'DELETE',
+      headers: this.getHeaders(),
+    });
+
+    return this.handleResponse<{ message: string }>(response);
+  }
+
+  async mergeWishlist(entries: Array<Pick<WishlistEntry, 'productId' | 'addedAt' | 'priceAtAdd'>>): Promise<WishlistEntry[]> {
+    const response = await this.request(this.getApiUrl('wishlist/merge'), {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify({ items: entries }),
+    });
+
+    const data = await this.handleResponse<ApiResponse<WishlistEntry[]>>(response);
+    return Array.isArray(data.data) ? data.data : [];
+  }
+
+  // Cart APIs
+  async getCart(): Promise<AccountCartResponse> {
+    const response = await this.request(this.getApiUrl('cart'), {
+      method: 'GET',
+      headers: this.getHeaders(),
+    });
+
+    const data = await this.handleResponse<ApiResponse<AccountCartResponse>>(response);
+    return data.data!;
+  }
+
+  async saveCart(items: CartItem[]): Promise<AccountCartResponse> {
+    const response = await this.request(this.getApiUrl('cart'), {
+      method: 'PUT',
+      headers: this.getHeaders(),
+      body: JSON.stringify({ items }),
+    });
+
+    const data = await this.handleResponse<ApiResponse<AccountCartResponse>>(response);
+    return data.data!;
+  }
+
+  async mergeCart(items: CartItem[]): Promise<AccountCartResponse> {
+    const response = await this.request(this.getApiUrl('cart/merge'), {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify({ items }),
+    });
+
+    const data = await this.handleResponse<ApiResponse<AccountCartResponse>>(response);
+    return data.data!;
+  }
+
+  async validateCart(items: CartItem[]): Promise<{ items: CartItem[]; changes: CartLineChange[] }> {
+    const response = await this.request(this.getApiUrl('cart/validate'), {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify({ items }),
+    });
+
+    const data = await this.handleResponse<ApiResponse<{ items: CartItem[]; changes: CartLineChange[] }>>(response);
+    return data.data!;
+  }
+
   // Health Check
   async healthCheck(): Promise<{ status: string; uptime: number }> {
-    const response = await fetch(this.getApiUrl('health'), {
+    const response = await this.request(this.getApiUrl('health'), {
       method: 'GET',
-      headers: this.getHeaders(false),
+      headers: this.getHeaders(),
     });
 
     return this.handleResponse<{ status: string; uptime: number }>(response);
@@ -609,4 +994,18 @@ export function handleApiError(error: any): string {
     return error;
   }
   return 'An unexpected error occurred';
-}
\ No newline at end of file
+}
+
+// The price a shopper pays today; a sale price of 0 is a giveaway and still applies
+export function getEffectivePrice(product: Product): number {
+  return product.promotion?.isOnSale && product.promotion.salePrice != null
+    ? product.promotion.salePrice
+    : product.price;
+}
+
+// Whether the chosen size or color is still offered; products without that option accept anything
+export function isOptionAvailable(options: Array<{ name: string; available: boolean }> | undefined, value?: string): boolean {
+  if (!value || !options || options.length === 0) return true;
+  const option = options.find((entry) => entry.name === value);
+  return !!option && option.available;
+}
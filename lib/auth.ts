@@ -1,47 +1,59 @@
-import { apiClient, AuthResponse, User, handleApiError } from './api';
+import { apiClient, User, handleApiError } from './api';
+import { useWishlistStore } from './store';
+import { wishlistService } from './wishlist';
+import { cartSync } from './cart-sync';
+import type { ContentLocale } from './locales';
 
+// Tokens live in httpOnly cookies managed by the auth routes (see lib/session.ts);
+// only the signed-in user is kept in localStorage, to render without a round trip
 export interface AuthState {
   user: User | null;
-  token: string | null;
-  refreshToken: string | null;
   isAuthenticated: boolean;
   isLoading: boolean;
+  // The session ran out and could not be refreshed; the user is asked to sign in again
+  sessionExpired: boolean;
 }
 
 class AuthService {
   private listeners: Array<(state: AuthState) => void> = [];
   private state: AuthState = {
     user: null,
-    token: null,
-    refreshToken: null,
     isAuthenticated: false,
     isLoading: true,
+    sessionExpired: false,
   };
 
   constructor() {
     if (typeof window !== 'undefined') {
       this.initializeAuth();
+      // Keeps the user and page state in place so a re-login can pick up where it stopped
+      apiClient.onSessionExpired(() => {
+        if (this.state.isAuthenticated && !this.state.sessionExpired) {
+          this.setState({ ...this.state, sessionExpired: true });
+        }
+      });
     }
   }
 
   private initializeAuth() {
-    const token = localStorage.getItem('authToken');
-    const refreshToken = localStorage.getItem('refreshToken');
     const userData = localStorage.getItem('userData');
+    // Sessions from before cookie auth kept the tokens in localStorage
+    const legacyRefreshToken = localStorage.getItem('refreshToken');
+    localStorage.removeItem('authToken');
+    localStorage.removeItem('refreshToken');
 
-    if (token && userData) {
+    if (userData) {
       try {
         const user = JSON.parse(userData);
         this.setState({
           user,
-          token,
-          refreshToken,
           isAuthenticated: true,
           isLoading: false,
+          sessionExpired: false,
         });
         
-        // Verify token is still valid
-        this.verifyToken();
+        // Verify the session is still valid
+        this.verifyToken(legacyRefreshToken || undefined);
       } catch (error) {
         this.clearAuth();
       }
@@ -50,39 +62,33 @@ class AuthService {
     }
   }
 
-  private async verifyToken() {
+  private async verifyToken(legacyRefreshToken?: string) {
     try {
-      const user = await apiClient.getUserProfile();
-      this.setState({
-        ...this.state,
-        user,
-        isLoading: false,
-      });
-    } catch (error) {
-      // Token is invalid, try to refresh
-      if (this.state.refreshToken) {
-        await this.refreshAuthToken();
-      } else {
-        this.clearAuth();
+      if (legacyRefreshToken) {
+        // Moves the old session into cookies; the token leaves localStorage for good
+        await apiClient.refreshSession(legacyRefreshToken);
       }
+      await this.loadUser();
+    } catch (error) {
+      // Session is invalid, try to refresh
+      await this.refreshAuthToken();
     }
   }
 
+  private async loadUser() {
+    const user = await apiClient.getUserProfile();
+    localStorage.setItem('userData', JSON.stringify(user));
+    this.setState({
+      ...this.state,
+      user,
+      isLoading: false,
+    });
+  }
+
   private async refreshAuthToken() {
     try {
-      if (!this.state.refreshToken) {
-        throw new Error('No refresh token available');
-      }
-
-      const response = await apiClient.refreshToken(this.state.refreshToken);
-      const accessToken = response.accessToken;
-      
-      localStorage.setItem('authToken', accessToken);
-      this.setState({
-        ...this.state,
-        token: accessToken,
-        isLoading: false,
-      });
+      await apiClient.refreshSession();
+      await this.loadUser();
     } catch (error) {
       this.clearAuth();
     }
@@ -116,36 +122,57 @@ class AuthService {
     this.setState({ ...this.state, isLoading: true });
 
     try {
+      // The login route sets the session cookies and returns only the user
       const authData = await apiClient.login(email, password);
-      
-      // Handle the actual backend response structure
-      // The server returns accessToken and refreshToken directly in the data object
-      const accessToken = authData.accessToken;
-      const refreshToken = authData.refreshToken;
       const user = authData.user;
 
-      if (!accessToken || !user) {
+      if (!user) {
         throw new Error('Invalid response from server');
       }
       
-      // Store auth data
-      localStorage.setItem('authToken', accessToken);
-      localStorage.setItem('refreshToken', refreshToken);
-      localStorage.setItem('userData', JSON.stringify(user));
-
-      this.setState({
-        user: user,
-        token: accessToken,
-        refreshToken: refreshToken,
-        isAuthenticated: true,
-        isLoading: false,
-      });
+      this.startSession(user);
     } catch (error) {
       this.setState({ ...this.state, isLoading: false });
       throw new Error(handleApiError(error));
     }
   }
 
+  /**
+   * Picks up a session the server opened on its own, like the social sign-in
+   * callback: the cookies are already set, so only the user is loaded.
+   */
+  async completeExternalSignIn(): Promise<void> {
+    this.setState({ ...this.state, isLoading: true });
+
+    try {
+      const user = await apiClient.getUserProfile();
+      this.startSession(user);
+    } catch (error) {
+      this.setState({ ...this.state, isLoading: false });
+      throw new Error(handleApiError(error));
+    }
+  }
+
+  private startSession(user: User) {
+    localStorage.setItem('userData', JSON.stringify(user));
+
+    this.setState({
+      user: user,
+      isAuthenticated: true,
+      isLoading: false,
+      sessionExpired: false,
+    });
+
+    // Carry the guest wishlist over to the account without blocking login
+    wishlistService.mergeGuestWishlist().catch((mergeError) => {
+      console.error('Wishlist merge after login failed:', mergeError);
+    });
+    // Same for the guest cart
+    cartSync.mergeGuestCart().catch((mergeError) => {
+      console.error('Cart merge after login failed:', mergeError);
+    });
+  }
+
   async signup(userData: {
     email: string;
     password: string;
@@ -170,6 +197,35 @@ class AuthService {
     }
   }
 
+  async forgotPassword(email: string, locale: ContentLocale): Promise<{ message: string; resendAvailableAt: string }> {
+    try {
+      return await apiClient.forgotPassword(email, locale);
+    } catch (error) {
+      throw new Error(handleApiError(error));
+    }
+  }
+
+  async resetPassword(
+    proof: { email: string; code: string } | { token: string },
+    password: string,
+    cPassword: string
+  ): Promise<string> {
+    try {
+      const result = await apiClient.resetPassword(proof, password, cPassword);
+
+      // Every session was revoked by the reset, including one held by this browser
+      if (this.state.isAuthenticated) {
+        this.clearAuth();
+        useWishlistStore.getState().clearWishlist();
+        cartSync.reset();
+      }
+
+      return result.message || 'Password reset successfully. Please sign in with your new password.';
+    } catch (error) {
+      throw new Error(handleApiError(error));
+    }
+  }
+
   async logout(): Promise<void> {
     try {
       if (this.state.isAuthenticated) {
@@ -180,20 +236,28 @@ class AuthService {
       console.error('Logout API call failed:', error);
     } finally {
       this.clearAuth();
+      // The local wishlist and cart mirror the account, so don't leave them for the next guest
+      useWishlistStore.getState().clearWishlist();
+      cartSync.reset();
+    }
+  }
+
+  // Declining to sign in again after the session expired continues as a guest
+  dismissSessionExpired(): void {
+    if (this.state.sessionExpired) {
+      this.clearAuth();
     }
   }
 
   private clearAuth() {
-    localStorage.removeItem('authToken');
-    localStorage.removeItem('refreshToken');
     localStorage.removeItem('userData');
+    apiClient.clearSessionRefresh();
 
     this.setState({
       user: null,
-      token: null,
-      refreshToken: null,
       isAuthenticated: false,
       isLoading: false,
+      sessionExpired: false,
     });
   }
 
@@ -223,9 +287,13 @@ export function useAuth() {
   return {
     ...authState,
     login: authService.login.bind(authService),
+    completeExternalSignIn: authService.completeExternalSignIn.bind(authService),
     signup: authService.signup.bind(authService),
     confirmEmail: authService.confirmEmail.bind(authService),
+    forgotPassword: authService.forgotPassword.bind(authService),
+    resetPassword: authService.resetPassword.bind(authService),
     logout: authService.logout.bind(authService),
+    dismissSessionExpired: authService.dismissSessionExpired.bind(authService),
     isAdmin: authService.isAdmin.bind(authService),
     requireAuth: authService.requireAuth.bind(authService),
   };
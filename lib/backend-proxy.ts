@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from './api-response';
+import { getRequestAuthorization } from './session';
+
+/**
+ * Backend Proxy
+ * Forwards API calls this app doesn't handle itself to the backend. Browsers
+ * only ever talk to this origin, so the httpOnly session cookie reaches the
+ * server, which turns it into the backend's Authorization header. Cookies
+ * themselves are never passed on.
+ */
+
+const BACKEND_API_URL = process.env.BACKEND_API_URL || 'http://localhost:3000/api';
+
+// Request headers worth passing on; everything else (cookies, host, hop-by-hop) stays here
+const FORWARDED_HEADERS = ['accept', 'accept-language', 'content-type', 'x-api-version'];
+
+export async function proxyToBackend(request: NextRequest, path: string): Promise<NextResponse> {
+  const url = `${BACKEND_API_URL}/${path}${request.nextUrl.search}`;
+  const headers: Record<string, string> = {};
+  FORWARDED_HEADERS.forEach((name) => {
+    const value = request.headers.get(name);
+    if (value) headers[name] = value;
+  });
+
+  const authorization = getRequestAuthorization(request);
+  if (authorization) headers.authorization = authorization;
+
+  const hasBody = request.method !== 'GET' && request.method !== 'HEAD';
+
+  try {
+    const response = await fetch(url, {
+      method: request.method,
+      headers,
+      body: hasBody ? await request.text() : undefined,
+      cache: 'no-store',
+    });
+
+    return new NextResponse(response.status === 204 ? null : await response.text(), {
+      status: response.status,
+      headers: { 'Content-Type': response.headers.get('content-type') || 'application/json' },
+    });
+  } catch (error) {
+    console.error(`Backend proxy error for ${path}:`, error);
+    return errorResponse(502, 'BACKEND_UNAVAILABLE', 'The backend could not be reached');
+  }
+}
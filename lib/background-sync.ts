@@ -12,15 +12,32 @@ interface SyncData {
 }
 
 interface CartSyncData extends SyncData {
-  type: 'cart-update' | 'cart-remove' | 'cart-clear';
+  type: 'cart-update' | 'cart-remove' | 'cart-clear' | 'cart-snapshot' | 'cart-checkout';
   data: {
+    cartId?: string;
     productId?: string;
     quantity?: number;
     action: string;
     userId?: string;
+    // Full cart for abandoned cart recovery (cart-snapshot)
+    items?: CartSnapshotItem[];
+    locale?: string;
+    pushEndpoint?: string;
+    orderId?: string;
   };
 }
 
+interface CartSnapshotItem {
+  id: string;
+  title: string;
+  price: number;
+  image: string;
+  quantity: number;
+  size?: string;
+  color?: string;
+  currency?: string;
+}
+
 interface AnalyticsSyncData extends SyncData {
   type: 'page-view' | 'product-view' | 'add-to-cart' | 'purchase' | 'search';
   data: {
@@ -44,6 +61,10 @@ class BackgroundSyncManager {
   private dbName = 'logen-sync-db';
   private dbVersion = 1;
   private db: IDBDatabase | null = null;
+  // Forms with a dedicated route are posted there so replays hit the same handler
+  private formEndpoints: Record<string, string> = {
+    'contact-form': '/api/v1/contact'
+  };
 
   constructor() {
     // Only initialize DB in browser environment
@@ -189,6 +210,71 @@ class BackgroundSyncManager {
     }
   }
 
+  // Full cart snapshots let the server spot idle carts and restore them on any device
+  async syncCartSnapshot(items: CartSnapshotItem[], locale?: string): Promise<void> {
+    const syncData: CartSyncData = {
+      timestamp: Date.now(),
+      type: 'cart-snapshot',
+      data: {
+        cartId: this.getCartId(),
+        action: 'snapshot',
+        items,
+        locale,
+        pushEndpoint: await this.getPushEndpoint()
+      }
+    };
+
+    await this.sendCartSync(syncData);
+  }
+
+  // Lets the server attribute the order to a cart reminder
+  async syncCartCheckout(orderId: string): Promise<void> {
+    const syncData: CartSyncData = {
+      timestamp: Date.now(),
+      type: 'cart-checkout',
+      data: {
+        cartId: this.getCartId(),
+        action: 'checkout',
+        orderId
+      }
+    };
+
+    await this.sendCartSync(syncData);
+  }
+
+  private async sendCartSync(syncData: CartSyncData): Promise<void> {
+    try {
+      if (navigator.onLine) {
+        // The session cookie identifies signed-in carts, which can be reminded by email and on other devices
+        const response = await fetch('/api/v1/cart/sync', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(syncData)
+        });
+        if (response.status >= 500) {
+          throw new Error(`Cart sync failed with status: ${response.status}`);
+        }
+      } else {
+        await this.storeData('cart-updates', syncData);
+        await this.registerSync('cart-sync');
+      }
+    } catch (error) {
+      await this.storeData('cart-updates', syncData);
+      await this.registerSync('cart-sync');
+    }
+  }
+
+  private async getPushEndpoint(): Promise<string | undefined> {
+    try {
+      if (!('serviceWorker' in navigator) || !navigator.serviceWorker.controller) return undefined;
+      const registration = await navigator.serviceWorker.ready;
+      const subscription = await registration.pushManager.getSubscription();
+      return subscription?.endpoint;
+    } catch {
+      return undefined;
+    }
+  }
+
   // Analytics synchronization methods
   async syncAnalyticsEvent(event: string, properties: Record<string, any>, userId?: string): Promise<void> {
     const syncData: AnalyticsSyncData = {
@@ -233,11 +319,16 @@ class BackgroundSyncManager {
 
     try {
       if (navigator.onLine) {
-        await fetch('/api/v1/forms/sync', {
+        const response = await fetch(this.formEndpoints[formType] || '/api/v1/forms/sync', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify(syncData)
         });
+
+        // Server errors are worth retrying later; client errors are not
+        if (response.status >= 500) {
+          throw new Error(`Form sync failed with status: ${response.status}`);
+        }
       } else {
         await this.storeData('form-submissions', syncData);
         await this.registerSync('form-sync');
@@ -249,6 +340,20 @@ class BackgroundSyncManager {
   }
 
   // Utility methods
+  // Stable id for this browser's cart; a restored cart link adopts the original id
+  getCartId(): string {
+    let cartId = localStorage.getItem('logen-cart-id');
+    if (!cartId) {
+      cartId = `cart_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      localStorage.setItem('logen-cart-id', cartId);
+    }
+    return cartId;
+  }
+
+  adoptCartId(cartId: string): void {
+    localStorage.setItem('logen-cart-id', cartId);
+  }
+
   private getSessionId(): string {
     let sessionId = sessionStorage.getItem('logen-session-id');
     if (!sessionId) {
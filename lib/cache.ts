@@ -1,4 +1,5 @@
 import { unstable_cache } from 'next/cache';
+import { loadMessages } from './i18n';
 
 // Cache configuration
 export const CACHE_TAGS = {
@@ -38,7 +39,7 @@ export function createCachedFunction<T extends any[], R>(
 // SEO data caching
 export const getCachedSEOData = createCachedFunction(
   async (path: string, locale: string) => {
-    const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3000/api'}/seo?path=${encodeURIComponent(path)}&locale=${locale}`);
+    const response = await fetch(`${process.env.BACKEND_API_URL || 'http://localhost:3000/api'}/seo?path=${encodeURIComponent(path)}&locale=${locale}`);
     if (!response.ok) {
       throw new Error('Failed to fetch SEO data');
     }
@@ -54,7 +55,7 @@ export const getCachedSEOData = createCachedFunction(
 // Health data caching
 export const getCachedHealthData = createCachedFunction(
   async (type: 'basic' | 'detailed' | 'metrics' = 'basic') => {
-    const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3000/api'}/health?type=${type}`);
+    const response = await fetch(`${process.env.BACKEND_API_URL || 'http://localhost:3000/api'}/health?type=${type}`);
     if (!response.ok) {
       throw new Error('Failed to fetch health data');
     }
@@ -69,17 +70,7 @@ export const getCachedHealthData = createCachedFunction(
 
 // Translation caching
 export const getCachedTranslations = createCachedFunction(
-  async (locale: string) => {
-    try {
-      const messages = await import(`../messages/${locale}.json`);
-      return messages.default;
-    } catch (error) {
-      console.warn(`Failed to load translations for locale: ${locale}`);
-      // Fallback to English
-      const fallback = await import('../messages/en.json');
-      return fallback.default;
-    }
-  },
+  async (locale: string) => loadMessages(locale),
   ['translations'],
   {
     revalidate: CACHE_DURATIONS.VERY_LONG,
@@ -95,7 +86,7 @@ export const getCachedProducts = createCachedFunction(
     if (category) params.append('category', category);
     if (limit) params.append('limit', limit.toString());
     
-    const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3000/api'}/products?${params}`);
+    const response = await fetch(`${process.env.BACKEND_API_URL || 'http://localhost:3000/api'}/products?${params}`);
     if (!response.ok) {
       throw new Error('Failed to fetch products');
     }
@@ -111,7 +102,7 @@ export const getCachedProducts = createCachedFunction(
 // Category data caching (placeholder for future implementation)
 export const getCachedCategories = createCachedFunction(
   async () => {
-    const response = await fetch(`${process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3000/api'}/categories`);
+    const response = await fetch(`${process.env.BACKEND_API_URL || 'http://localhost:3000/api'}/categories`);
     if (!response.ok) {
       throw new Error('Failed to fetch categories');
     }
@@ -143,6 +134,8 @@ export async function revalidatePath(path: string) {
 // Memory cache for client-side caching
 class MemoryCache {
   private cache = new Map<string, { data: any; expiry: number }>();
+  private hits = 0;
+  private misses = 0;
 
   set(key: string, data: any, ttl: number = CACHE_DURATIONS.MEDIUM * 1000) {
     const expiry = Date.now() + ttl;
@@ -151,16 +144,32 @@ class MemoryCache {
 
   get(key: string) {
     const item = this.cache.get(key);
-    if (!item) return null;
+    if (!item) {
+      this.misses++;
+      return null;
+    }
     
     if (Date.now() > item.expiry) {
       this.cache.delete(key);
+      this.misses++;
       return null;
     }
     
+    this.hits++;
     return item.data;
   }
 
+  // Lookups since start, for health metrics
+  stats() {
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+      size: this.cache.size,
+    };
+  }
+
   delete(key: string) {
     this.cache.delete(key);
   }
@@ -0,0 +1,710 @@
+import { v4 as uuidv4 } from 'uuid';
+import { readJsonFile, resolveDataPath, updateJsonFile } from './file-store';
+import { CONTENT_LOCALES, ContentLocale, getContentLocale, isContentLocale } from './locales';
+import {
+  getPushSubscriptionStore,
+  isPushPreferenceKey,
+  isWebPushConfigured,
+  PushPreferenceKey,
+  sendPushNotifications,
+  StoredPushSubscription,
+} from './push-subscriptions';
+import { startInterval } from './scheduler';
+
+/**
+ * Push Campaigns
+ * Scheduled and recurring push campaigns with audience segments, A/B
+ * variants, per-subscriber frequency caps and quiet hours in each
+ * subscriber's timezone. Campaigns are queued per subscriber on each run
+ * and delivered by a scheduler tick; deliveries falling in quiet hours wait
+ * in the queue until the subscriber's morning.
+ */
+
+export type CampaignStatus = 'draft' | 'scheduled' | 'running' | 'paused' | 'completed' | 'cancelled';
+
+export interface CampaignSegment {
+  locales?: ContentLocale[];
+  hasCart?: boolean;
+  purchasedCategories?: string[];
+  inactiveDays?: number;
+}
+
+// English is required; other content locales fall back to it
+export type CampaignCopy = { en: string } & Partial<Record<ContentLocale, string>>;
+
+export interface CampaignVariant {
+  id: string;
+  weight: number;
+  title: CampaignCopy;
+  body: CampaignCopy;
+  url?: string;
+  image?: string;
+}
+
+export interface CampaignSchedule {
+  startAt: string;
+  recurrence?: {
+    every: 'day' | 'week' | 'month';
+    interval?: number;
+    until?: string;
+  };
+}
+
+export interface CampaignVariantStats {
+  queued: number;
+  delivered: number;
+  clicks: number;
+  closes: number;
+}
+
+export interface CampaignStats {
+  runs: number;
+  queued: number;
+  delivered: number;
+  failed: number;
+  capped: number;
+  deferred: number;
+  expired: number;
+  clicks: number;
+  closes: number;
+  variants: Record<string, CampaignVariantStats>;
+}
+
+export interface Campaign {
+  id: string;
+  name: string;
+  status: CampaignStatus;
+  // Subscribers who switched this preference off never receive the campaign
+  preference: PushPreferenceKey;
+  segment: CampaignSegment;
+  variants: CampaignVariant[];
+  schedule: CampaignSchedule;
+  respectQuietHours: boolean;
+  frequencyCap?: { max: number; windowHours: number };
+  nextRunAt: string | null;
+  lastRunAt?: string;
+  stats: CampaignStats;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CampaignInput = Pick<Campaign, 'name' | 'segment' | 'variants' | 'schedule'> &
+  Partial<Pick<Campaign, 'preference' | 'respectQuietHours' | 'frequencyCap'>> & {
+    status?: 'draft' | 'scheduled';
+  };
+
+interface QueuedDelivery {
+  id: string;
+  campaignId: string;
+  variantId: string;
+  subscriptionId: string;
+  dueAt: number;
+  queuedAt: number;
+}
+
+export class CampaignValidationError extends Error {
+  constructor(public details: Record<string, string>) {
+    super('Invalid campaign');
+    this.name = 'CampaignValidationError';
+  }
+}
+
+export function isCampaignValidationError(error: unknown): error is CampaignValidationError {
+  return error instanceof Error && error.name === 'CampaignValidationError';
+}
+
+const CAMPAIGNS_FILE = resolveDataPath('campaigns.json');
+const QUEUE_FILE = resolveDataPath('campaign-queue.json');
+const DELIVERY_LOG_FILE = resolveDataPath('campaign-deliveries.json');
+
+const MAX_VARIANTS = 5;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Defaults, overridable per deployment
+const DEFAULT_FREQUENCY_CAP = {
+  max: parseInt(process.env.CAMPAIGN_FREQUENCY_CAP || '2', 10),
+  windowHours: parseInt(process.env.CAMPAIGN_FREQUENCY_WINDOW_HOURS || '24', 10),
+};
+const QUIET_HOURS = parseQuietHours(process.env.CAMPAIGN_QUIET_HOURS || '22-8');
+const DEFAULT_TIMEZONE = process.env.CAMPAIGN_DEFAULT_TIMEZONE || 'Africa/Cairo';
+// Queued deliveries older than this are dropped rather than sent late
+const DELIVERY_TTL_MS = parseInt(process.env.CAMPAIGN_DELIVERY_TTL_HOURS || '24', 10) * HOUR_MS;
+const DELIVERY_LOG_RETENTION_MS = 30 * DAY_MS;
+const SCHEDULER_INTERVAL_MS = parseInt(process.env.CAMPAIGN_SCHEDULER_INTERVAL || '60', 10) * 1000;
+
+function parseQuietHours(value: string): { start: number; end: number } | null {
+  const match = /^(\d{1,2})-(\d{1,2})$/.exec(value.trim());
+  if (!match) return null;
+  const start = parseInt(match[1], 10);
+  const end = parseInt(match[2], 10);
+  return start === end || start > 23 || end > 23 ? null : { start, end };
+}
+
+function emptyStats(): CampaignStats {
+  return { runs: 0, queued: 0, delivered: 0, failed: 0, capped: 0, deferred: 0, expired: 0, clicks: 0, closes: 0, variants: {} };
+}
+
+function variantStats(stats: CampaignStats, variantId: string): CampaignVariantStats {
+  stats.variants[variantId] = stats.variants[variantId] || { queued: 0, delivered: 0, clicks: 0, closes: 0 };
+  return stats.variants[variantId];
+}
+
+// Validation
+export function validateCampaignInput(input: any, partial = false): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const has = (key: string) => input?.[key] !== undefined;
+
+  if ((!partial || has('name')) && (typeof input?.name !== 'string' || !input.name.trim())) {
+    errors.name = 'Name is required';
+  }
+
+  if (has('preference') && !isPushPreferenceKey(input.preference)) {
+    errors.preference = 'Unknown notification preference';
+  }
+
+  if (!partial || has('variants')) {
+    const variants = input?.variants;
+    if (!Array.isArray(variants) || variants.length === 0 || variants.length > MAX_VARIANTS) {
+      errors.variants = `Between 1 and ${MAX_VARIANTS} variants are required`;
+    } else if (variants.some((variant: any) =>
+      typeof variant?.title?.en !== 'string' || !variant.title.en.trim() ||
+      typeof variant?.body?.en !== 'string' || !variant.body.en.trim()
+    )) {
+      errors.variants = 'Every variant needs an English title and body';
+    } else if (variants.some((variant: any) => variant?.weight !== undefined && !(variant.weight > 0))) {
+      errors.variants = 'Variant weights must be positive';
+    } else if (variants.some((variant: any) => variant?.url !== undefined && !/^\/(?!\/)/.test(variant.url))) {
+      errors.variants = 'Variant links must be site-relative paths';
+    }
+  }
+
+  if (!partial || has('schedule')) {
+    const schedule = input?.schedule;
+    if (!schedule || isNaN(Date.parse(schedule.startAt))) {
+      errors.schedule = 'A valid start date is required';
+    } else if (schedule.recurrence) {
+      const { every, interval, until } = schedule.recurrence;
+      if (['day', 'week', 'month'].indexOf(every) === -1) {
+        errors.schedule = 'Recurrence must repeat every day, week or month';
+      } else if (interval !== undefined && !(Number.isInteger(interval) && interval > 0)) {
+        errors.schedule = 'Recurrence interval must be a positive whole number';
+      } else if (until !== undefined && isNaN(Date.parse(until))) {
+        errors.schedule = 'Recurrence end date is invalid';
+      }
+    }
+  }
+
+  if (has('segment')) {
+    const segment = input.segment || {};
+    if (segment.locales !== undefined && (!Array.isArray(segment.locales) ||
+      segment.locales.some((locale: unknown) => !isContentLocale(locale)))) {
+      errors.segment = `Locales must be one of ${CONTENT_LOCALES.join(', ')}`;
+    } else if (segment.inactiveDays !== undefined && !(Number.isInteger(segment.inactiveDays) && segment.inactiveDays > 0)) {
+      errors.segment = 'Inactive days must be a positive whole number';
+    } else if (segment.purchasedCategories !== undefined && !Array.isArray(segment.purchasedCategories)) {
+      errors.segment = 'Purchased categories must be a list';
+    }
+  }
+
+  if (has('frequencyCap') && input.frequencyCap !== null) {
+    const { max, windowHours } = input.frequencyCap || {};
+    if (!(Number.isInteger(max) && max > 0) || !(Number.isInteger(windowHours) && windowHours > 0)) {
+      errors.frequencyCap = 'Frequency cap needs a positive max and window';
+    }
+  }
+
+  return errors;
+}
+
+function normalizeSegment(segment: any): CampaignSegment {
+  const normalized: CampaignSegment = {};
+  if (segment?.locales?.length) normalized.locales = segment.locales;
+  if (typeof segment?.hasCart === 'boolean') normalized.hasCart = segment.hasCart;
+  if (segment?.purchasedCategories?.length) {
+    normalized.purchasedCategories = segment.purchasedCategories.filter((category: unknown) => typeof category === 'string');
+  }
+  if (segment?.inactiveDays) normalized.inactiveDays = segment.inactiveDays;
+  return normalized;
+}
+
+function normalizeCopy(copy: any): CampaignCopy {
+  const normalized: CampaignCopy = { en: copy.en.trim() };
+  CONTENT_LOCALES.forEach((locale) => {
+    if (locale !== 'en' && typeof copy[locale] === 'string' && copy[locale].trim()) {
+      normalized[locale] = copy[locale].trim();
+    }
+  });
+  return normalized;
+}
+
+function normalizeVariants(variants: any[]): CampaignVariant[] {
+  return variants.map((variant, index) => ({
+    id: typeof variant.id === 'string' && variant.id ? variant.id : String.fromCharCode(65 + index),
+    weight: variant.weight || 1,
+    title: normalizeCopy(variant.title),
+    body: normalizeCopy(variant.body),
+    url: variant.url,
+    image: variant.image,
+  }));
+}
+
+// Scheduling
+function addInterval(date: Date, every: 'day' | 'week' | 'month', interval: number): Date {
+  const next = new Date(date.getTime());
+  if (every === 'month') {
+    next.setUTCMonth(next.getUTCMonth() + interval);
+  } else {
+    next.setTime(next.getTime() + interval * (every === 'week' ? 7 : 1) * DAY_MS);
+  }
+  return next;
+}
+
+// The next occurrence strictly after `after`, or null once the recurrence has ended
+function getNextRun(schedule: CampaignSchedule, after: number): string | null {
+  const { recurrence } = schedule;
+  if (!recurrence) return null;
+
+  const until = recurrence.until ? Date.parse(recurrence.until) : Infinity;
+  let next = new Date(schedule.startAt);
+  while (next.getTime() <= after) {
+    next = addInterval(next, recurrence.every, recurrence.interval || 1);
+  }
+  return next.getTime() <= until ? next.toISOString() : null;
+}
+
+// Minutes since local midnight in the subscriber's timezone
+function getLocalMinutes(now: number, timezone?: string): number {
+  const format = (timeZone: string) => {
+    const parts = new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', minute: 'numeric', hourCycle: 'h23' })
+      .formatToParts(new Date(now));
+    const value = (type: string) => parseInt(parts.find((part) => part.type === type)?.value || '0', 10);
+    return value('hour') * 60 + value('minute');
+  };
+
+  try {
+    return format(timezone || DEFAULT_TIMEZONE);
+  } catch {
+    // Unknown timezone names throw a RangeError
+    return format(DEFAULT_TIMEZONE);
+  }
+}
+
+/**
+ * Milliseconds until the subscriber's quiet hours end, or 0 when they may be
+ * notified now. Quiet hours may wrap midnight (22-8).
+ */
+export function getQuietHoursDelay(now: number, timezone?: string): number {
+  if (!QUIET_HOURS) return 0;
+
+  const minutes = getLocalMinutes(now, timezone);
+  const start = QUIET_HOURS.start * 60;
+  const end = QUIET_HOURS.end * 60;
+  const isQuiet = start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+
+  return isQuiet ? (((end - minutes) + 1440) % 1440) * 60 * 1000 : 0;
+}
+
+// Segments
+export function matchesSegment(record: StoredPushSubscription, segment: CampaignSegment, now: number): boolean {
+  const profile = record.profile || {};
+
+  if (segment.locales?.length && segment.locales.indexOf(getContentLocale(profile.locale)) === -1) {
+    return false;
+  }
+  if (segment.hasCart !== undefined && segment.hasCart !== (profile.cartItemCount || 0) > 0) {
+    return false;
+  }
+  if (segment.purchasedCategories?.length) {
+    const purchased = profile.purchasedCategories || [];
+    if (!segment.purchasedCategories.some((category) => purchased.indexOf(category) !== -1)) {
+      return false;
+    }
+  }
+  if (segment.inactiveDays) {
+    const lastActive = Date.parse(profile.lastActiveAt || record.updatedAt || record.createdAt) || 0;
+    if (now - lastActive < segment.inactiveDays * DAY_MS) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Sticky assignment: a subscriber sees the same variant on every run
+export function assignVariant(campaign: Campaign, subscriptionId: string): CampaignVariant {
+  const key = `${campaign.id}:${subscriptionId}`;
+  // FNV-1a with a final mix so similar ids still spread evenly across variants
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash = Math.imul(hash ^ key.charCodeAt(i), 0x01000193) >>> 0;
+  }
+  hash = Math.imul(hash ^ (hash >>> 16), 0x45d9f3b) >>> 0;
+  hash = (hash ^ (hash >>> 16)) >>> 0;
+
+  const totalWeight = campaign.variants.reduce((sum, variant) => sum + variant.weight, 0);
+  let point = (hash % 10000) / 10000 * totalWeight;
+  for (let i = 0; i < campaign.variants.length; i++) {
+    point -= campaign.variants[i].weight;
+    if (point < 0) return campaign.variants[i];
+  }
+  return campaign.variants[campaign.variants.length - 1];
+}
+
+// Campaign storage
+export async function listCampaigns(): Promise<Campaign[]> {
+  const campaigns = await readJsonFile<Record<string, Campaign>>(CAMPAIGNS_FILE, {});
+  return Object.keys(campaigns)
+    .map((id) => campaigns[id])
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getCampaign(id: string): Promise<Campaign | null> {
+  const campaigns = await readJsonFile<Record<string, Campaign>>(CAMPAIGNS_FILE, {});
+  return campaigns[id] || null;
+}
+
+function updateCampaigns(updater: (campaigns: Record<string, Campaign>) => void) {
+  return updateJsonFile<Record<string, Campaign>>(CAMPAIGNS_FILE, {}, (current) => {
+    const campaigns = { ...current };
+    updater(campaigns);
+    return campaigns;
+  });
+}
+
+export async function createCampaign(input: CampaignInput): Promise<Campaign> {
+  const errors = validateCampaignInput(input);
+  if (Object.keys(errors).length > 0) {
+    throw new CampaignValidationError(errors);
+  }
+
+  const now = new Date().toISOString();
+  const status = input.status === 'draft' ? 'draft' : 'scheduled';
+  const campaign: Campaign = {
+    id: uuidv4(),
+    name: input.name.trim(),
+    status,
+    preference: input.preference || 'promotions',
+    segment: normalizeSegment(input.segment),
+    variants: normalizeVariants(input.variants),
+    schedule: input.schedule,
+    respectQuietHours: input.respectQuietHours !== false,
+    frequencyCap: input.frequencyCap || undefined,
+    nextRunAt: status === 'scheduled' ? new Date(input.schedule.startAt).toISOString() : null,
+    stats: emptyStats(),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await updateCampaigns((campaigns) => {
+    campaigns[campaign.id] = campaign;
+  });
+  return campaign;
+}
+
+/**
+ * Applies edits and status transitions (schedule, pause, resume, cancel).
+ * Returns null when the campaign does not exist.
+ */
+export async function updateCampaign(
+  id: string,
+  changes: Partial<Omit<CampaignInput, 'status'>> & { status?: CampaignStatus }
+): Promise<Campaign | null> {
+  const errors = validateCampaignInput(changes, true);
+  if (changes.status && ['draft', 'scheduled', 'paused', 'cancelled'].indexOf(changes.status) === -1) {
+    errors.status = 'Status can only be set to draft, scheduled, paused or cancelled';
+  }
+  if (Object.keys(errors).length > 0) {
+    throw new CampaignValidationError(errors);
+  }
+
+  let updated: Campaign | null = null;
+  await updateCampaigns((campaigns) => {
+    const existing = campaigns[id];
+    if (!existing) return;
+
+    const next: Campaign = {
+      ...existing,
+      ...(changes.name !== undefined && { name: changes.name.trim() }),
+      ...(changes.preference !== undefined && { preference: changes.preference }),
+      ...(changes.segment !== undefined && { segment: normalizeSegment(changes.segment) }),
+      ...(changes.variants !== undefined && { variants: normalizeVariants(changes.variants) }),
+      ...(changes.schedule !== undefined && { schedule: changes.schedule }),
+      ...(changes.respectQuietHours !== undefined && { respectQuietHours: changes.respectQuietHours }),
+      ...(changes.frequencyCap !== undefined && { frequencyCap: changes.frequencyCap || undefined }),
+      updatedAt: new Date().toISOString(),
+    };
+
+    const status = changes.status || existing.status;
+    next.status = status;
+    if (status === 'scheduled' || status === 'running') {
+      // Resuming or rescheduling picks up from the next occurrence that has not passed
+      const startAt = Date.parse(next.schedule.startAt);
+      next.nextRunAt = startAt > Date.now() || !existing.lastRunAt
+        ? new Date(startAt).toISOString()
+        : getNextRun(next.schedule, Date.parse(existing.lastRunAt));
+      if (!next.nextRunAt) next.status = 'completed';
+    } else {
+      next.nextRunAt = null;
+    }
+
+    campaigns[id] = next;
+    updated = next;
+  });
+
+  if (changes.status === 'cancelled' || changes.status === 'paused') {
+    await dropQueuedDeliveries(id);
+  }
+  return updated;
+}
+
+export async function deleteCampaign(id: string): Promise<boolean> {
+  let deleted = false;
+  await updateCampaigns((campaigns) => {
+    deleted = !!campaigns[id];
+    delete campaigns[id];
+  });
+  if (deleted) await dropQueuedDeliveries(id);
+  return deleted;
+}
+
+async function dropQueuedDeliveries(campaignId: string): Promise<void> {
+  await updateJsonFile<QueuedDelivery[]>(QUEUE_FILE, [], (queue) =>
+    queue.filter((delivery) => delivery.campaignId !== campaignId)
+  );
+}
+
+// Interactions reported by the service worker
+export async function recordCampaignInteraction(
+  campaignId: string,
+  variantId: string | undefined,
+  action: 'click' | 'close'
+): Promise<boolean> {
+  let recorded = false;
+  await updateCampaigns((campaigns) => {
+    const campaign = campaigns[campaignId];
+    if (!campaign) return;
+
+    const stats = { ...campaign.stats, variants: { ...campaign.stats.variants } };
+    const key = action === 'close' ? 'closes' : 'clicks';
+    stats[key]++;
+    if (variantId && campaign.variants.some((variant) => variant.id === variantId)) {
+      const perVariant = { ...variantStats(stats, variantId) };
+      perVariant[key]++;
+      stats.variants[variantId] = perVariant;
+    }
+
+    campaigns[campaignId] = { ...campaign, stats };
+    recorded = true;
+  });
+  return recorded;
+}
+
+// Scheduler
+function buildPayload(campaign: Campaign, variant: CampaignVariant, locale: ContentLocale): string {
+  return JSON.stringify({
+    title: variant.title[locale] || variant.title.en,
+    body: variant.body[locale] || variant.body.en,
+    icon: '/icons/icon-192x192.png',
+    badge: '/icons/badge-72x72.png',
+    image: variant.image,
+    tag: `campaign-${campaign.id}`,
+    data: {
+      type: 'campaign',
+      campaignId: campaign.id,
+      variantId: variant.id,
+      url: `/${locale}${variant.url && variant.url !== '/' ? variant.url : ''}`,
+      timestamp: Date.now(),
+    },
+  });
+}
+
+// Queues every matching subscriber for the campaigns whose run time has come
+async function enqueueDueCampaigns(now: number): Promise<void> {
+  const due = (await listCampaigns()).filter((campaign) =>
+    (campaign.status === 'scheduled' || campaign.status === 'running') &&
+    campaign.nextRunAt && Date.parse(campaign.nextRunAt) <= now
+  );
+  if (due.length === 0) return;
+
+  const subscriptionStore = getPushSubscriptionStore();
+  const queued: QueuedDelivery[] = [];
+  const runStats: Record<string, CampaignStats> = {};
+
+  for (let i = 0; i < due.length; i++) {
+    const campaign = due[i];
+    const stats = emptyStats();
+    const audience = (await subscriptionStore.getByPreference(campaign.preference))
+      .filter((record) => matchesSegment(record, campaign.segment, now));
+
+    audience.forEach((record) => {
+      const variant = assignVariant(campaign, record.id);
+      const delay = campaign.respectQuietHours ? getQuietHoursDelay(now, record.profile?.timezone) : 0;
+      if (delay > 0) stats.deferred++;
+      stats.queued++;
+      variantStats(stats, variant.id).queued++;
+      queued.push({
+        id: uuidv4(),
+        campaignId: campaign.id,
+        variantId: variant.id,
+        subscriptionId: record.id,
+        dueAt: now + delay,
+        queuedAt: now,
+      });
+    });
+    runStats[campaign.id] = stats;
+  }
+
+  await updateJsonFile<QueuedDelivery[]>(QUEUE_FILE, [], (queue) => queue.concat(queued));
+  await updateCampaigns((campaigns) => {
+    due.forEach((campaign) => {
+      const current = campaigns[campaign.id];
+      if (!current) return;
+      const nextRunAt = getNextRun(current.schedule, now);
+      campaigns[campaign.id] = {
+        ...current,
+        status: nextRunAt ? 'running' : 'completed',
+        nextRunAt,
+        lastRunAt: new Date(now).toISOString(),
+        stats: mergeStats(current.stats, { ...runStats[campaign.id], runs: 1 }),
+        updatedAt: new Date(now).toISOString(),
+      };
+    });
+  });
+}
+
+function mergeStats(base: CampaignStats, delta: CampaignStats): CampaignStats {
+  const merged: CampaignStats = { ...base, variants: { ...base.variants } };
+  (['runs', 'queued', 'delivered', 'failed', 'capped', 'deferred', 'expired', 'clicks', 'closes'] as const)
+    .forEach((key) => {
+      merged[key] = base[key] + delta[key];
+    });
+  Object.keys(delta.variants).forEach((variantId) => {
+    const current = variantStats(merged, variantId);
+    const change = delta.variants[variantId];
+    merged.variants[variantId] = {
+      queued: current.queued + change.queued,
+      delivered: current.delivered + change.delivered,
+      clicks: current.clicks + change.clicks,
+      closes: current.closes + change.closes,
+    };
+  });
+  return merged;
+}
+
+// Sends queued deliveries that are due, enforcing frequency caps at send time
+async function deliverQueued(now: number): Promise<void> {
+  let due: QueuedDelivery[] = [];
+  await updateJsonFile<QueuedDelivery[]>(QUEUE_FILE, [], (queue) => {
+    due = queue.filter((delivery) => delivery.dueAt <= now);
+    return queue.filter((delivery) => delivery.dueAt > now);
+  });
+  if (due.length === 0) return;
+
+  const campaigns = await readJsonFile<Record<string, Campaign>>(CAMPAIGNS_FILE, {});
+  const deliveryLog = await readJsonFile<Record<string, number[]>>(DELIVERY_LOG_FILE, {});
+  const subscriptionStore = getPushSubscriptionStore();
+  const runStats: Record<string, CampaignStats> = {};
+  // Sends claimed in this tick, and the ones the push service accepted
+  const claimed: Record<string, number> = {};
+  const delivered: string[] = [];
+
+  // Group by campaign, variant and locale so each payload is built once
+  const groups: Record<string, { campaign: Campaign; variant: CampaignVariant; locale: ContentLocale; records: StoredPushSubscription[] }> = {};
+
+  for (let i = 0; i < due.length; i++) {
+    const delivery = due[i];
+    const campaign = campaigns[delivery.campaignId];
+    const variant = campaign?.variants.find((item) => item.id === delivery.variantId);
+    if (!campaign || !variant || campaign.status === 'paused' || campaign.status === 'cancelled') continue;
+
+    const stats = runStats[campaign.id] = runStats[campaign.id] || emptyStats();
+    if (now - delivery.queuedAt > DELIVERY_TTL_MS) {
+      stats.expired++;
+      continue;
+    }
+
+    const record = await subscriptionStore.get(delivery.subscriptionId);
+    if (!record || !record.preferences[campaign.preference]) continue;
+
+    const cap = campaign.frequencyCap || DEFAULT_FREQUENCY_CAP;
+    const recent = (deliveryLog[record.id] || [])
+      .filter((timestamp) => now - timestamp < cap.windowHours * HOUR_MS);
+    if (recent.length + (claimed[record.id] || 0) >= cap.max) {
+      stats.capped++;
+      continue;
+    }
+    claimed[record.id] = (claimed[record.id] || 0) + 1;
+
+    const locale = getContentLocale(record.profile?.locale);
+    const key = `${campaign.id}:${variant.id}:${locale}`;
+    groups[key] = groups[key] || { campaign, variant, locale, records: [] };
+    groups[key].records.push(record);
+  }
+
+  const groupKeys = Object.keys(groups);
+  for (let i = 0; i < groupKeys.length; i++) {
+    const { campaign, variant, locale, records } = groups[groupKeys[i]];
+    const stats = runStats[campaign.id];
+    const result = await sendPushNotifications(records, buildPayload(campaign, variant, locale), (record) => {
+      delivered.push(record.id);
+    });
+    stats.delivered += result.successful;
+    stats.failed += result.failed;
+    variantStats(stats, variant.id).delivered += result.successful;
+  }
+
+  await updateJsonFile<Record<string, number[]>>(DELIVERY_LOG_FILE, {}, (log) => {
+    const next: Record<string, number[]> = { ...log };
+    delivered.forEach((id) => {
+      next[id] = (next[id] || []).concat(now);
+    });
+    // Drop timestamps too old to count against any cap
+    Object.keys(next).forEach((id) => {
+      next[id] = next[id].filter((timestamp) => now - timestamp < DELIVERY_LOG_RETENTION_MS);
+      if (next[id].length === 0) delete next[id];
+    });
+    return next;
+  });
+
+  await updateCampaigns((stored) => {
+    Object.keys(runStats).forEach((id) => {
+      if (stored[id]) {
+        stored[id] = { ...stored[id], stats: mergeStats(stored[id].stats, runStats[id]) };
+      }
+    });
+  });
+}
+
+let runningTick: Promise<void> | null = null;
+
+// Single-flight so the interval and the cron route never overlap
+export function runCampaignScheduler(): Promise<void> {
+  if (!runningTick) {
+    const now = Date.now();
+    runningTick = (async () => {
+      if (!isWebPushConfigured()) return;
+      await enqueueDueCampaigns(now);
+      await deliverQueued(now);
+    })()
+      .catch((error) => {
+        console.error('Campaign scheduler run failed:', error);
+      })
+      .finally(() => {
+        runningTick = null;
+      });
+  }
+  return runningTick;
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Starts the in-process scheduler on long-running servers. Serverless
+ * deployments set CAMPAIGN_SCHEDULER_INTERVAL=0 and call the run route from cron.
+ */
+export function ensureCampaignScheduler(): void {
+  if (schedulerTimer || SCHEDULER_INTERVAL_MS <= 0 || typeof setInterval === 'undefined') return;
+  schedulerTimer = startInterval(() => {
+    runCampaignScheduler();
+  }, SCHEDULER_INTERVAL_MS);
+}
@@ -0,0 +1,577 @@
+import { randomBytes } from 'crypto';
+import { normalizeCartItems } from './account-cart';
+import { config } from './config';
+import { resolveSettlementCurrency, staticExchangeRates, sumInCurrency, formatMoney } from './currency';
+import { appendJsonLine, readJsonFile, readJsonLines, resolveDataPath, updateJsonFile } from './file-store';
+import { ContentLocale, getFormatLocale, getTextDirection, isContentLocale } from './locales';
+import { isMailerConfigured, sendMail } from './mailer';
+import { getNotificationTemplate } from './notification-templates';
+import { getQuietHoursDelay } from './campaigns';
+import {
+  getPushSubscriptionStore,
+  getSubscriptionId,
+  isWebPushConfigured,
+  sendPushNotifications,
+  StoredPushSubscription,
+} from './push-subscriptions';
+import { startInterval } from './scheduler';
+import type { CartItem } from './store';
+import { cleanString, escapeHtml } from './utils';
+
+/**
+ * Abandoned Cart Recovery
+ * Tracks the latest cart snapshot for each browser cart (and signed-in
+ * user), and sends reminders through push and email on an escalation
+ * schedule once a cart goes idle. Every reminder links to a restore URL that
+ * rebuilds the exact cart, sizes and colors included, on any device.
+ * Checkouts from a reminded cart are attributed to the reminder that brought
+ * the shopper back.
+ */
+
+export type CartReminderChannel = 'push' | 'email';
+
+export interface EscalationStep {
+  delayMs: number;
+  channels: CartReminderChannel[];
+}
+
+export interface TrackedCart {
+  cartId: string;
+  userId?: string;
+  email?: string;
+  pushSubscriptionId?: string;
+  locale: ContentLocale;
+  items: CartItem[];
+  value: number;
+  currency: string;
+  status: 'active' | 'empty' | 'converted';
+  lastActivityAt: string;
+  // Escalation steps already handled for the current cart
+  stage: number;
+  reminders: Array<{ stage: number; channels: CartReminderChannel[]; sentAt: string }>;
+  restoreToken: string;
+  restoredAt?: string;
+  restoredVia?: CartReminderChannel;
+  convertedOrderId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CartSnapshotInput {
+  cartId: string;
+  items: unknown;
+  locale?: string;
+  pushEndpoint?: string;
+}
+
+interface CartRecoveryEvent {
+  type: 'reminder' | 'restore' | 'conversion';
+  cartId: string;
+  stage?: number;
+  channels?: CartReminderChannel[];
+  channel?: CartReminderChannel;
+  orderId?: string;
+  attributed?: boolean;
+  value?: number;
+  currency?: string;
+  at: string;
+}
+
+export interface CartRecoveryStats {
+  activeCarts: number;
+  remindedCarts: number;
+  reminders: { push: number; email: number; byStage: number[] };
+  restores: { push: number; email: number };
+  conversions: number;
+  attributedConversions: number;
+  attributedRevenue: Record<string, number>;
+}
+
+const CARTS_FILE = resolveDataPath('abandoned-carts.json');
+const EVENTS_FILE = resolveDataPath('cart-recovery-events.jsonl');
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+const CART_RETENTION_MS = 30 * DAY_MS;
+
+const ESCALATION_SCHEDULE = parseEscalationSchedule(
+  process.env.CART_RECOVERY_SCHEDULE || '1h:push,24h:push+email,72h:email'
+);
+// Checkouts within this window of a reminder (or a restore) count as recovered
+const ATTRIBUTION_WINDOW_MS = parseInt(process.env.CART_RECOVERY_ATTRIBUTION_DAYS || '7', 10) * DAY_MS;
+const SCHEDULER_INTERVAL_MS = parseInt(process.env.CART_RECOVERY_INTERVAL || '300', 10) * 1000;
+
+/**
+ * Parses "1h:push,24h:push+email,72h:email" into steps measured from the
+ * cart's last activity. Invalid entries are skipped.
+ */
+export function parseEscalationSchedule(value: string): EscalationStep[] {
+  const units: Record<string, number> = { m: MINUTE_MS, h: HOUR_MS, d: DAY_MS };
+
+  return value
+    .split(',')
+    .map((entry) => {
+      const match = /^(\d+)([mhd]):([a-z+]+)$/.exec(entry.trim());
+      if (!match) return null;
+      const channels = match[3].split('+').filter((channel): channel is CartReminderChannel =>
+        channel === 'push' || channel === 'email'
+      );
+      return channels.length > 0 ? { delayMs: parseInt(match[1], 10) * units[match[2]], channels } : null;
+    })
+    .filter((step): step is EscalationStep => !!step && step.delayMs > 0)
+    .sort((a, b) => a.delayMs - b.delayMs);
+}
+
+function createRestoreToken(): string {
+  return randomBytes(24).toString('hex');
+}
+
+function getCartTotal(items: CartItem[]): { value: number; currency: string } {
+  const currency = resolveSettlementCurrency(items.map((item) => item.currency));
+  try {
+    return { value: sumInCurrency(items, currency, staticExchangeRates), currency };
+  } catch {
+    return { value: items.reduce((sum, item) => sum + item.price * item.quantity, 0), currency };
+  }
+}
+
+function updateCarts(mutate: (carts: Record<string, TrackedCart>) => void): Promise<Record<string, TrackedCart>> {
+  return updateJsonFile<Record<string, TrackedCart>>(CARTS_FILE, {}, (carts) => {
+    mutate(carts);
+    return carts;
+  });
+}
+
+async function recordEvent(event: Omit<CartRecoveryEvent, 'at'>): Promise<void> {
+  await appendJsonLine(EVENTS_FILE, { ...event, at: new Date().toISOString() });
+}
+
+/**
+ * Stores the latest snapshot of a cart. A cart that fills up again after
+ * being emptied or checked out starts a fresh escalation with a new restore
+ * token.
+ */
+export async function recordCartSnapshot(
+  input: CartSnapshotInput,
+  identity: { userId?: string; email?: string } = {}
+): Promise<TrackedCart | null> {
+  const cartId = cleanString(input.cartId, 100);
+  if (!cartId) return null;
+
+  const items = normalizeCartItems(input.items);
+  const { value, currency } = getCartTotal(items);
+  const now = new Date().toISOString();
+  let tracked = null as TrackedCart | null;
+
+  await updateCarts((carts) => {
+    const existing = carts[cartId];
+    if (!existing && items.length === 0) return;
+
+    const isNewCart = !existing || (existing.status !== 'active' && items.length > 0);
+    const base: TrackedCart = isNewCart
+      ? {
+          cartId,
+          locale: 'en',
+          items: [],
+          value: 0,
+          currency,
+          status: 'active',
+          lastActivityAt: now,
+          stage: 0,
+          reminders: [],
+          restoreToken: createRestoreToken(),
+          createdAt: now,
+          updatedAt: now,
+          ...(existing && { userId: existing.userId, email: existing.email, pushSubscriptionId: existing.pushSubscriptionId }),
+        }
+      : existing;
+
+    const next: TrackedCart = {
+      ...base,
+      items,
+      value,
+      currency,
+      locale: isContentLocale(input.locale) ? input.locale : base.locale,
+      // Emptying a cart after checkout keeps it converted
+      status: items.length > 0 ? 'active' : base.status === 'converted' ? 'converted' : 'empty',
+      lastActivityAt: now,
+      updatedAt: now,
+    };
+    if (identity.userId) next.userId = identity.userId;
+    if (identity.email) next.email = identity.email;
+    if (input.pushEndpoint) next.pushSubscriptionId = getSubscriptionId(input.pushEndpoint);
+
+    carts[cartId] = next;
+    tracked = next;
+  });
+
+  return tracked;
+}
+
+/**
+ * Looks up a cart by its restore token for the restore link. The first
+ * restore after a reminder is recorded for attribution.
+ */
+export async function restoreCart(
+  token: string,
+  channel?: string
+): Promise<Pick<TrackedCart, 'cartId' | 'items' | 'locale' | 'currency'> | null> {
+  if (!token) return null;
+
+  let restored = null as TrackedCart | null;
+  let firstRestore = false;
+  const via: CartReminderChannel | undefined = channel === 'push' || channel === 'email' ? channel : undefined;
+
+  await updateCarts((carts) => {
+    const cartId = Object.keys(carts).find((id) => carts[id].restoreToken === token);
+    if (!cartId) return;
+
+    const cart = carts[cartId];
+    if (cart.reminders.length > 0 && !cart.restoredAt) {
+      firstRestore = true;
+      carts[cartId] = { ...cart, restoredAt: new Date().toISOString(), restoredVia: via };
+    }
+    restored = carts[cartId];
+  });
+
+  const cart = restored;
+  if (!cart) return null;
+
+  if (firstRestore) {
+    await recordEvent({ type: 'restore', cartId: cart.cartId, stage: cart.stage, channel: via });
+  }
+  return { cartId: cart.cartId, items: cart.items, locale: cart.locale, currency: cart.currency };
+}
+
+/**
+ * Marks a cart as checked out. The order is attributed to recovery when the
+ * shopper came back through a restore link, or checked out within the
+ * attribution window of the last reminder.
+ */
+export async function recordCartCheckout(cartId: string, orderId: string): Promise<{ attributed: boolean } | null> {
+  let checkedOut = null as TrackedCart | null;
+  const now = Date.now();
+
+  await updateCarts((carts) => {
+    const cart = carts[cartId];
+    if (!cart || cart.convertedOrderId === orderId) return;
+
+    checkedOut = cart;
+    carts[cartId] = {
+      ...cart,
+      status: 'converted',
+      convertedOrderId: orderId,
+      updatedAt: new Date(now).toISOString(),
+    };
+  });
+
+  const cart = checkedOut;
+  if (!cart) return null;
+
+  const lastReminder = cart.reminders[cart.reminders.length - 1];
+  const touchpoint = cart.restoredAt || lastReminder?.sentAt;
+  const attributed = !!touchpoint && now - Date.parse(touchpoint) <= ATTRIBUTION_WINDOW_MS;
+
+  await recordEvent({
+    type: 'conversion',
+    cartId,
+    orderId,
+    attributed,
+    stage: attributed ? cart.stage : undefined,
+    channel: attributed ? cart.restoredVia || lastReminder?.channels[0] : undefined,
+    value: cart.value,
+    currency: cart.currency,
+  });
+  return { attributed };
+}
+
+// Reminder content
+function getRestoreUrl(cart: TrackedCart, channel: CartReminderChannel): string {
+  return `/${cart.locale}/cart/restore?token=${cart.restoreToken}&channel=${channel}`;
+}
+
+// The shopper-facing `cart-reminder` template; the copy below localizes its text and action titles
+const REMINDER_TEMPLATE = getNotificationTemplate('cart-reminder')!;
+
+const PUSH_COPY: Record<ContentLocale, {
+  title: string;
+  body: (itemCount: number, isFinal: boolean) => string;
+  actions: Record<string, string>;
+}> = {
+  en: {
+    title: 'Don\'t Forget Your Cart! 🛒',
+    body: (itemCount, isFinal) => `You have ${itemCount} ${itemCount === 1 ? 'item' : 'items'} waiting in your cart${isFinal ? ' - they may sell out soon' : ''}`,
+    actions: { 'view-cart': 'View Cart', checkout: 'Checkout' },
+  },
+  ar: {
+    title: 'لا تنسَ سلة التسوق 🛒',
+    body: (itemCount, isFinal) => `لديك ${itemCount} منتج في سلتك${isFinal ? ' - قد تنفد الكمية قريباً' : ''}`,
+    actions: { 'view-cart': 'عرض السلة', checkout: 'إتمام الشراء' },
+  },
+};
+
+const EMAIL_COPY: Record<ContentLocale, { subject: string; intro: string; action: string; total: string }> = {
+  en: {
+    subject: 'Your cart is waiting for you',
+    intro: 'You left some items in your cart. Pick up where you left off on any device:',
+    action: 'Restore my cart',
+    total: 'Total',
+  },
+  ar: {
+    subject: 'منتجاتك ما زالت في انتظارك',
+    intro: 'تركت بعض المنتجات في سلة التسوق. يمكنك إكمال طلبك من أي جهاز:',
+    action: 'استرجاع السلة',
+    total: 'الإجمالي',
+  },
+};
+
+function buildPushPayload(cart: TrackedCart, stage: number): string {
+  const itemCount = cart.items.reduce((sum, item) => sum + item.quantity, 0);
+  const copy = PUSH_COPY[cart.locale];
+  const isFinal = stage === ESCALATION_SCHEDULE.length - 1;
+
+  return JSON.stringify({
+    title: copy.title,
+    body: copy.body(itemCount, isFinal),
+    icon: REMINDER_TEMPLATE.icon,
+    badge: '/icons/badge-72x72.png',
+    image: cart.items[0]?.image || undefined,
+    tag: `${REMINDER_TEMPLATE.type}-${cart.cartId}`,
+    actions: (REMINDER_TEMPLATE.actions || []).map((action) => ({
+      ...action,
+      title: copy.actions[action.action] || action.title,
+    })),
+    requireInteraction: REMINDER_TEMPLATE.requireInteraction,
+    vibrate: REMINDER_TEMPLATE.vibrate,
+    data: {
+      type: REMINDER_TEMPLATE.type,
+      cartId: cart.cartId,
+      stage,
+      url: getRestoreUrl(cart, 'push'),
+      timestamp: Date.now(),
+    },
+  });
+}
+
+async function sendReminderEmail(cart: TrackedCart): Promise<void> {
+  const copy = EMAIL_COPY[cart.locale];
+  const url = `${config.site.url}${getRestoreUrl(cart, 'email')}`;
+  const total = formatMoney(cart.value, cart.currency, getFormatLocale(cart.locale));
+  const lines = cart.items.map((item) => {
+    const options = [item.size, item.color].filter(Boolean).join(' / ');
+    return `${item.quantity} × ${item.title}${options ? ` (${options})` : ''}`;
+  });
+
+  await sendMail({
+    to: cart.email!,
+    subject: copy.subject,
+    text: [copy.intro, '', ...lines, '', `${copy.total}: ${total}`, '', `${copy.action}: ${url}`].join('\n'),
+    html: `<div dir="${getTextDirection(cart.locale)}" style="font-family:sans-serif">
+  <p>${escapeHtml(copy.intro)}</p>
+  <ul>${lines.map((line) => `<li>${escapeHtml(line)}</li>`).join('')}</ul>
+  <p><strong>${copy.total}: ${escapeHtml(total)}</strong></p>
+  <p><a href="${escapeHtml(url)}" style="display:inline-block;padding:12px 24px;background:#000;color:#fff;border-radius:24px;text-decoration:none">${copy.action}</a></p>
+</div>`,
+  });
+}
+
+async function getPushTargets(cart: TrackedCart): Promise<StoredPushSubscription[]> {
+  const store = getPushSubscriptionStore();
+  let records: StoredPushSubscription[] = [];
+
+  if (cart.userId) {
+    records = await store.getByUserId(cart.userId);
+  }
+  if (records.length === 0 && cart.pushSubscriptionId) {
+    const record = await store.get(cart.pushSubscriptionId);
+    if (record) records = [record];
+  }
+  return records.filter((record) => record.preferences.cartReminders);
+}
+
+// Scheduler
+interface DueReminder {
+  cart: TrackedCart;
+  stage: number;
+  channels: CartReminderChannel[];
+  pushTargets: StoredPushSubscription[];
+}
+
+function getDueStage(cart: TrackedCart, now: number): number | null {
+  if (cart.status !== 'active' || cart.items.length === 0 || cart.stage >= ESCALATION_SCHEDULE.length) {
+    return null;
+  }
+
+  const step = ESCALATION_SCHEDULE[cart.stage];
+  if (now - Date.parse(cart.lastActivityAt) < step.delayMs) return null;
+
+  // Keep the spacing between steps even when the scheduler was down for a while
+  const lastReminder = cart.reminders[cart.reminders.length - 1];
+  const previousDelay = cart.stage > 0 ? ESCALATION_SCHEDULE[cart.stage - 1].delayMs : 0;
+  if (lastReminder && now - Date.parse(lastReminder.sentAt) < step.delayMs - previousDelay) return null;
+
+  return cart.stage;
+}
+
+async function collectDueReminders(now: number): Promise<DueReminder[]> {
+  const carts = await readJsonFile<Record<string, TrackedCart>>(CARTS_FILE, {});
+  const pushEnabled = isWebPushConfigured();
+  const emailEnabled = isMailerConfigured();
+  const due: DueReminder[] = [];
+
+  const cartIds = Object.keys(carts);
+  for (let i = 0; i < cartIds.length; i++) {
+    const cart = carts[cartIds[i]];
+    const stage = getDueStage(cart, now);
+    if (stage === null) continue;
+
+    const step = ESCALATION_SCHEDULE[stage];
+    const pushTargets = pushEnabled && step.channels.indexOf('push') !== -1 ? await getPushTargets(cart) : [];
+
+    // Hold the whole step until morning rather than splitting push and email apart
+    const timezone = pushTargets[0]?.profile?.timezone;
+    if (pushTargets.length > 0 && getQuietHoursDelay(now, timezone) > 0) continue;
+
+    const channels = step.channels.filter((channel) =>
+      channel === 'push' ? pushTargets.length > 0 : emailEnabled && !!cart.email
+    );
+    due.push({ cart, stage, channels, pushTargets });
+  }
+
+  return due;
+}
+
+async function sendDueReminders(now: number): Promise<void> {
+  const due = await collectDueReminders(now);
+  if (due.length === 0) return;
+
+  // Claim the steps before sending so a crash never repeats a reminder
+  const claimed: DueReminder[] = [];
+  const sentAt = new Date(now).toISOString();
+  await updateCarts((carts) => {
+    due.forEach((reminder) => {
+      const current = carts[reminder.cart.cartId];
+      if (!current || getDueStage(current, now) !== reminder.stage) return;
+
+      carts[current.cartId] = {
+        ...current,
+        stage: reminder.stage + 1,
+        // A step with no reachable channel is skipped without a reminder
+        reminders: reminder.channels.length > 0
+          ? current.reminders.concat({ stage: reminder.stage, channels: reminder.channels, sentAt })
+          : current.reminders,
+      };
+      if (reminder.channels.length > 0) claimed.push({ ...reminder, cart: carts[current.cartId] });
+    });
+  });
+
+  for (let i = 0; i < claimed.length; i++) {
+    const { cart, stage, channels, pushTargets } = claimed[i];
+    const sent: CartReminderChannel[] = [];
+
+    if (channels.indexOf('push') !== -1) {
+      const result = await sendPushNotifications(pushTargets, buildPushPayload(cart, stage));
+      if (result.successful > 0) sent.push('push');
+    }
+    if (channels.indexOf('email') !== -1) {
+      try {
+        await sendReminderEmail(cart);
+        sent.push('email');
+      } catch (error) {
+        console.error(`Cart reminder email failed for cart ${cart.cartId}:`, error);
+      }
+    }
+
+    if (sent.length > 0) {
+      await recordEvent({ type: 'reminder', cartId: cart.cartId, stage, channels: sent });
+    }
+  }
+}
+
+// Forgets carts nobody has touched in a month
+async function pruneStaleCarts(now: number): Promise<void> {
+  await updateCarts((carts) => {
+    Object.keys(carts).forEach((cartId) => {
+      if (now - Date.parse(carts[cartId].lastActivityAt) > CART_RETENTION_MS) {
+        delete carts[cartId];
+      }
+    });
+  });
+}
+
+let runningTick: Promise<void> | null = null;
+
+// Single-flight so the interval and the cron route never overlap
+export function runCartRecovery(): Promise<void> {
+  if (!runningTick) {
+    const now = Date.now();
+    runningTick = (async () => {
+      if (ESCALATION_SCHEDULE.length === 0) return;
+      await sendDueReminders(now);
+      await pruneStaleCarts(now);
+    })()
+      .catch((error) => {
+        console.error('Cart recovery run failed:', error);
+      })
+      .finally(() => {
+        runningTick = null;
+      });
+  }
+  return runningTick;
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Starts the in-process scheduler on long-running servers. Serverless
+ * deployments set CART_RECOVERY_INTERVAL=0 and call the run route from cron.
+ */
+export function ensureCartRecoveryScheduler(): void {
+  if (schedulerTimer || SCHEDULER_INTERVAL_MS <= 0 || typeof setInterval === 'undefined') return;
+  schedulerTimer = startInterval(() => {
+    runCartRecovery();
+  }, SCHEDULER_INTERVAL_MS);
+}
+
+export async function getCartRecoveryStats(): Promise<CartRecoveryStats> {
+  const carts = await readJsonFile<Record<string, TrackedCart>>(CARTS_FILE, {});
+  const events = await readJsonLines<CartRecoveryEvent>(EVENTS_FILE);
+  const stats: CartRecoveryStats = {
+    activeCarts: 0,
+    remindedCarts: 0,
+    reminders: { push: 0, email: 0, byStage: ESCALATION_SCHEDULE.map(() => 0) },
+    restores: { push: 0, email: 0 },
+    conversions: 0,
+    attributedConversions: 0,
+    attributedRevenue: {},
+  };
+
+  Object.keys(carts).forEach((cartId) => {
+    const cart = carts[cartId];
+    if (cart.status !== 'active') return;
+    stats.activeCarts++;
+    if (cart.reminders.length > 0) stats.remindedCarts++;
+  });
+
+  events.forEach((event) => {
+    if (event.type === 'reminder') {
+      (event.channels || []).forEach((channel) => {
+        stats.reminders[channel]++;
+      });
+      if (event.stage !== undefined && event.stage < stats.reminders.byStage.length) {
+        stats.reminders.byStage[event.stage]++;
+      }
+    } else if (event.type === 'restore' && event.channel) {
+      stats.restores[event.channel]++;
+    } else if (event.type === 'conversion') {
+      stats.conversions++;
+      if (event.attributed && event.currency) {
+        stats.attributedConversions++;
+        stats.attributedRevenue[event.currency] = (stats.attributedRevenue[event.currency] || 0) + (event.value || 0);
+      }
+    }
+  });
+
+  return stats;
+}
@@ -0,0 +1,253 @@
+import React from 'react';
+import { apiClient, AccountCartResponse } from './api';
+import type { CartLineChange } from './account-cart';
+import { ContentLocale, getContentLocale } from './locales';
+import { CartItem, useCartStore, useLanguageStore, useNotificationStore } from './store';
+
+/**
+ * Cart Sync
+ * Keeps the persisted cart store in sync with the account cart: merges the
+ * guest cart after login, pushes local edits to the server, polls for edits
+ * made on other devices and mirrors every change to other open tabs over a
+ * BroadcastChannel. Carts coming back from the server are already re-priced
+ * against the catalog, and any adjustment is shown to the shopper.
+ */
+
+const CHANNEL_NAME = 'logen-cart';
+// Batch quick edits (quantity steppers) into one save
+const PUSH_DELAY = 1000;
+const POLL_INTERVAL = 60 * 1000;
+
+interface CartChannelMessage {
+  type: 'items';
+  items: CartItem[];
+}
+
+const CART_CHANGE_COPY: Record<ContentLocale, {
+  title: string;
+  prices: (count: number) => string;
+  removed: (count: number) => string;
+  separator: string;
+}> = {
+  en: {
+    title: 'Your cart was updated',
+    prices: (count) => `${count} ${count === 1 ? 'price was' : 'prices were'} updated`,
+    removed: (count) => `${count} unavailable ${count === 1 ? 'item was' : 'items were'} removed`,
+    separator: ', ',
+  },
+  ar: {
+    title: 'تم تحديث سلة التسوق',
+    prices: (count) => `تم تحديث سعر ${count} منتج`,
+    removed: (count) => `تمت إزالة ${count} منتج غير متوفر`,
+    separator: '، ',
+  },
+};
+
+class CartSyncService {
+  private channel: BroadcastChannel | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private pushTimer: ReturnType<typeof setTimeout> | null = null;
+  private applyingRemote = false;
+  // Local edits not yet saved to the account cart; polling never overwrites them
+  private dirty = false;
+  private lastUpdatedAt: string | null = null;
+  private syncing: Promise<void> | null = null;
+
+  start(): void {
+    if (this.unsubscribe || typeof window === 'undefined') return;
+
+    if ('BroadcastChannel' in window) {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = (event: MessageEvent<CartChannelMessage>) => {
+        if (event.data?.type === 'items' && Array.isArray(event.data.items)) {
+          // The tab that made the edit also saves it, so this one only mirrors it
+          this.applyItems(event.data.items, false);
+        }
+      };
+    }
+
+    this.unsubscribe = useCartStore.subscribe((state, previous) => {
+      if (state.items === previous.items || this.applyingRemote) return;
+      this.channel?.postMessage({ type: 'items', items: state.items });
+      this.schedulePush();
+    });
+
+    this.pollTimer = setInterval(() => {
+      if (document.visibilityState === 'visible') this.loadFromServer();
+    }, POLL_INTERVAL);
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.channel?.close();
+    this.channel = null;
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    this.pollTimer = null;
+    if (typeof document !== 'undefined') {
+      document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+  }
+
+  private handleVisibilityChange = () => {
+    if (document.visibilityState === 'visible') this.loadFromServer();
+  };
+
+  private applyItems(items: CartItem[], broadcast: boolean): void {
+    this.applyingRemote = true;
+    try {
+      useCartStore.getState().replaceItems(items);
+    } finally {
+      this.applyingRemote = false;
+    }
+    if (broadcast) {
+      this.channel?.postMessage({ type: 'items', items });
+    }
+  }
+
+  private applyServerCart(cart: AccountCartResponse): void {
+    this.lastUpdatedAt = cart.updatedAt;
+    this.applyItems(cart.items, true);
+    this.notifyChanges(cart.changes || []);
+  }
+
+  private notifyChanges(changes: CartLineChange[]): void {
+    if (changes.length === 0) return;
+
+    const copy = CART_CHANGE_COPY[getContentLocale(useLanguageStore.getState().language)];
+    const priceChanges = changes.filter((change) => change.type === 'price').length;
+    const removed = changes.length - priceChanges;
+    const parts: string[] = [];
+
+    if (priceChanges > 0) parts.push(copy.prices(priceChanges));
+    if (removed > 0) parts.push(copy.removed(removed));
+
+    useNotificationStore.getState().addNotification({
+      type: 'warning',
+      title: copy.title,
+      message: parts.join(copy.separator),
+    });
+  }
+
+  private schedulePush(): void {
+    if (!apiClient.isAuthenticated()) return;
+    this.dirty = true;
+    if (this.pushTimer) clearTimeout(this.pushTimer);
+    this.pushTimer = setTimeout(() => {
+      this.pushTimer = null;
+      this.pushToServer();
+    }, PUSH_DELAY);
+  }
+
+  private async pushToServer(): Promise<void> {
+    if (!apiClient.isAuthenticated()) return;
+
+    try {
+      const saved = await apiClient.saveCart(useCartStore.getState().items);
+      this.lastUpdatedAt = saved.updatedAt;
+      this.dirty = !!this.pushTimer;
+    } catch (error) {
+      // Stays dirty; the next poll retries the save instead of loading over it
+      console.error('Failed to save cart:', error);
+    }
+  }
+
+  async loadFromServer(): Promise<void> {
+    if (!apiClient.isAuthenticated()) return;
+    if (this.dirty) {
+      if (!this.pushTimer) await this.pushToServer();
+      return;
+    }
+    if (this.syncing) return this.syncing;
+
+    this.syncing = (async () => {
+      try {
+        const cart = await apiClient.getCart();
+        // Skip carts that have not changed since the last sync, and edits made while loading
+        if (this.dirty || (cart.updatedAt && cart.updatedAt === this.lastUpdatedAt && !cart.changes?.length)) return;
+        this.applyServerCart(cart);
+      } catch (error) {
+        console.error('Failed to load cart:', error);
+      } finally {
+        this.syncing = null;
+      }
+    })();
+
+    return this.syncing;
+  }
+
+  // Called after login: fold the guest cart into the account cart
+  async mergeGuestCart(): Promise<void> {
+    if (!apiClient.isAuthenticated()) return;
+
+    const guestItems = useCartStore.getState().items;
+    if (guestItems.length === 0) {
+      await this.loadFromServer();
+      return;
+    }
+
+    if (this.pushTimer) clearTimeout(this.pushTimer);
+    this.pushTimer = null;
+
+    // Loads requested meanwhile (the header mounting for the new user) wait for the merge
+    this.syncing = (async () => {
+      try {
+        const merged = await apiClient.mergeCart(guestItems);
+        this.dirty = false;
+        this.applyServerCart(merged);
+      } catch (error) {
+        // Keep the local cart; it is saved to the account on the next change or poll
+        this.dirty = true;
+        console.error('Failed to merge guest cart:', error);
+      } finally {
+        this.syncing = null;
+      }
+    })();
+
+    return this.syncing;
+  }
+
+  /**
+   * Re-prices the current cart against the catalog right before checkout.
+   * Returns the adjustments made; an empty list means the cart is current.
+   */
+  async revalidate(): Promise<CartLineChange[]> {
+    const items = useCartStore.getState().items;
+    if (items.length === 0) return [];
+
+    const result = await apiClient.validateCart(items);
+    if (result.changes.length > 0) {
+      // A local edit, so it is saved and broadcast like any other
+      useCartStore.getState().replaceItems(result.items);
+      this.notifyChanges(result.changes);
+    }
+    return result.changes;
+  }
+
+  // The local cart mirrors the account cart, so don't leave it for the next guest
+  reset(): void {
+    if (this.pushTimer) clearTimeout(this.pushTimer);
+    this.pushTimer = null;
+    this.dirty = false;
+    this.lastUpdatedAt = null;
+    this.applyItems([], true);
+  }
+}
+
+// Create singleton instance
+export const cartSync = new CartSyncService();
+
+// Starts tab sync for everyone and account sync for the signed-in user
+export function useCartSync(userId?: string) {
+  React.useEffect(() => {
+    cartSync.start();
+    return () => cartSync.stop();
+  }, []);
+
+  React.useEffect(() => {
+    if (!userId) return;
+    cartSync.loadFromServer();
+  }, [userId]);
+}
@@ -0,0 +1,90 @@
+import { calculateQuote, PricingDestination, PricingError, PricingItem, PricingQuote } from './pricing';
+import { BASE_CURRENCY, canConvert, convertAmount, isSettlementCurrency, resolveSettlementCurrency } from './currency';
+import { getExchangeRates } from './exchange-rates';
+import { normalizeCartItems, revalidateCartItems } from './account-cart';
+
+/**
+ * Checkout Pricing
+ * Server-side wrapper around the pricing engine for the checkout routes:
+ * enforces the settlement currency, refuses carts whose prices or stock went
+ * stale, and resolves the coupon discount. The destination always comes
+ * from the shipping address stored on the order, never from the request.
+ */
+
+const BACKEND_API_URL = process.env.BACKEND_API_URL || 'http://localhost:3000/api';
+
+// Coupons are owned by the backend; an unknown or rejected code simply gives no discount
+async function resolveCouponDiscount(code: string, orderAmount: number, authorization?: string | null): Promise<number> {
+  try {
+    const response = await fetch(`${BACKEND_API_URL}/v1/coupon/validate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(authorization && { 'authorization': authorization })
+      },
+      body: JSON.stringify({ code, orderAmount })
+    });
+
+    if (!response.ok) {
+      console.warn(`Coupon ${code} rejected by backend:`, response.status);
+      return 0;
+    }
+
+    const data = await response.json();
+    return Number(data?.data?.discountAmount) || 0;
+  } catch (error) {
+    console.error('Coupon validation failed:', error);
+    return 0;
+  }
+}
+
+// Prices items in the settlement currency using the server's rates
+async function toSettlementItems(rawItems: any[], currency: string): Promise<PricingItem[]> {
+  const rates = await getExchangeRates();
+
+  // Revalidation has matched every line's currency to the catalog; lines without one are in the base currency
+  return rawItems.map((item) => {
+    const from = item?.currency || BASE_CURRENCY;
+    if (!canConvert(from, currency, rates)) {
+      throw new PricingError('UNSUPPORTED_CURRENCY', `Cannot convert ${from} prices to ${currency}`);
+    }
+    return {
+      ...item,
+      price: convertAmount(Number(item?.price) || 0, from, currency, rates),
+    };
+  });
+}
+
+export async function quoteCheckoutRequest(
+  body: any,
+  options: { authorization?: string | null; destination?: PricingDestination } = {}
+): Promise<PricingQuote> {
+  const rawItems: any[] = Array.isArray(body?.items) ? body.items : [];
+  const expectedCurrency = resolveSettlementCurrency(rawItems.map((item) => item?.currency));
+  const currency = body?.currency || expectedCurrency;
+
+  if (!isSettlementCurrency(currency)) {
+    throw new PricingError('UNSUPPORTED_CURRENCY', `Orders cannot be paid in ${currency}`);
+  }
+  // Items that declare their currency must settle the way the cart showed them
+  if (rawItems.some((item) => item?.currency) && currency !== expectedCurrency) {
+    throw new PricingError('CURRENCY_MISMATCH', `This cart is charged in ${expectedCurrency}, not ${currency}`);
+  }
+
+  // A cart priced from an old copy of the catalog is sent back to be refreshed, never charged as-is
+  const { changes } = await revalidateCartItems(normalizeCartItems(rawItems));
+  if (changes.length > 0) {
+    throw new PricingError('CART_CHANGED', 'Some items in your cart changed price or availability');
+  }
+
+  const items = await toSettlementItems(rawItems, currency);
+  const destination = options.destination || {};
+
+  // First pass gives the subtotal the coupon is validated against
+  const preliminary = calculateQuote({ items, currency, destination });
+  const discount = body?.couponCode
+    ? await resolveCouponDiscount(body.couponCode, preliminary.subtotal, options.authorization)
+    : 0;
+
+  return discount > 0 ? calculateQuote({ items, currency, destination, discount }) : preliminary;
+}
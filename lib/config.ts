@@ -1,9 +1,14 @@
 import { LocaleConfig, CurrencyConfig } from '@/types';
+import { LOCALE_REGISTRY, getLocaleConfig, parseEnabledLocales } from './locales';
+
+// Locales served by this deployment, a subset of the registry
+const enabledLocales = parseEnabledLocales(process.env.NEXT_PUBLIC_SUPPORTED_LOCALES || process.env.NEXT_PUBLIC_SUPPORTED_LANGUAGES);
 
 // Environment Configuration
 export const config = {
   api: {
-    baseUrl: process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3000/api',
+    // Same-origin: the browser reaches the backend through this app's /api routes
+    baseUrl: process.env.NEXT_PUBLIC_API_BASE_URL || '/api',
     version: process.env.NEXT_PUBLIC_API_VERSION || '',
     endpoints: {
       products: '/products',
@@ -30,6 +35,8 @@ export const config = {
     address: process.env.NEXT_PUBLIC_BUSINESS_ADDRESS || '123 Tech Street, Digital City, TC 12345',
     country: process.env.NEXT_PUBLIC_BUSINESS_COUNTRY || 'US',
     currency: process.env.NEXT_PUBLIC_BUSINESS_CURRENCY || 'USD',
+    // Tax registration number printed on invoices
+    taxId: process.env.NEXT_PUBLIC_BUSINESS_TAX_ID || '',
   },
   seo: {
     defaultTitle: process.env.NEXT_PUBLIC_DEFAULT_TITLE || 'Logen Store - Electronics & Mobile Accessories',
@@ -51,9 +58,11 @@ export const config = {
   },
   i18n: {
     defaultLocale: process.env.NEXT_PUBLIC_DEFAULT_LOCALE || process.env.NEXT_PUBLIC_DEFAULT_LANGUAGE || 'en',
-    supportedLocales: (process.env.NEXT_PUBLIC_SUPPORTED_LOCALES || process.env.NEXT_PUBLIC_SUPPORTED_LANGUAGES || 'en,ar').split(','),
-    locales: (process.env.NEXT_PUBLIC_SUPPORTED_LOCALES || process.env.NEXT_PUBLIC_SUPPORTED_LANGUAGES || 'en,ar').split(','),
-    rtlLocales: ['ar'],
+    supportedLocales: enabledLocales,
+    locales: enabledLocales,
+    rtlLocales: LOCALE_REGISTRY.filter((locale) => locale.direction === 'rtl').map((locale) => locale.code as string),
+    // Dates in translated messages are shown in the store's time zone, not the server's
+    timeZone: process.env.NEXT_PUBLIC_TIME_ZONE || 'Africa/Cairo',
   },
   analytics: {
     id: process.env.NEXT_PUBLIC_ANALYTICS_ID || '',
@@ -64,25 +73,18 @@ export const config = {
   health: {
     checkInterval: parseInt(process.env.NEXT_PUBLIC_HEALTH_CHECK_INTERVAL || '30000'),
   },
+  currency: {
+    // Currency of prices without an explicit currency, and of carts that mix currencies
+    base: process.env.NEXT_PUBLIC_BASE_CURRENCY || 'SAR',
+    // Currencies an order can be charged in
+    settlementCurrencies: (process.env.NEXT_PUBLIC_SETTLEMENT_CURRENCIES || 'EGP,USD,SAR,AED').split(','),
+  },
 } as const;
 
 // Locale Configuration
-export const locales: LocaleConfig[] = [
-  {
-    code: 'en',
-    name: 'English',
-    nativeName: 'English',
-    direction: 'ltr',
-    flag: '🇺🇸',
-  },
-  {
-    code: 'ar',
-    name: 'Arabic',
-    nativeName: 'العربية',
-    direction: 'rtl',
-    flag: '🇸🇦',
-  },
-];
+export const locales: LocaleConfig[] = enabledLocales
+  .map((code) => getLocaleConfig(code))
+  .filter((locale): locale is LocaleConfig => !!locale);
 
 // Currency Configuration
 export const currencies: CurrencyConfig[] = [
@@ -91,18 +93,35 @@ export const currencies: CurrencyConfig[] = [
     symbol: '$',
     name: 'US Dollar',
     decimals: 2,
+    symbolPosition: 'before',
   },
   {
     code: 'SAR',
     symbol: 'ر.س',
     name: 'Saudi Riyal',
     decimals: 2,
+    symbolPosition: 'after',
   },
   {
     code: 'AED',
     symbol: 'د.إ',
     name: 'UAE Dirham',
     decimals: 2,
+    symbolPosition: 'after',
+  },
+  {
+    code: 'EGP',
+    symbol: 'EGP',
+    name: 'Egyptian Pound',
+    decimals: 2,
+    symbolPosition: 'after',
+  },
+  {
+    code: 'EUR',
+    symbol: '€',
+    name: 'Euro',
+    decimals: 2,
+    symbolPosition: 'before',
   },
 ];
 
@@ -0,0 +1,267 @@
+import { promises as fs } from 'fs';
+import { config } from './config';
+import { resolveDataPath, writeJsonFile } from './file-store';
+import { isMailerConfigured, sendMail } from './mailer';
+
+/**
+ * Contact Form Service
+ * Server-side validation, spam screening and pluggable delivery for
+ * submissions coming from ContactForm and background sync replays
+ */
+
+export interface ContactSubmission {
+  submissionId: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  subject: string;
+  message: string;
+  url?: string;
+  userAgent?: string;
+  locale?: string;
+  ip?: string;
+  submittedAt: string;
+}
+
+export interface ContactValidationResult {
+  valid: boolean;
+  errors: Partial<Record<'firstName' | 'lastName' | 'email' | 'subject' | 'message' | 'submissionId', string>>;
+}
+
+export interface ContactDeliveryBackend {
+  name: 'smtp' | 'proxy' | 'outbox';
+  deliver(submission: ContactSubmission): Promise<void>;
+}
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const SUBMISSION_ID_REGEX = /^[A-Za-z0-9_-]{8,64}$/;
+const MAX_LINKS_IN_MESSAGE = 3;
+const MIN_FILL_TIME_MS = 3000;
+
+export function isValidSubmissionId(value: unknown): value is string {
+  return typeof value === 'string' && SUBMISSION_ID_REGEX.test(value);
+}
+
+// Mirrors the client-side rules in components/ContactForm.tsx
+export function validateContactSubmission(input: Record<string, any>): ContactValidationResult {
+  const errors: ContactValidationResult['errors'] = {};
+  const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+  const firstName = text(input.firstName);
+  const lastName = text(input.lastName);
+  const email = text(input.email);
+  const subject = text(input.subject);
+  const message = text(input.message);
+
+  if (!firstName) {
+    errors.firstName = 'First name is required';
+  } else if (firstName.length < 2 || firstName.length > 100) {
+    errors.firstName = 'First name must be between 2 and 100 characters';
+  }
+
+  if (!lastName) {
+    errors.lastName = 'Last name is required';
+  } else if (lastName.length < 2 || lastName.length > 100) {
+    errors.lastName = 'Last name must be between 2 and 100 characters';
+  }
+
+  if (!email) {
+    errors.email = 'Email is required';
+  } else if (!EMAIL_REGEX.test(email) || email.length > 254) {
+    errors.email = 'Please enter a valid email address';
+  }
+
+  if (!subject) {
+    errors.subject = 'Subject is required';
+  } else if (subject.length < 5 || subject.length > 200) {
+    errors.subject = 'Subject must be between 5 and 200 characters';
+  }
+
+  if (!message) {
+    errors.message = 'Message is required';
+  } else if (message.length < 10) {
+    errors.message = 'Message must be at least 10 characters';
+  } else if (message.length > 1000) {
+    errors.message = 'Message must be less than 1000 characters';
+  }
+
+  if (input.submissionId !== undefined && !isValidSubmissionId(input.submissionId)) {
+    errors.submissionId = 'Invalid submission id';
+  }
+
+  return {
+    valid: Object.keys(errors).length === 0,
+    errors,
+  };
+}
+
+// Returns the reason a submission looks automated, or null when it looks human
+export function detectContactSpam(input: Record<string, any>): string | null {
+  // Honeypot field is visually hidden in the form, so humans leave it empty
+  if (typeof input.website === 'string' && input.website.trim().length > 0) {
+    return 'honeypot';
+  }
+
+  // Bots tend to submit instantly after the page loads
+  if (typeof input.formStartedAt === 'number' && typeof input.timestamp === 'number') {
+    if (input.timestamp - input.formStartedAt < MIN_FILL_TIME_MS) {
+      return 'too-fast';
+    }
+  }
+
+  const message = typeof input.message === 'string' ? input.message : '';
+  const links = message.match(/https?:\/\/|www\./gi) || [];
+  if (links.length > MAX_LINKS_IN_MESSAGE) {
+    return 'too-many-links';
+  }
+
+  return null;
+}
+
+export function normalizeContactSubmission(
+  input: Record<string, any>,
+  meta: { submissionId: string; ip?: string }
+): ContactSubmission {
+  return {
+    submissionId: meta.submissionId,
+    firstName: String(input.firstName).trim(),
+    lastName: String(input.lastName).trim(),
+    email: String(input.email).trim().toLowerCase(),
+    subject: String(input.subject).trim(),
+    message: String(input.message).trim(),
+    url: typeof input.url === 'string' ? input.url.slice(0, 500) : undefined,
+    userAgent: typeof input.userAgent === 'string' ? input.userAgent.slice(0, 300) : undefined,
+    locale: typeof input.locale === 'string' ? input.locale : undefined,
+    ip: meta.ip,
+    submittedAt: new Date(typeof input.timestamp === 'number' ? input.timestamp : Date.now()).toISOString(),
+  };
+}
+
+function formatSubmissionText(submission: ContactSubmission): string {
+  return [
+    `Name: ${submission.firstName} ${submission.lastName}`,
+    `Email: ${submission.email}`,
+    `Subject: ${submission.subject}`,
+    `Submitted: ${submission.submittedAt}`,
+    submission.url ? `Page: ${submission.url}` : undefined,
+    `Reference: ${submission.submissionId}`,
+    '',
+    submission.message,
+  ].filter(line => line !== undefined).join('\n');
+}
+
+// Delivery backends
+class SmtpContactBackend implements ContactDeliveryBackend {
+  name = 'smtp' as const;
+
+  async deliver(submission: ContactSubmission): Promise<void> {
+    await sendMail({
+      to: process.env.CONTACT_RECIPIENT_EMAIL || config.business.email,
+      replyTo: submission.email,
+      subject: `[Contact] ${submission.subject}`,
+      text: formatSubmissionText(submission),
+    });
+  }
+}
+
+class ProxyContactBackend implements ContactDeliveryBackend {
+  name = 'proxy' as const;
+  private backendUrl = process.env.BACKEND_API_URL || 'http://localhost:3000/api';
+
+  async deliver(submission: ContactSubmission): Promise<void> {
+    const response = await fetch(`${this.backendUrl}/v1/contact`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Idempotency-Key': submission.submissionId,
+      },
+      body: JSON.stringify(submission),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Backend API responded with status: ${response.status}`);
+    }
+  }
+}
+
+class OutboxContactBackend implements ContactDeliveryBackend {
+  name = 'outbox' as const;
+
+  async deliver(submission: ContactSubmission): Promise<void> {
+    // One file per submission id keeps replays idempotent on disk as well
+    await writeJsonFile(resolveDataPath('contact-outbox', `${submission.submissionId}.json`), submission);
+  }
+}
+
+export function getContactDeliveryBackend(): ContactDeliveryBackend {
+  const configured = process.env.CONTACT_DELIVERY_BACKEND;
+
+  switch (configured) {
+    case 'smtp':
+      return new SmtpContactBackend();
+    case 'proxy':
+      return new ProxyContactBackend();
+    case 'outbox':
+      return new OutboxContactBackend();
+    default:
+      if (isMailerConfigured()) return new SmtpContactBackend();
+      return process.env.NODE_ENV === 'production' ? new ProxyContactBackend() : new OutboxContactBackend();
+  }
+}
+
+// Idempotency: remember delivered submission ids so replays are acknowledged, not re-sent
+const DELIVERED_TTL_MS = 24 * 60 * 60 * 1000;
+const deliveredSubmissions = new Map<string, number>();
+const pendingDeliveries = new Map<string, Promise<void>>();
+
+export async function isContactSubmissionDelivered(submissionId: string): Promise<boolean> {
+  const deliveredAt = deliveredSubmissions.get(submissionId);
+  if (deliveredAt && Date.now() - deliveredAt < DELIVERED_TTL_MS) {
+    return true;
+  }
+
+  // The outbox survives restarts, so check it as well
+  try {
+    await fs.access(resolveDataPath('contact-outbox', `${submissionId}.json`));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function pruneDelivered(): void {
+  const cutoff = Date.now() - DELIVERED_TTL_MS;
+  deliveredSubmissions.forEach((deliveredAt, id) => {
+    if (deliveredAt < cutoff) deliveredSubmissions.delete(id);
+  });
+}
+
+export async function deliverContactSubmission(
+  submission: ContactSubmission
+): Promise<{ duplicate: boolean; backend: ContactDeliveryBackend['name'] }> {
+  const backend = getContactDeliveryBackend();
+
+  if (await isContactSubmissionDelivered(submission.submissionId)) {
+    return { duplicate: true, backend: backend.name };
+  }
+
+  // A replay racing the original request waits for the same delivery
+  const pending = pendingDeliveries.get(submission.submissionId);
+  if (pending) {
+    await pending;
+    return { duplicate: true, backend: backend.name };
+  }
+
+  const delivery = backend.deliver(submission);
+  pendingDeliveries.set(submission.submissionId, delivery);
+
+  try {
+    await delivery;
+    pruneDelivered();
+    deliveredSubmissions.set(submission.submissionId, Date.now());
+  } finally {
+    pendingDeliveries.delete(submission.submissionId);
+  }
+
+  return { duplicate: false, backend: backend.name };
+}
@@ -0,0 +1,86 @@
+import React from 'react';
+import { currencies } from './config';
+import { BASE_CURRENCY, canConvert, convertAmount, formatMoney, staticExchangeRates } from './currency';
+import { useCurrencyStore } from './store';
+import { formatPrice } from './utils';
+
+/**
+ * Currency Service
+ * Keeps the client's exchange rates fresh and formats prices in the
+ * user's selected display currency
+ */
+
+// Rates are refreshed at most this often; the server route caches them as well
+const RATES_REFRESH_INTERVAL = 60 * 60 * 1000;
+
+class CurrencyService {
+  private loading: Promise<void> | null = null;
+
+  async loadRates(force = false): Promise<void> {
+    const { ratesFetchedAt } = useCurrencyStore.getState();
+    if (!force && ratesFetchedAt && Date.now() - ratesFetchedAt < RATES_REFRESH_INTERVAL) return;
+    if (this.loading) return this.loading;
+
+    this.loading = (async () => {
+      try {
+        const response = await fetch('/api/v1/currency/rates');
+        if (!response.ok) {
+          throw new Error(`Failed to load exchange rates: ${response.status}`);
+        }
+        const data = await response.json();
+        if (data?.data?.rates) {
+          useCurrencyStore.getState().setRates(data.data);
+        }
+      } catch (error) {
+        // Offline or server error: keep the persisted rates, or the bundled ones
+        console.error('Failed to refresh exchange rates:', error);
+      } finally {
+        this.loading = null;
+      }
+    })();
+
+    return this.loading;
+  }
+
+  getRates() {
+    return useCurrencyStore.getState().rates || staticExchangeRates;
+  }
+}
+
+// Create singleton instance
+export const currencyService = new CurrencyService();
+
+// React hook for the display currency
+export function useCurrency() {
+  const { displayCurrency, rates, setDisplayCurrency } = useCurrencyStore();
+  // Persisted state is only read after hydration so server and client markup match
+  const [mounted, setMounted] = React.useState(false);
+
+  React.useEffect(() => {
+    setMounted(true);
+    currencyService.loadRates();
+  }, []);
+
+  const activeCurrency = mounted ? displayCurrency : null;
+  const activeRates = rates || staticExchangeRates;
+
+  // Approximate price in the display currency; orders are still charged in the listed currency
+  const formatDisplayPrice = React.useCallback(
+    (amount: number, currency?: string, locale?: string) => {
+      const from = currency || BASE_CURRENCY;
+      if (!activeCurrency || activeCurrency === from || !canConvert(from, activeCurrency, activeRates)) {
+        return formatPrice(amount, from, locale);
+      }
+      return `≈ ${formatMoney(convertAmount(amount, from, activeCurrency, activeRates), activeCurrency, locale)}`;
+    },
+    [activeCurrency, activeRates]
+  );
+
+  return {
+    displayCurrency: activeCurrency,
+    setDisplayCurrency,
+    availableCurrencies: currencies,
+    rates: activeRates,
+    formatDisplayPrice,
+  };
+}
@@ -0,0 +1,107 @@
+import staticRatesJson from '@/data/exchange-rates.json';
+import { config, currencies } from './config';
+import { CurrencyConfig, ExchangeRates } from '@/types';
+
+/**
+ * Currency Utilities
+ * Conversion, formatting and settlement rules shared by the cart, checkout
+ * and the order routes. Rates come from /api/v1/currency/rates; the bundled
+ * data/exchange-rates.json is the offline fallback.
+ */
+
+export type CurrencyCode = 'USD' | 'SAR' | 'AED' | 'EGP' | 'EUR';
+
+export const BASE_CURRENCY = config.currency.base;
+
+export const staticExchangeRates: ExchangeRates = {
+  ...(staticRatesJson as ExchangeRates),
+  source: 'fallback',
+};
+
+export function getCurrencyConfig(code?: string | null): CurrencyConfig {
+  const target = code || BASE_CURRENCY;
+  return (
+    currencies.find((currency) => currency.code === target) || {
+      code: target,
+      symbol: target,
+      name: target,
+      decimals: 2,
+      symbolPosition: 'after',
+    }
+  );
+}
+
+export function isSettlementCurrency(code?: string | null): boolean {
+  return !!code && (config.currency.settlementCurrencies as readonly string[]).includes(code);
+}
+
+export function roundToCurrency(amount: number, code: string): number {
+  const factor = Math.pow(10, getCurrencyConfig(code).decimals);
+  return Math.round(amount * factor) / factor;
+}
+
+export function canConvert(from: string, to: string, rates: ExchangeRates = staticExchangeRates): boolean {
+  return from === to || (!!rates.rates[from] && !!rates.rates[to]);
+}
+
+// Converts through the rates' base currency; throws for currencies without a rate
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  rates: ExchangeRates = staticExchangeRates
+): number {
+  if (from === to) return amount;
+
+  const fromRate = rates.rates[from];
+  const toRate = rates.rates[to];
+  if (!fromRate || !toRate) {
+    throw new Error(`No exchange rate for ${!fromRate ? from : to}`);
+  }
+
+  return roundToCurrency((amount / fromRate) * toRate, to);
+}
+
+export function formatMoney(amount: number, currencyCode?: string | null, locale = 'en-US'): string {
+  const currency = getCurrencyConfig(currencyCode);
+  const value = Number.isFinite(amount) ? amount : 0;
+  const hasFraction = Math.round(value * Math.pow(10, currency.decimals)) % Math.pow(10, currency.decimals) !== 0;
+
+  // Whole amounts drop the trailing zeros, fractional ones always show every decimal
+  const number = value.toLocaleString(locale, {
+    minimumFractionDigits: hasFraction ? currency.decimals : 0,
+    maximumFractionDigits: currency.decimals,
+  });
+
+  return currency.symbolPosition === 'before'
+    ? `${value < 0 ? '-' : ''}${currency.symbol}${number.replace('-', '')}`
+    : `${number} ${currency.symbol}`;
+}
+
+/**
+ * Settlement rules:
+ * - a cart priced in a single settlement currency is charged in that currency
+ * - a cart mixing currencies, or priced in a currency we cannot charge in,
+ *   is converted to and charged in the base currency
+ * - the display currency never changes what is charged
+ */
+export function resolveSettlementCurrency(itemCurrencies: Array<string | undefined>): string {
+  const unique = Array.from(new Set(itemCurrencies.map((code) => code || BASE_CURRENCY)));
+  if (unique.length === 1 && isSettlementCurrency(unique[0])) {
+    return unique[0];
+  }
+  return BASE_CURRENCY;
+}
+
+// Sums line totals in the settlement currency, converting items priced in another currency
+export function sumInCurrency(
+  lines: Array<{ price: number; quantity: number; currency?: string }>,
+  currency: string,
+  rates: ExchangeRates = staticExchangeRates
+): number {
+  const total = lines.reduce((sum, line) => {
+    const lineTotal = line.price * line.quantity;
+    return sum + convertAmount(lineTotal, line.currency || BASE_CURRENCY, currency, rates);
+  }, 0);
+  return roundToCurrency(total, currency);
+}
@@ -0,0 +1,89 @@
+import { ExchangeRates } from '@/types';
+import { staticExchangeRates } from './currency';
+
+/**
+ * Exchange Rates Provider
+ * Server-side source of exchange rates. Fetches from EXCHANGE_RATES_API_URL
+ * when configured, caches the result in memory and falls back to the last
+ * good rates, then to the bundled static file.
+ */
+
+const EXCHANGE_RATES_API_URL = process.env.EXCHANGE_RATES_API_URL || '';
+const EXCHANGE_RATES_TTL = parseInt(process.env.EXCHANGE_RATES_TTL || '3600', 10) * 1000;
+
+let cachedRates: ExchangeRates | null = null;
+let cachedAt = 0;
+let pendingFetch: Promise<ExchangeRates> | null = null;
+
+// Accepts { base, rates } as well as the { base_code, rates } shape used by common rate APIs
+function normalizeRates(data: any): ExchangeRates | null {
+  const base = data?.base || data?.base_code;
+  const rates = data?.rates || data?.conversion_rates;
+  if (typeof base !== 'string' || !rates || typeof rates !== 'object') {
+    return null;
+  }
+
+  const cleaned: Record<string, number> = {};
+  Object.keys(rates).forEach((code) => {
+    const value = Number(rates[code]);
+    if (Number.isFinite(value) && value > 0) {
+      cleaned[code] = value;
+    }
+  });
+  cleaned[base] = 1;
+
+  return {
+    base,
+    rates: cleaned,
+    updatedAt: data?.time_last_update_utc
+      ? new Date(data.time_last_update_utc).toISOString()
+      : data?.updatedAt || new Date().toISOString(),
+    source: 'live',
+  };
+}
+
+async function fetchLiveRates(): Promise<ExchangeRates> {
+  const response = await fetch(EXCHANGE_RATES_API_URL, {
+    headers: { 'Accept': 'application/json' },
+    cache: 'no-store',
+  });
+
+  if (!response.ok) {
+    throw new Error(`Exchange rates API error: ${response.status} ${response.statusText}`);
+  }
+
+  const rates = normalizeRates(await response.json());
+  if (!rates) {
+    throw new Error('Exchange rates API returned an unexpected payload');
+  }
+  return rates;
+}
+
+export async function getExchangeRates(): Promise<ExchangeRates> {
+  if (!EXCHANGE_RATES_API_URL) {
+    return staticExchangeRates;
+  }
+
+  if (cachedRates && Date.now() - cachedAt < EXCHANGE_RATES_TTL) {
+    return { ...cachedRates, source: 'cache' };
+  }
+
+  if (!pendingFetch) {
+    pendingFetch = fetchLiveRates()
+      .then((rates) => {
+        cachedRates = rates;
+        cachedAt = Date.now();
+        return rates;
+      })
+      .catch((error) => {
+        console.error('Failed to refresh exchange rates:', error);
+        // Serve stale rates rather than failing conversions
+        return cachedRates ? { ...cachedRates, source: 'cache' as const } : staticExchangeRates;
+      })
+      .finally(() => {
+        pendingFetch = null;
+      });
+  }
+
+  return pendingFetch;
+}
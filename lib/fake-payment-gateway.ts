@@ -0,0 +1,78 @@
+import { randomBytes } from 'crypto';
+import { readJsonFile, resolveDataPath, updateJsonFile } from './file-store';
+import { getPaymentProviderId, PaymentIntentStatus } from './payments';
+import { safeEqual } from './timing-safe';
+
+/**
+ * Fake Payment Gateway
+ * Server side of the local test payment provider. Records the outcome the
+ * fake provider reports so order status responses reflect it, the way a
+ * real gateway webhook would update the order. Like Stripe, it only takes
+ * outcomes for an order together with the client secret issued for it.
+ */
+
+export interface FakePaymentRecord {
+  orderId: string;
+  clientSecret: string;
+  status: PaymentIntentStatus;
+  updatedAt: string;
+}
+
+const FAKE_PAYMENTS_FILE = resolveDataPath('fake-payments.json');
+
+export function isFakePaymentGatewayEnabled(): boolean {
+  return getPaymentProviderId() === 'fake' && process.env.NODE_ENV !== 'production';
+}
+
+/**
+ * Registers the client secret a card order pays with. Local orders get a
+ * random one; backend orders keep the secret the backend issued. Retries of
+ * the same order get the secret issued the first time.
+ */
+export async function issueFakePaymentSecret(orderId: string, clientSecret?: string): Promise<string> {
+  let issued = '';
+  await updateJsonFile<Record<string, FakePaymentRecord>>(FAKE_PAYMENTS_FILE, {}, (records) => {
+    if (records[orderId]) {
+      issued = records[orderId].clientSecret;
+      return records;
+    }
+    issued = clientSecret || `pi_${orderId}_secret_${randomBytes(12).toString('hex')}`;
+    return {
+      ...records,
+      [orderId]: { orderId, clientSecret: issued, status: 'requires_payment_method', updatedAt: new Date().toISOString() },
+    };
+  });
+  return issued;
+}
+
+export async function isFakePaymentSecretValid(orderId: string, clientSecret: string): Promise<boolean> {
+  const record = await getFakePayment(orderId);
+  return !!record && safeEqual(record.clientSecret, clientSecret);
+}
+
+export async function recordFakePayment(record: Omit<FakePaymentRecord, 'updatedAt'>): Promise<FakePaymentRecord> {
+  const saved: FakePaymentRecord = { ...record, updatedAt: new Date().toISOString() };
+  await updateJsonFile<Record<string, FakePaymentRecord>>(FAKE_PAYMENTS_FILE, {}, (records) => ({
+    ...records,
+    [record.orderId]: saved,
+  }));
+  return saved;
+}
+
+export async function getFakePayment(orderId: string): Promise<FakePaymentRecord | null> {
+  const records = await readJsonFile<Record<string, FakePaymentRecord>>(FAKE_PAYMENTS_FILE, {});
+  return records[orderId] || null;
+}
+
+// Order status a recorded fake payment maps to
+export function fakePaymentOrderStatus(status: PaymentIntentStatus): string | null {
+  switch (status) {
+    case 'succeeded':
+      return 'paid';
+    case 'canceled':
+    case 'failed':
+      return 'payment_failed';
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,95 @@
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * File Store Utilities
+ * Small JSON-on-disk helpers for server-side modules that need to persist
+ * state on single-node deployments (outboxes, ledgers, local dev data).
+ */
+
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), '.data');
+
+// Serialize writes per file so concurrent requests never interleave
+const writeQueues = new Map<string, Promise<unknown>>();
+
+export function resolveDataPath(...segments: string[]): string {
+  return path.join(DATA_DIR, ...segments);
+}
+
+async function ensureDir(filePath: string): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+}
+
+export async function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.readFile(filePath, 'utf8');
+    return JSON.parse(raw) as T;
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return fallback;
+    }
+    console.error(`Failed to read JSON file ${filePath}:`, error);
+    return fallback;
+  }
+}
+
+export async function writeJsonFile<T>(filePath: string, data: T): Promise<void> {
+  await ensureDir(filePath);
+  // Write to a temp file first so a crash never leaves a half-written file
+  const tempPath = `${filePath}.${process.pid}.${randomBytes(6).toString('hex')}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8');
+  await fs.rename(tempPath, filePath);
+}
+
+export function updateJsonFile<T>(
+  filePath: string,
+  fallback: T,
+  updater: (current: T) => T | Promise<T>
+): Promise<T> {
+  const previous = writeQueues.get(filePath) || Promise.resolve();
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const current = await readJsonFile<T>(filePath, fallback);
+      const updated = await updater(current);
+      await writeJsonFile(filePath, updated);
+      return updated;
+    });
+
+  writeQueues.set(filePath, next);
+  next.finally(() => {
+    if (writeQueues.get(filePath) === next) {
+      writeQueues.delete(filePath);
+    }
+  }).catch(() => undefined);
+
+  return next;
+}
+
+export async function appendJsonLine(filePath: string, record: unknown): Promise<void> {
+  await ensureDir(filePath);
+  await fs.appendFile(filePath, `${JSON.stringify(record)}\n`, 'utf8');
+}
+
+export async function readJsonLines<T>(filePath: string): Promise<T[]> {
+  try {
+    const raw = await fs.readFile(filePath, 'utf8');
+    return raw
+      .split('\n')
+      .filter(line => line.trim().length > 0)
+      .map(line => {
+        try {
+          return JSON.parse(line) as T;
+        } catch {
+          return null;
+        }
+      })
+      .filter((record): record is T => record !== null);
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      console.error(`Failed to read JSON lines file ${filePath}:`, error);
+    }
+    return [];
+  }
+}
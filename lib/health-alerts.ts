@@ -0,0 +1,381 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { readJsonFile, resolveDataPath, updateJsonFile } from './file-store';
+import { getHealthCheckNames } from './health-checks';
+import { getWindowStats, HealthSample, isHealthWindow, SLO_TARGET } from './health-history';
+import { REFERENCE_LOCALE } from './locales';
+import {
+  getPushSubscriptionStore,
+  isWebPushConfigured,
+  sendPushNotifications,
+  StoredPushSubscription,
+} from './push-subscriptions';
+import type { HealthIncident, HealthWindow } from '@/types';
+
+/**
+ * Health Alerts
+ * Rules evaluated after every health monitor run. An uptime or latency rule
+ * holds a check to an SLO over a window of the health history; an incident
+ * rule follows the incidents of a check. A rule fires when its SLO is
+ * breached or an incident opens, and again when that recovers, by POSTing
+ * to its webhook and pushing to the admins' browsers. Until rules are saved
+ * through /api/v1/health/alerts, default rules built from HEALTH_SLO_TARGET
+ * and the HEALTH_ALERT_* settings apply.
+ */
+
+export type AlertRuleType = 'uptime' | 'latency' | 'incident';
+
+export interface HealthAlertRule {
+  id: string;
+  name: string;
+  type: AlertRuleType;
+  // A health check name, or '*' for every check
+  check: string;
+  // Uptime and latency rules: the window and the minimum uptime in percent or maximum average latency in ms
+  window?: HealthWindow;
+  threshold?: number;
+  webhookUrl?: string;
+  notifyAdmins: boolean;
+  // The rule won't fire again for the same check within this many minutes
+  cooldownMinutes: number;
+  enabled: boolean;
+}
+
+export interface HealthAlert {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  type: AlertRuleType;
+  check: string;
+  state: 'firing' | 'resolved';
+  message: string;
+  value?: number;
+  threshold?: number;
+  window?: HealthWindow;
+  incidentId?: string;
+  firedAt: string;
+}
+
+export class AlertRuleValidationError extends Error {
+  constructor(public details: Record<string, string>) {
+    super('Invalid alert rules');
+    this.name = 'AlertRuleValidationError';
+  }
+}
+
+export function isAlertRuleValidationError(error: unknown): error is AlertRuleValidationError {
+  return error instanceof Error && error.name === 'AlertRuleValidationError';
+}
+
+const RULES_FILE = resolveDataPath('health-alert-rules.json');
+const STATE_FILE = resolveDataPath('health-alert-state.json');
+
+const RULE_TYPES: AlertRuleType[] = ['uptime', 'latency', 'incident'];
+const DEFAULT_COOLDOWN_MINUTES = 60;
+const RECENT_ALERTS_LIMIT = 100;
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+// An SLO isn't judged on fewer runs, so a fresh install's first failure doesn't read as 0% uptime
+const MIN_SAMPLES = 5;
+
+// Signs webhook bodies (X-Health-Signature) when set
+const WEBHOOK_SECRET = process.env.HEALTH_ALERT_WEBHOOK_SECRET || '';
+
+// Users whose subscribed browsers get alert pushes
+const ADMIN_USER_IDS = (process.env.HEALTH_ALERT_ADMIN_USER_IDS || '')
+  .split(',')
+  .map((id) => id.trim())
+  .filter(Boolean);
+
+interface AlertState {
+  // Breaches and incidents currently firing, keyed by rule and check or incident
+  active: Record<string, { since: string; notified: boolean }>;
+  // When each rule last fired for each check, for the cooldown
+  lastFiredAt: Record<string, number>;
+  recent: HealthAlert[];
+}
+
+const EMPTY_STATE: AlertState = { active: {}, lastFiredAt: {}, recent: [] };
+
+function getDefaultRules(): HealthAlertRule[] {
+  const webhookUrl = process.env.HEALTH_ALERT_WEBHOOK_URL || undefined;
+  const notifyAdmins = ADMIN_USER_IDS.length > 0;
+  if (!webhookUrl && !notifyAdmins) return [];
+
+  const delivery = { webhookUrl, notifyAdmins, cooldownMinutes: DEFAULT_COOLDOWN_MINUTES, enabled: true };
+  return [
+    { id: 'default-uptime', name: 'Uptime SLO', type: 'uptime', check: '*', window: '24h', threshold: SLO_TARGET, ...delivery },
+    { id: 'default-incidents', name: 'Incidents', type: 'incident', check: '*', ...delivery },
+  ];
+}
+
+// Saved rules, or the defaults while none have been saved
+export async function getAlertRules(): Promise<{ rules: HealthAlertRule[]; defaults: boolean }> {
+  const saved = await readJsonFile<HealthAlertRule[] | null>(RULES_FILE, null);
+  return saved ? { rules: saved, defaults: false } : { rules: getDefaultRules(), defaults: true };
+}
+
+export async function getRecentAlerts(): Promise<HealthAlert[]> {
+  return (await readJsonFile<AlertState>(STATE_FILE, EMPTY_STATE)).recent;
+}
+
+// Validation
+function isHttpUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+export function validateAlertRule(input: any): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const checks = getHealthCheckNames();
+
+  if (typeof input?.name !== 'string' || !input.name.trim()) {
+    errors.name = 'Name is required';
+  }
+  if (RULE_TYPES.indexOf(input?.type) === -1) {
+    errors.type = `Type must be one of ${RULE_TYPES.join(', ')}`;
+  }
+  if (input?.check !== '*' && checks.indexOf(input?.check) === -1) {
+    errors.check = `Check must be * or one of ${checks.join(', ')}`;
+  }
+
+  if (input?.type === 'uptime' || input?.type === 'latency') {
+    if (!isHealthWindow(input.window)) {
+      errors.window = 'Window must be 24h, 7d or 30d';
+    }
+    if (typeof input.threshold !== 'number' || !(input.threshold > 0)) {
+      errors.threshold = 'Threshold must be a positive number';
+    } else if (input.type === 'uptime' && input.threshold > 100) {
+      errors.threshold = 'Uptime threshold is a percentage up to 100';
+    }
+  }
+
+  if (input?.webhookUrl !== undefined && !isHttpUrl(input.webhookUrl)) {
+    errors.webhookUrl = 'Webhook URL must be an http or https URL';
+  } else if (!input?.webhookUrl && input?.notifyAdmins !== true) {
+    errors.webhookUrl = 'A webhook URL or notifyAdmins is required';
+  }
+  if (input?.cooldownMinutes !== undefined && !(Number.isInteger(input.cooldownMinutes) && input.cooldownMinutes >= 0)) {
+    errors.cooldownMinutes = 'Cooldown must be a whole number of minutes';
+  }
+  return errors;
+}
+
+function normalizeRule(input: any): HealthAlertRule {
+  const slo = input.type === 'uptime' || input.type === 'latency';
+  return {
+    // Ids key the alert state as rule:check, so only simple ids are kept
+    id: typeof input.id === 'string' && /^[\w-]+$/.test(input.id) ? input.id : uuidv4(),
+    name: input.name.trim(),
+    type: input.type,
+    check: input.check,
+    window: slo ? input.window : undefined,
+    threshold: slo ? input.threshold : undefined,
+    webhookUrl: input.webhookUrl || undefined,
+    notifyAdmins: input.notifyAdmins === true,
+    cooldownMinutes: input.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES,
+    enabled: input.enabled !== false,
+  };
+}
+
+// Replaces every rule; an empty list turns alerting off, including the defaults
+export async function saveAlertRules(input: unknown): Promise<HealthAlertRule[]> {
+  if (!Array.isArray(input)) {
+    throw new AlertRuleValidationError({ rules: 'Rules must be a list' });
+  }
+
+  const errors: Record<string, string> = {};
+  input.forEach((rule, index) => {
+    const ruleErrors = validateAlertRule(rule);
+    Object.keys(ruleErrors).forEach((field) => {
+      errors[`rules[${index}].${field}`] = ruleErrors[field];
+    });
+  });
+  if (Object.keys(errors).length > 0) {
+    throw new AlertRuleValidationError(errors);
+  }
+
+  const rules = input.map(normalizeRule);
+  await updateJsonFile<HealthAlertRule[] | null>(RULES_FILE, null, () => rules);
+  return rules;
+}
+
+// Evaluation
+function describeAlert(rule: HealthAlertRule, check: string, firing: boolean, value?: number, incident?: HealthIncident): string {
+  if (rule.type === 'incident') {
+    return firing
+      ? `${check} is failing: ${incident?.message}`
+      : `${check} recovered after ${incident?.failures} failed checks`;
+  }
+  if (rule.type === 'uptime') {
+    return firing
+      ? `${check} uptime over ${rule.window} is ${value}%, below the ${rule.threshold}% target`
+      : `${check} uptime over ${rule.window} is back to ${value}% (target ${rule.threshold}%)`;
+  }
+  return firing
+    ? `${check} average latency over ${rule.window} is ${value}ms, above the ${rule.threshold}ms limit`
+    : `${check} average latency over ${rule.window} is back to ${value}ms (limit ${rule.threshold}ms)`;
+}
+
+function matchingChecks(rule: HealthAlertRule, checks: string[]): string[] {
+  return rule.check === '*' ? checks : checks.filter((name) => name === rule.check);
+}
+
+/**
+ * Compares a monitor run with the rules and delivers what fired. A rule
+ * fires once when a breach starts and once when it ends; a breach starting
+ * within the cooldown is tracked but neither its start nor its end is sent.
+ */
+export async function evaluateAlertRules(sample: HealthSample): Promise<HealthAlert[]> {
+  const rules = (await getAlertRules()).rules.filter((rule) => rule.enabled);
+  const ruleIds = rules.map((rule) => rule.id);
+  const checks = Object.keys(sample.checks);
+  const firedAt = new Date(sample.at).toISOString();
+  const fired: Array<{ rule: HealthAlertRule; alert: HealthAlert }> = [];
+
+  await updateJsonFile<AlertState>(STATE_FILE, EMPTY_STATE, (current) => {
+    // Breaches of rules since removed or disabled are forgotten
+    const active: AlertState['active'] = {};
+    Object.keys(current.active).forEach((key) => {
+      if (ruleIds.indexOf(key.split(':')[0]) !== -1) active[key] = current.active[key];
+    });
+    const lastFiredAt = { ...current.lastFiredAt };
+
+    const transition = (
+      rule: HealthAlertRule,
+      check: string,
+      key: string,
+      breached: boolean,
+      details: Pick<HealthAlert, 'value' | 'incidentId'> & { incident?: HealthIncident }
+    ) => {
+      const existing = active[key];
+      if (breached === !!existing) return;
+
+      let notify: boolean;
+      if (breached) {
+        const cooldownKey = `${rule.id}:${check}`;
+        notify = sample.at - (lastFiredAt[cooldownKey] || 0) >= rule.cooldownMinutes * 60 * 1000;
+        active[key] = { since: firedAt, notified: notify };
+        if (notify) lastFiredAt[cooldownKey] = sample.at;
+      } else {
+        notify = !!existing?.notified;
+        delete active[key];
+      }
+      if (!notify) return;
+
+      fired.push({
+        rule,
+        alert: {
+          id: uuidv4(),
+          ruleId: rule.id,
+          ruleName: rule.name,
+          type: rule.type,
+          check,
+          state: breached ? 'firing' : 'resolved',
+          message: describeAlert(rule, check, breached, details.value, details.incident),
+          value: details.value,
+          threshold: rule.threshold,
+          window: rule.window,
+          incidentId: details.incidentId,
+          firedAt,
+        },
+      });
+    };
+
+    rules.forEach((rule) => {
+      if (rule.type === 'incident') {
+        sample.opened.concat(sample.resolved).forEach((incident) => {
+          if (matchingChecks(rule, [incident.check]).length === 0) return;
+          transition(rule, incident.check, `${rule.id}:incident:${incident.id}`, incident.status === 'open', {
+            incidentId: incident.id,
+            incident,
+          });
+        });
+        return;
+      }
+
+      matchingChecks(rule, checks).forEach((check) => {
+        const stats = getWindowStats(sample.buckets[check] || [], rule.window!, sample.at);
+        if (stats.samples < MIN_SAMPLES) return;
+        const value = rule.type === 'uptime' ? stats.uptime! : stats.latency!;
+        const breached = rule.type === 'uptime' ? value < rule.threshold! : value > rule.threshold!;
+        transition(rule, check, `${rule.id}:${check}`, breached, { value });
+      });
+    });
+
+    const recent = fired
+      .map((entry) => entry.alert)
+      .reverse()
+      .concat(current.recent)
+      .slice(0, RECENT_ALERTS_LIMIT);
+    return { active, lastFiredAt, recent };
+  });
+
+  await Promise.all(fired.map(({ rule, alert }) => deliverAlert(rule, alert)));
+  return fired.map((entry) => entry.alert);
+}
+
+// Delivery
+async function postWebhook(url: string, alert: HealthAlert): Promise<void> {
+  const body = JSON.stringify({ event: 'health.alert', alert });
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (WEBHOOK_SECRET) {
+    headers['X-Health-Signature'] = `sha256=${crypto.createHmac('sha256', WEBHOOK_SECRET).update(body).digest('hex')}`;
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, { method: 'POST', headers, body, signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`Webhook answered ${response.status}`);
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function pushToAdmins(alert: HealthAlert): Promise<void> {
+  if (!isWebPushConfigured() || ADMIN_USER_IDS.length === 0) return;
+
+  const store = getPushSubscriptionStore();
+  const records = ([] as StoredPushSubscription[]).concat(
+    ...(await Promise.all(ADMIN_USER_IDS.map((userId) => store.getByUserId(userId))))
+  );
+  if (records.length === 0) return;
+
+  await sendPushNotifications(records, JSON.stringify({
+    title: alert.state === 'firing' ? `Health alert: ${alert.ruleName}` : `Resolved: ${alert.ruleName}`,
+    body: alert.message,
+    icon: '/icons/icon-192x192.png',
+    badge: '/icons/badge-72x72.png',
+    // A recovery replaces the alert it resolves
+    tag: `health-${alert.ruleId}-${alert.check}`,
+    requireInteraction: alert.state === 'firing',
+    data: {
+      type: 'health-alert',
+      alertId: alert.id,
+      url: `/${REFERENCE_LOCALE}/health`,
+      timestamp: Date.now(),
+    },
+  }));
+}
+
+// Delivery failures are logged; the alert stays in the recent list either way
+async function deliverAlert(rule: HealthAlertRule, alert: HealthAlert): Promise<void> {
+  const deliveries: Promise<void>[] = [];
+  if (rule.webhookUrl) deliveries.push(postWebhook(rule.webhookUrl, alert));
+  if (rule.notifyAdmins) deliveries.push(pushToAdmins(alert));
+
+  const results = await Promise.allSettled(deliveries);
+  results.forEach((result) => {
+    if (result.status === 'rejected') {
+      console.error(`Failed to deliver health alert "${rule.name}":`, result.reason);
+    }
+  });
+}
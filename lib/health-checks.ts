@@ -0,0 +1,362 @@
+import os from 'os';
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import { createCachedFunction, memoryCache } from './cache';
+import { DATA_DIR } from './file-store';
+import { getRequestMetrics } from './request-metrics';
+import type { DetailedHealthStatus, HealthMetrics, HealthStatus } from '@/types';
+import packageJson from '../package.json';
+
+/**
+ * Health Checks
+ * Probes for the services the storefront depends on, run by the health API
+ * (/api/v1/health) for the health page and by Kubernetes through the
+ * liveness and readiness variants. Each check has its own timeout, and a
+ * variant's budget caps every check it runs. Results of a full run are kept
+ * briefly so several dashboards polling at once don't multiply the probes.
+ */
+
+export type CheckStatus = 'healthy' | 'warning' | 'error';
+
+export interface CheckResult {
+  status: CheckStatus;
+  message: string;
+  duration: number;
+  details?: Record<string, unknown>;
+}
+
+export interface HealthCheck {
+  name: string;
+  // A failing critical check makes the service unhealthy; others only degrade it
+  critical: boolean;
+  // Whether the readiness probe waits on this check
+  readiness: boolean;
+  timeout: number;
+  run(signal: AbortSignal): Promise<Omit<CheckResult, 'duration'>>;
+}
+
+export interface ProbeReport {
+  status: 'healthy' | 'unhealthy';
+  timestamp: string;
+  uptime: number;
+  checks?: Record<string, CheckResult>;
+}
+
+function readMs(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '');
+  return value > 0 ? value : fallback;
+}
+
+export const HEALTH_TIMEOUTS = {
+  // Budget for the detailed report and POSTed checks
+  check: readMs('HEALTH_CHECK_TIMEOUT_MS', 5000),
+  liveness: readMs('HEALTH_LIVENESS_TIMEOUT_MS', 1000),
+  readiness: readMs('HEALTH_READINESS_TIMEOUT_MS', 3000),
+};
+
+// A full run is reused for this long
+const RESULTS_TTL = readMs('HEALTH_RESULTS_TTL_MS', 10000);
+
+// A backend answering slower than this is reported as degraded
+const BACKEND_SLOW_MS = readMs('HEALTH_BACKEND_SLOW_MS', 1000);
+
+const BACKEND_API_URL = process.env.BACKEND_API_URL || 'http://localhost:3000/api';
+const BACKEND_HEALTH_PATH = process.env.BACKEND_HEALTH_PATH || '/v1/health';
+
+// Product images are served from Appwrite storage (see images.remotePatterns in next.config.js)
+const IMAGE_STORAGE_HEALTH_URL = process.env.IMAGE_STORAGE_HEALTH_URL || 'https://fra.cloud.appwrite.io/v1/health/version';
+
+function decodeBase64Url(value: string): Buffer {
+  return Buffer.from(value.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+}
+
+// Any data cache read, to see Next's cache layer answer at all
+const readCacheProbe = createCachedFunction(async () => new Date().toISOString(), ['health-cache-probe'], { revalidate: 60 });
+
+const backendApi: HealthCheck = {
+  name: 'backendApi',
+  critical: true,
+  readiness: true,
+  timeout: readMs('HEALTH_BACKEND_TIMEOUT_MS', 3000),
+  async run(signal) {
+    const url = `${BACKEND_API_URL}${BACKEND_HEALTH_PATH}`;
+    const startedAt = performance.now();
+    const response = await fetch(url, { signal, cache: 'no-store', headers: { Accept: 'application/json' } });
+    const latency = Math.round(performance.now() - startedAt);
+
+    if (!response.ok) {
+      return { status: 'error', message: `Backend answered ${response.status}`, details: { url, latency } };
+    }
+    if (latency > BACKEND_SLOW_MS) {
+      return { status: 'warning', message: `Backend is slow (${latency}ms)`, details: { url, latency } };
+    }
+    return { status: 'healthy', message: 'Backend is reachable', details: { url, latency } };
+  },
+};
+
+const imageStorage: HealthCheck = {
+  name: 'imageStorage',
+  critical: false,
+  readiness: false,
+  timeout: readMs('HEALTH_IMAGE_STORAGE_TIMEOUT_MS', 3000),
+  async run(signal) {
+    const response = await fetch(IMAGE_STORAGE_HEALTH_URL, { signal, cache: 'no-store' });
+
+    // Reachability is what matters; 4xx still proves the storage host is serving
+    if (response.status >= 500) {
+      return { status: 'error', message: `Image storage answered ${response.status}` };
+    }
+    return { status: 'healthy', message: 'Image storage is reachable', details: { url: IMAGE_STORAGE_HEALTH_URL } };
+  },
+};
+
+const pushNotifications: HealthCheck = {
+  name: 'pushNotifications',
+  critical: false,
+  readiness: false,
+  timeout: 1000,
+  async run() {
+    const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY || '';
+    const privateKey = process.env.VAPID_PRIVATE_KEY || '';
+
+    if (!publicKey && !privateKey) {
+      return { status: 'warning', message: 'VAPID keys are not set; push notifications are off' };
+    }
+    if (!publicKey || !privateKey) {
+      return { status: 'error', message: `${publicKey ? 'VAPID_PRIVATE_KEY' : 'NEXT_PUBLIC_VAPID_PUBLIC_KEY'} is not set` };
+    }
+
+    // P-256 keys: an uncompressed 65-byte public point and a 32-byte private scalar
+    const publicBytes = decodeBase64Url(publicKey);
+    const privateBytes = decodeBase64Url(privateKey);
+    if (publicBytes.length !== 65 || publicBytes[0] !== 0x04) {
+      return { status: 'error', message: 'NEXT_PUBLIC_VAPID_PUBLIC_KEY is not a P-256 public key' };
+    }
+    if (privateBytes.length !== 32) {
+      return { status: 'error', message: 'VAPID_PRIVATE_KEY is not a P-256 private key' };
+    }
+
+    const ecdh = crypto.createECDH('prime256v1');
+    ecdh.setPrivateKey(privateBytes);
+    if (!ecdh.getPublicKey().equals(publicBytes)) {
+      return { status: 'error', message: 'VAPID public and private keys are not a pair' };
+    }
+    if (!process.env.VAPID_CONTACT_EMAIL) {
+      return { status: 'warning', message: 'VAPID_CONTACT_EMAIL is not set; using the default contact' };
+    }
+    return { status: 'healthy', message: 'VAPID keys are configured' };
+  },
+};
+
+const cache: HealthCheck = {
+  name: 'cache',
+  critical: false,
+  readiness: true,
+  timeout: readMs('HEALTH_CACHE_TIMEOUT_MS', 1000),
+  async run() {
+    try {
+      await readCacheProbe();
+    } catch (error) {
+      // Next sets up its data cache with the first request; monitor runs can come before that
+      if (error instanceof Error && error.message.indexOf('incrementalCache missing') !== -1) {
+        return { status: 'warning', message: 'Data cache is not set up until the first request' };
+      }
+      throw error;
+    }
+    const stats = memoryCache.stats();
+    return { status: 'healthy', message: 'Data cache is answering', details: { memoryEntries: stats.size } };
+  },
+};
+
+export const healthChecks: Record<string, HealthCheck> = {
+  backendApi,
+  imageStorage,
+  pushNotifications,
+  cache,
+};
+
+export function getHealthCheckNames(): string[] {
+  return Object.keys(healthChecks);
+}
+
+async function runCheck(check: HealthCheck, budget: number): Promise<CheckResult> {
+  const timeout = Math.min(check.timeout, budget);
+  const controller = new AbortController();
+  const startedAt = performance.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timedOut = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`Timed out after ${timeout}ms`));
+    }, timeout);
+  });
+
+  try {
+    const result = await Promise.race([check.run(controller.signal), timedOut]);
+    return { ...result, duration: Math.round(performance.now() - startedAt) };
+  } catch (error) {
+    return {
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Check failed',
+      duration: Math.round(performance.now() - startedAt),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export async function runHealthChecks(
+  names: string[] = getHealthCheckNames(),
+  budget: number = HEALTH_TIMEOUTS.check
+): Promise<Record<string, CheckResult>> {
+  const results = await Promise.all(names.map((name) => runCheck(healthChecks[name], budget)));
+  const checks: Record<string, CheckResult> = {};
+  names.forEach((name, index) => {
+    checks[name] = results[index];
+  });
+  return checks;
+}
+
+export function summarizeChecks(checks: Record<string, CheckResult>): CheckStatus {
+  const names = Object.keys(checks);
+  if (names.some((name) => checks[name].status === 'error' && healthChecks[name]?.critical)) return 'error';
+  if (names.some((name) => checks[name].status !== 'healthy')) return 'warning';
+  return 'healthy';
+}
+
+let lastRun: { at: number; checks: Record<string, CheckResult> } | null = null;
+let runInFlight: Promise<Record<string, CheckResult>> | null = null;
+
+// The latest full run, shared by the detailed report and the health monitor
+export async function getLatestChecks(): Promise<Record<string, CheckResult>> {
+  if (lastRun && Date.now() - lastRun.at < RESULTS_TTL) return lastRun.checks;
+  if (!runInFlight) {
+    runInFlight = runHealthChecks()
+      .then((checks) => {
+        lastRun = { at: Date.now(), checks };
+        return checks;
+      })
+      .finally(() => {
+        runInFlight = null;
+      });
+  }
+  return runInFlight;
+}
+
+// CPU time used since the previous sample, as a share of every core
+let lastCpuSample = { usage: process.cpuUsage(), at: performance.now() };
+
+function sampleCpuUsage(): number {
+  const now = performance.now();
+  const elapsed = now - lastCpuSample.at;
+  // Too short a gap to measure; fall back to the average since the process started
+  const usage = elapsed >= 100 ? process.cpuUsage(lastCpuSample.usage) : process.cpuUsage();
+  const window = elapsed >= 100 ? elapsed : process.uptime() * 1000;
+  if (elapsed >= 100) {
+    lastCpuSample = { usage: process.cpuUsage(), at: now };
+  }
+
+  const cores = os.cpus().length || 1;
+  const percentage = ((usage.user + usage.system) / 1000 / window / cores) * 100;
+  return Math.min(100, Math.round(percentage * 10) / 10);
+}
+
+async function getDiskUsage(): Promise<DetailedHealthStatus['system']['disk']> {
+  // The data directory is where the server writes; it may not exist until the first write
+  const stats = await fs.statfs(DATA_DIR).catch(() => fs.statfs(process.cwd()));
+  const total = stats.blocks * stats.bsize;
+  const used = (stats.blocks - stats.bfree) * stats.bsize;
+  return { used, total, percentage: total > 0 ? (used / total) * 100 : 0 };
+}
+
+export async function getSystemMetrics(): Promise<DetailedHealthStatus['system']> {
+  const memory = process.memoryUsage();
+  const total = os.totalmem();
+  const used = total - os.freemem();
+
+  return {
+    memory: { used, total, percentage: (used / total) * 100 },
+    cpu: { usage: sampleCpuUsage(), cores: os.cpus().length, loadAverage: os.loadavg() },
+    disk: await getDiskUsage().catch(() => ({ used: 0, total: 0, percentage: 0 })),
+    process: {
+      rss: memory.rss,
+      heapUsed: memory.heapUsed,
+      heapTotal: memory.heapTotal,
+      external: memory.external,
+    },
+  };
+}
+
+function getUptime(): number {
+  return Math.round(process.uptime() * 1000);
+}
+
+// Cheap enough to poll: reuses the last full run's verdict instead of probing
+export function getBasicHealth(): HealthStatus {
+  const fresh = lastRun && Date.now() - lastRun.at < RESULTS_TTL;
+  return {
+    status: fresh ? summarizeChecks(lastRun!.checks) : 'healthy',
+    timestamp: new Date().toISOString(),
+    uptime: getUptime(),
+    version: packageJson.version,
+  };
+}
+
+export async function getDetailedHealth(): Promise<DetailedHealthStatus> {
+  const [checks, system] = await Promise.all([getLatestChecks(), getSystemMetrics()]);
+  return {
+    status: summarizeChecks(checks),
+    timestamp: new Date().toISOString(),
+    uptime: getUptime(),
+    version: packageJson.version,
+    checks,
+    system,
+  };
+}
+
+export function getHealthMetrics(): HealthMetrics {
+  const requests = getRequestMetrics();
+  const cacheStats = memoryCache.stats();
+  return {
+    timestamp: new Date().toISOString(),
+    requests,
+    cache: { hits: cacheStats.hits, misses: cacheStats.misses, hitRate: cacheStats.hitRate },
+  };
+}
+
+function measureEventLoopLag(): Promise<number> {
+  const startedAt = performance.now();
+  return new Promise((resolve) => setImmediate(() => resolve(performance.now() - startedAt)));
+}
+
+// Liveness: the process answers and its event loop isn't stuck; dependencies don't count
+export async function checkLiveness(): Promise<ProbeReport> {
+  const lag = await measureEventLoopLag();
+  const stalled = lag > HEALTH_TIMEOUTS.liveness;
+  return {
+    status: stalled ? 'unhealthy' : 'healthy',
+    timestamp: new Date().toISOString(),
+    uptime: getUptime(),
+    checks: {
+      eventLoop: {
+        status: stalled ? 'error' : 'healthy',
+        message: `Event loop lag ${Math.round(lag)}ms`,
+        duration: Math.round(lag),
+      },
+    },
+  };
+}
+
+// Readiness: the dependencies needed to serve a request answer within the readiness budget
+export async function checkReadiness(): Promise<ProbeReport> {
+  const names = getHealthCheckNames().filter((name) => healthChecks[name].readiness);
+  const checks = await runHealthChecks(names, HEALTH_TIMEOUTS.readiness);
+  const failed = Object.keys(checks).some((name) => checks[name].status === 'error');
+  return {
+    status: failed ? 'unhealthy' : 'healthy',
+    timestamp: new Date().toISOString(),
+    uptime: getUptime(),
+    checks,
+  };
+}
@@ -0,0 +1,242 @@
+import { v4 as uuidv4 } from 'uuid';
+import { readJsonFile, resolveDataPath, updateJsonFile } from './file-store';
+import { CheckResult, getHealthCheckNames, healthChecks } from './health-checks';
+import type { HealthHistory, HealthIncident, HealthSparkPoint, HealthWindow } from '@/types';
+
+/**
+ * Health History
+ * Every health monitor run is recorded here so the dashboard can show how
+ * each check held up over the last 24 hours, 7 days and 30 days. Runs are
+ * rolled into hourly buckets per check, which keeps the file small enough
+ * to rewrite on every run, and buckets older than 30 days are dropped. A
+ * check that keeps failing opens an incident, which closes once the check
+ * has passed again for a few runs.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const HEALTH_WINDOWS: Record<HealthWindow, number> = {
+  '24h': DAY_MS,
+  '7d': 7 * DAY_MS,
+  '30d': 30 * DAY_MS,
+};
+
+const WINDOW_NAMES = Object.keys(HEALTH_WINDOWS) as HealthWindow[];
+const RETENTION_MS = HEALTH_WINDOWS['30d'];
+
+const HISTORY_FILE = resolveDataPath('health-history.json');
+const INCIDENTS_FILE = resolveDataPath('health-incidents.json');
+
+// Uptime in percent the dashboard holds every check to, and the default uptime alert threshold
+export const SLO_TARGET = parseFloat(process.env.HEALTH_SLO_TARGET || '99.9');
+
+// Consecutive failing runs before an incident opens, and passing runs before it closes, so one blip doesn't flap
+const INCIDENT_OPEN_AFTER = Math.max(1, parseInt(process.env.HEALTH_INCIDENT_OPEN_AFTER || '2', 10));
+const INCIDENT_CLOSE_AFTER = Math.max(1, parseInt(process.env.HEALTH_INCIDENT_CLOSE_AFTER || '2', 10));
+
+// Most points a latency sparkline is drawn with; longer windows average several hours per point
+const SPARKLINE_POINTS = 48;
+const INCIDENT_LIST_LIMIT = 50;
+
+export interface HealthBucket {
+  // Start of the hour, epoch ms
+  hour: number;
+  samples: number;
+  errors: number;
+  warnings: number;
+  // Sum of the check durations, for the average latency
+  duration: number;
+}
+
+interface CheckStreak {
+  failing: boolean;
+  runs: number;
+  since: number;
+}
+
+interface HistoryStore {
+  buckets: Record<string, HealthBucket[]>;
+  streaks: Record<string, CheckStreak>;
+}
+
+export interface HealthSample {
+  at: number;
+  checks: Record<string, CheckResult>;
+  buckets: Record<string, HealthBucket[]>;
+  opened: HealthIncident[];
+  resolved: HealthIncident[];
+}
+
+export interface WindowStats {
+  samples: number;
+  uptime: number | null;
+  latency: number | null;
+}
+
+const EMPTY_HISTORY: HistoryStore = { buckets: {}, streaks: {} };
+
+export function isHealthWindow(value: unknown): value is HealthWindow {
+  return typeof value === 'string' && WINDOW_NAMES.indexOf(value as HealthWindow) !== -1;
+}
+
+function addToBuckets(buckets: HealthBucket[], result: CheckResult, at: number): HealthBucket[] {
+  const hour = Math.floor(at / HOUR_MS) * HOUR_MS;
+  const kept = buckets.filter((bucket) => bucket.hour + HOUR_MS > at - RETENTION_MS);
+  const last = kept[kept.length - 1];
+  const sameHour = !!last && last.hour === hour;
+  const bucket = sameHour ? { ...last } : { hour, samples: 0, errors: 0, warnings: 0, duration: 0 };
+
+  bucket.samples++;
+  if (result.status === 'error') bucket.errors++;
+  if (result.status === 'warning') bucket.warnings++;
+  bucket.duration += result.duration;
+
+  return sameHour ? kept.slice(0, -1).concat(bucket) : kept.concat(bucket);
+}
+
+function nextStreak(streak: CheckStreak | undefined, failing: boolean, at: number): CheckStreak {
+  return streak && streak.failing === failing
+    ? { ...streak, runs: streak.runs + 1 }
+    : { failing, runs: 1, since: at };
+}
+
+/**
+ * Records one run of the checks: adds it to the hourly buckets and opens or
+ * closes incidents. Warnings count as up; only errors count against uptime.
+ */
+export async function recordHealthSample(checks: Record<string, CheckResult>, at: number = Date.now()): Promise<HealthSample> {
+  const names = Object.keys(checks);
+  let streaks: Record<string, CheckStreak> = {};
+
+  const history = await updateJsonFile<HistoryStore>(HISTORY_FILE, EMPTY_HISTORY, (current) => {
+    const buckets = { ...current.buckets };
+    streaks = { ...current.streaks };
+    names.forEach((name) => {
+      buckets[name] = addToBuckets(buckets[name] || [], checks[name], at);
+      streaks[name] = nextStreak(streaks[name], checks[name].status === 'error', at);
+    });
+    return { buckets, streaks };
+  });
+
+  const opened: HealthIncident[] = [];
+  const resolved: HealthIncident[] = [];
+
+  await updateJsonFile<HealthIncident[]>(INCIDENTS_FILE, [], (incidents) => {
+    const next = incidents.filter((incident) =>
+      incident.status === 'open' || Date.parse(incident.resolvedAt!) > at - RETENTION_MS
+    );
+
+    names.forEach((name) => {
+      const streak = streaks[name];
+      const index = next.findIndex((incident) => incident.check === name && incident.status === 'open');
+      const open = index !== -1 ? next[index] : null;
+
+      if (streak.failing && open) {
+        next[index] = { ...open, message: checks[name].message, failures: open.failures + 1 };
+      } else if (streak.failing && streak.runs >= INCIDENT_OPEN_AFTER) {
+        const incident: HealthIncident = {
+          id: uuidv4(),
+          check: name,
+          critical: !!healthChecks[name]?.critical,
+          status: 'open',
+          openedAt: new Date(streak.since).toISOString(),
+          message: checks[name].message,
+          failures: streak.runs,
+        };
+        next.push(incident);
+        opened.push(incident);
+      } else if (!streak.failing && open && streak.runs >= INCIDENT_CLOSE_AFTER) {
+        next[index] = { ...open, status: 'resolved', resolvedAt: new Date(streak.since).toISOString() };
+        resolved.push(next[index]);
+      }
+    });
+    return next;
+  });
+
+  return { at, checks, buckets: history.buckets, opened, resolved };
+}
+
+export async function readHealthBuckets(): Promise<Record<string, HealthBucket[]>> {
+  return (await readJsonFile<HistoryStore>(HISTORY_FILE, EMPTY_HISTORY)).buckets;
+}
+
+// Never rounds up to 100 while any run in the window failed
+function floorPercent(value: number): number {
+  return Math.floor(value * 100) / 100;
+}
+
+function summarize(buckets: HealthBucket[]): WindowStats {
+  const totals = buckets.reduce(
+    (sum, bucket) => ({
+      samples: sum.samples + bucket.samples,
+      errors: sum.errors + bucket.errors,
+      duration: sum.duration + bucket.duration,
+    }),
+    { samples: 0, errors: 0, duration: 0 }
+  );
+
+  if (totals.samples === 0) {
+    return { samples: 0, uptime: null, latency: null };
+  }
+  return {
+    samples: totals.samples,
+    uptime: floorPercent(((totals.samples - totals.errors) / totals.samples) * 100),
+    latency: Math.round(totals.duration / totals.samples),
+  };
+}
+
+// Buckets that overlap the window ending now
+export function getWindowStats(buckets: HealthBucket[], window: HealthWindow, now: number = Date.now()): WindowStats {
+  const start = now - HEALTH_WINDOWS[window];
+  return summarize(buckets.filter((bucket) => bucket.hour + HOUR_MS > start && bucket.hour <= now));
+}
+
+function getSparkline(buckets: HealthBucket[], window: HealthWindow, now: number): HealthSparkPoint[] {
+  const hours = HEALTH_WINDOWS[window] / HOUR_MS;
+  const hoursPerPoint = Math.ceil(hours / SPARKLINE_POINTS);
+  const points = Math.ceil(hours / hoursPerPoint);
+  const currentHour = Math.floor(now / HOUR_MS) * HOUR_MS;
+  const start = currentHour - (points * hoursPerPoint - 1) * HOUR_MS;
+
+  const sparkline: HealthSparkPoint[] = [];
+  for (let i = 0; i < points; i++) {
+    const from = start + i * hoursPerPoint * HOUR_MS;
+    const to = from + hoursPerPoint * HOUR_MS;
+    const stats = summarize(buckets.filter((bucket) => bucket.hour >= from && bucket.hour < to));
+    sparkline.push({ at: new Date(from).toISOString(), latency: stats.latency });
+  }
+  return sparkline;
+}
+
+export async function getHealthHistory(now: number = Date.now()): Promise<HealthHistory> {
+  const [buckets, incidents] = await Promise.all([
+    readHealthBuckets(),
+    readJsonFile<HealthIncident[]>(INCIDENTS_FILE, []),
+  ]);
+
+  const checks: HealthHistory['checks'] = {};
+  getHealthCheckNames().forEach((name) => {
+    const uptime = {} as Record<HealthWindow, number | null>;
+    const latency = {} as Record<HealthWindow, HealthSparkPoint[]>;
+    WINDOW_NAMES.forEach((window) => {
+      uptime[window] = getWindowStats(buckets[name] || [], window, now).uptime;
+      latency[window] = getSparkline(buckets[name] || [], window, now);
+    });
+    checks[name] = { critical: healthChecks[name].critical, uptime, latency };
+  });
+
+  return {
+    timestamp: new Date(now).toISOString(),
+    windows: WINDOW_NAMES,
+    sloTarget: SLO_TARGET,
+    checks,
+    // Open incidents first, then the most recent
+    incidents: incidents
+      .slice()
+      .sort((a, b) =>
+        (a.status === 'open' ? 0 : 1) - (b.status === 'open' ? 0 : 1) || Date.parse(b.openedAt) - Date.parse(a.openedAt)
+      )
+      .slice(0, INCIDENT_LIST_LIMIT),
+  };
+}
@@ -0,0 +1,44 @@
+import { evaluateAlertRules } from './health-alerts';
+import { getLatestChecks } from './health-checks';
+import { recordHealthSample } from './health-history';
+import { startInterval } from './scheduler';
+
+/**
+ * Health Monitor
+ * Runs the health checks on a schedule, records each run in the health
+ * history and evaluates the alert rules against it. Long-running servers
+ * start it from instrumentation.ts; serverless deployments set
+ * HEALTH_MONITOR_INTERVAL=0 and call POST /api/v1/health/monitor from cron.
+ */
+
+// Keep above HEALTH_RESULTS_TTL_MS, or runs reuse the previous result and count it twice
+const MONITOR_INTERVAL_MS = parseInt(process.env.HEALTH_MONITOR_INTERVAL || '60', 10) * 1000;
+
+let runningTick: Promise<void> | null = null;
+
+// Single-flight so the interval and the cron route never overlap
+export function runHealthMonitor(): Promise<void> {
+  if (!runningTick) {
+    runningTick = (async () => {
+      const checks = await getLatestChecks();
+      const sample = await recordHealthSample(checks);
+      await evaluateAlertRules(sample);
+    })()
+      .catch((error) => {
+        console.error('Health monitor run failed:', error);
+      })
+      .finally(() => {
+        runningTick = null;
+      });
+  }
+  return runningTick;
+}
+
+let monitorTimer: NodeJS.Timeout | null = null;
+
+export function ensureHealthMonitor(): void {
+  if (monitorTimer || MONITOR_INTERVAL_MS <= 0 || typeof setInterval === 'undefined') return;
+  monitorTimer = startInterval(() => {
+    runHealthMonitor();
+  }, MONITOR_INTERVAL_MS);
+}
@@ -1,41 +1,87 @@
+import { createTranslator } from 'next-intl';
+import type { MessageKeys, NestedKeyOf } from 'next-intl';
+import { IntlMessageFormat } from 'intl-messageformat';
 import { config } from './config';
+import { LOCALE_REGISTRY, REFERENCE_LOCALE, getLocaleConfig, negotiateLocale } from './locales';
+import type { Locale } from './locales';
+import en from '../messages/en.json';
 
-export type Locale = 'en' | 'ar';
+/**
+ * Internationalization
+ * The message catalog for every page, keyed by the [locale] route segment.
+ * Messages are ICU MessageFormat strings (plurals with Arabic's zero, one,
+ * two, few, many and other categories, select, and number and date
+ * arguments). Catalogs live at messages/<code>.json for each locale in the
+ * registry (lib/locales) and are loaded on the server, so pages render in
+ * their language from the first paint.
+ */
 
-export interface Messages {
-  [key: string]: string | Messages;
+export type { Locale };
+
+// The English catalog is the reference; every other locale has the same keys
+export type Messages = typeof en;
+
+// Dotted path of any message, e.g. 'buyAgain.ordered'
+export type MessageKey = MessageKeys<Messages, NestedKeyOf<Messages>>;
+
+export type MessageValues = Record<string, string | number | boolean | Date | null | undefined>;
+
+declare global {
+  // Types the keys accepted by useTranslations and the translators below
+  interface IntlMessages extends Messages {}
 }
 
-// Cache for loaded messages
-const messagesCache = new Map<Locale, Messages>();
+export class LocaleValidationError extends Error {
+  code: string;
+  details: string[];
 
-// Load messages for a specific locale
-export async function loadMessages(locale: Locale): Promise<Messages> {
-  // Return cached messages if available
-  if (messagesCache.has(locale)) {
-    return messagesCache.get(locale)!;
+  constructor(details: string[]) {
+    super(`Incomplete locale setup:\n- ${details.join('\n- ')}`);
+    this.name = 'LocaleValidationError';
+    this.code = 'LOCALE_INCOMPLETE';
+    this.details = details;
   }
+}
 
-  try {
-    // Try to load messages from JSON file
-    const messages = await import(`../messages/${locale}.json`);
-    messagesCache.set(locale, messages.default);
-    return messages.default;
-  } catch (error) {
-    console.warn(`Failed to load messages for locale ${locale}:`, error);
-    
-    // Fallback to default locale if not already trying it
-    if (locale !== config.i18n.defaultLocale) {
-      return loadMessages(config.i18n.defaultLocale as Locale);
-    }
-    
-    // Return empty messages as last resort
-    return {};
+// Checked by name because subclassed errors lose their prototype when compiled to ES5
+export function isLocaleValidationError(error: unknown): error is LocaleValidationError {
+  return !!error && typeof error === 'object' && (error as Error).name === 'LocaleValidationError';
+}
+
+const catalogs = new Map<string, Promise<Messages>>([[REFERENCE_LOCALE, Promise.resolve(en)]]);
+
+// Any messages/<code>.json is bundled, so a new catalog needs no import here
+function importCatalog(locale: string): Promise<Messages> {
+  let catalog = catalogs.get(locale);
+  if (!catalog) {
+    catalog = import(`../messages/${locale}.json`).then((module) => (module.default || module) as Messages);
+    // A failed load is retried next time rather than cached
+    catalog.catch(() => catalogs.delete(locale));
+    catalogs.set(locale, catalog);
   }
+  return catalog;
+}
+
+function resolveLocale(locale: string): Locale {
+  return isValidLocale(locale) ? locale : config.i18n.defaultLocale as Locale;
+}
+
+export async function loadMessages(locale: string): Promise<Messages> {
+  return importCatalog(resolveLocale(locale));
+}
+
+// Translator for server code (route handlers, metadata, emails) outside the React tree
+export async function getTranslator(locale: string) {
+  const resolved = resolveLocale(locale);
+  return createTranslator({
+    locale: resolved,
+    messages: await importCatalog(resolved),
+    timeZone: config.i18n.timeZone,
+  });
 }
 
 // Get nested message by key path (e.g., 'common.buttons.save')
-export function getMessage(messages: Messages, key: string, fallback?: string): string {
+export function getMessage(messages: Messages | Record<string, unknown>, key: string, fallback?: string): string {
   const keys = key.split('.');
   let current: any = messages;
   
@@ -50,42 +96,53 @@ export function getMessage(messages: Messages, key: string, fallback?: string):
   return typeof current === 'string' ? current : fallback || key;
 }
 
-// Format message with parameters
+// Compiled formats, since the same templates are formatted on every render
+const formatCache = new Map<string, IntlMessageFormat>();
+
+// Formats an ICU message template with parameters
 export function formatMessage(
   template: string,
-  params: Record<string, string | number> = {}
+  params: MessageValues = {},
+  locale: string = config.i18n.defaultLocale
 ): string {
-  return template.replace(/\{(\w+)\}/g, (match, key) => {
-    return params[key]?.toString() || match;
-  });
+  const cacheKey = `${locale}\u0000${template}`;
+  let format = formatCache.get(cacheKey);
+
+  try {
+    if (!format) {
+      format = new IntlMessageFormat(template, locale);
+      formatCache.set(cacheKey, format);
+    }
+    return String(format.format(params as Record<string, any>));
+  } catch (error) {
+    // A broken translation shows its raw text rather than breaking the page
+    console.warn(`Failed to format message "${template}":`, error);
+    return template;
+  }
 }
 
 // Get text direction for locale
-export function getTextDirection(locale: Locale): 'ltr' | 'rtl' {
-  const rtlLocales: Locale[] = ['ar'];
-  return rtlLocales.includes(locale) ? 'rtl' : 'ltr';
-}
+export { getTextDirection } from './locales';
 
-// Get locale display name
-export function getLocaleDisplayName(locale: Locale, inLocale?: Locale): string {
-  const displayNames: Record<Locale, Record<Locale, string>> = {
-    en: {
-      en: 'English',
-      ar: 'Arabic',
-    },
-    ar: {
-      en: 'الإنجليزية',
-      ar: 'العربية',
-    },
-  };
-  
-  const targetLocale = inLocale || locale;
-  return displayNames[targetLocale]?.[locale] || locale;
+// Get locale display name, in the reader's language when Intl knows it
+export function getLocaleDisplayName(locale: string, inLocale?: string): string {
+  const entry = getLocaleConfig(locale);
+  const reader = inLocale || locale;
+  if (reader === locale) {
+    return entry?.nativeName || locale;
+  }
+
+  try {
+    const names = new Intl.DisplayNames([reader], { type: 'language' });
+    return names.of(locale) || entry?.name || locale;
+  } catch (error) {
+    return entry?.name || locale;
+  }
 }
 
 // Validate locale
 export function isValidLocale(locale: string): locale is Locale {
-  return config.i18n.locales.includes(locale as Locale);
+  return config.i18n.locales.includes(locale) && !!getLocaleConfig(locale);
 }
 
 // Get browser locale preference
@@ -94,6 +151,105 @@ export function getBrowserLocale(): Locale {
     return config.i18n.defaultLocale as Locale;
   }
   
-  const browserLocale = navigator.language.split('-')[0];
-  return isValidLocale(browserLocale) ? browserLocale : config.i18n.defaultLocale as Locale;
-}
\ No newline at end of file
+  const preferred = navigator.languages?.length ? navigator.languages.join(',') : navigator.language;
+  const browserLocale = negotiateLocale(preferred, config.i18n.locales);
+  return browserLocale && isValidLocale(browserLocale) ? browserLocale : config.i18n.defaultLocale as Locale;
+}
+
+function flattenMessages(messages: Record<string, unknown>, prefix = '', result: Record<string, string> = {}): Record<string, string> {
+  Object.keys(messages).forEach((key) => {
+    const value = messages[key];
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (value && typeof value === 'object') {
+      flattenMessages(value as Record<string, unknown>, path, result);
+    } else {
+      result[path] = String(value);
+    }
+  });
+  return result;
+}
+
+// Argument names of an ICU message, sorted; throws when the message doesn't parse
+function getMessageArguments(message: string, locale: string): string[] {
+  const names: string[] = [];
+  const walk = (elements: any[]) => elements.forEach((element) => {
+    // Type 0 is literal text; every other element names an argument (or a tag)
+    if (element.type !== 0 && typeof element.value === 'string' && names.indexOf(element.value) === -1) {
+      names.push(element.value);
+    }
+    if (element.options) {
+      Object.keys(element.options).forEach((option) => walk(element.options[option].value));
+    }
+    if (element.children) {
+      walk(element.children);
+    }
+  });
+  walk(new IntlMessageFormat(message, locale).getAst());
+  return names.sort();
+}
+
+/**
+ * Checks every enabled locale before the server takes traffic: it must be
+ * registered, have a usable number and date format, and a catalog with every
+ * reference key whose messages parse and take the same arguments. Throws a
+ * LocaleValidationError listing everything that is wrong.
+ */
+export async function validateLocales(): Promise<void> {
+  const problems: string[] = [];
+  const enabled = config.i18n.locales;
+  const reference = flattenMessages(en);
+
+  if (enabled.indexOf(config.i18n.defaultLocale) === -1) {
+    problems.push(`Default locale "${config.i18n.defaultLocale}" is not in NEXT_PUBLIC_SUPPORTED_LOCALES`);
+  }
+  const codes = LOCALE_REGISTRY.map((locale) => locale.code as string);
+  codes.forEach((code, index) => {
+    if (codes.indexOf(code) !== index) problems.push(`"${code}" is registered twice in lib/locales.ts`);
+  });
+
+  for (let i = 0; i < enabled.length; i++) {
+    const code = enabled[i];
+    const entry = getLocaleConfig(code);
+    if (!entry) {
+      problems.push(`"${code}" is enabled but has no entry in lib/locales.ts`);
+      continue;
+    }
+    if (Intl.NumberFormat.supportedLocalesOf([entry.formatLocale]).length === 0) {
+      problems.push(`"${code}" formats with "${entry.formatLocale}", which this runtime does not support`);
+    }
+
+    let catalog: Record<string, string>;
+    try {
+      catalog = flattenMessages(await importCatalog(code));
+    } catch (error) {
+      problems.push(`"${code}" has no catalog at messages/${code}.json`);
+      continue;
+    }
+
+    const missing = Object.keys(reference).filter((key) => !(key in catalog));
+    if (missing.length > 0) {
+      const sample = missing.slice(0, 5).join(', ');
+      problems.push(`"${code}" is missing ${missing.length} message(s): ${sample}${missing.length > 5 ? ', ...' : ''}`);
+    }
+
+    Object.keys(catalog).forEach((key) => {
+      let args: string[];
+      try {
+        args = getMessageArguments(catalog[key], entry.formatLocale);
+      } catch (error) {
+        problems.push(`"${code}" message ${key} is not valid ICU: ${(error as Error).message}`);
+        return;
+      }
+      if (code !== REFERENCE_LOCALE && key in reference) {
+        const expected = getMessageArguments(reference[key], REFERENCE_LOCALE);
+        if (expected.join(',') !== args.join(',')) {
+          problems.push(`"${code}" message ${key} takes {${args.join(', ')}} instead of {${expected.join(', ')}}`);
+        }
+      }
+    });
+  }
+
+  if (problems.length > 0) {
+    throw new LocaleValidationError(problems);
+  }
+}
@@ -0,0 +1,461 @@
+import type { Browser } from 'puppeteer-core';
+import type { Order } from './api';
+import { config } from './config';
+import { resolveDataPath, updateJsonFile } from './file-store';
+import { getTranslator, Messages } from './i18n';
+import { getFormatLocale, getTextDirection, isRegisteredLocale, Locale, REFERENCE_LOCALE } from './locales';
+import { isMailerConfigured, MailMessage, sendMail } from './mailer';
+import { canIssueInvoice } from './order-returns';
+import { escapeHtml, formatPrice } from './utils';
+
+/**
+ * Invoices
+ * Tax invoices for orders in any registered locale, worded from the invoice
+ * messages and laid out right-to-left where the locale is. The invoice is an
+ * HTML document, printable as it is and turned into a PDF by a headless
+ * Chrome (puppeteer-core with PDF_BROWSER_PATH). Invoice numbers are
+ * allocated by the backend, which keeps the one sequence every instance
+ * shares and stores the number on the order, so a re-download or a resent
+ * email always shows the same number.
+ */
+
+export type InvoiceLocale = Locale;
+
+export function getInvoiceLocale(code: unknown): InvoiceLocale {
+  return typeof code === 'string' && isRegisteredLocale(code) ? code : REFERENCE_LOCALE;
+}
+
+export interface InvoiceLine {
+  title: string;
+  size?: string;
+  color?: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+}
+
+export interface InvoiceTotals {
+  subtotal: number;
+  discount: number;
+  shipping: number;
+  tax: number;
+  taxRate?: number;
+  taxInclusive: boolean;
+  total: number;
+  // False for orders stored without their pricing breakdown; only the total is known
+  itemized: boolean;
+}
+
+export interface Invoice {
+  number: string;
+  issuedAt: string;
+  order: Order;
+  lines: InvoiceLine[];
+  totals: InvoiceTotals;
+  currency: string;
+}
+
+export interface IssuedInvoiceNumber {
+  number: string;
+  issuedAt: string;
+}
+
+interface InvoiceRegistry {
+  lastSequence: number;
+  byOrder: Record<string, IssuedInvoiceNumber>;
+}
+
+export class InvoiceError extends Error {
+  code: string;
+  status: number;
+
+  constructor(code: string, message: string, status = 400) {
+    super(message);
+    this.name = 'InvoiceError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+// Checked by name because subclassed errors lose their prototype when compiled to ES5
+export function isInvoiceError(error: unknown): error is InvoiceError {
+  return !!error && typeof error === 'object' && (error as Error).name === 'InvoiceError';
+}
+
+const BACKEND_API_URL = process.env.BACKEND_API_URL || 'http://localhost:3000/api';
+const REGISTRY_FILE = resolveDataPath('invoices.json');
+
+function getInvoicePrefix(): string {
+  return process.env.INVOICE_PREFIX || 'INV';
+}
+
+type InvoiceOrder = Pick<Order, '_id' | 'status' | 'invoiceNumber'>;
+
+// Hands out the next number for an order, or the one it already has
+interface InvoiceNumberAllocator {
+  allocate(order: InvoiceOrder): Promise<IssuedInvoiceNumber>;
+}
+
+// The backend allocates under its own lock, so concurrent instances never share or skip a number
+const backendAllocator: InvoiceNumberAllocator = {
+  async allocate(order) {
+    const response = await fetch(`${BACKEND_API_URL}/v1/order/${encodeURIComponent(order._id)}/invoice-number`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(process.env.ORDER_SERVICE_API_KEY && { 'x-api-key': process.env.ORDER_SERVICE_API_KEY })
+      },
+      body: JSON.stringify({ prefix: getInvoicePrefix() }),
+      cache: 'no-store',
+    });
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      console.error('Backend response not ok:', response.status, response.statusText, errorText);
+      throw new InvoiceError('INVOICE_NUMBER_UNAVAILABLE', 'The invoice could not be numbered right now', 502);
+    }
+
+    const data = (await response.json())?.data;
+    if (!data?.invoiceNumber) {
+      throw new InvoiceError('INVOICE_NUMBER_UNAVAILABLE', 'The invoice could not be numbered right now', 502);
+    }
+    return { number: data.invoiceNumber, issuedAt: data.invoiceIssuedAt || new Date().toISOString() };
+  },
+};
+
+// Development without a backend: one process, so the file's write queue is lock enough
+const fileAllocator: InvoiceNumberAllocator = {
+  async allocate(order) {
+    const registry = await updateJsonFile<InvoiceRegistry>(REGISTRY_FILE, { lastSequence: 0, byOrder: {} }, (current) => {
+      if (current.byOrder[order._id]) return current;
+
+      const sequence = current.lastSequence + 1;
+      const issuedAt = new Date();
+      current.lastSequence = sequence;
+      current.byOrder[order._id] = {
+        number: `${getInvoicePrefix()}-${issuedAt.getUTCFullYear()}-${String(sequence).padStart(6, '0')}`,
+        issuedAt: issuedAt.toISOString(),
+      };
+      return current;
+    });
+
+    return registry.byOrder[order._id];
+  },
+};
+
+function getInvoiceNumberAllocator(): InvoiceNumberAllocator {
+  return process.env.INVOICE_NUMBER_STORE === 'file' && process.env.NODE_ENV !== 'production'
+    ? fileAllocator
+    : backendAllocator;
+}
+
+/**
+ * The order's invoice number, allocated on first use. Numbers the backend
+ * already stored on the order are kept as they are.
+ */
+export async function assignInvoiceNumber(
+  order: InvoiceOrder & Pick<Order, 'invoiceIssuedAt' | 'createdAt'>
+): Promise<IssuedInvoiceNumber> {
+  if (order.invoiceNumber) {
+    return { number: order.invoiceNumber, issuedAt: order.invoiceIssuedAt || order.createdAt };
+  }
+  if (!canIssueInvoice(order)) {
+    throw new InvoiceError('ORDER_NOT_INVOICEABLE', 'An invoice is issued once the order is confirmed', 409);
+  }
+
+  return getInvoiceNumberAllocator().allocate(order);
+}
+
+function getInvoiceLines(order: Order): InvoiceLine[] {
+  if (order.pricing && order.pricing.lines.length > 0) {
+    return order.pricing.lines.map((line) => ({
+      title: line.title || order.productName,
+      size: line.size,
+      color: line.color,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      total: line.total,
+    }));
+  }
+
+  if (order.items && order.items.length > 0) {
+    return order.items.map((item) => ({
+      title: item.title,
+      size: item.size,
+      color: item.color,
+      quantity: item.quantity,
+      unitPrice: item.price,
+      total: item.price * item.quantity,
+    }));
+  }
+
+  return [{ title: order.productName, quantity: 1, unitPrice: order.totalAmount, total: order.totalAmount }];
+}
+
+function getInvoiceTotals(order: Order, lines: InvoiceLine[]): InvoiceTotals {
+  const pricing = order.pricing;
+  if (pricing) {
+    return {
+      subtotal: pricing.subtotal,
+      discount: pricing.discount,
+      shipping: pricing.shipping.amount,
+      tax: pricing.tax.amount,
+      taxRate: pricing.tax.rate,
+      taxInclusive: pricing.tax.mode === 'inclusive',
+      total: order.totalAmount,
+      itemized: true,
+    };
+  }
+
+  return {
+    subtotal: lines.reduce((sum, line) => sum + line.total, 0),
+    discount: 0,
+    shipping: 0,
+    tax: 0,
+    taxInclusive: true,
+    total: order.totalAmount,
+    itemized: false,
+  };
+}
+
+export async function createInvoice(order: Order): Promise<Invoice> {
+  const { number, issuedAt } = await assignInvoiceNumber(order);
+  const lines = getInvoiceLines(order);
+
+  return {
+    number,
+    issuedAt,
+    order,
+    lines,
+    totals: getInvoiceTotals(order, lines),
+    currency: order.pricing?.currency || order.currency,
+  };
+}
+
+// Rendering
+// Script-specific faces ahead of the Latin stack
+const FONT_STACKS: Partial<Record<InvoiceLocale, string>> = {
+  ar: "'Noto Sans Arabic', Tahoma, ",
+};
+
+function formatDate(value: string, locale: InvoiceLocale): string {
+  return new Date(value).toLocaleDateString(getFormatLocale(locale), {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+}
+
+export function getInvoiceFilename(invoice: Pick<Invoice, 'number'>): string {
+  return `${invoice.number}.pdf`;
+}
+
+export async function renderInvoiceHtml(invoice: Invoice, locale: InvoiceLocale = REFERENCE_LOCALE): Promise<string> {
+  const translate = await getTranslator(locale);
+  const t = (key: keyof Messages['invoice']['document']) => translate(`invoice.document.${key}`);
+  const { order, totals, currency } = invoice;
+  const money = (amount: number) => escapeHtml(formatPrice(amount, currency));
+  const shipping = order.shippingInfo;
+  const payment = order.paymentMethod === 'cash' || order.paymentMethod === 'card'
+    ? translate(`invoice.paymentMethods.${order.paymentMethod}`)
+    : order.paymentMethod;
+
+  const rows = invoice.lines.map((line) => {
+    const variant = [
+      line.size && `${t('size')}: ${line.size}`,
+      line.color && `${t('color')}: ${line.color}`,
+    ].filter(Boolean).join(' · ');
+
+    return `<tr>
+        <td>${escapeHtml(line.title)}${variant ? `<div class="muted">${escapeHtml(variant)}</div>` : ''}</td>
+        <td class="num">${line.quantity}</td>
+        <td class="num">${money(line.unitPrice)}</td>
+        <td class="num">${money(line.total)}</td>
+      </tr>`;
+  }).join('');
+
+  const taxLabel = totals.taxRate !== undefined
+    ? `${totals.taxInclusive ? t('taxIncluded') : t('tax')} (${Math.round(totals.taxRate * 10000) / 100}%)`
+    : t('tax');
+
+  const summary = totals.itemized
+    ? `<tr><td>${t('subtotal')}</td><td class="num">${money(totals.subtotal)}</td></tr>
+      ${totals.discount > 0 ? `<tr><td>${t('discount')}${order.couponCode ? ` (${t('coupon')} ${escapeHtml(order.couponCode)})` : ''}</td><td class="num">-${money(totals.discount)}</td></tr>` : ''}
+      <tr><td>${t('shipping')}</td><td class="num">${totals.shipping > 0 ? money(totals.shipping) : t('free')}</td></tr>
+      <tr><td>${escapeHtml(taxLabel)}</td><td class="num">${money(totals.tax)}</td></tr>`
+    : `<tr><td colspan="2" class="muted">${t('totalNote')}</td></tr>`;
+
+  return `<!DOCTYPE html>
+<html lang="${locale}" dir="${getTextDirection(locale)}">
+<head>
+<meta charset="utf-8">
+<title>${t('title')} ${escapeHtml(invoice.number)}</title>
+<style>
+  @page { size: A4; margin: 18mm 16mm; }
+  * { box-sizing: border-box; }
+  body { margin: 0; color: #111; font: 13px/1.5 ${FONT_STACKS[locale] || ''}'Helvetica Neue', Arial, sans-serif; }
+  h1 { font-size: 24px; margin: 0 0 4px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { padding: 8px 6px; text-align: start; vertical-align: top; }
+  .items th { border-bottom: 2px solid #111; font-size: 12px; text-transform: uppercase; }
+  .items td { border-bottom: 1px solid #e5e5e5; }
+  .num { text-align: end; white-space: nowrap; }
+  .muted { color: #666; font-size: 12px; }
+  .header { display: flex; justify-content: space-between; gap: 24px; margin-bottom: 28px; }
+  .parties { display: flex; justify-content: space-between; gap: 24px; margin-bottom: 24px; }
+  .parties > div { flex: 1; }
+  .label { color: #666; font-size: 11px; text-transform: uppercase; margin-bottom: 4px; }
+  .summary { width: 50%; margin-inline-start: auto; margin-top: 16px; }
+  .summary .total td { border-top: 2px solid #111; font-size: 16px; font-weight: bold; }
+  .footer { margin-top: 36px; color: #666; font-size: 12px; }
+  @media print { .no-print { display: none; } }
+</style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <h1>${escapeHtml(config.business.name)}</h1>
+      <div>${escapeHtml(config.business.address)}</div>
+      <div>${escapeHtml(config.business.phone)} · ${escapeHtml(config.business.email)}</div>
+      ${config.business.taxId ? `<div>${t('taxId')}: ${escapeHtml(config.business.taxId)}</div>` : ''}
+    </div>
+    <div>
+      <h1>${t('title')}</h1>
+      <table>
+        <tr><td class="muted">${t('invoiceNumber')}</td><td>${escapeHtml(invoice.number)}</td></tr>
+        <tr><td class="muted">${t('issued')}</td><td>${formatDate(invoice.issuedAt, locale)}</td></tr>
+        <tr><td class="muted">${t('order')}</td><td>#${escapeHtml(order._id.slice(-8))}</td></tr>
+        <tr><td class="muted">${t('orderDate')}</td><td>${formatDate(order.createdAt, locale)}</td></tr>
+      </table>
+    </div>
+  </div>
+
+  <div class="parties">
+    <div>
+      <div class="label">${t('billTo')}</div>
+      ${shipping ? `<div>${escapeHtml(`${shipping.firstName} ${shipping.lastName}`)}</div>
+      <div>${escapeHtml(shipping.address)}</div>
+      <div>${escapeHtml(shipping.city)}${shipping.postalCode ? ` ${escapeHtml(shipping.postalCode)}` : ''}</div>
+      <div>${escapeHtml(shipping.email)}</div>
+      <div>${escapeHtml(shipping.phone)}</div>` : ''}
+    </div>
+    <div>
+      <div class="label">${t('payment')}</div>
+      <div>${escapeHtml(payment)}</div>
+      ${order.paidAt ? `<div class="muted">${t('paid')} ${formatDate(order.paidAt, locale)}</div>` : ''}
+    </div>
+  </div>
+
+  <table class="items">
+    <thead>
+      <tr><th>${t('item')}</th><th class="num">${t('quantity')}</th><th class="num">${t('unitPrice')}</th><th class="num">${t('amount')}</th></tr>
+    </thead>
+    <tbody>${rows}</tbody>
+  </table>
+
+  <table class="summary">
+    ${summary}
+    <tr class="total"><td>${t('total')}</td><td class="num">${money(totals.total)}</td></tr>
+  </table>
+
+  <div class="footer">${t('thanks')} ${escapeHtml(config.site.url)}</div>
+</body>
+</html>`;
+}
+
+// PDF rendering through one shared headless browser, started on first use
+let browserPromise: Promise<Browser> | null = null;
+
+export function isPdfRendererConfigured(): boolean {
+  return Boolean(process.env.PDF_BROWSER_PATH);
+}
+
+async function getBrowser(): Promise<Browser> {
+  if (!isPdfRendererConfigured()) {
+    throw new InvoiceError('PDF_UNAVAILABLE', 'PDF invoices are not available right now', 503);
+  }
+
+  if (!browserPromise) {
+    browserPromise = import('puppeteer-core').then(async ({ default: puppeteer }) => {
+      const browser = await puppeteer.launch({
+        executablePath: process.env.PDF_BROWSER_PATH,
+        headless: true,
+        args: ['--no-sandbox', '--disable-dev-shm-usage', '--font-render-hinting=none'],
+      });
+      // A crashed browser is replaced on the next request
+      browser.on('disconnected', () => {
+        browserPromise = null;
+      });
+      return browser;
+    });
+    browserPromise.catch(() => {
+      browserPromise = null;
+    });
+  }
+
+  return browserPromise;
+}
+
+export async function renderInvoicePdf(invoice: Invoice, locale: InvoiceLocale = REFERENCE_LOCALE): Promise<Buffer> {
+  const browser = await getBrowser();
+  const page = await browser.newPage();
+
+  try {
+    // Invoices never load anything from the network
+    await page.setJavaScriptEnabled(false);
+    await page.setContent(await renderInvoiceHtml(invoice, locale), { waitUntil: 'load' });
+    const pdf = await page.pdf({ format: 'A4', printBackground: true, preferCSSPageSize: true });
+    return Buffer.from(pdf);
+  } finally {
+    await page.close().catch(() => undefined);
+  }
+}
+
+export async function getInvoiceAttachment(order: Order, locale: InvoiceLocale = REFERENCE_LOCALE): Promise<NonNullable<MailMessage['attachments']>[number]> {
+  const invoice = await createInvoice(order);
+  return {
+    filename: getInvoiceFilename(invoice),
+    content: await renderInvoicePdf(invoice, locale),
+    contentType: 'application/pdf',
+  };
+}
+
+/**
+ * Order confirmation email to the address on the order. The PDF invoice is
+ * attached when the order can be invoiced and PDFs can be rendered; the email
+ * still goes out without it otherwise.
+ */
+export async function sendOrderConfirmationEmail(order: Order, locale: InvoiceLocale = REFERENCE_LOCALE): Promise<boolean> {
+  const email = order.shippingInfo?.email;
+  if (!isMailerConfigured() || !email) return false;
+
+  const t = await getTranslator(locale);
+  const orderUrl = `${config.site.url}/${locale}/orders/${encodeURIComponent(order._id)}`;
+  const orderNumber = order._id.slice(-8);
+  const total = formatPrice(order.totalAmount, order.currency);
+
+  let attachments: MailMessage['attachments'];
+  if (canIssueInvoice(order) && isPdfRendererConfigured()) {
+    try {
+      attachments = [await getInvoiceAttachment(order, locale)];
+    } catch (error) {
+      console.error(`Invoice for order ${order._id} could not be attached:`, error);
+    }
+  }
+
+  const intro = t('invoice.email.intro', { business: config.business.name, orderNumber, total });
+  const invoiceNote = attachments ? t('invoice.email.invoiceAttached') : '';
+  const action = t('invoice.email.action');
+
+  await sendMail({
+    to: email,
+    subject: t('invoice.email.subject', { orderNumber }),
+    text: [intro, invoiceNote, `${action}: ${orderUrl}`].filter(Boolean).join('\n\n'),
+    html: `<div dir="${getTextDirection(locale)}" style="font-family:sans-serif">
+  <p>${escapeHtml(intro)}</p>
+  ${invoiceNote ? `<p>${escapeHtml(invoiceNote)}</p>` : ''}
+  <p><a href="${escapeHtml(orderUrl)}" style="display:inline-block;padding:12px 24px;background:#000;color:#fff;border-radius:24px;text-decoration:none">${escapeHtml(action)}</a></p>
+</div>`,
+    attachments,
+  });
+  return true;
+}
@@ -0,0 +1,125 @@
+import type { LocaleConfig } from '@/types';
+
+/**
+ * Locale Registry
+ * Every language the storefront can be served in. Adding a language takes an
+ * entry here and its catalog at messages/<code>.json; routing, hreflang, the
+ * sitemap, the language switcher, text direction and number and date
+ * formatting all follow this list. NEXT_PUBLIC_SUPPORTED_LOCALES can narrow
+ * the enabled set per deployment, and validateLocales (lib/i18n) refuses to
+ * start the server when an enabled locale is incomplete.
+ */
+
+export const LOCALE_REGISTRY = [
+  {
+    code: 'en',
+    name: 'English',
+    nativeName: 'English',
+    direction: 'ltr',
+    flag: '🇺🇸',
+    hreflang: 'en-US',
+    formatLocale: 'en-US',
+  },
+  {
+    code: 'ar',
+    name: 'Arabic',
+    nativeName: 'العربية',
+    direction: 'rtl',
+    flag: '🇸🇦',
+    hreflang: 'ar-SA',
+    formatLocale: 'ar-EG',
+  },
+] as const satisfies readonly LocaleConfig[];
+
+export type Locale = (typeof LOCALE_REGISTRY)[number]['code'];
+
+// The catalog every other locale is checked against
+export const REFERENCE_LOCALE: Locale = 'en';
+
+// Product data, emails, invoices and push payloads are authored in these languages only
+export type ContentLocale = 'en' | 'ar';
+export const CONTENT_LOCALES: ContentLocale[] = ['en', 'ar'];
+
+export function isContentLocale(code: unknown): code is ContentLocale {
+  return CONTENT_LOCALES.indexOf(code as ContentLocale) !== -1;
+}
+
+// The language to request authored content in; other locales read it in English
+export function getContentLocale(code: unknown): ContentLocale {
+  return isContentLocale(code) ? code : 'en';
+}
+
+export function getLocaleConfig(code: string): LocaleConfig | undefined {
+  return (LOCALE_REGISTRY as readonly LocaleConfig[]).find((locale) => locale.code === code);
+}
+
+export function isRegisteredLocale(code: string): code is Locale {
+  return !!getLocaleConfig(code);
+}
+
+export function isRTLLocale(code: string): boolean {
+  return getLocaleConfig(code)?.direction === 'rtl';
+}
+
+export function getTextDirection(code: string): 'ltr' | 'rtl' {
+  return isRTLLocale(code) ? 'rtl' : 'ltr';
+}
+
+export function getHreflang(code: string): string {
+  return getLocaleConfig(code)?.hreflang || code;
+}
+
+// Open Graph spells the region with an underscore, e.g. ar_SA
+export function getOpenGraphLocale(code: string): string {
+  return getHreflang(code).replace('-', '_');
+}
+
+export function getFormatLocale(code: string): string {
+  return getLocaleConfig(code)?.formatLocale || code;
+}
+
+/**
+ * Parses a comma-separated locale list (NEXT_PUBLIC_SUPPORTED_LOCALES).
+ * Unknown codes are kept so validateLocales can name them; without a list
+ * every registered locale is enabled.
+ */
+export function parseEnabledLocales(list?: string): string[] {
+  const codes = (list || '')
+    .split(',')
+    .map((code) => code.trim())
+    .filter(Boolean);
+  return codes.length > 0 ? codes : LOCALE_REGISTRY.map((locale) => locale.code);
+}
+
+/**
+ * Picks the best enabled locale for an Accept-Language header, honouring
+ * q-values. A regional preference (fr-CA) matches its language (fr), and a
+ * registry hreflang (ar-SA) matches its locale.
+ */
+export function negotiateLocale(acceptLanguage: string | null, available: string[]): string | null {
+  if (!acceptLanguage) return null;
+
+  const preferences = acceptLanguage
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';');
+      const quality = params
+        .map((param) => param.trim())
+        .filter((param) => param.indexOf('q=') === 0)
+        .map((param) => parseFloat(param.slice(2)))[0];
+      return { tag: tag.toLowerCase(), quality: quality === undefined || isNaN(quality) ? 1 : quality, index };
+    })
+    .filter((preference) => preference.tag && preference.tag !== '*' && preference.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  for (let i = 0; i < preferences.length; i++) {
+    const tag = preferences[i].tag;
+    const exact = available.find((code) => code.toLowerCase() === tag || getHreflang(code).toLowerCase() === tag);
+    if (exact) return exact;
+
+    const language = tag.split('-')[0];
+    const base = available.find((code) => code.toLowerCase().split('-')[0] === language);
+    if (base) return base;
+  }
+  return null;
+}
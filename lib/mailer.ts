@@ -0,0 +1,59 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { config } from './config';
+
+/**
+ * Mailer
+ * Lazily created SMTP transport shared by server-side features
+ */
+
+export interface MailMessage {
+  to: string | string[];
+  subject: string;
+  text: string;
+  html?: string;
+  replyTo?: string;
+  from?: string;
+  attachments?: Array<{
+    filename: string;
+    content: Buffer | string;
+    contentType?: string;
+  }>;
+}
+
+let transporter: Transporter | null = null;
+
+export function isMailerConfigured(): boolean {
+  return Boolean(process.env.SMTP_HOST);
+}
+
+function getTransporter(): Transporter {
+  if (!transporter) {
+    if (!isMailerConfigured()) {
+      throw new Error('SMTP is not configured (SMTP_HOST is missing)');
+    }
+
+    const port = parseInt(process.env.SMTP_PORT || '587');
+    transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined,
+    });
+  }
+
+  return transporter;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getTransporter().sendMail({
+    from: message.from || process.env.SMTP_FROM || `${config.business.name} <${config.business.email}>`,
+    to: message.to,
+    subject: message.subject,
+    text: message.text,
+    html: message.html,
+    replyTo: message.replyTo,
+    attachments: message.attachments,
+  });
+}
@@ -0,0 +1,172 @@
+/**
+ * Notification Templates
+ * Title, body, icon and actions of each notification type, shared by the
+ * browser's push manager and the server jobs that send pushes themselves.
+ * {placeholders} in the title and body are filled from the notification data.
+ */
+
+export type NotificationType = 
+  | 'order-confirmed'
+  | 'order-shipped'
+  | 'order-delivered'
+  | 'order-cancelled'
+  | 'refund-status'
+  | 'promotion'
+  | 'new-product'
+  | 'price-drop'
+  | 'back-in-stock'
+  | 'cart-reminder'
+  | 'review-request'
+  | 'welcome'
+  | 'general';
+
+export interface NotificationTemplate {
+  type: NotificationType;
+  title: string;
+  body: string;
+  icon?: string;
+  actions?: Array<{
+    action: string;
+    title: string;
+    icon?: string;
+  }>;
+  requireInteraction?: boolean;
+  vibrate?: number[];
+}
+
+export const NOTIFICATION_TEMPLATES: NotificationTemplate[] = [
+  {
+    type: 'order-confirmed',
+    title: 'Order Confirmed! 🎉',
+    body: 'Your order #{orderId} has been confirmed and is being processed.',
+    icon: '/icons/order-confirmed.png',
+    actions: [
+      { action: 'view-order', title: 'View Order', icon: '/icons/view.png' },
+      { action: 'track-order', title: 'Track Order', icon: '/icons/track.png' }
+    ],
+    requireInteraction: true,
+    vibrate: [200, 100, 200]
+  },
+  {
+    type: 'order-shipped',
+    title: 'Order Shipped! 📦',
+    body: 'Your order #{orderId} is on its way! Track your package for updates.',
+    icon: '/icons/shipped.png',
+    actions: [
+      { action: 'track-order', title: 'Track Package', icon: '/icons/track.png' }
+    ],
+    vibrate: [200, 100, 200]
+  },
+  {
+    type: 'order-delivered',
+    title: 'Order Delivered! ✅',
+    body: 'Your order #{orderId} has been delivered. Enjoy your purchase!',
+    icon: '/icons/delivered.png',
+    actions: [
+      { action: 'rate-order', title: 'Rate Order', icon: '/icons/star.png' },
+      { action: 'view-order', title: 'View Order', icon: '/icons/view.png' }
+    ],
+    requireInteraction: true,
+    vibrate: [200, 100, 200, 100, 200]
+  },
+  {
+    type: 'order-cancelled',
+    title: 'Order Cancelled',
+    body: 'Your order #{orderId} has been cancelled. Any payment will be refunded.',
+    icon: '/icons/icon-192x192.png',
+    actions: [
+      { action: 'view-order', title: 'View Order', icon: '/icons/view.png' }
+    ]
+  },
+  {
+    type: 'refund-status',
+    title: 'Return Update',
+    body: 'There is an update on your return for order #{orderId}.',
+    icon: '/icons/icon-192x192.png',
+    actions: [
+      { action: 'view-order', title: 'View Order', icon: '/icons/view.png' }
+    ]
+  },
+  {
+    type: 'promotion',
+    title: 'Special Offer! 🔥',
+    body: 'Don\'t miss out on our latest deals and promotions!',
+    icon: '/icons/promotion.png',
+    actions: [
+      { action: 'view-deals', title: 'View Deals', icon: '/icons/shopping.png' }
+    ],
+    vibrate: [100, 50, 100]
+  },
+  {
+    type: 'new-product',
+    title: 'New Arrival! ✨',
+    body: 'Check out our latest products just added to the store.',
+    icon: '/icons/new-product.png',
+    actions: [
+      { action: 'view-product', title: 'View Product', icon: '/icons/view.png' }
+    ]
+  },
+  {
+    type: 'price-drop',
+    title: 'Price Drop Alert! 💰',
+    body: 'The item in your wishlist is now on sale!',
+    icon: '/icons/price-drop.png',
+    actions: [
+      { action: 'view-product', title: 'View Product', icon: '/icons/view.png' },
+      { action: 'add-to-cart', title: 'Add to Cart', icon: '/icons/cart.png' }
+    ],
+    requireInteraction: true,
+    vibrate: [200, 100, 200]
+  },
+  {
+    type: 'back-in-stock',
+    title: 'Back in Stock! 📦',
+    body: 'The item you were waiting for is now available!',
+    icon: '/icons/in-stock.png',
+    actions: [
+      { action: 'view-product', title: 'View Product', icon: '/icons/view.png' },
+      { action: 'add-to-cart', title: 'Add to Cart', icon: '/icons/cart.png' }
+    ],
+    requireInteraction: true,
+    vibrate: [200, 100, 200]
+  },
+  {
+    type: 'cart-reminder',
+    title: 'Don\'t Forget Your Cart! 🛒',
+    body: 'You have items waiting in your cart. Complete your purchase now!',
+    icon: '/icons/cart-reminder.png',
+    actions: [
+      { action: 'view-cart', title: 'View Cart', icon: '/icons/cart.png' },
+      { action: 'checkout', title: 'Checkout', icon: '/icons/checkout.png' }
+    ]
+  },
+  {
+    type: 'review-request',
+    title: 'How was your experience? ⭐',
+    body: 'We\'d love to hear about your recent purchase!',
+    icon: '/icons/review.png',
+    actions: [
+      { action: 'write-review', title: 'Write Review', icon: '/icons/star.png' }
+    ]
+  },
+  {
+    type: 'welcome',
+    title: 'Welcome to Our Store! 👋',
+    body: 'Thanks for enabling notifications. We\'ll keep you updated on your orders and special offers.',
+    icon: '/icons/welcome.png',
+    actions: [
+      { action: 'browse-products', title: 'Browse Products', icon: '/icons/shopping.png' }
+    ],
+    vibrate: [200, 100, 200]
+  }
+];
+
+export function getNotificationTemplate(type: NotificationType): NotificationTemplate | undefined {
+  return NOTIFICATION_TEMPLATES.filter((template) => template.type === type)[0];
+}
+
+export function fillTemplate(text: string, data: Record<string, any>): string {
+  return text.replace(/\{(\w+)\}/g, (match, key) => {
+    return data[key] || match;
+  });
+}
@@ -0,0 +1,155 @@
+import { createHash, createHmac } from 'crypto';
+import { config } from './config';
+import { safeEqual } from './timing-safe';
+import { escapeHtml } from './utils';
+
+/**
+ * Mock OIDC Provider
+ * A minimal authorization server under /api/v1/auth/oauth/mock-idp so the
+ * social sign-in flow can be exercised offline. It asks for an email on a
+ * plain form, issues a short-lived code bound to the PKCE challenge and
+ * redirect URI, and trades it for an ID token. Codes are signed rather than
+ * stored, so nothing is kept between requests. Never enabled in production.
+ */
+
+export const MOCK_IDP_ISSUER = `${config.site.url}/api/v1/auth/oauth/mock-idp`;
+export const MOCK_IDP_CLIENT_ID = 'logen-mock-client';
+
+const MOCK_CODE_TTL = 60 * 1000;
+const MOCK_TOKEN_TTL = 60 * 60;
+const MOCK_IDP_SECRET = process.env.OAUTH_MOCK_SECRET || 'logen-mock-idp';
+
+export function isMockIdpEnabled(): boolean {
+  return process.env.OAUTH_MOCK_PROVIDER === 'true' && process.env.NODE_ENV !== 'production';
+}
+
+export interface MockAuthorizationRequest {
+  clientId: string;
+  redirectUri: string;
+  state: string;
+  codeChallenge: string;
+  nonce?: string;
+}
+
+interface MockCodePayload {
+  c: string; // client id
+  r: string; // redirect uri
+  p: string; // PKCE challenge
+  n?: string; // nonce
+  e: string; // email
+  u: string; // display name
+  x: number; // expiry (ms)
+}
+
+function encode(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', MOCK_IDP_SECRET).update(payload).digest('base64url');
+}
+
+// The sign-in form a real provider would show; every field is echoed back as a hidden input
+export function renderMockAuthorizePage(request: MockAuthorizationRequest): string {
+  const hidden = [
+    ['client_id', request.clientId],
+    ['redirect_uri', request.redirectUri],
+    ['state', request.state],
+    ['code_challenge', request.codeChallenge],
+    ['code_challenge_method', 'S256'],
+    ['nonce', request.nonce || ''],
+  ]
+    .map(([name, value]) => `<input type="hidden" name="${name}" value="${escapeHtml(value)}">`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="utf-8"><title>Mock sign-in</title><meta name="robots" content="noindex"></head>
+<body style="font-family:system-ui,sans-serif;max-width:360px;margin:80px auto;padding:0 16px">
+<h1 style="font-size:20px">Mock identity provider</h1>
+<p style="color:#555;font-size:14px">Development only. Choose who to sign in as.</p>
+<form method="post" style="display:grid;gap:12px">
+${hidden}
+<label>Email <input name="email" type="email" value="shopper@example.com" required style="width:100%"></label>
+<label>Name <input name="name" value="Test Shopper" style="width:100%"></label>
+<label><input name="email_verified" type="checkbox" value="true" checked> Email verified</label>
+<button name="decision" value="allow" type="submit">Continue</button>
+<button name="decision" value="deny" type="submit">Cancel</button>
+</form>
+</body>
+</html>`;
+}
+
+export function issueMockCode(
+  request: MockAuthorizationRequest,
+  identity: { email: string; name: string; emailVerified: boolean }
+): string {
+  const payload: MockCodePayload & { v: boolean } = {
+    c: request.clientId,
+    r: request.redirectUri,
+    p: request.codeChallenge,
+    n: request.nonce || undefined,
+    e: identity.email,
+    u: identity.name,
+    v: identity.emailVerified,
+    x: Date.now() + MOCK_CODE_TTL,
+  };
+  const encoded = encode(payload);
+  return `${encoded}.${sign(encoded)}`;
+}
+
+export class MockIdpError extends Error {
+  constructor(public code: 'invalid_request' | 'invalid_grant' | 'invalid_client', message: string) {
+    super(message);
+    this.name = 'MockIdpError';
+  }
+}
+
+export function isMockIdpError(error: unknown): error is MockIdpError {
+  return error instanceof Error && error.name === 'MockIdpError';
+}
+
+// Token endpoint: checks the code, its client and redirect URI, and the PKCE verifier
+export function exchangeMockCode(params: {
+  code: string;
+  codeVerifier: string;
+  clientId: string;
+  redirectUri: string;
+}) {
+  const [encoded, signature] = params.code.split('.');
+  if (!encoded || !signature) throw new MockIdpError('invalid_grant', 'Malformed code');
+
+  if (!safeEqual(sign(encoded), signature)) {
+    throw new MockIdpError('invalid_grant', 'Invalid code');
+  }
+
+  const payload: MockCodePayload & { v: boolean } = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  if (payload.x < Date.now()) throw new MockIdpError('invalid_grant', 'Code expired');
+  if (payload.c !== params.clientId) throw new MockIdpError('invalid_client', 'Code was issued to another client');
+  if (payload.r !== params.redirectUri) throw new MockIdpError('invalid_grant', 'Redirect URI mismatch');
+
+  const challenge = createHash('sha256').update(params.codeVerifier).digest('base64url');
+  if (challenge !== payload.p) throw new MockIdpError('invalid_grant', 'PKCE verification failed');
+
+  const now = Math.floor(Date.now() / 1000);
+  const claims = {
+    iss: MOCK_IDP_ISSUER,
+    aud: payload.c,
+    sub: `mock|${createHash('sha256').update(payload.e).digest('hex').slice(0, 16)}`,
+    email: payload.e,
+    email_verified: payload.v,
+    name: payload.u,
+    iat: now,
+    exp: now + MOCK_TOKEN_TTL,
+    ...(payload.n && { nonce: payload.n }),
+  };
+  const header = encode({ alg: 'HS256', typ: 'JWT' });
+  const body = encode(claims);
+
+  return {
+    access_token: encode({ sub: claims.sub, exp: claims.exp }),
+    id_token: `${header}.${body}.${sign(`${header}.${body}`)}`,
+    token_type: 'Bearer',
+    expires_in: MOCK_TOKEN_TTL,
+  };
+}
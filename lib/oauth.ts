@@ -0,0 +1,457 @@
+import { createHash, createSign, randomBytes } from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+import type { User } from './api';
+import { config } from './config';
+import { isMockIdpEnabled, MOCK_IDP_CLIENT_ID, MOCK_IDP_ISSUER } from './oauth-mock-idp';
+import type { SessionTokens } from './session';
+import { safeEqual } from './timing-safe';
+
+/**
+ * OAuth Sign-in
+ * Social sign-in through /api/v1/auth/oauth/[provider]: the start route sends
+ * the browser to the provider with a PKCE challenge, and the callback trades
+ * the code for the provider's profile. The backend then signs the shopper in,
+ * creating the account or linking the provider to an existing account with
+ * the same verified email. Providers live in a registry; registerOAuthProvider
+ * adds more, and only those with credentials configured are offered.
+ */
+
+const BACKEND_API_URL = process.env.BACKEND_API_URL || 'http://localhost:3000/api';
+
+export const OAUTH_COOKIE = 'logen_oauth';
+const OAUTH_COOKIE_PATH = '/api/v1/auth/oauth';
+// Time the shopper has to finish on the provider's side
+const OAUTH_FLOW_TTL = 10 * 60;
+
+export interface OAuthTokens {
+  access_token: string;
+  id_token?: string;
+  token_type?: string;
+  expires_in?: number;
+}
+
+export interface OAuthProfile {
+  provider: string;
+  providerUserId: string;
+  email: string | null;
+  emailVerified: boolean;
+  name?: string;
+  picture?: string;
+}
+
+export interface OAuthProvider {
+  id: string;
+  name: string;
+  authorizationUrl: string;
+  tokenUrl: string;
+  scopes: string[];
+  clientId: string;
+  // A function because some secrets (Apple's) are short-lived signed tokens
+  getClientSecret?: () => string;
+  // 'form_post' providers return with a cross-site POST, which the callback turns into a GET
+  responseMode?: 'query' | 'form_post';
+  // OIDC providers get a nonce that must come back in the ID token
+  usesNonce?: boolean;
+  authorizationParams?: Record<string, string>;
+  isConfigured: () => boolean;
+  // Reads the profile from the token response; callbackParams holds whatever else the provider sent back
+  getProfile: (tokens: OAuthTokens, context: { nonce: string; callbackParams: URLSearchParams }) => Promise<OAuthProfile>;
+}
+
+export type OAuthErrorCode =
+  | 'UNKNOWN_PROVIDER'
+  | 'INVALID_STATE'
+  | 'ACCESS_DENIED'
+  | 'TOKEN_EXCHANGE_FAILED'
+  | 'INVALID_ID_TOKEN'
+  | 'EMAIL_REQUIRED'
+  | 'ACCOUNT_EXISTS'
+  | 'PROVIDER_LINKED'
+  | 'SESSION_REQUIRED'
+  | 'BACKEND_ERROR';
+
+export class OAuthError extends Error {
+  constructor(public code: OAuthErrorCode, message: string, public status: number) {
+    super(message);
+    this.name = 'OAuthError';
+  }
+}
+
+export function isOAuthError(error: unknown): error is OAuthError {
+  return error instanceof Error && error.name === 'OAuthError';
+}
+
+// Registry
+const providers: Record<string, OAuthProvider> = {};
+
+export function registerOAuthProvider(provider: OAuthProvider): void {
+  providers[provider.id] = provider;
+}
+
+// Only providers with credentials; unknown and unconfigured ids both give null
+export function getOAuthProvider(id: string): OAuthProvider | null {
+  const provider = Object.prototype.hasOwnProperty.call(providers, id) ? providers[id] : null;
+  return provider && provider.isConfigured() ? provider : null;
+}
+
+export function listOAuthProviders(): Array<{ id: string; name: string }> {
+  return Object.keys(providers)
+    .map((id) => providers[id])
+    .filter((provider) => provider.isConfigured())
+    .map((provider) => ({ id: provider.id, name: provider.name }));
+}
+
+export function getRedirectUri(provider: OAuthProvider): string {
+  return `${config.site.url}/api/v1/auth/oauth/${provider.id}/callback`;
+}
+
+// ID tokens
+function decodeJwtPayload(token: string): Record<string, any> | null {
+  try {
+    const payload = token.split('.')[1];
+    return payload ? JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Reads the claims of an ID token received straight from the token endpoint.
+ * The TLS connection to the provider stands in for the signature check (OIDC
+ * Core 3.1.3.7); issuer, audience, expiry and nonce are still verified.
+ */
+function readIdToken(
+  tokens: OAuthTokens,
+  expected: { issuers: string[]; audience: string; nonce: string }
+): Record<string, any> {
+  const claims = tokens.id_token ? decodeJwtPayload(tokens.id_token) : null;
+  const audiences = Array.isArray(claims?.aud) ? claims!.aud : [claims?.aud];
+
+  if (
+    !claims ||
+    typeof claims.sub !== 'string' ||
+    expected.issuers.indexOf(claims.iss) === -1 ||
+    audiences.indexOf(expected.audience) === -1 ||
+    typeof claims.exp !== 'number' || claims.exp * 1000 < Date.now() ||
+    claims.nonce !== expected.nonce
+  ) {
+    throw new OAuthError('INVALID_ID_TOKEN', 'The provider returned an invalid ID token', 400);
+  }
+  return claims;
+}
+
+// Some providers send booleans as strings
+function isTrue(value: unknown): boolean {
+  return value === true || value === 'true';
+}
+
+// Apple's client secret is a JWT signed with the team's private key
+function createAppleClientSecret(): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = Buffer.from(JSON.stringify({ alg: 'ES256', kid: process.env.APPLE_KEY_ID })).toString('base64url');
+  const payload = Buffer.from(JSON.stringify({
+    iss: process.env.APPLE_TEAM_ID,
+    iat: now,
+    exp: now + 5 * 60,
+    aud: 'https://appleid.apple.com',
+    sub: process.env.APPLE_CLIENT_ID,
+  })).toString('base64url');
+
+  const signature = createSign('SHA256')
+    .update(`${header}.${payload}`)
+    .sign({ key: (process.env.APPLE_PRIVATE_KEY || '').replace(/\\n/g, '\n'), dsaEncoding: 'ieee-p1363' })
+    .toString('base64url');
+  return `${header}.${payload}.${signature}`;
+}
+
+registerOAuthProvider({
+  id: 'google',
+  name: 'Google',
+  authorizationUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+  tokenUrl: 'https://oauth2.googleapis.com/token',
+  scopes: ['openid', 'email', 'profile'],
+  clientId: process.env.GOOGLE_CLIENT_ID || '',
+  getClientSecret: () => process.env.GOOGLE_CLIENT_SECRET || '',
+  usesNonce: true,
+  authorizationParams: { prompt: 'select_account' },
+  isConfigured: () => !!(process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET),
+  getProfile: async (tokens, { nonce }) => {
+    const claims = readIdToken(tokens, {
+      issuers: ['https://accounts.google.com', 'accounts.google.com'],
+      audience: process.env.GOOGLE_CLIENT_ID || '',
+      nonce,
+    });
+    return {
+      provider: 'google',
+      providerUserId: claims.sub,
+      email: claims.email || null,
+      emailVerified: isTrue(claims.email_verified),
+      name: claims.name,
+      picture: claims.picture,
+    };
+  },
+});
+
+registerOAuthProvider({
+  id: 'apple',
+  name: 'Apple',
+  authorizationUrl: 'https://appleid.apple.com/auth/authorize',
+  tokenUrl: 'https://appleid.apple.com/auth/token',
+  scopes: ['name', 'email'],
+  clientId: process.env.APPLE_CLIENT_ID || '',
+  getClientSecret: createAppleClientSecret,
+  // Required by Apple whenever name or email is requested
+  responseMode: 'form_post',
+  usesNonce: true,
+  isConfigured: () => !!(
+    process.env.APPLE_CLIENT_ID &&
+    process.env.APPLE_TEAM_ID &&
+    process.env.APPLE_KEY_ID &&
+    process.env.APPLE_PRIVATE_KEY
+  ),
+  getProfile: async (tokens, { nonce, callbackParams }) => {
+    const claims = readIdToken(tokens, {
+      issuers: ['https://appleid.apple.com'],
+      audience: process.env.APPLE_CLIENT_ID || '',
+      nonce,
+    });
+
+    // Apple sends the name once, on the first authorization, next to the code
+    let name: string | undefined;
+    try {
+      const user = JSON.parse(callbackParams.get('user') || 'null');
+      name = [user?.name?.firstName, user?.name?.lastName].filter(Boolean).join(' ') || undefined;
+    } catch (error) {
+      name = undefined;
+    }
+
+    return {
+      provider: 'apple',
+      providerUserId: claims.sub,
+      email: claims.email || null,
+      emailVerified: isTrue(claims.email_verified),
+      name,
+    };
+  },
+});
+
+registerOAuthProvider({
+  id: 'facebook',
+  name: 'Facebook',
+  authorizationUrl: 'https://www.facebook.com/v18.0/dialog/oauth',
+  tokenUrl: 'https://graph.facebook.com/v18.0/oauth/access_token',
+  scopes: ['email', 'public_profile'],
+  clientId: config.social.facebookAppId,
+  getClientSecret: () => process.env.FACEBOOK_APP_SECRET || '',
+  isConfigured: () => !!(config.social.facebookAppId && process.env.FACEBOOK_APP_SECRET),
+  getProfile: async (tokens) => {
+    const url = new URL('https://graph.facebook.com/v18.0/me');
+    url.searchParams.set('fields', 'id,name,email,picture');
+    url.searchParams.set('access_token', tokens.access_token);
+
+    const response = await fetch(url.toString(), { cache: 'no-store' });
+    if (!response.ok) {
+      throw new OAuthError('TOKEN_EXCHANGE_FAILED', 'Failed to read the Facebook profile', 502);
+    }
+    const profile = await response.json();
+
+    return {
+      provider: 'facebook',
+      providerUserId: String(profile.id),
+      email: profile.email || null,
+      // Facebook only shares addresses the user has confirmed
+      emailVerified: !!profile.email,
+      name: profile.name,
+      picture: profile.picture?.data?.url,
+    };
+  },
+});
+
+registerOAuthProvider({
+  id: 'mock',
+  name: 'Mock Provider',
+  authorizationUrl: `${MOCK_IDP_ISSUER}/authorize`,
+  tokenUrl: `${MOCK_IDP_ISSUER}/token`,
+  scopes: ['openid', 'email', 'profile'],
+  clientId: MOCK_IDP_CLIENT_ID,
+  usesNonce: true,
+  isConfigured: isMockIdpEnabled,
+  getProfile: async (tokens, { nonce }) => {
+    const claims = readIdToken(tokens, { issuers: [MOCK_IDP_ISSUER], audience: MOCK_IDP_CLIENT_ID, nonce });
+    return {
+      provider: 'mock',
+      providerUserId: claims.sub,
+      email: claims.email || null,
+      emailVerified: isTrue(claims.email_verified),
+      name: claims.name,
+    };
+  },
+});
+
+// Flow state, kept in an httpOnly cookie between the start route and the callback
+export interface OAuthFlow {
+  provider: string;
+  state: string;
+  codeVerifier: string;
+  nonce: string;
+  returnTo: string;
+  locale: string;
+  // 'link' adds the provider to the signed-in account instead of signing in
+  intent: 'signin' | 'link';
+}
+
+function randomToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+export function createOAuthFlow(
+  provider: OAuthProvider,
+  options: Pick<OAuthFlow, 'returnTo' | 'locale' | 'intent'>
+): { flow: OAuthFlow; authorizationUrl: string } {
+  const flow: OAuthFlow = {
+    provider: provider.id,
+    state: randomToken(),
+    codeVerifier: randomToken(),
+    nonce: randomToken(),
+    ...options,
+  };
+
+  const url = new URL(provider.authorizationUrl);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', provider.clientId);
+  url.searchParams.set('redirect_uri', getRedirectUri(provider));
+  url.searchParams.set('scope', provider.scopes.join(' '));
+  url.searchParams.set('state', flow.state);
+  url.searchParams.set('code_challenge', createHash('sha256').update(flow.codeVerifier).digest('base64url'));
+  url.searchParams.set('code_challenge_method', 'S256');
+  if (provider.usesNonce) url.searchParams.set('nonce', flow.nonce);
+  if (provider.responseMode === 'form_post') url.searchParams.set('response_mode', 'form_post');
+  Object.keys(provider.authorizationParams || {}).forEach((key) => {
+    url.searchParams.set(key, provider.authorizationParams![key]);
+  });
+
+  return { flow, authorizationUrl: url.toString() };
+}
+
+function flowCookieOptions(maxAge: number) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    path: OAUTH_COOKIE_PATH,
+    maxAge,
+  };
+}
+
+export function setOAuthFlowCookie(response: NextResponse, flow: OAuthFlow): void {
+  const value = Buffer.from(JSON.stringify(flow)).toString('base64url');
+  response.cookies.set(OAUTH_COOKIE, value, flowCookieOptions(OAUTH_FLOW_TTL));
+}
+
+export function clearOAuthFlowCookie(response: NextResponse): void {
+  response.cookies.set(OAUTH_COOKIE, '', flowCookieOptions(0));
+}
+
+export function readOAuthFlowCookie(request: NextRequest): OAuthFlow | null {
+  const value = request.cookies.get(OAUTH_COOKIE)?.value;
+  if (!value) return null;
+
+  try {
+    const flow = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    return typeof flow?.state === 'string' && typeof flow?.codeVerifier === 'string' ? flow : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Handles the provider's answer: checks the state against the flow cookie,
+ * redeems the code with the PKCE verifier and reads the profile.
+ */
+export async function completeOAuthFlow(
+  provider: OAuthProvider,
+  flow: OAuthFlow | null,
+  params: URLSearchParams
+): Promise<OAuthProfile> {
+  const state = params.get('state');
+  if (!flow || flow.provider !== provider.id || !state || !safeEqual(state, flow.state)) {
+    throw new OAuthError('INVALID_STATE', 'The sign-in request expired or did not start here', 400);
+  }
+  if (params.get('error')) {
+    throw new OAuthError('ACCESS_DENIED', 'Sign-in was cancelled at the provider', 400);
+  }
+
+  const code = params.get('code');
+  if (!code) throw new OAuthError('INVALID_STATE', 'The provider did not return a code', 400);
+
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: getRedirectUri(provider),
+    client_id: provider.clientId,
+    code_verifier: flow.codeVerifier,
+  });
+  const clientSecret = provider.getClientSecret?.();
+  if (clientSecret) body.set('client_secret', clientSecret);
+
+  const response = await fetch(provider.tokenUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Accept': 'application/json' },
+    body: body.toString(),
+    cache: 'no-store',
+  });
+  const tokens = await response.json().catch(() => null);
+  if (!response.ok || typeof tokens?.access_token !== 'string') {
+    console.error('OAuth token exchange failed:', provider.id, response.status, tokens?.error);
+    throw new OAuthError('TOKEN_EXCHANGE_FAILED', 'Failed to complete sign-in with the provider', 502);
+  }
+
+  return provider.getProfile(tokens, { nonce: flow.nonce, callbackParams: params });
+}
+
+/**
+ * Signs in with a provider profile, or links it to the account behind
+ * authorization. The backend links a new provider to an existing account
+ * only when the provider vouches for the email; otherwise the shopper has to
+ * sign in with their password and connect the provider from settings.
+ */
+export async function signInWithOAuth(
+  profile: OAuthProfile,
+  authorization?: string | null
+): Promise<SessionTokens & { user?: User }> {
+  if (!profile.email && !authorization) {
+    throw new OAuthError('EMAIL_REQUIRED', 'The provider did not share an email address', 400);
+  }
+
+  const response = await fetch(`${BACKEND_API_URL}/v1/auth/oauth${authorization ? '/link' : ''}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(process.env.AUTH_SERVICE_API_KEY && { 'x-api-key': process.env.AUTH_SERVICE_API_KEY }),
+      ...(authorization && { 'authorization': authorization }),
+    },
+    body: JSON.stringify(profile),
+    cache: 'no-store',
+  });
+  const data = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    const backendCode = data?.error?.code;
+    if (response.status === 401 && authorization) {
+      throw new OAuthError('SESSION_REQUIRED', 'Sign in again to connect this account', 401);
+    }
+    if (response.status === 409) {
+      throw backendCode === 'PROVIDER_LINKED'
+        ? new OAuthError('PROVIDER_LINKED', 'This account is already connected to another user', 409)
+        : new OAuthError('ACCOUNT_EXISTS', 'An account with this email already exists. Sign in with your password to connect it', 409);
+    }
+    console.error('Backend OAuth sign-in failed:', response.status, data);
+    throw new OAuthError('BACKEND_ERROR', 'Failed to sign in', 502);
+  }
+
+  const { accessToken, refreshToken, expiresAt, user } = data?.data || {};
+  if (!authorization && typeof accessToken !== 'string') {
+    throw new OAuthError('BACKEND_ERROR', 'Invalid response from server', 502);
+  }
+  return { accessToken, refreshToken, expiresAt, user };
+}
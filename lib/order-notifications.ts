@@ -0,0 +1,167 @@
+import { CONTENT_LOCALES, ContentLocale, getContentLocale } from './locales';
+import {
+  getPushSubscriptionStore,
+  isWebPushConfigured,
+  PushDeliveryStats,
+  sendPushNotifications,
+  StoredPushSubscription,
+} from './push-subscriptions';
+import type { ReturnStatus } from './order-returns';
+import { formatPrice } from './utils';
+
+/**
+ * Order Notifications
+ * Push notifications about a shopper's own orders: cancellations and the
+ * progress of refunds on return requests. They go to every browser the
+ * shopper subscribed with order updates switched on, in that browser's
+ * language, and open the order page when clicked.
+ */
+
+export interface RefundStatusUpdate {
+  userId: string;
+  orderId: string;
+  returnId: string;
+  rmaNumber?: string;
+  status: ReturnStatus;
+  refundAmount?: number;
+  currency?: string;
+}
+
+type Locale = ContentLocale;
+
+const COPY: Record<Locale, { cancelledTitle: string; cancelledBody: string; refundTitle: string; viewOrder: string }> = {
+  en: {
+    cancelledTitle: 'Order Cancelled',
+    cancelledBody: 'Your order #{order} has been cancelled. Any payment will be refunded.',
+    refundTitle: 'Return Update',
+    viewOrder: 'View Order',
+  },
+  ar: {
+    cancelledTitle: 'تم إلغاء الطلب',
+    cancelledBody: 'تم إلغاء طلبك رقم {order}. سيُرد أي مبلغ مدفوع إلى وسيلة الدفع.',
+    refundTitle: 'تحديث طلب الإرجاع',
+    viewOrder: 'عرض الطلب',
+  },
+};
+
+const REFUND_STATUS_MESSAGES: Record<ReturnStatus, Record<Locale, string>> = {
+  requested: {
+    en: 'We received your return request {rma} and will review it shortly.',
+    ar: 'استلمنا طلب الإرجاع {rma} وسنراجعه قريباً.',
+  },
+  approved: {
+    en: 'Your return {rma} was approved. Please send the items back.',
+    ar: 'تمت الموافقة على طلب الإرجاع {rma}. يرجى إرسال المنتجات.',
+  },
+  rejected: {
+    en: 'Your return {rma} could not be approved. See the order for details.',
+    ar: 'تعذرت الموافقة على طلب الإرجاع {rma}. راجع الطلب لمعرفة التفاصيل.',
+  },
+  received: {
+    en: 'We received the items for return {rma}. Your refund is being processed.',
+    ar: 'استلمنا منتجات الإرجاع {rma}. جارٍ معالجة الاسترداد.',
+  },
+  refunded: {
+    en: 'Your refund{amount} for return {rma} has been issued.',
+    ar: 'تم إصدار المبلغ المسترد{amount} لطلب الإرجاع {rma}.',
+  },
+  cancelled: {
+    en: 'Your return request {rma} was cancelled.',
+    ar: 'تم إلغاء طلب الإرجاع {rma}.',
+  },
+};
+
+function getOrderUrl(orderId: string, locale: Locale): string {
+  return `/${locale}/orders/${encodeURIComponent(orderId)}`;
+}
+
+function shortId(id: string): string {
+  return id.slice(-8);
+}
+
+async function getOrderUpdateTargets(userId: string): Promise<StoredPushSubscription[]> {
+  const records = await getPushSubscriptionStore().getByUserId(userId);
+  return records.filter((record) => record.preferences.orders);
+}
+
+// One payload per language; subscriptions without a known language get English
+async function sendByLocale(
+  records: StoredPushSubscription[],
+  buildPayload: (locale: Locale) => string
+): Promise<PushDeliveryStats> {
+  const stats: PushDeliveryStats = { total: 0, successful: 0, failed: 0, pruned: 0 };
+
+  for (let i = 0; i < CONTENT_LOCALES.length; i++) {
+    const locale = CONTENT_LOCALES[i];
+    const group = records.filter((record) => getContentLocale(record.profile?.locale) === locale);
+    if (group.length === 0) continue;
+
+    const result = await sendPushNotifications(group, buildPayload(locale));
+    stats.total += result.total;
+    stats.successful += result.successful;
+    stats.failed += result.failed;
+    stats.pruned += result.pruned;
+  }
+  return stats;
+}
+
+async function notifyUser(
+  userId: string,
+  buildPayload: (locale: Locale) => string
+): Promise<PushDeliveryStats | null> {
+  if (!isWebPushConfigured()) return null;
+
+  const targets = await getOrderUpdateTargets(userId);
+  if (targets.length === 0) return null;
+  return sendByLocale(targets, buildPayload);
+}
+
+export function notifyOrderCancelled(userId: string, orderId: string): Promise<PushDeliveryStats | null> {
+  return notifyUser(userId, (locale) => {
+    const copy = COPY[locale];
+    return JSON.stringify({
+      title: copy.cancelledTitle,
+      body: copy.cancelledBody.replace('{order}', shortId(orderId)),
+      icon: '/icons/icon-192x192.png',
+      badge: '/icons/badge-72x72.png',
+      tag: `order-cancelled-${orderId}`,
+      actions: [{ action: 'view-order', title: copy.viewOrder }],
+      data: {
+        type: 'order-cancelled',
+        orderId,
+        url: getOrderUrl(orderId, locale),
+        timestamp: Date.now(),
+      },
+    });
+  });
+}
+
+export function notifyRefundStatus(update: RefundStatusUpdate): Promise<PushDeliveryStats | null> {
+  return notifyUser(update.userId, (locale) => {
+    const copy = COPY[locale];
+    const amount = update.refundAmount !== undefined
+      ? ` (${formatPrice(update.refundAmount, update.currency)})`
+      : '';
+    const body = REFUND_STATUS_MESSAGES[update.status][locale]
+      .replace('{rma}', update.rmaNumber || shortId(update.returnId))
+      .replace('{amount}', amount);
+
+    return JSON.stringify({
+      title: copy.refundTitle,
+      body,
+      icon: '/icons/icon-192x192.png',
+      badge: '/icons/badge-72x72.png',
+      // Later updates of the same return replace the earlier one
+      tag: `refund-status-${update.returnId}`,
+      actions: [{ action: 'view-order', title: copy.viewOrder }],
+      data: {
+        type: 'refund-status',
+        orderId: update.orderId,
+        returnId: update.returnId,
+        status: update.status,
+        url: getOrderUrl(update.orderId, locale),
+        timestamp: Date.now(),
+      },
+    });
+  });
+}
@@ -0,0 +1,200 @@
+import type { Order } from './api';
+
+/**
+ * Order Cancellation and Returns
+ * Rules shared by the order page and the order proxy routes: which orders
+ * can still be cancelled or invoiced, which can be returned and for how
+ * long, and what a return (RMA) request has to contain. The backend applies the same rules
+ * again; these keep the UI honest and reject bad requests early.
+ */
+
+// Orders that have not left the warehouse yet
+export const CANCELLABLE_STATUSES = ['pending', 'pending_cod', 'placed', 'paid'];
+export const RETURNABLE_STATUSES = ['delivered'];
+export const RETURN_WINDOW_DAYS = 14;
+// Orders that were never confirmed get no invoice
+export const NON_INVOICEABLE_STATUSES = ['pending', 'failed', 'rejected', 'cancelled'];
+
+export const MAX_RETURN_PHOTOS = 5;
+export const MAX_RETURN_PHOTO_BYTES = 5 * 1024 * 1024;
+export const RETURN_PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+export const MAX_RETURN_COMMENT_LENGTH = 1000;
+
+export type ReturnReason =
+  | 'damaged'
+  | 'defective'
+  | 'wrong_item'
+  | 'not_as_described'
+  | 'size_fit'
+  | 'changed_mind'
+  | 'other';
+
+// Labels live in the `returns` message catalog
+export const RETURN_REASONS: Array<{ value: ReturnReason; needsPhotos: boolean }> = [
+  { value: 'damaged', needsPhotos: true },
+  { value: 'defective', needsPhotos: true },
+  { value: 'wrong_item', needsPhotos: true },
+  { value: 'not_as_described', needsPhotos: false },
+  { value: 'size_fit', needsPhotos: false },
+  { value: 'changed_mind', needsPhotos: false },
+  { value: 'other', needsPhotos: false },
+];
+
+export type RefundMethod = 'original_payment' | 'store_credit' | 'bank_transfer';
+
+export const REFUND_METHODS: RefundMethod[] = ['original_payment', 'store_credit', 'bank_transfer'];
+
+export type ReturnStatus = 'requested' | 'approved' | 'rejected' | 'received' | 'refunded' | 'cancelled';
+
+// Returns in these states no longer hold on to the items they list
+const CLOSED_RETURN_STATUSES: ReturnStatus[] = ['rejected', 'cancelled'];
+
+export interface ReturnItem {
+  // Position of the line in order.items
+  lineIndex: number;
+  quantity: number;
+  title?: string;
+}
+
+export interface ReturnRequest {
+  _id: string;
+  orderId: string;
+  rmaNumber: string;
+  items: ReturnItem[];
+  reason: ReturnReason;
+  comment?: string;
+  photos: string[];
+  refundMethod: RefundMethod;
+  status: ReturnStatus;
+  refundAmount?: number;
+  currency?: string;
+  statusHistory?: Array<{ status: ReturnStatus; at: string; note?: string }>;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface ReturnRequestInput {
+  items: ReturnItem[];
+  reason: ReturnReason;
+  comment?: string;
+  refundMethod: RefundMethod;
+}
+
+export function isReturnReason(value: unknown): value is ReturnReason {
+  return RETURN_REASONS.some((reason) => reason.value === value);
+}
+
+export function isRefundMethod(value: unknown): value is RefundMethod {
+  return REFUND_METHODS.indexOf(value as RefundMethod) !== -1;
+}
+
+export function canCancelOrder(order: Pick<Order, 'status'>): boolean {
+  return CANCELLABLE_STATUSES.indexOf(order.status) !== -1;
+}
+
+// An invoice issued before a cancellation stays available
+export function canIssueInvoice(order: Pick<Order, 'status' | 'invoiceNumber'>): boolean {
+  return !!order.invoiceNumber || NON_INVOICEABLE_STATUSES.indexOf(order.status) === -1;
+}
+
+// Delivery date when the backend has it; otherwise the last status change is the closest thing
+export function getReturnDeadline(order: Pick<Order, 'status' | 'createdAt' | 'deliveredAt' | 'updatedAt'>): Date | null {
+  if (RETURNABLE_STATUSES.indexOf(order.status) === -1) return null;
+
+  const deliveredAt = Date.parse(order.deliveredAt || order.updatedAt || order.createdAt);
+  if (!Number.isFinite(deliveredAt)) return null;
+  return new Date(deliveredAt + RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+}
+
+export function canRequestReturn(
+  order: Pick<Order, 'status' | 'createdAt' | 'deliveredAt' | 'updatedAt'>,
+  now = Date.now()
+): boolean {
+  const deadline = getReturnDeadline(order);
+  return !!deadline && deadline.getTime() > now;
+}
+
+// Cash orders have no payment to reverse
+export function getRefundMethods(order: Pick<Order, 'paymentMethod'>): RefundMethod[] {
+  return REFUND_METHODS.filter((method) => method !== 'original_payment' || order.paymentMethod !== 'cash');
+}
+
+// Quantity of each order line that is not already part of an open or completed return
+export function getReturnableQuantities(order: Pick<Order, 'items'>, returns: ReturnRequest[]): number[] {
+  const quantities = (order.items || []).map((item) => item.quantity);
+
+  returns
+    .filter((request) => CLOSED_RETURN_STATUSES.indexOf(request.status) === -1)
+    .forEach((request) => {
+      request.items.forEach((item) => {
+        if (quantities[item.lineIndex] !== undefined) {
+          quantities[item.lineIndex] = Math.max(0, quantities[item.lineIndex] - item.quantity);
+        }
+      });
+    });
+
+  return quantities;
+}
+
+export type ReturnValidationError =
+  | 'reason'
+  | 'refundMethod'
+  | 'commentLength'
+  | 'noItems'
+  | 'unknownItem'
+  | 'tooManyItems'
+  | 'photosRequired'
+  | 'tooManyPhotos';
+
+// API wording; the return form shows the `returns.errors` messages instead
+export const RETURN_VALIDATION_MESSAGES: Record<ReturnValidationError, string> = {
+  reason: 'Choose a reason for the return',
+  refundMethod: 'Choose a refund method available for this order',
+  commentLength: `Comments are limited to ${MAX_RETURN_COMMENT_LENGTH} characters`,
+  noItems: 'Select at least one item to return',
+  unknownItem: 'The return lists an item that is not in this order',
+  tooManyItems: 'The return asks for more items than can be returned',
+  photosRequired: 'Add at least one photo showing the problem',
+  tooManyPhotos: `Add at most ${MAX_RETURN_PHOTOS} photos`,
+};
+
+/**
+ * Checks a return request against the order and the returns already filed.
+ * Returns what is wrong with it, or null when it can go to the backend.
+ */
+export function validateReturnRequest(
+  input: ReturnRequestInput,
+  order: Pick<Order, 'items' | 'paymentMethod'>,
+  returns: ReturnRequest[],
+  photoCount: number
+): ReturnValidationError | null {
+  if (!isReturnReason(input.reason)) return 'reason';
+  if (!isRefundMethod(input.refundMethod) || getRefundMethods(order).indexOf(input.refundMethod) === -1) {
+    return 'refundMethod';
+  }
+  if (input.comment && input.comment.length > MAX_RETURN_COMMENT_LENGTH) return 'commentLength';
+  if (!Array.isArray(input.items) || input.items.length === 0) return 'noItems';
+
+  const available = getReturnableQuantities(order, returns);
+  const seen: number[] = [];
+  for (let i = 0; i < input.items.length; i++) {
+    const item = input.items[i];
+    if (!Number.isInteger(item.lineIndex) || available[item.lineIndex] === undefined || seen.indexOf(item.lineIndex) !== -1) {
+      return 'unknownItem';
+    }
+    if (!Number.isInteger(item.quantity) || item.quantity < 1 || item.quantity > available[item.lineIndex]) {
+      return 'tooManyItems';
+    }
+    seen.push(item.lineIndex);
+  }
+
+  const reason = RETURN_REASONS.filter((entry) => entry.value === input.reason)[0];
+  if (reason.needsPhotos && photoCount === 0) return 'photosRequired';
+  if (photoCount > MAX_RETURN_PHOTOS) return 'tooManyPhotos';
+
+  return null;
+}
+
+export function isValidReturnPhoto(file: { type: string; size: number }): boolean {
+  return RETURN_PHOTO_TYPES.indexOf(file.type) !== -1 && file.size > 0 && file.size <= MAX_RETURN_PHOTO_BYTES;
+}
@@ -0,0 +1,514 @@
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import type { CheckoutResponse, Order } from './api';
+import type { PricingQuote } from './pricing';
+import { normalizeCartItems } from './account-cart';
+import { quoteCheckoutRequest } from './checkout-pricing';
+import {
+  fakePaymentOrderStatus,
+  getFakePayment,
+  isFakePaymentGatewayEnabled,
+  issueFakePaymentSecret,
+} from './fake-payment-gateway';
+import { readJsonFile, resolveDataPath, updateJsonFile } from './file-store';
+import { getInvoiceLocale, InvoiceLocale, sendOrderConfirmationEmail } from './invoice';
+import { getPaymentProviderId } from './payments';
+import { fetchSessionUser } from './session';
+
+/**
+ * Order Service
+ * The one place orders are placed and looked up, shared by the checkout,
+ * order status and tracking routes. Orders are priced by the checkout
+ * pricing engine against the live catalog, never taken from the client,
+ * and each checkout's idempotency key maps to exactly one order. Storage is
+ * the backend order API, or a JSON ledger under .data for local development
+ * without a backend (ORDER_SERVICE_MODE=local).
+ */
+
+const BACKEND_API_URL = process.env.BACKEND_API_URL || 'http://localhost:3000/api';
+
+export const GUEST_USER_ID = 'guest';
+
+// Idempotency keys are remembered as long as a shopper could plausibly retry
+const IDEMPOTENCY_TTL = 24 * 60 * 60 * 1000;
+
+// Rounding differences between the preview and the server quote
+const TOTAL_TOLERANCE = 0.01;
+
+export type OrderStoreMode = 'backend' | 'local';
+
+export type ShippingInfo = NonNullable<Order['shippingInfo']>;
+
+export interface StoredOrder extends Order {
+  paymentGateway: string;
+  notes?: string;
+  idempotencyKey: string;
+  // Language of the confirmation email, which card orders only get once paid
+  locale?: InvoiceLocale;
+}
+
+export interface OrderCustomer {
+  userId: string;
+  shippingInfo: ShippingInfo;
+  authorization?: string | null;
+}
+
+export interface PlacedOrder {
+  order: StoredOrder;
+  clientSecret?: string;
+  paymentToken?: string;
+  // True when the idempotency key matched an order placed earlier
+  duplicate: boolean;
+}
+
+export interface OrderStatusSummary {
+  orderId: string;
+  status: string;
+  totalAmount: number;
+  currency: string;
+  paymentGateway: string;
+  createdAt: string;
+}
+
+type NewOrder = Omit<StoredOrder, '_id' | 'createdAt'>;
+
+interface PlaceOrderContext {
+  body: any;
+  // Idempotency key qualified by the customer, so two shoppers can't collide
+  scope: string;
+  // What the key was first used for; a different cart under the same key is refused
+  fingerprint: string;
+  authorization?: string | null;
+}
+
+interface OrderStore {
+  place(order: NewOrder, context: PlaceOrderContext): Promise<PlacedOrder>;
+  getStatus(orderId: string, authorization?: string | null): Promise<OrderStatusSummary | null>;
+  // Order number as printed on confirmations: the full id or its last 8 characters
+  findByNumber(orderNumber: string): Promise<Order | null>;
+  // Applies a payment outcome reported by the provider; null when the store doesn't track it here
+  recordPayment(orderId: string, status: string, at: string): Promise<StoredOrder | null>;
+}
+
+export class OrderServiceError extends Error {
+  code: string;
+  status: number;
+  details?: unknown;
+
+  constructor(code: string, message: string, status = 400, details?: unknown) {
+    super(message);
+    this.name = 'OrderServiceError';
+    this.code = code;
+    this.status = status;
+    this.details = details;
+  }
+}
+
+// Checked by name because subclassed errors lose their prototype when compiled to ES5
+export function isOrderServiceError(error: unknown): error is OrderServiceError {
+  return !!error && typeof error === 'object' && (error as Error).name === 'OrderServiceError';
+}
+
+function toStatusSummary(order: StoredOrder): OrderStatusSummary {
+  return {
+    orderId: order._id,
+    status: order.status,
+    totalAmount: order.totalAmount,
+    currency: order.currency,
+    paymentGateway: order.paymentGateway,
+    createdAt: order.createdAt,
+  };
+}
+
+// Backend store
+async function backendError(response: Response, fallback: string): Promise<OrderServiceError> {
+  const errorData = await response.json().catch(() => ({}));
+  console.error('Backend response not ok:', response.status, response.statusText, errorData);
+
+  // Client mistakes are passed through; backend failures become a gateway error
+  if (response.status >= 400 && response.status < 500) {
+    return new OrderServiceError(
+      errorData?.error?.code || 'ORDER_REJECTED',
+      errorData?.error?.message || errorData?.message || fallback,
+      response.status
+    );
+  }
+  return new OrderServiceError('BACKEND_ERROR', fallback, 502);
+}
+
+const backendStore: OrderStore = {
+  async place(order, { body, authorization }) {
+    const endpoint = order.userId === GUEST_USER_ID ? 'checkout' : 'checkout/authenticated';
+    const response = await fetch(`${BACKEND_API_URL}/v1/${endpoint}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Idempotency-Key': order.idempotencyKey,
+        ...(authorization && { 'authorization': authorization })
+      },
+      // The backend stores the server quote, not whatever the client sent
+      body: JSON.stringify({ ...body, items: order.items, pricing: order.pricing, totalAmount: order.totalAmount }),
+      cache: 'no-store'
+    });
+    if (!response.ok) {
+      throw await backendError(response, 'The order could not be placed right now');
+    }
+
+    const data = await response.json();
+    const result = data?.data && typeof data.data === 'object' ? data.data : data;
+    const orderId = result?.orderId || result?._id;
+    if (!orderId) {
+      throw new OrderServiceError('BACKEND_ERROR', 'The order could not be placed right now', 502);
+    }
+
+    return {
+      order: {
+        ...order,
+        _id: String(orderId),
+        userId: result.userId || order.userId,
+        status: result.status || order.status,
+        createdAt: result.createdAt || new Date().toISOString(),
+      },
+      clientSecret: result.clientSecret,
+      paymentToken: result.paymentToken,
+      duplicate: Boolean(result.duplicate),
+    };
+  },
+
+  async getStatus(orderId, authorization) {
+    const response = await fetch(`${BACKEND_API_URL}/v1/checkout/order/${encodeURIComponent(orderId)}/status`, {
+      headers: {
+        'Content-Type': 'application/json',
+        ...(authorization && { 'authorization': authorization })
+      },
+      cache: 'no-store'
+    });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw await backendError(response, 'Order status is unavailable right now');
+    }
+
+    const data = await response.json();
+    return data?.data || null;
+  },
+
+  async findByNumber(orderNumber) {
+    const response = await fetch(`${BACKEND_API_URL}/v1/order/track?${new URLSearchParams({ orderId: orderNumber }).toString()}`, {
+      headers: {
+        'Content-Type': 'application/json',
+        ...(process.env.ORDER_SERVICE_API_KEY && { 'x-api-key': process.env.ORDER_SERVICE_API_KEY })
+      },
+      cache: 'no-store'
+    });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw await backendError(response, 'Order lookup is unavailable right now');
+    }
+
+    const data = await response.json();
+    return data?.data || null;
+  },
+
+  // The backend receives the provider's webhooks itself
+  async recordPayment() {
+    return null;
+  },
+};
+
+// Local ledger
+interface IdempotencyRecord {
+  orderId: string;
+  fingerprint: string;
+  createdAt: string;
+}
+
+interface OrderLedger {
+  orders: Record<string, StoredOrder>;
+  idempotency: Record<string, IdempotencyRecord>;
+}
+
+const ORDER_LEDGER_FILE = resolveDataPath('orders.json');
+
+function emptyLedger(): OrderLedger {
+  return { orders: {}, idempotency: {} };
+}
+
+// Local payments only work with the fake provider, which issues the client secret (see createOrder)
+function localPaymentSecrets(order: StoredOrder): Pick<PlacedOrder, 'paymentToken'> {
+  return order.paymentMethod === 'card' ? { paymentToken: `tok_${order._id}` } : {};
+}
+
+/**
+ * Account orders are only shown to the account that placed them, matched by
+ * user id or email. Guest orders have no account to check against; their
+ * unguessable id is what the payment page polls with.
+ */
+async function isLocalOrderOwner(order: StoredOrder, authorization?: string | null): Promise<boolean> {
+  if (order.userId === GUEST_USER_ID) return true;
+  if (!authorization) return false;
+
+  const user = await fetchSessionUser(authorization);
+  if (!user) return false;
+  const email = order.shippingInfo?.email?.trim().toLowerCase();
+  return user.id === order.userId || (!!email && user.email?.trim().toLowerCase() === email);
+}
+
+const localStore: OrderStore = {
+  async place(order, { scope, fingerprint }) {
+    const outcome: { order?: StoredOrder; duplicate: boolean } = { duplicate: false };
+
+    await updateJsonFile<OrderLedger>(ORDER_LEDGER_FILE, emptyLedger(), (ledger) => {
+      const now = Date.now();
+      const idempotency: Record<string, IdempotencyRecord> = {};
+      Object.keys(ledger.idempotency || {}).forEach((key) => {
+        const record = ledger.idempotency[key];
+        if (now - new Date(record.createdAt).getTime() < IDEMPOTENCY_TTL) {
+          idempotency[key] = record;
+        }
+      });
+
+      const previous = idempotency[scope];
+      if (previous && ledger.orders[previous.orderId]) {
+        if (previous.fingerprint !== fingerprint) {
+          throw new OrderServiceError('IDEMPOTENCY_CONFLICT', 'This checkout was already submitted with a different cart', 409);
+        }
+        outcome.order = ledger.orders[previous.orderId];
+        outcome.duplicate = true;
+        return { ...ledger, idempotency };
+      }
+
+      const createdAt = new Date(now).toISOString();
+      // Hyphen-free so the full id is also a valid order number on the tracking page
+      const saved: StoredOrder = {
+        ...order,
+        _id: uuidv4().replace(/-/g, ''),
+        createdAt,
+        statusHistory: [{ status: order.status, at: createdAt }],
+      };
+      outcome.order = saved;
+
+      return {
+        orders: { ...ledger.orders, [saved._id]: saved },
+        idempotency: { ...idempotency, [scope]: { orderId: saved._id, fingerprint, createdAt } },
+      };
+    });
+
+    const placed = outcome.order!;
+    return { order: placed, ...localPaymentSecrets(placed), duplicate: outcome.duplicate };
+  },
+
+  async getStatus(orderId, authorization) {
+    const ledger = await readJsonFile<OrderLedger>(ORDER_LEDGER_FILE, emptyLedger());
+    const order = ledger.orders[orderId];
+    // Someone else's order answers like a missing one, so ids can't be probed
+    if (!order || !(await isLocalOrderOwner(order, authorization))) return null;
+    return toStatusSummary(order);
+  },
+
+  async findByNumber(orderNumber) {
+    const ledger = await readJsonFile<OrderLedger>(ORDER_LEDGER_FILE, emptyLedger());
+    const number = orderNumber.toLowerCase();
+    if (ledger.orders[number]) return ledger.orders[number];
+
+    const matches = Object.keys(ledger.orders)
+      .filter((id) => id.slice(-8) === number)
+      .map((id) => ledger.orders[id])
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return matches[0] || null;
+  },
+
+  async recordPayment(orderId, status, at) {
+    let updated: StoredOrder | null = null;
+
+    await updateJsonFile<OrderLedger>(ORDER_LEDGER_FILE, emptyLedger(), (ledger) => {
+      const order = ledger.orders[orderId];
+      // Repeated reports of the same outcome leave the history alone
+      if (!order || order.status === status) return ledger;
+
+      updated = {
+        ...order,
+        status,
+        ...(status === 'paid' && { paidAt: at }),
+        statusHistory: (order.statusHistory || []).concat({ status, at }),
+      };
+      return { ...ledger, orders: { ...ledger.orders, [orderId]: updated } };
+    });
+
+    return updated;
+  },
+};
+
+const stores: Record<OrderStoreMode, OrderStore> = {
+  backend: backendStore,
+  local: localStore,
+};
+
+export function getOrderStoreMode(): OrderStoreMode {
+  // The local ledger is a development stand-in; production always uses the backend
+  if (process.env.ORDER_SERVICE_MODE === 'local' && process.env.NODE_ENV !== 'production') {
+    return 'local';
+  }
+  return 'backend';
+}
+
+function getOrderStore(): OrderStore {
+  return stores[getOrderStoreMode()];
+}
+
+function getIdempotencyScope(customer: OrderCustomer, idempotencyKey: string): string {
+  const owner = customer.userId === GUEST_USER_ID
+    ? `${GUEST_USER_ID}:${customer.shippingInfo.email.trim().toLowerCase()}`
+    : customer.userId;
+  return `${owner}:${idempotencyKey}`;
+}
+
+// Prices may be refreshed between retries; the lines and how they're paid may not
+function getCheckoutFingerprint(body: any, items: Order['items'] = []): string {
+  const lines = items.map((item) => [item.id, item.size || '', item.color || '', item.quantity].join('|')).sort();
+  return createHash('sha256')
+    .update(JSON.stringify([lines, body?.paymentMethod, body?.currency || '', body?.couponCode || '']))
+    .digest('hex');
+}
+
+function sendConfirmation(order: StoredOrder): void {
+  sendOrderConfirmationEmail(order, order.locale || 'en').catch((error) => {
+    console.error('Order confirmation email failed:', error);
+  });
+}
+
+// Double submits of one checkout share a single placement while it is in flight
+const placementsInFlight = new Map<string, Promise<PlacedOrder>>();
+
+async function createOrder(body: any, customer: OrderCustomer, context: Omit<PlaceOrderContext, 'body' | 'authorization'>): Promise<PlacedOrder> {
+  const items = normalizeCartItems(body?.items);
+  const pricing: PricingQuote = await quoteCheckoutRequest({ ...body, items }, {
+    authorization: customer.authorization,
+    destination: { country: customer.shippingInfo.country, city: customer.shippingInfo.city }
+  });
+
+  // The total the shopper confirmed must be the total they are charged
+  if (body?.expectedTotal !== undefined && body?.expectedTotal !== null) {
+    const expectedTotal = Number(body.expectedTotal);
+    if (!Number.isFinite(expectedTotal) || Math.abs(expectedTotal - pricing.total) > TOTAL_TOLERANCE) {
+      throw new OrderServiceError(
+        'TOTAL_MISMATCH',
+        'Your order total has changed. Please review your order before placing it.',
+        409,
+        { expectedTotal: body.expectedTotal, total: pricing.total, currency: pricing.currency }
+      );
+    }
+  }
+
+  const isCash = body.paymentMethod === 'cash';
+  const order: NewOrder = {
+    userId: customer.userId,
+    productName: typeof body.productName === 'string' && body.productName.trim()
+      ? body.productName.trim().slice(0, 200)
+      : items.map((item) => item.title).join(', '),
+    items,
+    shippingInfo: customer.shippingInfo,
+    totalAmount: pricing.total,
+    currency: pricing.currency,
+    status: isCash ? 'pending_cod' : 'pending',
+    paymentMethod: body.paymentMethod,
+    paymentGateway: isCash ? 'cod' : getPaymentProviderId(),
+    couponCode: typeof body.couponCode === 'string' && body.couponCode ? body.couponCode : undefined,
+    notes: typeof body.notes === 'string' && body.notes.trim() ? body.notes.trim().slice(0, 500) : undefined,
+    idempotencyKey: body.idempotencyKey.trim(),
+    pricing,
+    locale: getInvoiceLocale(body.locale),
+  };
+
+  const placed = await getOrderStore().place(order, { ...context, body, authorization: customer.authorization });
+  if (!isCash && isFakePaymentGatewayEnabled()) {
+    placed.clientSecret = await issueFakePaymentSecret(placed.order._id, placed.clientSecret);
+  }
+
+  if (!placed.duplicate) {
+    console.log('Order created:', placed.order._id);
+    // Card orders are confirmed (and invoiced) once the payment goes through, see recordOrderPayment
+    if (isCash) sendConfirmation(placed.order);
+  }
+  return placed;
+}
+
+/**
+ * Places an order from a checkout request body. Submitting the same
+ * idempotency key again returns the order it first created instead of a
+ * second one, whether the retry arrives while the first is still being
+ * placed or long after.
+ */
+export async function placeOrder(body: any, customer: OrderCustomer): Promise<PlacedOrder> {
+  if (normalizeCartItems(body?.items).length === 0) {
+    throw new OrderServiceError('VALIDATION_ERROR', 'Items are required');
+  }
+  if (body.paymentMethod !== 'cash' && body.paymentMethod !== 'card') {
+    throw new OrderServiceError('VALIDATION_ERROR', 'Payment method must be cash or card');
+  }
+  const idempotencyKey = typeof body.idempotencyKey === 'string' ? body.idempotencyKey.trim() : '';
+  if (!/^[A-Za-z0-9_-]{8,128}$/.test(idempotencyKey)) {
+    throw new OrderServiceError('IDEMPOTENCY_KEY_REQUIRED', 'A valid idempotencyKey is required');
+  }
+
+  const scope = getIdempotencyScope(customer, idempotencyKey);
+  const fingerprint = getCheckoutFingerprint(body, normalizeCartItems(body.items));
+
+  const inFlight = placementsInFlight.get(scope);
+  if (inFlight) {
+    return inFlight.then((placed) => ({ ...placed, duplicate: true }));
+  }
+
+  const placement = createOrder(body, customer, { scope, fingerprint });
+  placementsInFlight.set(scope, placement);
+  placement.finally(() => placementsInFlight.delete(scope)).catch(() => undefined);
+  return placement;
+}
+
+export function toCheckoutResponse(placed: PlacedOrder): CheckoutResponse {
+  const { order } = placed;
+  return {
+    success: true,
+    message: placed.duplicate ? 'Order already placed' : 'Order placed successfully',
+    orderId: order._id,
+    userId: order.userId,
+    totalAmount: order.totalAmount,
+    currency: order.currency,
+    status: order.status,
+    clientSecret: placed.clientSecret,
+    paymentToken: placed.paymentToken,
+    pricing: order.pricing,
+    duplicate: placed.duplicate,
+  };
+}
+
+export async function getOrderStatus(orderId: string, authorization?: string | null): Promise<OrderStatusSummary | null> {
+  const summary = await getOrderStore().getStatus(orderId, authorization);
+  if (!summary) return null;
+
+  // With the local test provider nothing notifies the order store, so apply the recorded outcome here
+  if (isFakePaymentGatewayEnabled()) {
+    const fakePayment = await getFakePayment(orderId);
+    const fakeStatus = fakePayment && fakePaymentOrderStatus(fakePayment.status);
+    if (fakeStatus) {
+      return { ...summary, status: fakeStatus, paymentGateway: 'fake' };
+    }
+  }
+  return summary;
+}
+
+/**
+ * Records a card payment outcome ('paid' or 'payment_failed') on the order,
+ * the way the provider's webhook does for backend orders (the backend then
+ * sends the order-confirmed event). A paid order gets its confirmation
+ * email here. Returns the updated order, or null when nothing changed.
+ */
+export async function recordOrderPayment(orderId: string, status: string): Promise<StoredOrder | null> {
+  const updated = await getOrderStore().recordPayment(orderId, status, new Date().toISOString());
+  if (updated?.status === 'paid') sendConfirmation(updated);
+  return updated;
+}
+
+// Full order for the public tracking page; the caller checks the shopper's contact details
+export function findOrderForTracking(orderNumber: string): Promise<Order | null> {
+  return getOrderStore().findByNumber(orderNumber);
+}
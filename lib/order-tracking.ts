@@ -0,0 +1,337 @@
+import type { Order, OrderShipment } from './api';
+
+/**
+ * Order Tracking
+ * The tracking timeline behind /api/v1/order/track: store-side milestones
+ * from the order (placed, paid, packed) merged with the carrier's scan events
+ * (shipped, out for delivery, delivered, with locations). Carriers plug in as
+ * adapters keyed by the carrier id the backend stores on the shipment; the
+ * fake adapter plays out a believable delivery for local testing.
+ */
+
+export type TrackingEventType =
+  | 'placed'
+  | 'paid'
+  | 'packed'
+  | 'shipped'
+  | 'out_for_delivery'
+  | 'delivered'
+  | 'exception'
+  | 'cancelled';
+
+// Milestones every delivery goes through, in order
+export const TRACKING_STAGES: TrackingEventType[] = ['placed', 'paid', 'packed', 'shipped', 'out_for_delivery', 'delivered'];
+
+export interface TrackingEvent {
+  type: TrackingEventType;
+  timestamp: string;
+  location?: string;
+  description?: string;
+  source: 'store' | 'carrier';
+}
+
+export interface CarrierTracking {
+  events: TrackingEvent[];
+  estimatedDelivery?: string;
+}
+
+export interface CarrierAdapter {
+  id: string;
+  name: string;
+  isConfigured: () => boolean;
+  getTrackingUrl?: (trackingNumber: string) => string | undefined;
+  track: (shipment: OrderShipment) => Promise<CarrierTracking>;
+}
+
+export interface OrderTracking {
+  orderId: string;
+  status: string;
+  createdAt: string;
+  totalAmount: number;
+  currency: string;
+  paymentMethod: string;
+  items: Order['items'];
+  // Only the parts needed to recognise the delivery address
+  shippingInfo?: {
+    firstName: string;
+    lastName: string;
+    city: string;
+  };
+  carrier?: { id: string; name: string; trackingNumber: string; trackingUrl?: string };
+  estimatedDelivery?: string;
+  timeline: TrackingEvent[];
+  // The order is on its way, so the tracking page keeps polling for updates
+  inTransit: boolean;
+}
+
+export class TrackingError extends Error {
+  code: string;
+  status: number;
+
+  constructor(code: string, message: string, status = 400) {
+    super(message);
+    this.name = 'TrackingError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+// Checked by name because subclassed errors lose their prototype when compiled to ES5
+export function isTrackingError(error: unknown): error is TrackingError {
+  return !!error && typeof error === 'object' && (error as Error).name === 'TrackingError';
+}
+
+// Carrier adapters
+const carriers: Record<string, CarrierAdapter> = {};
+
+export function registerCarrierAdapter(adapter: CarrierAdapter): void {
+  carriers[adapter.id] = adapter;
+}
+
+// Only adapters that are set up; unknown and unconfigured ids both give null
+export function getCarrierAdapter(id: string): CarrierAdapter | null {
+  const adapter = Object.prototype.hasOwnProperty.call(carriers, id) ? carriers[id] : null;
+  return adapter && adapter.isConfigured() ? adapter : null;
+}
+
+/**
+ * Courier scan descriptions say the same thing in many ways; update codes
+ * differ between carriers and accounts, so the wording decides the stage.
+ */
+export function classifyCarrierUpdate(description: string): TrackingEventType {
+  const text = description.toLowerCase();
+  if (/out for delivery|with (the )?courier for delivery|on vehicle for delivery/.test(text)) return 'out_for_delivery';
+  if (/delivered|proof of delivery/.test(text) && !/not delivered|undelivered/.test(text)) return 'delivered';
+  if (/return|refused|failed|unable|attempt|not delivered|undelivered|hold|damaged|exception/.test(text)) return 'exception';
+  if (/record created|label created|shipment created|awaiting pickup|ready for pickup/.test(text)) return 'packed';
+  return 'shipped';
+}
+
+// Aramex-style JSON dates look like /Date(1700000000000+0200)/
+function parseCarrierDate(value: unknown): string | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const match = typeof value === 'string' ? /\/Date\((-?\d+)([+-]\d{4})?\)\//.exec(value) : null;
+  const time = match ? parseInt(match[1], 10) : typeof value === 'number' ? value : Date.parse(value);
+  return Number.isFinite(time) ? new Date(time).toISOString() : null;
+}
+
+function getCourierClientInfo(): Record<string, unknown> | null {
+  try {
+    return process.env.COURIER_CLIENT_INFO ? JSON.parse(process.env.COURIER_CLIENT_INFO) : null;
+  } catch (error) {
+    console.error('COURIER_CLIENT_INFO is not valid JSON');
+    return null;
+  }
+}
+
+// Local courier with an Aramex-style TrackShipments API
+registerCarrierAdapter({
+  id: 'courier',
+  name: process.env.COURIER_NAME || 'Courier',
+  isConfigured: () => !!(process.env.COURIER_TRACKING_API_URL && getCourierClientInfo()),
+  getTrackingUrl: (trackingNumber) => process.env.COURIER_PUBLIC_TRACKING_URL
+    ? process.env.COURIER_PUBLIC_TRACKING_URL.replace('{trackingNumber}', encodeURIComponent(trackingNumber))
+    : undefined,
+  track: async (shipment) => {
+    const response = await fetch(process.env.COURIER_TRACKING_API_URL || '', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+      body: JSON.stringify({
+        ClientInfo: getCourierClientInfo(),
+        Shipments: [shipment.trackingNumber],
+        GetLastTrackingUpdateOnly: false,
+      }),
+      cache: 'no-store',
+    });
+    if (!response.ok) {
+      throw new TrackingError('CARRIER_ERROR', `Courier tracking failed with ${response.status}`, 502);
+    }
+
+    const data = await response.json();
+    if (data?.HasErrors) {
+      throw new TrackingError('CARRIER_ERROR', 'Courier tracking returned errors', 502);
+    }
+
+    const result = (Array.isArray(data?.TrackingResults) ? data.TrackingResults : [])
+      .filter((entry: any) => entry?.Key === shipment.trackingNumber)[0];
+    const updates: any[] = Array.isArray(result?.Value) ? result.Value : [];
+
+    const events: TrackingEvent[] = [];
+    updates.forEach((update) => {
+      const timestamp = parseCarrierDate(update?.UpdateDateTime);
+      const description = typeof update?.UpdateDescription === 'string' ? update.UpdateDescription : '';
+      if (!timestamp || !description) return;
+      events.push({
+        type: classifyCarrierUpdate(description),
+        timestamp,
+        location: typeof update.UpdateLocation === 'string' && update.UpdateLocation ? update.UpdateLocation : undefined,
+        description,
+        source: 'carrier',
+      });
+    });
+
+    return { events };
+  },
+});
+
+// Deterministic timeline that advances with the clock from the ship date
+const FAKE_ROUTE: Array<{ type: TrackingEventType; afterHours: number; location: string; description: string }> = [
+  { type: 'shipped', afterHours: 0, location: 'Cairo Sorting Center', description: 'Shipment picked up' },
+  { type: 'shipped', afterHours: 8, location: 'Cairo Hub', description: 'Arrived at delivery facility' },
+  { type: 'out_for_delivery', afterHours: 20, location: 'Cairo Hub', description: 'Out for delivery' },
+  { type: 'delivered', afterHours: 26, location: 'Customer address', description: 'Delivered' },
+];
+
+export function isFakeCarrierEnabled(): boolean {
+  return process.env.TRACKING_FAKE_CARRIER === 'true' && process.env.NODE_ENV !== 'production';
+}
+
+registerCarrierAdapter({
+  id: 'fake',
+  name: 'Test Courier',
+  isConfigured: isFakeCarrierEnabled,
+  track: async (shipment) => {
+    const shippedAt = Date.parse(shipment.shippedAt || '') || Date.now();
+    const now = Date.now();
+
+    return {
+      events: FAKE_ROUTE
+        .map((step) => ({
+          type: step.type,
+          timestamp: new Date(shippedAt + step.afterHours * 60 * 60 * 1000).toISOString(),
+          location: step.location,
+          description: step.description,
+          source: 'carrier' as const,
+        }))
+        .filter((event) => Date.parse(event.timestamp) <= now),
+      estimatedDelivery: new Date(shippedAt + FAKE_ROUTE[FAKE_ROUTE.length - 1].afterHours * 60 * 60 * 1000).toISOString(),
+    };
+  },
+});
+
+// Carrier responses are reused briefly so polling pages don't hammer the carrier
+const CARRIER_CACHE_TTL = 5 * 60 * 1000;
+const carrierCache = new Map<string, { expiresAt: number; tracking: CarrierTracking }>();
+
+export async function getCarrierTracking(adapter: CarrierAdapter, shipment: OrderShipment): Promise<CarrierTracking> {
+  const key = `${adapter.id}:${shipment.trackingNumber}`;
+  const cached = carrierCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.tracking;
+
+  const tracking = await adapter.track(shipment);
+  carrierCache.set(key, { expiresAt: Date.now() + CARRIER_CACHE_TTL, tracking });
+  return tracking;
+}
+
+// Contact checks
+function normalizePhone(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+/**
+ * The customer proves the order is theirs with the email or phone on it.
+ * Phones match on their last nine digits so +20 10... and 010... agree.
+ */
+export function matchesOrderContact(order: Pick<Order, 'shippingInfo'>, contact: { email?: string; phone?: string }): boolean {
+  const info = order.shippingInfo;
+  if (!info) return false;
+
+  if (contact.email && info.email && contact.email.trim().toLowerCase() === info.email.trim().toLowerCase()) {
+    return true;
+  }
+
+  const phone = contact.phone ? normalizePhone(contact.phone) : '';
+  const orderPhone = info.phone ? normalizePhone(info.phone) : '';
+  return phone.length >= 7 && orderPhone.length >= 7 && phone.slice(-9) === orderPhone.slice(-9);
+}
+
+// Timeline
+const STORE_STATUS_EVENTS: Record<string, TrackingEventType> = {
+  paid: 'paid',
+  placed: 'packed',
+  on_way: 'shipped',
+  delivered: 'delivered',
+  cancelled: 'cancelled',
+  rejected: 'cancelled',
+};
+
+/**
+ * Store milestones and carrier scans in time order. Once the carrier reports
+ * a stage, the store's own record of that stage is left out.
+ */
+export function buildTrackingTimeline(order: Order, carrierEvents: TrackingEvent[] = []): TrackingEvent[] {
+  const carrierStages = carrierEvents.map((event) => event.type);
+  const events: TrackingEvent[] = [{ type: 'placed', timestamp: order.createdAt, source: 'store' }];
+
+  if (order.paidAt) {
+    events.push({ type: 'paid', timestamp: order.paidAt, source: 'store' });
+  }
+
+  (order.statusHistory || []).forEach((entry) => {
+    const type = STORE_STATUS_EVENTS[entry.status];
+    if (!type || carrierStages.indexOf(type) !== -1) return;
+    if (events.some((event) => event.type === type)) return;
+    events.push({ type, timestamp: entry.at, description: entry.note, source: 'store' });
+  });
+
+  if (order.shipment?.shippedAt && carrierStages.indexOf('shipped') === -1 && !events.some((event) => event.type === 'shipped')) {
+    events.push({ type: 'shipped', timestamp: order.shipment.shippedAt, source: 'store' });
+  }
+  if (order.deliveredAt && carrierStages.indexOf('delivered') === -1 && !events.some((event) => event.type === 'delivered')) {
+    events.push({ type: 'delivered', timestamp: order.deliveredAt, source: 'store' });
+  }
+  if (order.cancelledAt && !events.some((event) => event.type === 'cancelled')) {
+    events.push({ type: 'cancelled', timestamp: order.cancelledAt, source: 'store' });
+  }
+
+  return events
+    .concat(carrierEvents)
+    .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+}
+
+export function isInTransit(status: string, timeline: TrackingEvent[]): boolean {
+  const last = timeline[timeline.length - 1];
+  if (!last || last.type === 'delivered' || last.type === 'cancelled') return false;
+  return status === 'on_way' || last.type === 'shipped' || last.type === 'out_for_delivery';
+}
+
+export async function getOrderTracking(order: Order): Promise<OrderTracking> {
+  const shipment = order.shipment;
+  const adapter = shipment ? getCarrierAdapter(shipment.carrier) : null;
+  let carrierTracking: CarrierTracking = { events: [] };
+
+  if (shipment && adapter) {
+    try {
+      carrierTracking = await getCarrierTracking(adapter, shipment);
+    } catch (error) {
+      // The store's own milestones are still worth showing
+      console.error(`Carrier tracking failed for order ${order._id}:`, error);
+    }
+  }
+
+  const timeline = buildTrackingTimeline(order, carrierTracking.events);
+
+  return {
+    orderId: order._id,
+    status: order.status,
+    createdAt: order.createdAt,
+    totalAmount: order.totalAmount,
+    currency: order.currency,
+    paymentMethod: order.paymentMethod,
+    items: order.items,
+    shippingInfo: order.shippingInfo && {
+      firstName: order.shippingInfo.firstName,
+      lastName: order.shippingInfo.lastName,
+      city: order.shippingInfo.city,
+    },
+    carrier: shipment && {
+      id: shipment.carrier,
+      name: adapter?.name || shipment.carrier,
+      trackingNumber: shipment.trackingNumber,
+      trackingUrl: adapter?.getTrackingUrl?.(shipment.trackingNumber),
+    },
+    estimatedDelivery: carrierTracking.estimatedDelivery || shipment?.estimatedDelivery,
+    timeline,
+    inTransit: isInTransit(order.status, timeline),
+  };
+}
@@ -0,0 +1,259 @@
+import { config } from './config';
+import { ContentLocale, getContentLocale, getTextDirection } from './locales';
+import { isMailerConfigured, sendMail } from './mailer';
+import { escapeHtml } from './utils';
+
+/**
+ * Password Reset
+ * Account recovery behind /api/v1/auth/forgot-password and reset-password.
+ * The backend owns the reset: it issues the six-digit code and the reset
+ * token, throttles resends, counts wrong codes per address and client IP,
+ * and sets the new password, signing the account out on every other device.
+ * This module asks it for a code, emails the code together with a link to
+ * the reset page, and relays the shopper's code or link back to it. Nothing
+ * about a reset is kept on this server.
+ */
+
+const BACKEND_API_URL = process.env.BACKEND_API_URL || 'http://localhost:3000/api';
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// What the backend hands to this trusted caller so the email can be sent from here
+interface IssuedReset {
+  code: string;
+  resetToken: string;
+  expiresAt: string;
+  resendAvailableAt: string;
+}
+
+export type PasswordResetErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'RESEND_COOLDOWN'
+  | 'LOCKED'
+  | 'INVALID_CODE'
+  | 'CODE_EXPIRED'
+  | 'INVALID_TOKEN'
+  | 'EMAIL_UNAVAILABLE'
+  | 'BACKEND_ERROR';
+
+const BACKEND_ERROR_CODES: PasswordResetErrorCode[] = [
+  'VALIDATION_ERROR',
+  'RESEND_COOLDOWN',
+  'LOCKED',
+  'INVALID_CODE',
+  'CODE_EXPIRED',
+  'INVALID_TOKEN',
+];
+
+export class PasswordResetError extends Error {
+  constructor(
+    public code: PasswordResetErrorCode,
+    message: string,
+    public status: number,
+    public details?: { retryAfter?: number; attemptsLeft?: number }
+  ) {
+    super(message);
+    this.name = 'PasswordResetError';
+  }
+}
+
+export function isPasswordResetError(error: unknown): error is PasswordResetError {
+  return error instanceof Error && error.name === 'PasswordResetError';
+}
+
+export function normalizeEmail(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const email = value.trim().toLowerCase();
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) && email.length <= 254 ? email : null;
+}
+
+// "m***@example.com", enough for the shopper to recognise their address
+export function maskEmail(email: string): string {
+  const [name, domain] = email.split('@');
+  return `${name.charAt(0)}***@${domain}`;
+}
+
+export function getResetUrl(token: string, locale: string): string {
+  return `/${locale}/reset-password?token=${encodeURIComponent(token)}`;
+}
+
+// Backend calls
+function getServiceHeaders(): Record<string, string> {
+  const apiKey = process.env.AUTH_SERVICE_API_KEY;
+  // Reset codes are handed to whoever holds the key, so production never calls without one
+  if (!apiKey && process.env.NODE_ENV === 'production') {
+    console.error('AUTH_SERVICE_API_KEY is not set, password resets are disabled');
+    throw new PasswordResetError('EMAIL_UNAVAILABLE', 'Password reset is not available right now', 503);
+  }
+
+  return {
+    'Content-Type': 'application/json',
+    ...(apiKey && { 'x-api-key': apiKey }),
+  };
+}
+
+async function callBackend<T>(path: string, init: { method?: string; body?: unknown } = {}): Promise<T> {
+  const response = await fetch(`${BACKEND_API_URL}/v1/auth/${path}`, {
+    method: init.method || 'GET',
+    headers: getServiceHeaders(),
+    ...(init.body !== undefined && { body: JSON.stringify(init.body) }),
+    cache: 'no-store',
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const code = data?.error?.code;
+    // The backend's own verdicts (cooldowns, lockouts, bad codes) reach the shopper as-is
+    if (response.status < 500 && BACKEND_ERROR_CODES.indexOf(code) !== -1) {
+      throw new PasswordResetError(code, data.error.message || 'Password reset failed', response.status, data.error.details);
+    }
+    console.error('Backend response not ok:', response.status, response.statusText, data);
+    throw new PasswordResetError('BACKEND_ERROR', 'Password reset is not available right now', response.status === 404 ? 400 : 502);
+  }
+
+  return (data?.data ?? data) as T;
+}
+
+// Emails
+const RESET_EMAIL_COPY: Record<ContentLocale, {
+  subject: string;
+  intro: (minutes: number) => string;
+  linkIntro: string;
+  action: string;
+  ignore: string;
+}> = {
+  en: {
+    subject: 'Your password reset code',
+    intro: (minutes) => `Use this code to reset your password. It expires in ${minutes} minutes:`,
+    linkIntro: 'Or open this link:',
+    action: 'Reset my password',
+    ignore: 'If you didn\'t ask for this, you can ignore this email and your password will stay the same.',
+  },
+  ar: {
+    subject: 'رمز إعادة تعيين كلمة المرور',
+    intro: (minutes) => `استخدم هذا الرمز لإعادة تعيين كلمة المرور. ينتهي خلال ${minutes} دقيقة:`,
+    linkIntro: 'أو افتح هذا الرابط:',
+    action: 'إعادة تعيين كلمة المرور',
+    ignore: 'إذا لم تطلب ذلك، يمكنك تجاهل هذه الرسالة وستبقى كلمة المرور كما هي.',
+  },
+};
+
+const PASSWORD_CHANGED_COPY: Record<ContentLocale, { subject: string; text: (name: string, email: string) => string }> = {
+  en: {
+    subject: 'Your password was changed',
+    text: (name, email) => `The password for your ${name} account was changed and all devices were signed out. If this wasn't you, contact us right away at ${email}.`,
+  },
+  ar: {
+    subject: 'تم تغيير كلمة المرور',
+    text: (name, email) => `تم تغيير كلمة مرور حسابك في ${name} وتم تسجيل الخروج من جميع الأجهزة. إذا لم تقم بذلك، تواصل معنا فوراً على ${email}.`,
+  },
+};
+
+async function sendResetEmail(email: string, locale: ContentLocale, issued: IssuedReset): Promise<void> {
+  const copy = RESET_EMAIL_COPY[locale];
+  const url = `${config.site.url}${getResetUrl(issued.resetToken, locale)}`;
+  const minutes = Math.max(1, Math.round((new Date(issued.expiresAt).getTime() - Date.now()) / 60000));
+
+  if (!isMailerConfigured()) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new PasswordResetError('EMAIL_UNAVAILABLE', 'Password reset emails are not available right now', 503);
+    }
+    console.log(`Password reset for ${email}: code ${issued.code}, link ${url}`);
+    return;
+  }
+
+  const intro = copy.intro(minutes);
+
+  await sendMail({
+    to: email,
+    subject: copy.subject,
+    text: [intro, '', issued.code, '', copy.linkIntro, url, '', copy.ignore].join('\n'),
+    html: `<div dir="${getTextDirection(locale)}" style="font-family:sans-serif">
+  <p>${escapeHtml(intro)}</p>
+  <p style="font-size:28px;font-weight:bold;letter-spacing:6px">${escapeHtml(issued.code)}</p>
+  <p><a href="${escapeHtml(url)}" style="display:inline-block;padding:12px 24px;background:#000;color:#fff;border-radius:24px;text-decoration:none">${copy.action}</a></p>
+  <p style="color:#666">${escapeHtml(copy.ignore)}</p>
+</div>`,
+  });
+}
+
+async function sendPasswordChangedEmail(email: string, locale: ContentLocale): Promise<void> {
+  if (!isMailerConfigured()) return;
+
+  const copy = PASSWORD_CHANGED_COPY[locale];
+  const text = copy.text(config.business.name, config.business.email);
+
+  await sendMail({
+    to: email,
+    subject: copy.subject,
+    text,
+    html: `<div dir="${getTextDirection(locale)}" style="font-family:sans-serif"><p>${escapeHtml(text)}</p></div>`,
+  });
+}
+
+/**
+ * Emails a new code and link, replacing any earlier ones. The backend only
+ * issues a code for addresses with an account, but the same response is
+ * returned either way, so the endpoint can't be used to discover customers.
+ */
+export async function requestPasswordReset(
+  email: string,
+  locale: ContentLocale,
+  clientIp: string
+): Promise<{ resendAvailableAt: string }> {
+  const issued = await callBackend<Partial<IssuedReset>>('forgot-password', {
+    method: 'POST',
+    body: { email, locale, clientIp },
+  });
+
+  if (issued.code && issued.resetToken && issued.expiresAt) {
+    await sendResetEmail(email, locale, issued as IssuedReset);
+  }
+
+  return { resendAvailableAt: issued.resendAvailableAt || new Date().toISOString() };
+}
+
+// Checks a reset link before the page asks for a new password
+export async function checkResetToken(token: unknown): Promise<{ email: string; expiresAt: string }> {
+  if (typeof token !== 'string' || !token || token.length > 1000) {
+    throw new PasswordResetError('INVALID_TOKEN', 'This reset link is invalid', 400);
+  }
+
+  const reset = await callBackend<{ email: string; expiresAt: string }>(
+    `reset-password/${encodeURIComponent(token)}`
+  );
+  return { email: maskEmail(reset.email), expiresAt: reset.expiresAt };
+}
+
+/**
+ * Sets a new password with a code (wrong ones count toward the lockout for
+ * this address and client IP) or the token from a reset link. The backend
+ * revokes every session of the account and uses the code or token up.
+ */
+export async function resetPassword(
+  proof: { email?: string; code?: string; token?: string },
+  password: string,
+  clientIp: string
+): Promise<void> {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new PasswordResetError('VALIDATION_ERROR', `Password must be at least ${MIN_PASSWORD_LENGTH} characters`, 400);
+  }
+
+  const reset = await callBackend<{ email: string; locale?: string }>('reset-password', {
+    method: 'POST',
+    body: {
+      ...(proof.token ? { resetToken: proof.token } : { email: proof.email, code: proof.code }),
+      password,
+      cPassword: password,
+      logoutAllDevices: true,
+      clientIp,
+    },
+  });
+
+  const email = normalizeEmail(reset?.email) || normalizeEmail(proof.email);
+  if (email) {
+    sendPasswordChangedEmail(email, getContentLocale(reset?.locale)).catch((error) => {
+      console.error('Password changed email failed:', error);
+    });
+  }
+}
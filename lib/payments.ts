@@ -0,0 +1,306 @@
+import type { Stripe, StripeElements, StripeElementLocale } from '@stripe/stripe-js';
+import { ContentLocale, getContentLocale, isRegisteredLocale } from './locales';
+import type { CartItem } from './store';
+
+/**
+ * Payment Providers
+ * Pluggable card payment providers used by the payment page, plus the
+ * pending-payment record that lets checkout resume or retry an unpaid order
+ */
+
+export type PaymentProviderId = 'stripe' | 'fake';
+
+// Normalized payment intent states across providers
+export type PaymentIntentStatus =
+  | 'succeeded'
+  | 'processing'
+  | 'requires_action'
+  | 'requires_payment_method'
+  | 'canceled'
+  | 'failed';
+
+export interface PaymentResult {
+  status: PaymentIntentStatus;
+  error?: string;
+}
+
+export interface PaymentSessionOptions {
+  orderId: string;
+  clientSecret: string;
+  locale: string;
+}
+
+export interface PaymentSession {
+  mount(element: HTMLElement): void;
+  confirm(returnUrl: string): Promise<PaymentResult>;
+  // Runs 3-D Secure or any other customer action the provider asks for
+  handleNextAction(): Promise<PaymentResult>;
+  // Reads the current state, e.g. after returning from a 3-D Secure redirect
+  retrieve(): Promise<PaymentResult>;
+  destroy(): void;
+}
+
+export interface PaymentProvider {
+  id: PaymentProviderId;
+  name: string;
+  createSession(options: PaymentSessionOptions): Promise<PaymentSession>;
+}
+
+// Order statuses reported by getOrderStatus once the payment is settled
+export const PAID_ORDER_STATUSES = ['paid', 'confirmed', 'processing', 'shipped', 'delivered', 'completed'];
+export const FAILED_ORDER_STATUSES = ['failed', 'payment_failed', 'cancelled', 'canceled', 'expired'];
+
+// A payment left unfinished longer than this is treated as abandoned
+export const PAYMENT_SESSION_TTL = 30 * 60 * 1000;
+
+const PENDING_PAYMENT_KEY = 'logen-pending-payment';
+
+export interface PendingPayment {
+  orderId: string;
+  clientSecret: string;
+  locale: string;
+  items: CartItem[];
+  startedAt: number;
+  abandonedAt?: number;
+  lastError?: string;
+}
+
+function mapStripeStatus(status: string): PaymentIntentStatus {
+  switch (status) {
+    case 'succeeded':
+    case 'processing':
+    case 'requires_action':
+    case 'requires_payment_method':
+    case 'canceled':
+      return status;
+    case 'requires_confirmation':
+      return 'requires_action';
+    default:
+      return 'failed';
+  }
+}
+
+class StripePaymentProvider implements PaymentProvider {
+  id: PaymentProviderId = 'stripe';
+  name = 'Stripe';
+  private stripePromise: Promise<Stripe | null> | null = null;
+
+  private getStripe(): Promise<Stripe | null> {
+    if (!this.stripePromise) {
+      const publishableKey = process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY;
+      if (!publishableKey) {
+        return Promise.reject(new Error('Stripe publishable key is not configured'));
+      }
+      // Load Stripe.js only when a card payment actually starts
+      this.stripePromise = import('@stripe/stripe-js').then(({ loadStripe }) => loadStripe(publishableKey));
+    }
+    return this.stripePromise;
+  }
+
+  async createSession({ clientSecret, locale }: PaymentSessionOptions): Promise<PaymentSession> {
+    const stripe = await this.getStripe();
+    if (!stripe) {
+      throw new Error('Failed to load Stripe');
+    }
+
+    const elements: StripeElements = stripe.elements({
+      clientSecret,
+      locale: (isRegisteredLocale(locale) ? locale : 'auto') as StripeElementLocale,
+      appearance: { theme: 'stripe' },
+    });
+    const paymentElement = elements.create('payment');
+
+    return {
+      mount: (element) => paymentElement.mount(element),
+
+      confirm: async (returnUrl) => {
+        // Cards that need 3-D Secure show the challenge in a modal; only
+        // redirect-based methods leave the page and come back on returnUrl
+        const result = await stripe.confirmPayment({
+          elements,
+          confirmParams: { return_url: returnUrl },
+          redirect: 'if_required',
+        });
+
+        if (result.error) {
+          return {
+            status: result.error.payment_intent ? mapStripeStatus(result.error.payment_intent.status) : 'requires_payment_method',
+            error: result.error.message,
+          };
+        }
+        return { status: mapStripeStatus(result.paymentIntent.status) };
+      },
+
+      handleNextAction: async () => {
+        const result = await stripe.handleNextAction({ clientSecret });
+        if (result.error) {
+          return { status: 'requires_payment_method', error: result.error.message };
+        }
+        return { status: result.paymentIntent ? mapStripeStatus(result.paymentIntent.status) : 'failed' };
+      },
+
+      retrieve: async () => {
+        const result = await stripe.retrievePaymentIntent(clientSecret);
+        if (result.error || !result.paymentIntent) {
+          return { status: 'failed', error: result.error?.message };
+        }
+        const lastError = result.paymentIntent.last_payment_error?.message;
+        return { status: mapStripeStatus(result.paymentIntent.status), error: lastError };
+      },
+
+      destroy: () => paymentElement.destroy(),
+    };
+  }
+}
+
+// Stripe-style test cards understood by the fake provider
+export const FAKE_TEST_CARDS = {
+  success: '4242424242424242',
+  requiresAction: '4000002500003155',
+  actionFails: '4000008260003178',
+  declined: '4000000000000002',
+};
+
+const FAKE_GATEWAY_COPY: Record<ContentLocale, { cardPlaceholder: string; challenge: string }> = {
+  en: {
+    cardPlaceholder: 'Test card number',
+    challenge: 'Simulated 3-D Secure: approve this payment?',
+  },
+  ar: {
+    cardPlaceholder: 'رقم بطاقة الاختبار',
+    challenge: 'محاكاة التحقق ثلاثي الأبعاد: الموافقة على الدفع؟',
+  },
+};
+
+class FakePaymentProvider implements PaymentProvider {
+  id: PaymentProviderId = 'fake';
+  name = 'Test payments';
+
+  // Reports the outcome to the local fake gateway so order status polling sees it
+  private async report(orderId: string, clientSecret: string, status: PaymentIntentStatus): Promise<void> {
+    await fetch('/api/v1/payments/fake', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ orderId, clientSecret, status }),
+    });
+  }
+
+  async createSession({ orderId, clientSecret, locale }: PaymentSessionOptions): Promise<PaymentSession> {
+    let input: HTMLInputElement | null = null;
+    let status: PaymentIntentStatus = 'requires_payment_method';
+    let cardNumber = '';
+
+    const settle = async (next: PaymentIntentStatus, error?: string): Promise<PaymentResult> => {
+      status = next;
+      await this.report(orderId, clientSecret, next);
+      return { status: next, error };
+    };
+
+    return {
+      mount: (element) => {
+        input = document.createElement('input');
+        input.type = 'text';
+        input.inputMode = 'numeric';
+        input.autocomplete = 'cc-number';
+        input.placeholder = FAKE_GATEWAY_COPY[getContentLocale(locale)].cardPlaceholder;
+        input.value = FAKE_TEST_CARDS.success;
+        input.className = 'w-full px-4 py-3 border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+        element.appendChild(input);
+      },
+
+      confirm: async () => {
+        cardNumber = (input?.value || '').replace(/\s+/g, '');
+        await new Promise((resolve) => setTimeout(resolve, 600));
+
+        switch (cardNumber) {
+          case FAKE_TEST_CARDS.success:
+            return settle('succeeded');
+          case FAKE_TEST_CARDS.requiresAction:
+          case FAKE_TEST_CARDS.actionFails:
+            status = 'requires_action';
+            return { status };
+          case FAKE_TEST_CARDS.declined:
+            return { status: 'requires_payment_method', error: 'Your card was declined.' };
+          default:
+            return { status: 'requires_payment_method', error: 'Use one of the test card numbers.' };
+        }
+      },
+
+      handleNextAction: async () => {
+        // Stand-in for the 3-D Secure challenge
+        const approved = window.confirm(
+          FAKE_GATEWAY_COPY[getContentLocale(locale)].challenge
+        );
+        if (!approved || cardNumber === FAKE_TEST_CARDS.actionFails) {
+          status = 'requires_payment_method';
+          return { status, error: 'Card authentication failed.' };
+        }
+        return settle('succeeded');
+      },
+
+      retrieve: async () => ({ status }),
+
+      destroy: () => {
+        input?.remove();
+        input = null;
+      },
+    };
+  }
+}
+
+const providers: Record<PaymentProviderId, PaymentProvider> = {
+  stripe: new StripePaymentProvider(),
+  fake: new FakePaymentProvider(),
+};
+
+export function getPaymentProviderId(): PaymentProviderId {
+  const configured = process.env.NEXT_PUBLIC_PAYMENT_PROVIDER;
+  if (configured === 'stripe' || configured === 'fake') {
+    return configured;
+  }
+  // Fall back to the fake provider only in development without Stripe keys
+  if (!process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY && process.env.NODE_ENV === 'development') {
+    return 'fake';
+  }
+  return 'stripe';
+}
+
+export function getPaymentProvider(id: PaymentProviderId = getPaymentProviderId()): PaymentProvider {
+  return providers[id];
+}
+
+// Pending payment record, kept per tab so checkout can resume or retry it
+export function savePendingPayment(payment: Omit<PendingPayment, 'startedAt'> & { startedAt?: number }): void {
+  if (typeof window === 'undefined') return;
+  const record: PendingPayment = { ...payment, startedAt: payment.startedAt || Date.now() };
+  sessionStorage.setItem(PENDING_PAYMENT_KEY, JSON.stringify(record));
+}
+
+export function getPendingPayment(orderId?: string): PendingPayment | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const raw = sessionStorage.getItem(PENDING_PAYMENT_KEY);
+    if (!raw) return null;
+    const record = JSON.parse(raw) as PendingPayment;
+    if (orderId && record.orderId !== orderId) return null;
+    return record;
+  } catch {
+    return null;
+  }
+}
+
+export function updatePendingPayment(orderId: string, updates: Partial<PendingPayment>): void {
+  const record = getPendingPayment(orderId);
+  if (!record) return;
+  savePendingPayment({ ...record, ...updates });
+}
+
+export function clearPendingPayment(orderId?: string): void {
+  if (typeof window === 'undefined') return;
+  if (orderId && !getPendingPayment(orderId)) return;
+  sessionStorage.removeItem(PENDING_PAYMENT_KEY);
+}
+
+export function isPendingPaymentExpired(payment: PendingPayment): boolean {
+  return Date.now() - payment.startedAt > PAYMENT_SESSION_TTL;
+}
@@ -0,0 +1,363 @@
+import pricingRulesJson from '@/data/pricing-rules.json';
+import { roundToCurrency } from './currency';
+
+/**
+ * Pricing Engine
+ * Computes shipping and tax for a cart from the rules in data/pricing-rules.json.
+ * Runs in the browser for checkout previews and in the checkout routes for the
+ * authoritative amounts, so both always agree.
+ */
+
+export interface LocalizedText {
+  en: string;
+  ar: string;
+}
+
+export type ShippingMethod = 'flat' | 'weight' | 'items';
+export type TaxMode = 'inclusive' | 'exclusive';
+
+export interface ShippingRate {
+  base: number;
+  perKg?: number;
+  includedWeight?: number;
+  perItem?: number;
+  freeShippingThreshold?: number;
+}
+
+export interface ShippingZone {
+  id: string;
+  name: LocalizedText;
+  countries?: string[];
+  cities?: string[];
+  method: ShippingMethod;
+  rates: Record<string, ShippingRate>;
+}
+
+export interface TaxJurisdiction {
+  id: string;
+  name: LocalizedText;
+  countries?: string[];
+  cities?: string[];
+  rate: number;
+  mode: TaxMode;
+  taxShipping: boolean;
+}
+
+export interface PricingRules {
+  defaultCountry: string;
+  defaultItemWeight: number;
+  shipping: {
+    zones: ShippingZone[];
+  };
+  tax: {
+    jurisdictions: TaxJurisdiction[];
+    default: TaxJurisdiction;
+  };
+}
+
+export interface PricingItem {
+  id?: string;
+  title?: string;
+  price: number;
+  quantity: number;
+  weight?: number;
+  size?: string;
+  color?: string;
+}
+
+export interface PricingDestination {
+  country?: string;
+  city?: string;
+}
+
+export interface PricingInput {
+  items: PricingItem[];
+  currency: string;
+  destination?: PricingDestination;
+  discount?: number;
+}
+
+export interface PricingLine {
+  id?: string;
+  title?: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+  size?: string;
+  color?: string;
+}
+
+export interface ShippingQuote {
+  amount: number;
+  zoneId: string;
+  zoneName: LocalizedText;
+  method: ShippingMethod;
+  free: boolean;
+  freeShippingThreshold?: number;
+  // How much more the customer needs to spend to get free shipping
+  amountToFreeShipping?: number;
+  explanation: LocalizedText;
+}
+
+export interface TaxQuote {
+  amount: number;
+  rate: number;
+  mode: TaxMode;
+  jurisdictionId: string;
+  jurisdictionName: LocalizedText;
+  explanation: LocalizedText;
+}
+
+export interface PricingQuote {
+  currency: string;
+  lines: PricingLine[];
+  itemCount: number;
+  weight: number;
+  subtotal: number;
+  discount: number;
+  shipping: ShippingQuote;
+  tax: TaxQuote;
+  total: number;
+}
+
+export class PricingError extends Error {
+  code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'PricingError';
+    this.code = code;
+  }
+}
+
+// Checked by name because subclassed errors lose their prototype when compiled to ES5
+export function isPricingError(error: unknown): error is PricingError {
+  return !!error && typeof error === 'object' && (error as Error).name === 'PricingError';
+}
+
+export const pricingRules = pricingRulesJson as PricingRules;
+
+const roundAmount = roundToCurrency;
+
+function normalizeCity(city?: string): string {
+  return (city || '').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function matchesDestination(
+  rule: { countries?: string[]; cities?: string[] },
+  country: string,
+  city: string
+): boolean {
+  if (rule.countries && rule.countries.length > 0 && !rule.countries.includes(country)) {
+    return false;
+  }
+  if (rule.cities && rule.cities.length > 0) {
+    return rule.cities.some((entry) => normalizeCity(entry) === city);
+  }
+  return true;
+}
+
+// Rules with a city list are more specific than country-wide or catch-all rules
+function findMostSpecific<T extends { countries?: string[]; cities?: string[] }>(
+  rules: T[],
+  country: string,
+  city: string
+): T | undefined {
+  const matches = rules.filter((rule) => matchesDestination(rule, country, city));
+  return (
+    matches.find((rule) => rule.cities && rule.cities.length > 0) ||
+    matches.find((rule) => rule.countries && rule.countries.length > 0) ||
+    matches[0]
+  );
+}
+
+export function resolveShippingZone(destination: PricingDestination = {}, rules: PricingRules = pricingRules): ShippingZone {
+  const country = (destination.country || rules.defaultCountry).toUpperCase();
+  const zone = findMostSpecific(rules.shipping.zones, country, normalizeCity(destination.city));
+  if (!zone) {
+    throw new PricingError('SHIPPING_UNAVAILABLE', `We do not ship to ${country} yet`);
+  }
+  return zone;
+}
+
+export function resolveTaxJurisdiction(destination: PricingDestination = {}, rules: PricingRules = pricingRules): TaxJurisdiction {
+  const country = (destination.country || rules.defaultCountry).toUpperCase();
+  return findMostSpecific(rules.tax.jurisdictions, country, normalizeCity(destination.city)) || rules.tax.default;
+}
+
+function calculateShipping(
+  zone: ShippingZone,
+  currency: string,
+  itemCount: number,
+  weight: number,
+  merchandiseTotal: number
+): ShippingQuote {
+  const rate = zone.rates[currency];
+  if (!rate) {
+    throw new PricingError('SHIPPING_UNAVAILABLE', `Shipping to ${zone.name.en} is not available in ${currency}`);
+  }
+
+  const threshold = rate.freeShippingThreshold;
+  const base: Omit<ShippingQuote, 'amount' | 'free' | 'explanation'> = {
+    zoneId: zone.id,
+    zoneName: zone.name,
+    method: zone.method,
+    freeShippingThreshold: threshold,
+  };
+
+  if (threshold !== undefined && merchandiseTotal >= threshold) {
+    return {
+      ...base,
+      amount: 0,
+      free: true,
+      explanation: {
+        en: `Free shipping to ${zone.name.en} on orders of ${threshold} ${currency} or more`,
+        ar: `شحن مجاني إلى ${zone.name.ar} للطلبات بقيمة ${threshold} ${currency} أو أكثر`,
+      },
+    };
+  }
+
+  let amount = rate.base;
+  let explanation: LocalizedText;
+
+  switch (zone.method) {
+    case 'weight': {
+      const included = rate.includedWeight || 0;
+      const extraKg = Math.max(0, Math.ceil(weight - included));
+      amount += extraKg * (rate.perKg || 0);
+      explanation = extraKg > 0
+        ? {
+            en: `${zone.name.en}: ${rate.base} ${currency} for the first ${included} kg + ${rate.perKg} ${currency} per extra kg (${extraKg} kg)`,
+            ar: `${zone.name.ar}: ${rate.base} ${currency} لأول ${included} كجم + ${rate.perKg} ${currency} لكل كجم إضافي (${extraKg} كجم)`,
+          }
+        : {
+            en: `${zone.name.en}: ${rate.base} ${currency} for up to ${included} kg`,
+            ar: `${zone.name.ar}: ${rate.base} ${currency} حتى ${included} كجم`,
+          };
+      break;
+    }
+    case 'items': {
+      const extraItems = Math.max(0, itemCount - 1);
+      amount += extraItems * (rate.perItem || 0);
+      explanation = extraItems > 0
+        ? {
+            en: `${zone.name.en}: ${rate.base} ${currency} + ${rate.perItem} ${currency} for each additional item (${extraItems})`,
+            ar: `${zone.name.ar}: ${rate.base} ${currency} + ${rate.perItem} ${currency} لكل منتج إضافي (${extraItems})`,
+          }
+        : {
+            en: `${zone.name.en}: ${rate.base} ${currency} for one item`,
+            ar: `${zone.name.ar}: ${rate.base} ${currency} لمنتج واحد`,
+          };
+      break;
+    }
+    case 'flat':
+    default:
+      explanation = {
+        en: `${zone.name.en}: flat rate of ${rate.base} ${currency}`,
+        ar: `${zone.name.ar}: سعر ثابت ${rate.base} ${currency}`,
+      };
+  }
+
+  amount = roundAmount(amount, currency);
+
+  return {
+    ...base,
+    amount,
+    free: false,
+    amountToFreeShipping: threshold !== undefined ? roundAmount(threshold - merchandiseTotal, currency) : undefined,
+    explanation,
+  };
+}
+
+function calculateTax(
+  jurisdiction: TaxJurisdiction,
+  currency: string,
+  merchandiseTotal: number,
+  shipping: number
+): TaxQuote {
+  const taxable = merchandiseTotal + (jurisdiction.taxShipping ? shipping : 0);
+  const percent = `${Math.round(jurisdiction.rate * 10000) / 100}%`;
+
+  // Inclusive prices already contain the tax, so only the contained share is reported
+  const amount = jurisdiction.mode === 'inclusive'
+    ? roundAmount(taxable - taxable / (1 + jurisdiction.rate), currency)
+    : roundAmount(taxable * jurisdiction.rate, currency);
+
+  let explanation: LocalizedText;
+  if (jurisdiction.rate === 0) {
+    explanation = { en: 'No tax applies to this destination', ar: 'لا تنطبق ضريبة على هذه الوجهة' };
+  } else if (jurisdiction.mode === 'inclusive') {
+    explanation = {
+      en: `${jurisdiction.name.en} ${percent} included in prices`,
+      ar: `${jurisdiction.name.ar} ${percent} مشمولة في الأسعار`,
+    };
+  } else {
+    explanation = {
+      en: `${jurisdiction.name.en} ${percent} on items${jurisdiction.taxShipping ? ' and shipping' : ''}`,
+      ar: `${jurisdiction.name.ar} ${percent} على المنتجات${jurisdiction.taxShipping ? ' والشحن' : ''}`,
+    };
+  }
+
+  return {
+    amount,
+    rate: jurisdiction.rate,
+    mode: jurisdiction.mode,
+    jurisdictionId: jurisdiction.id,
+    jurisdictionName: jurisdiction.name,
+    explanation,
+  };
+}
+
+export function calculateQuote(input: PricingInput, rules: PricingRules = pricingRules): PricingQuote {
+  const { currency } = input;
+  const items = Array.isArray(input.items) ? input.items : [];
+
+  const lines: PricingLine[] = items.map((item) => {
+    const quantity = Math.max(0, Math.floor(Number(item.quantity) || 0));
+    const unitPrice = Math.max(0, Number(item.price) || 0);
+    return {
+      id: item.id,
+      title: item.title,
+      quantity,
+      unitPrice,
+      total: roundAmount(unitPrice * quantity, currency),
+      size: item.size,
+      color: item.color,
+    };
+  });
+
+  const itemCount = lines.reduce((sum, line) => sum + line.quantity, 0);
+  const weight = items.reduce(
+    (sum, item) => sum + (item.weight ?? rules.defaultItemWeight) * Math.max(0, Math.floor(Number(item.quantity) || 0)),
+    0
+  );
+  const subtotal = roundAmount(lines.reduce((sum, line) => sum + line.total, 0), currency);
+  const discount = roundAmount(Math.min(Math.max(0, input.discount || 0), subtotal), currency);
+  const merchandiseTotal = subtotal - discount;
+
+  const shipping = calculateShipping(
+    resolveShippingZone(input.destination, rules),
+    currency,
+    itemCount,
+    weight,
+    merchandiseTotal
+  );
+  const tax = calculateTax(resolveTaxJurisdiction(input.destination, rules), currency, merchandiseTotal, shipping.amount);
+
+  const total = roundAmount(
+    merchandiseTotal + shipping.amount + (tax.mode === 'exclusive' ? tax.amount : 0),
+    currency
+  );
+
+  return {
+    currency,
+    lines,
+    itemCount,
+    weight: Math.round(weight * 1000) / 1000,
+    subtotal,
+    discount,
+    shipping,
+    tax,
+    total,
+  };
+}
@@ -1,19 +1,9 @@
 import { backgroundSync } from './background-sync';
+import { useCartStore, useLanguageStore } from './store';
+import { ContentLocale, getContentLocale } from './locales';
+import { fillTemplate, NOTIFICATION_TEMPLATES, NotificationTemplate, NotificationType } from './notification-templates';
 
-// Push notification types
-export type NotificationType = 
-  | 'order-confirmed'
-  | 'order-shipped'
-  | 'order-delivered'
-  | 'order-cancelled'
-  | 'promotion'
-  | 'new-product'
-  | 'price-drop'
-  | 'back-in-stock'
-  | 'cart-reminder'
-  | 'review-request'
-  | 'welcome'
-  | 'general';
+export type { NotificationTemplate, NotificationType } from './notification-templates';
 
 export interface PushNotificationPayload {
   title: string;
@@ -48,6 +38,8 @@ export interface NotificationSubscription {
     auth: string;
   };
   userId?: string;
+  locale?: ContentLocale;
+  timezone?: string;
   preferences: {
     orders: boolean;
     promotions: boolean;
@@ -60,20 +52,6 @@ export interface NotificationSubscription {
   lastUsed: Date;
 }
 
-export interface NotificationTemplate {
-  type: NotificationType;
-  title: string;
-  body: string;
-  icon?: string;
-  actions?: Array<{
-    action: string;
-    title: string;
-    icon?: string;
-  }>;
-  requireInteraction?: boolean;
-  vibrate?: number[];
-}
-
 class PushNotificationManager {
   private vapidPublicKey: string;
   private isSupported: boolean;
@@ -98,116 +76,7 @@ class PushNotificationManager {
   }
 
   private initializeTemplates(): void {
-    const templates: NotificationTemplate[] = [
-      {
-        type: 'order-confirmed',
-        title: 'Order Confirmed! 🎉',
-        body: 'Your order #{orderId} has been confirmed and is being processed.',
-        icon: '/icons/order-confirmed.png',
-        actions: [
-          { action: 'view-order', title: 'View Order', icon: '/icons/view.png' },
-          { action: 'track-order', title: 'Track Order', icon: '/icons/track.png' }
-        ],
-        requireInteraction: true,
-        vibrate: [200, 100, 200]
-      },
-      {
-        type: 'order-shipped',
-        title: 'Order Shipped! 📦',
-        body: 'Your order #{orderId} is on its way! Track your package for updates.',
-        icon: '/icons/shipped.png',
-        actions: [
-          { action: 'track-order', title: 'Track Package', icon: '/icons/track.png' }
-        ],
-        vibrate: [200, 100, 200]
-      },
-      {
-        type: 'order-delivered',
-        title: 'Order Delivered! ✅',
-        body: 'Your order #{orderId} has been delivered. Enjoy your purchase!',
-        icon: '/icons/delivered.png',
-        actions: [
-          { action: 'rate-order', title: 'Rate Order', icon: '/icons/star.png' },
-          { action: 'view-order', title: 'View Order', icon: '/icons/view.png' }
-        ],
-        requireInteraction: true,
-        vibrate: [200, 100, 200, 100, 200]
-      },
-      {
-        type: 'promotion',
-        title: 'Special Offer! 🔥',
-        body: 'Don\'t miss out on our latest deals and promotions!',
-        icon: '/icons/promotion.png',
-        actions: [
-          { action: 'view-deals', title: 'View Deals', icon: '/icons/shopping.png' }
-        ],
-        vibrate: [100, 50, 100]
-      },
-      {
-        type: 'new-product',
-        title: 'New Arrival! ✨',
-        body: 'Check out our latest products just added to the store.',
-        icon: '/icons/new-product.png',
-        actions: [
-          { action: 'view-product', title: 'View Product', icon: '/icons/view.png' }
-        ]
-      },
-      {
-        type: 'price-drop',
-        title: 'Price Drop Alert! 💰',
-        body: 'The item in your wishlist is now on sale!',
-        icon: '/icons/price-drop.png',
-        actions: [
-          { action: 'view-product', title: 'View Product', icon: '/icons/view.png' },
-          { action: 'add-to-cart', title: 'Add to Cart', icon: '/icons/cart.png' }
-        ],
-        requireInteraction: true,
-        vibrate: [200, 100, 200]
-      },
-      {
-        type: 'back-in-stock',
-        title: 'Back in Stock! 📦',
-        body: 'The item you were waiting for is now available!',
-        icon: '/icons/in-stock.png',
-        actions: [
-          { action: 'view-product', title: 'View Product', icon: '/icons/view.png' },
-          { action: 'add-to-cart', title: 'Add to Cart', icon: '/icons/cart.png' }
-        ],
-        requireInteraction: true,
-        vibrate: [200, 100, 200]
-      },
-      {
-        type: 'cart-reminder',
-        title: 'Don\'t Forget Your Cart! 🛒',
-        body: 'You have items waiting in your cart. Complete your purchase now!',
-        icon: '/icons/cart-reminder.png',
-        actions: [
-          { action: 'view-cart', title: 'View Cart', icon: '/icons/cart.png' },
-          { action: 'checkout', title: 'Checkout', icon: '/icons/checkout.png' }
-        ]
-      },
-      {
-        type: 'review-request',
-        title: 'How was your experience? ⭐',
-        body: 'We\'d love to hear about your recent purchase!',
-        icon: '/icons/review.png',
-        actions: [
-          { action: 'write-review', title: 'Write Review', icon: '/icons/star.png' }
-        ]
-      },
-      {
-        type: 'welcome',
-        title: 'Welcome to Our Store! 👋',
-        body: 'Thanks for enabling notifications. We\'ll keep you updated on your orders and special offers.',
-        icon: '/icons/welcome.png',
-        actions: [
-          { action: 'browse-products', title: 'Browse Products', icon: '/icons/shopping.png' }
-        ],
-        vibrate: [200, 100, 200]
-      }
-    ];
-
-    templates.forEach(template => {
+    NOTIFICATION_TEMPLATES.forEach(template => {
       this.templates.set(template.type, template);
     });
   }
@@ -276,6 +145,8 @@ class PushNotificationManager {
           auth: btoa(String.fromCharCode(...new Uint8Array(this.subscription.getKey('auth')!)))
         },
         userId,
+        locale: getContentLocale(useLanguageStore.getState().language),
+        timezone: getBrowserTimezone(),
         preferences: {
           orders: true,
           promotions: true,
@@ -347,8 +218,8 @@ class PushNotificationManager {
 
     // Replace placeholders in template
     const notification: PushNotificationPayload = {
-      title: this.replacePlaceholders(template.title, data),
-      body: this.replacePlaceholders(template.body, data),
+      title: fillTemplate(template.title, data),
+      body: fillTemplate(template.body, data),
       icon: template.icon || '/icons/default.png',
       badge: '/icons/badge.png',
       tag: type,
@@ -375,7 +246,11 @@ class PushNotificationManager {
       return true;
     } catch (error) {
       console.error('Failed to send notification:', error);
-      
+
+      // A refusal (not signed in as an admin, bad payload) won't succeed on retry
+      const status = (error as Error & { status?: number }).status;
+      if (status && status < 500) return false;
+
       // Queue for background sync
       await backgroundSync.syncFormSubmission('notification', {
         type: 'send-notification',
@@ -419,6 +294,35 @@ class PushNotificationManager {
     }
   }
 
+  // Audience data for campaign segments; silently skipped when not subscribed
+  async reportActivity(activity: {
+    locale?: ContentLocale;
+    timezone?: string;
+    cartItemCount?: number;
+    purchasedProductIds?: string[];
+  } = {}): Promise<void> {
+    if (!this.isSupported || Notification.permission !== 'granted') return;
+
+    try {
+      const registration = this.registration || await navigator.serviceWorker.getRegistration();
+      const subscription = this.subscription || await registration?.pushManager.getSubscription();
+      if (!subscription) return;
+
+      await fetch('/api/v1/notifications/activity', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          endpoint: subscription.endpoint,
+          ...activity
+        })
+      });
+    } catch (error) {
+      console.error('Failed to report notification activity:', error);
+    }
+  }
+
   getSubscriptionStatus(): {
     isSupported: boolean;
     permission: NotificationPermission;
@@ -449,12 +353,6 @@ class PushNotificationManager {
     return outputArray;
   }
 
-  private replacePlaceholders(text: string, data: any): string {
-    return text.replace(/\{(\w+)\}/g, (match, key) => {
-      return data[key] || match;
-    });
-  }
-
   private async saveSubscription(subscription: NotificationSubscription): Promise<void> {
     await fetch('/api/v1/notifications/subscribe', {
       method: 'POST',
@@ -476,13 +374,23 @@ class PushNotificationManager {
   }
 
   private async sendToServer(notification: PushNotificationPayload): Promise<void> {
-    await fetch('/api/v1/notifications/send', {
+    const response = await fetch('/api/v1/notifications/send', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
       },
-      body: JSON.stringify(notification)
+      // The send route targets by top-level userId; without it the notification is broadcast
+      body: JSON.stringify({
+        ...notification,
+        userId: notification.data?.userId
+      })
     });
+
+    if (!response.ok) {
+      const error = new Error(`Notification send failed with status ${response.status}`);
+      (error as Error & { status?: number }).status = response.status;
+      throw error;
+    }
   }
 
   // Predefined notification methods for common use cases
@@ -529,6 +437,14 @@ class PushNotificationManager {
   }
 }
 
+function getBrowserTimezone(): string | undefined {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  } catch {
+    return undefined;
+  }
+}
+
 // Create singleton instance
 export const pushNotifications = new PushNotificationManager();
 
@@ -586,5 +502,40 @@ export function usePushNotifications() {
   };
 }
 
+// Visits are reported at most this often; cart changes are reported as they settle
+const ACTIVITY_REPORT_INTERVAL = 6 * 60 * 60 * 1000;
+const ACTIVITY_STORAGE_KEY = 'logen-push-activity-at';
+
+// Keeps campaign segments (locale, activity, cart) current for this browser
+export function useNotificationActivity() {
+  const { language } = useLanguageStore();
+  const cartItemCount = useCartStore((state) => state.items.reduce((total, item) => total + item.quantity, 0));
+  const reportedCount = React.useRef<number | null>(null);
+
+  React.useEffect(() => {
+    // Stored as "<timestamp>:<locale>" so a language switch is reported right away
+    const [lastReport, lastLocale] = (localStorage.getItem(ACTIVITY_STORAGE_KEY) || '').split(':');
+    if (lastLocale === language && Date.now() - (Number(lastReport) || 0) < ACTIVITY_REPORT_INTERVAL) return;
+
+    localStorage.setItem(ACTIVITY_STORAGE_KEY, `${Date.now()}:${language}`);
+    pushNotifications.reportActivity({ locale: getContentLocale(language), timezone: getBrowserTimezone() });
+  }, [language]);
+
+  React.useEffect(() => {
+    // The first render only records the persisted count
+    if (reportedCount.current === null) {
+      reportedCount.current = cartItemCount;
+      return;
+    }
+    if (reportedCount.current === cartItemCount) return;
+
+    const timer = setTimeout(() => {
+      reportedCount.current = cartItemCount;
+      pushNotifications.reportActivity({ cartItemCount });
+    }, 2000);
+    return () => clearTimeout(timer);
+  }, [cartItemCount]);
+}
+
 // Import React for the hook
 import React from 'react';
\ No newline at end of file
@@ -0,0 +1,414 @@
+import webpush from 'web-push';
+import { readJsonFile, resolveDataPath, updateJsonFile } from './file-store';
+import { ContentLocale, isContentLocale } from './locales';
+
+/**
+ * Push Subscription Store
+ * Server-side storage for Web Push subscriptions. A JSON file store with
+ * per-user and per-preference indexes serves single-node deployments; the
+ * backend store shares subscriptions across instances. Delivery prunes
+ * subscriptions the push service reports as gone.
+ */
+
+export type PushPreferenceKey = 'orders' | 'promotions' | 'newProducts' | 'priceDrops' | 'cartReminders' | 'reviews';
+
+export type PushPreferences = Record<PushPreferenceKey, boolean>;
+
+export const PUSH_PREFERENCE_KEYS: PushPreferenceKey[] = [
+  'orders',
+  'promotions',
+  'newProducts',
+  'priceDrops',
+  'cartReminders',
+  'reviews',
+];
+
+export const DEFAULT_PUSH_PREFERENCES: PushPreferences = {
+  orders: true,
+  promotions: true,
+  newProducts: false,
+  priceDrops: true,
+  cartReminders: true,
+  reviews: true,
+};
+
+export interface WebPushSubscription {
+  endpoint: string;
+  expirationTime?: number | null;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+// What campaign segments know about the browser behind a subscription
+export interface PushAudienceProfile {
+  locale?: ContentLocale;
+  timezone?: string;
+  lastActiveAt?: string;
+  cartItemCount?: number;
+  purchasedCategories?: string[];
+}
+
+export interface StoredPushSubscription {
+  id: string;
+  subscription: WebPushSubscription;
+  userId?: string;
+  preferences: PushPreferences;
+  profile?: PushAudienceProfile;
+  createdAt: string;
+  updatedAt: string;
+}
+
+type PushSubscriptionChanges = Partial<Pick<StoredPushSubscription, 'preferences' | 'userId' | 'profile'>>;
+
+export interface PushSubscriptionStore {
+  name: 'file' | 'backend';
+  save(record: StoredPushSubscription): Promise<void>;
+  get(id: string): Promise<StoredPushSubscription | null>;
+  remove(id: string): Promise<boolean>;
+  removeMany(ids: string[]): Promise<void>;
+  update(id: string, changes: PushSubscriptionChanges): Promise<StoredPushSubscription | null>;
+  getAll(): Promise<StoredPushSubscription[]>;
+  getByUserId(userId: string): Promise<StoredPushSubscription[]>;
+  getByPreference(preference: PushPreferenceKey): Promise<StoredPushSubscription[]>;
+}
+
+// Same id scheme the subscribe route has always returned to clients
+export function getSubscriptionId(endpoint: string): string {
+  return Buffer.from(endpoint).toString('base64');
+}
+
+export function isPushPreferenceKey(value: unknown): value is PushPreferenceKey {
+  return typeof value === 'string' && PUSH_PREFERENCE_KEYS.indexOf(value as PushPreferenceKey) !== -1;
+}
+
+// Keeps only known keys with boolean values, on top of the given base
+export function normalizePreferences(input: any, base: PushPreferences = DEFAULT_PUSH_PREFERENCES): PushPreferences {
+  const preferences = { ...base };
+  PUSH_PREFERENCE_KEYS.forEach((key) => {
+    if (typeof input?.[key] === 'boolean') {
+      preferences[key] = input[key];
+    }
+  });
+  return preferences;
+}
+
+const TIMEZONE_REGEX = /^[A-Za-z_]+(?:\/[A-Za-z0-9_+-]+){0,2}$|^UTC$/;
+
+// Only well-formed values reach the store; unknown fields are dropped
+export function normalizeAudienceProfile(input: any, base: PushAudienceProfile = {}): PushAudienceProfile {
+  const profile: PushAudienceProfile = { ...base };
+  if (isContentLocale(input?.locale)) profile.locale = input.locale;
+  if (typeof input?.timezone === 'string' && TIMEZONE_REGEX.test(input.timezone)) profile.timezone = input.timezone;
+  if (typeof input?.lastActiveAt === 'string' && !isNaN(Date.parse(input.lastActiveAt))) profile.lastActiveAt = input.lastActiveAt;
+  if (Number.isInteger(input?.cartItemCount) && input.cartItemCount >= 0) profile.cartItemCount = input.cartItemCount;
+  if (Array.isArray(input?.purchasedCategories)) {
+    const categories = (base.purchasedCategories || []).concat(
+      input.purchasedCategories.filter((category: unknown) => typeof category === 'string')
+    );
+    profile.purchasedCategories = categories.filter((category, index) => categories.indexOf(category) === index).slice(-50);
+  }
+  return profile;
+}
+
+export function isValidWebPushSubscription(value: any): value is WebPushSubscription {
+  return (
+    typeof value?.endpoint === 'string' &&
+    /^https:\/\//.test(value.endpoint) &&
+    typeof value?.keys?.p256dh === 'string' &&
+    typeof value?.keys?.auth === 'string'
+  );
+}
+
+// File store: the whole collection plus its indexes lives in one JSON document
+interface PushSubscriptionDocument {
+  subscriptions: Record<string, StoredPushSubscription>;
+  byUser: Record<string, string[]>;
+  byPreference: Record<string, string[]>;
+}
+
+const EMPTY_DOCUMENT: PushSubscriptionDocument = { subscriptions: {}, byUser: {}, byPreference: {} };
+
+function rebuildIndexes(subscriptions: Record<string, StoredPushSubscription>): PushSubscriptionDocument {
+  const byUser: Record<string, string[]> = {};
+  const byPreference: Record<string, string[]> = {};
+
+  Object.keys(subscriptions).forEach((id) => {
+    const record = subscriptions[id];
+    if (record.userId) {
+      byUser[record.userId] = (byUser[record.userId] || []).concat(id);
+    }
+    PUSH_PREFERENCE_KEYS.forEach((key) => {
+      if (record.preferences[key]) {
+        byPreference[key] = (byPreference[key] || []).concat(id);
+      }
+    });
+  });
+
+  return { subscriptions, byUser, byPreference };
+}
+
+class FilePushSubscriptionStore implements PushSubscriptionStore {
+  name = 'file' as const;
+  private filePath = resolveDataPath('push-subscriptions.json');
+
+  private read(): Promise<PushSubscriptionDocument> {
+    return readJsonFile<PushSubscriptionDocument>(this.filePath, EMPTY_DOCUMENT);
+  }
+
+  private mutate(mutator: (subscriptions: Record<string, StoredPushSubscription>) => void): Promise<PushSubscriptionDocument> {
+    return updateJsonFile<PushSubscriptionDocument>(this.filePath, EMPTY_DOCUMENT, (current) => {
+      const subscriptions = { ...current.subscriptions };
+      mutator(subscriptions);
+      return rebuildIndexes(subscriptions);
+    });
+  }
+
+  private lookup(document: PushSubscriptionDocument, ids: string[] | undefined): StoredPushSubscription[] {
+    return (ids || []).map((id) => document.subscriptions[id]).filter(Boolean);
+  }
+
+  async save(record: StoredPushSubscription): Promise<void> {
+    await this.mutate((subscriptions) => {
+      subscriptions[record.id] = record;
+    });
+  }
+
+  async get(id: string): Promise<StoredPushSubscription | null> {
+    const document = await this.read();
+    return document.subscriptions[id] || null;
+  }
+
+  async remove(id: string): Promise<boolean> {
+    let removed = false;
+    await this.mutate((subscriptions) => {
+      removed = !!subscriptions[id];
+      delete subscriptions[id];
+    });
+    return removed;
+  }
+
+  async removeMany(ids: string[]): Promise<void> {
+    await this.mutate((subscriptions) => {
+      ids.forEach((id) => {
+        delete subscriptions[id];
+      });
+    });
+  }
+
+  async update(id: string, changes: PushSubscriptionChanges) {
+    let updated: StoredPushSubscription | null = null;
+    await this.mutate((subscriptions) => {
+      if (!subscriptions[id]) return;
+      updated = { ...subscriptions[id], ...changes, updatedAt: new Date().toISOString() };
+      subscriptions[id] = updated;
+    });
+    return updated;
+  }
+
+  async getAll(): Promise<StoredPushSubscription[]> {
+    const document = await this.read();
+    return Object.keys(document.subscriptions).map((id) => document.subscriptions[id]);
+  }
+
+  async getByUserId(userId: string): Promise<StoredPushSubscription[]> {
+    const document = await this.read();
+    return this.lookup(document, document.byUser[userId]);
+  }
+
+  async getByPreference(preference: PushPreferenceKey): Promise<StoredPushSubscription[]> {
+    const document = await this.read();
+    return this.lookup(document, document.byPreference[preference]);
+  }
+}
+
+// Backend store: the backend owns subscriptions so every instance sees the same set
+class BackendPushSubscriptionStore implements PushSubscriptionStore {
+  name = 'backend' as const;
+  private backendUrl = process.env.BACKEND_API_URL || 'http://localhost:3000/api';
+
+  // Resolves to null when the backend does not know the subscription
+  private async send(path: string, init: RequestInit = {}): Promise<Response | null> {
+    const response = await fetch(`${this.backendUrl}/v1/notifications/subscriptions${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(process.env.PUSH_STORE_API_KEY && { 'x-api-key': process.env.PUSH_STORE_API_KEY }),
+      },
+      cache: 'no-store',
+    });
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Backend API responded with status: ${response.status}`);
+    }
+    return response;
+  }
+
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T | null> {
+    const response = await this.send(path, init);
+    if (!response) return null;
+
+    const data = await response.json().catch(() => ({}));
+    return (data?.data ?? null) as T | null;
+  }
+
+  async save(record: StoredPushSubscription): Promise<void> {
+    await this.send(`/${encodeURIComponent(record.id)}`, {
+      method: 'PUT',
+      body: JSON.stringify(record),
+    });
+  }
+
+  get(id: string): Promise<StoredPushSubscription | null> {
+    return this.request<StoredPushSubscription>(`/${encodeURIComponent(id)}`);
+  }
+
+  async remove(id: string): Promise<boolean> {
+    const response = await this.send(`/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    return response !== null;
+  }
+
+  async removeMany(ids: string[]): Promise<void> {
+    await Promise.all(ids.map((id) => this.remove(id)));
+  }
+
+  update(id: string, changes: PushSubscriptionChanges) {
+    return this.request<StoredPushSubscription>(`/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      body: JSON.stringify(changes),
+    });
+  }
+
+  async getAll(): Promise<StoredPushSubscription[]> {
+    return (await this.request<StoredPushSubscription[]>('')) || [];
+  }
+
+  async getByUserId(userId: string): Promise<StoredPushSubscription[]> {
+    return (await this.request<StoredPushSubscription[]>(`?userId=${encodeURIComponent(userId)}`)) || [];
+  }
+
+  async getByPreference(preference: PushPreferenceKey): Promise<StoredPushSubscription[]> {
+    return (await this.request<StoredPushSubscription[]>(`?preference=${encodeURIComponent(preference)}`)) || [];
+  }
+}
+
+let store: PushSubscriptionStore | null = null;
+
+export function getPushSubscriptionStore(): PushSubscriptionStore {
+  if (store) return store;
+
+  switch (process.env.PUSH_SUBSCRIPTION_STORE) {
+    case 'file':
+      store = new FilePushSubscriptionStore();
+      break;
+    case 'backend':
+      store = new BackendPushSubscriptionStore();
+      break;
+    default:
+      store = process.env.NODE_ENV === 'production'
+        ? new BackendPushSubscriptionStore()
+        : new FilePushSubscriptionStore();
+  }
+
+  return store;
+}
+
+// Re-subscribing the same endpoint keeps its history and, unless new ones are given, its preferences
+export async function registerPushSubscription(
+  subscription: WebPushSubscription,
+  userId?: string,
+  preferences?: Partial<PushPreferences>,
+  profile?: PushAudienceProfile
+): Promise<StoredPushSubscription> {
+  const subscriptionStore = getPushSubscriptionStore();
+  const id = getSubscriptionId(subscription.endpoint);
+  const existing = await subscriptionStore.get(id);
+  const now = new Date().toISOString();
+
+  const record: StoredPushSubscription = {
+    id,
+    subscription: {
+      endpoint: subscription.endpoint,
+      expirationTime: subscription.expirationTime ?? null,
+      keys: { p256dh: subscription.keys.p256dh, auth: subscription.keys.auth },
+    },
+    userId: userId || existing?.userId,
+    preferences: normalizePreferences(preferences, existing?.preferences),
+    profile: normalizeAudienceProfile({ lastActiveAt: now, ...profile }, existing?.profile),
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+  };
+
+  await subscriptionStore.save(record);
+  return record;
+}
+
+// Delivery
+let vapidConfigured = false;
+
+export function isWebPushConfigured(): boolean {
+  return !!(process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY);
+}
+
+function ensureVapidDetails(): void {
+  if (vapidConfigured) return;
+  webpush.setVapidDetails(
+    `mailto:${process.env.VAPID_CONTACT_EMAIL || 'admin@logen-store.com'}`,
+    process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY!,
+    process.env.VAPID_PRIVATE_KEY!
+  );
+  vapidConfigured = true;
+}
+
+// The push service answers 404/410 once a subscription has expired or been revoked
+const GONE_STATUS_CODES = [404, 410];
+
+export interface PushDeliveryStats {
+  total: number;
+  successful: number;
+  failed: number;
+  pruned: number;
+}
+
+export async function sendPushNotifications(
+  records: StoredPushSubscription[],
+  payload: string,
+  onDelivered?: (record: StoredPushSubscription) => void
+): Promise<PushDeliveryStats> {
+  ensureVapidDetails();
+  const stats: PushDeliveryStats = { total: records.length, successful: 0, failed: 0, pruned: 0 };
+  const goneIds: string[] = [];
+
+  await Promise.all(
+    records.map(async (record) => {
+      try {
+        await webpush.sendNotification(record.subscription, payload);
+        stats.successful++;
+        onDelivered?.(record);
+      } catch (error: any) {
+        stats.failed++;
+        if (GONE_STATUS_CODES.indexOf(error?.statusCode) !== -1) {
+          goneIds.push(record.id);
+        } else {
+          console.error('Failed to send notification:', error);
+        }
+      }
+    })
+  );
+
+  if (goneIds.length > 0) {
+    try {
+      await getPushSubscriptionStore().removeMany(goneIds);
+      stats.pruned = goneIds.length;
+      console.log(`Pruned ${goneIds.length} expired push subscriptions`);
+    } catch (error) {
+      console.error('Failed to prune push subscriptions:', error);
+    }
+  }
+
+  return stats;
+}
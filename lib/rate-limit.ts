@@ -0,0 +1,81 @@
+import { NextRequest } from 'next/server';
+
+/**
+ * Rate Limiting Utilities
+ * Sliding-window limiter kept in memory per server instance
+ */
+
+export interface RateLimitOptions {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfter: number; // seconds until the next request is allowed
+}
+
+export class RateLimiter {
+  private hits = new Map<string, number[]>();
+
+  constructor(private options: RateLimitOptions) {}
+
+  private prune(key: string, now: number): number[] {
+    const windowStart = now - this.options.windowMs;
+    const timestamps = (this.hits.get(key) || []).filter(time => time > windowStart);
+
+    if (timestamps.length === 0) {
+      this.hits.delete(key);
+    } else {
+      this.hits.set(key, timestamps);
+    }
+
+    return timestamps;
+  }
+
+  check(key: string): RateLimitResult {
+    const now = Date.now();
+    const timestamps = this.prune(key, now);
+
+    if (timestamps.length >= this.options.limit) {
+      const oldest = timestamps[0];
+      return {
+        allowed: false,
+        remaining: 0,
+        retryAfter: Math.max(1, Math.ceil((oldest + this.options.windowMs - now) / 1000)),
+      };
+    }
+
+    return {
+      allowed: true,
+      remaining: this.options.limit - timestamps.length,
+      retryAfter: 0,
+    };
+  }
+
+  hit(key: string): RateLimitResult {
+    const result = this.check(key);
+    if (result.allowed) {
+      const timestamps = this.hits.get(key) || [];
+      timestamps.push(Date.now());
+      this.hits.set(key, timestamps);
+      result.remaining -= 1;
+    }
+    return result;
+  }
+
+  reset(key: string): void {
+    this.hits.delete(key);
+  }
+}
+
+// Resolve the client IP behind proxies (Vercel, nginx) with a stable fallback
+export function getClientIp(request: NextRequest): string {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  if (forwardedFor) {
+    return forwardedFor.split(',')[0].trim();
+  }
+
+  return request.headers.get('x-real-ip') || request.ip || 'unknown';
+}
@@ -0,0 +1,176 @@
+import { apiClient, getEffectivePrice, isOptionAvailable, Order, Product } from './api';
+import { BASE_CURRENCY } from './currency';
+import type { ContentLocale } from './locales';
+import { CartItem, useCartStore } from './store';
+import { formatPrice } from './utils';
+
+/**
+ * Reorder
+ * Puts lines from past orders back in the cart ("Reorder" on an order,
+ * "Buy again" on the homepage). Each product is looked up again first, so
+ * the cart gets today's price and never an item that is out of stock or no
+ * longer offered in the size or color bought last time. Every adjustment is
+ * reported so the shopper can be told what changed.
+ */
+
+// Orders that never reached the customer don't count as purchases
+const EXCLUDED_ORDER_STATUSES = ['failed', 'rejected', 'cancelled'];
+
+export interface ReorderChange {
+  productId: string;
+  title: string;
+  size?: string;
+  color?: string;
+  // 'variant': the product is still sold, but not in the size or color ordered
+  type: 'price' | 'unavailable' | 'variant' | 'removed';
+  previousPrice?: number;
+  price?: number;
+  currency?: string;
+}
+
+export interface ReorderResult {
+  added: CartItem[];
+  changes: ReorderChange[];
+}
+
+export interface FrequentPurchase {
+  item: CartItem;
+  orderCount: number;
+  totalQuantity: number;
+  lastOrderedAt: string;
+}
+
+async function fetchProducts(ids: string[]): Promise<Record<string, Product | null>> {
+  const products: Record<string, Product | null> = {};
+  await Promise.all(ids.map(async (id) => {
+    try {
+      products[id] = await apiClient.getProductById(id);
+    } catch (error) {
+      products[id] = null;
+    }
+  }));
+  return products;
+}
+
+/**
+ * Checks each line against the live product and adds what is still
+ * available to the cart, at the current price and in the original quantity.
+ */
+export async function addItemsToCart(items: CartItem[], language: ContentLocale = 'en'): Promise<ReorderResult> {
+  const products = await fetchProducts(Array.from(new Set(items.map((item) => item.id))));
+  const { addItem } = useCartStore.getState();
+  const added: CartItem[] = [];
+  const changes: ReorderChange[] = [];
+
+  items.forEach((item) => {
+    const product = products[item.id];
+    const base = { productId: item.id, title: item.title, size: item.size, color: item.color };
+
+    if (!product) {
+      changes.push({ ...base, type: 'removed' });
+      return;
+    }
+    const title = product.title?.[language] || product.title?.en || item.title;
+    if (!product.inStock) {
+      changes.push({ ...base, title, type: 'unavailable' });
+      return;
+    }
+    if (!isOptionAvailable(product.sizes, item.size) || !isOptionAvailable(product.colors, item.color)) {
+      changes.push({ ...base, title, type: 'variant' });
+      return;
+    }
+
+    const price = getEffectivePrice(product);
+    const currency = product.currency || item.currency;
+    if (price !== item.price || (currency || BASE_CURRENCY) !== (item.currency || BASE_CURRENCY)) {
+      changes.push({ ...base, title, type: 'price', previousPrice: item.price, price, currency });
+    }
+
+    const line: CartItem = {
+      id: item.id,
+      title,
+      price,
+      image: product.images?.[0]?.secure_url || item.image,
+      quantity: item.quantity,
+      size: item.size,
+      color: item.color,
+      currency,
+    };
+    addItem(line);
+    added.push(line);
+  });
+
+  return { added, changes };
+}
+
+const CHANGE_MESSAGES: Record<ContentLocale, Record<ReorderChange['type'], string>> = {
+  en: {
+    price: '{title} is now {price} (was {previousPrice})',
+    unavailable: '{title} is out of stock',
+    variant: '{title} is no longer available in {variant}',
+    removed: '{title} is no longer sold',
+  },
+  ar: {
+    price: 'تغير سعر {title} من {previousPrice} إلى {price}',
+    unavailable: '{title} غير متوفر حالياً',
+    variant: '{title} لم يعد متوفراً بالمقاس أو اللون {variant}',
+    removed: '{title} لم يعد معروضاً للبيع',
+  },
+};
+
+// One line per adjustment, for the summary shown after adding to the cart
+export function describeReorderChange(change: ReorderChange, language: ContentLocale = 'en'): string {
+  return CHANGE_MESSAGES[language][change.type]
+    .replace('{title}', change.title)
+    .replace('{price}', formatPrice(change.price || 0, change.currency))
+    .replace('{previousPrice}', formatPrice(change.previousPrice || 0, change.currency))
+    .replace('{variant}', [change.size, change.color].filter(Boolean).join(' / '));
+}
+
+export function reorderOrder(order: Order, language: ContentLocale = 'en'): Promise<ReorderResult> {
+  return addItemsToCart(order.items || [], language);
+}
+
+export function canReorder(order: Order): boolean {
+  return !!order.items && order.items.length > 0 && EXCLUDED_ORDER_STATUSES.indexOf(order.status) === -1;
+}
+
+/**
+ * Products the shopper buys most: ranked by how many orders they appear in,
+ * then by how recently. "Buy again" adds the product in the size and color
+ * of the latest order it was in.
+ */
+export function getFrequentlyPurchased(orders: Order[], limit = 8): FrequentPurchase[] {
+  const byProduct: Record<string, FrequentPurchase> = {};
+
+  orders
+    .filter((order) => EXCLUDED_ORDER_STATUSES.indexOf(order.status) === -1)
+    .forEach((order) => {
+      const seen: string[] = [];
+      (order.items || []).forEach((item) => {
+        const entry = byProduct[item.id];
+        const isNewer = !entry || Date.parse(order.createdAt) > Date.parse(entry.lastOrderedAt);
+
+        if (!entry) {
+          byProduct[item.id] = { item, orderCount: 0, totalQuantity: 0, lastOrderedAt: order.createdAt };
+        } else if (isNewer) {
+          entry.item = item;
+          entry.lastOrderedAt = order.createdAt;
+        }
+
+        byProduct[item.id].totalQuantity += item.quantity;
+        if (seen.indexOf(item.id) === -1) {
+          byProduct[item.id].orderCount++;
+          seen.push(item.id);
+        }
+      });
+    });
+
+  return Object.keys(byProduct)
+    .map((id) => byProduct[id])
+    .sort((a, b) =>
+      b.orderCount - a.orderCount ||
+      Date.parse(b.lastOrderedAt) - Date.parse(a.lastOrderedAt)
+    )
+    .slice(0, limit);
+}
@@ -0,0 +1,120 @@
+import diagnosticsChannel from 'diagnostics_channel';
+import type { IncomingMessage, ServerResponse } from 'http';
+
+/**
+ * Request Metrics
+ * Counts the requests this server process answers and keeps the latency of
+ * the most recent ones for percentiles. It listens on Node's HTTP server
+ * diagnostics channels (started from instrumentation.ts), so every page and
+ * API route is measured from the first byte in to the last byte out without
+ * wrapping handlers. Next's edge middleware can't see when a response
+ * finishes, which is why this isn't done there.
+ */
+
+// Latency percentiles cover this many of the most recent requests
+const WINDOW_SIZE = parseInt(process.env.REQUEST_METRICS_WINDOW || '1000');
+
+// Static assets and the health probes themselves would drown out real traffic
+const IGNORED_PATHS = ['/_next/', '/api/v1/health', '/favicon.ico'];
+
+export interface RequestMetrics {
+  total: number;
+  success: number;
+  error: number;
+  perMinute: number;
+  averageResponseTime: number;
+  p50: number;
+  p95: number;
+  p99: number;
+  since: string;
+}
+
+interface Sample {
+  duration: number;
+  finishedAt: number;
+}
+
+interface MetricsStore {
+  startedAt: number;
+  total: number;
+  errors: number;
+  samples: Sample[];
+  next: number;
+  listening: boolean;
+}
+
+const STORE_KEY = '__requestMetrics';
+const startTimes = new WeakMap<IncomingMessage, number>();
+
+// Route bundles and instrumentation get their own copies of this module; the counters live on globalThis so they all share one
+function getStore(): MetricsStore {
+  const holder = globalThis as typeof globalThis & { [STORE_KEY]?: MetricsStore };
+  if (!holder[STORE_KEY]) {
+    holder[STORE_KEY] = { startedAt: Date.now(), total: 0, errors: 0, samples: [], next: 0, listening: false };
+  }
+  return holder[STORE_KEY]!;
+}
+
+export function recordRequest(duration: number, status: number): void {
+  const store = getStore();
+  store.total++;
+  if (status >= 500) store.errors++;
+
+  // Ring buffer of the latest samples
+  store.samples[store.next] = { duration, finishedAt: Date.now() };
+  store.next = (store.next + 1) % WINDOW_SIZE;
+}
+
+function isIgnored(url?: string): boolean {
+  const pathname = (url || '').split('?')[0];
+  return IGNORED_PATHS.some((prefix) => pathname.indexOf(prefix) === 0);
+}
+
+// Starts measuring; safe to call more than once
+export function startRequestMetrics(): void {
+  const store = getStore();
+  if (store.listening) return;
+  store.listening = true;
+
+  diagnosticsChannel.subscribe('http.server.request.start', (message) => {
+    const { request } = message as { request: IncomingMessage };
+    if (!isIgnored(request.url)) startTimes.set(request, performance.now());
+  });
+
+  diagnosticsChannel.subscribe('http.server.response.finish', (message) => {
+    const { request, response } = message as { request: IncomingMessage; response: ServerResponse };
+    const startedAt = startTimes.get(request);
+    if (startedAt === undefined) return;
+    startTimes.delete(request);
+    recordRequest(performance.now() - startedAt, response.statusCode);
+  });
+}
+
+// Nearest-rank percentile of sorted durations
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export function getRequestMetrics(): RequestMetrics {
+  const store = getStore();
+  const samples = store.samples.filter(Boolean);
+  const durations = samples.map((sample) => sample.duration).sort((a, b) => a - b);
+  const minuteAgo = Date.now() - 60 * 1000;
+  const total = durations.reduce((sum, duration) => sum + duration, 0);
+
+  return {
+    total: store.total,
+    success: store.total - store.errors,
+    error: store.errors,
+    perMinute: samples.filter((sample) => sample.finishedAt >= minuteAgo).length,
+    averageResponseTime: durations.length > 0 ? round(total / durations.length) : 0,
+    p50: round(percentile(durations, 50)),
+    p95: round(percentile(durations, 95)),
+    p99: round(percentile(durations, 99)),
+    since: new Date(store.startedAt).toISOString(),
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * Route Policies
+ * Declarative access rules enforced by middleware for pages and API routes.
+ * Page patterns are written without the locale prefix. A trailing "/**"
+ * covers the path itself and everything below it, "*" matches one segment.
+ * The first matching policy wins; paths without one are public.
+ * 'authenticated' is a presence and expiry check only; the handlers it
+ * guards must still send the token to the backend, which verifies it.
+ */
+
+export type RouteAccess = 'authenticated' | 'admin';
+
+export interface RoutePolicy {
+  pattern: string;
+  access: RouteAccess;
+  // Limits the policy to these methods (API routes where reads are public)
+  methods?: string[];
+}
+
+export const ADMIN_ROLES = ['admin', 'superAdmin'];
+
+export const PAGE_POLICIES: RoutePolicy[] = [
+  { pattern: '/admin/**', access: 'admin' },
+  { pattern: '/health/**', access: 'admin' },
+  { pattern: '/orders/**', access: 'authenticated' },
+  { pattern: '/settings/**', access: 'authenticated' },
+];
+
+export const API_POLICIES: RoutePolicy[] = [
+  { pattern: '/api/v1/auth/profile', access: 'authenticated' },
+  { pattern: '/api/v1/cart', access: 'authenticated' },
+  { pattern: '/api/v1/cart/merge', access: 'authenticated' },
+  { pattern: '/api/v1/cart/recovery/**', access: 'admin' },
+  { pattern: '/api/v1/wishlist/alerts/**', access: 'admin' },
+  { pattern: '/api/v1/wishlist/**', access: 'authenticated' },
+  { pattern: '/api/v1/checkout/authenticated', access: 'authenticated' },
+  { pattern: '/api/checkout/authenticated', access: 'authenticated' },
+  { pattern: '/api/v1/notifications/campaigns/**', access: 'admin' },
+  { pattern: '/api/v1/notifications/send', access: 'admin' },
+  { pattern: '/api/v1/notifications/order-events', access: 'admin' },
+  // The detailed report (?type=detailed) is checked by the route itself
+  { pattern: '/api/v1/health', access: 'admin', methods: ['POST'] },
+  { pattern: '/api/v1/health/alerts', access: 'admin' },
+  { pattern: '/api/v1/health/monitor', access: 'admin' },
+  { pattern: '/api/v1/order/*/cancel', access: 'authenticated' },
+  { pattern: '/api/v1/order/*/returns', access: 'authenticated' },
+  { pattern: '/api/v1/order/*/invoice', access: 'authenticated' },
+  { pattern: '/api/v1/ratings', access: 'authenticated', methods: ['POST'] },
+  { pattern: '/api/v1/ratings/helpful-vote', access: 'authenticated' },
+  { pattern: '/api/v1/ratings/*', access: 'authenticated', methods: ['PUT', 'PATCH', 'DELETE'] },
+];
+
+export const LOGIN_PATH = '/login';
+
+function matchesPattern(pattern: string, pathname: string): boolean {
+  const path = pathname.length > 1 ? pathname.replace(/\/+$/, '') : pathname;
+
+  if (pattern.endsWith('/**')) {
+    const base = pattern.slice(0, -3);
+    return path === base || path.startsWith(`${base}/`);
+  }
+
+  const patternSegments = pattern.split('/');
+  const pathSegments = path.split('/');
+  return patternSegments.length === pathSegments.length &&
+    patternSegments.every((segment, index) => segment === '*' || segment === pathSegments[index]);
+}
+
+export function findRoutePolicy(policies: RoutePolicy[], pathname: string, method = 'GET'): RoutePolicy | null {
+  return policies.find((policy) =>
+    matchesPattern(policy.pattern, pathname) &&
+    (!policy.methods || policy.methods.indexOf(method.toUpperCase()) !== -1)
+  ) || null;
+}
+
+export function isAdminRole(role?: string): boolean {
+  return !!role && ADMIN_ROLES.indexOf(role) !== -1;
+}
+
+// Only same-site paths, so the login page can't be used as an open redirect
+export function sanitizeReturnTo(value: string | null | undefined): string | null {
+  if (!value || !value.startsWith('/') || value.startsWith('//') || value.startsWith('/\\')) {
+    return null;
+  }
+  return value;
+}
@@ -0,0 +1,12 @@
+/**
+ * Scheduler
+ * Interval timer behind the in-process jobs (campaigns, cart recovery,
+ * wishlist alerts, the health monitor) on long-running servers.
+ */
+
+// Never keeps the process alive just for the job
+export function startInterval(task: () => void, intervalMs: number): NodeJS.Timeout {
+  const timer = setInterval(task, intervalMs);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,363 @@
+import { getEffectivePrice, Product } from './api';
+import type { ContentLocale } from './locales';
+import {
+  matchToken,
+  normalizeSearchText,
+  SearchFacets,
+  SearchQuery,
+  SearchResult,
+  SearchSuggestion,
+  tokenize,
+} from './search';
+import productsData from '@/data/products.json';
+
+/**
+ * Search Index
+ * Server-side in-memory index of the catalog. Products are pulled from the
+ * backend (falling back to the bundled catalog), tokenized in both languages
+ * and matched with prefix and typo tolerance, so search quality does not
+ * depend on the backend's substring search.
+ */
+
+const BACKEND_API_URL = process.env.BACKEND_API_URL || 'http://localhost:3000/api';
+const SEARCH_INDEX_TTL = parseInt(process.env.SEARCH_INDEX_TTL || '600', 10) * 1000;
+const CATALOG_PAGE_SIZE = 100;
+const MAX_CATALOG_PAGES = 50;
+
+const DEFAULT_LIMIT = 24;
+const MAX_LIMIT = 100;
+
+// Title hits outrank tag/category hits, which outrank description hits
+const FIELD_WEIGHTS = {
+  title: 3,
+  keywords: 2,
+  description: 1,
+};
+
+interface IndexedProduct {
+  product: Product;
+  title: string[];
+  keywords: string[];
+  description: string[];
+  // Normalized titles, for exact phrase boosts
+  phrase: string;
+  price: number;
+  onSale: boolean;
+  createdAt: number;
+}
+
+let cachedIndex: IndexedProduct[] | null = null;
+let cachedAt = 0;
+let pendingBuild: Promise<IndexedProduct[]> | null = null;
+
+function unique(tokens: string[]): string[] {
+  return tokens.filter((token, index) => tokens.indexOf(token) === index);
+}
+
+function indexProduct(product: Product): IndexedProduct {
+  const titles = `${product.title?.en || ''} ${product.title?.ar || ''}`;
+  const keywords = [
+    ...(product.tags || []),
+    product.category?.name || '',
+    product.category?.type || '',
+    product.handle?.replace(/-/g, ' ') || '',
+  ].join(' ');
+
+  return {
+    product,
+    title: unique(tokenize(titles)),
+    keywords: unique(tokenize(keywords)),
+    description: unique(tokenize(`${product.description?.en || ''} ${product.description?.ar || ''}`)),
+    phrase: normalizeSearchText(titles),
+    price: getEffectivePrice(product),
+    onSale: !!product.promotion?.isOnSale,
+    createdAt: Date.parse(product.createdAt) || 0,
+  };
+}
+
+// A product as stored in the bundled data/products.json
+interface CatalogFileProduct {
+  id: string;
+  handle: string;
+  title_en: string;
+  title_ar: string;
+  description_en: string;
+  description_ar: string;
+  price: number;
+  originalPrice?: number | null;
+  currency?: string;
+  images?: string[];
+  tags?: string[];
+  category: string;
+  inStock: boolean;
+  sale?: boolean;
+  sizes?: string[];
+  colors?: string[];
+  warranty?: Product['warranty'];
+}
+
+// Same shape the local product routes serve
+function fromCatalogFile(product: CatalogFileProduct): Product {
+  return {
+    _id: product.id,
+    handle: product.handle,
+    title: { en: product.title_en, ar: product.title_ar },
+    description: { en: product.description_en, ar: product.description_ar },
+    price: product.price,
+    currency: product.currency,
+    images: (product.images || []).map((img) => ({
+      secure_url: img,
+      public_id: img.split('/').pop()?.split('.')[0] || '',
+    })),
+    tags: product.tags || [],
+    category: { _id: product.category, name: product.category, type: product.category },
+    inStock: product.inStock,
+    promotion: product.sale
+      ? { isOnSale: true, originalPrice: product.originalPrice ?? undefined, salePrice: product.price }
+      : undefined,
+    sizes: product.sizes?.map((size) => ({ name: size, available: true })),
+    colors: product.colors?.map((color) => ({ name: color, available: true })),
+    warranty: product.warranty,
+    createdAt: '',
+    updatedAt: '',
+  };
+}
+
+async function fetchCatalog(): Promise<Product[]> {
+  const products: Product[] = [];
+  let page = 1;
+  let totalPages = 1;
+
+  do {
+    const response = await fetch(`${BACKEND_API_URL}/products?page=${page}&limit=${CATALOG_PAGE_SIZE}`, {
+      headers: { 'Content-Type': 'application/json' },
+      cache: 'no-store',
+    });
+
+    if (!response.ok) {
+      throw new Error(`Backend API responded with status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (Array.isArray(data?.data)) {
+      products.push(...data.data);
+    }
+    totalPages = data?.pagination?.totalPages || 1;
+    page++;
+  } while (page <= totalPages && page <= MAX_CATALOG_PAGES);
+
+  return products;
+}
+
+async function buildIndex(): Promise<IndexedProduct[]> {
+  let products: Product[];
+  try {
+    products = await fetchCatalog();
+  } catch (error) {
+    console.error('Search index: backend catalog unavailable, using bundled catalog:', error);
+    products = (productsData as CatalogFileProduct[]).map(fromCatalogFile);
+  }
+  return products.map(indexProduct);
+}
+
+async function getIndex(): Promise<IndexedProduct[]> {
+  if (cachedIndex && Date.now() - cachedAt < SEARCH_INDEX_TTL) {
+    return cachedIndex;
+  }
+
+  if (!pendingBuild) {
+    pendingBuild = buildIndex()
+      .then((index) => {
+        cachedIndex = index;
+        cachedAt = Date.now();
+        return index;
+      })
+      .catch((error) => {
+        console.error('Failed to rebuild search index:', error);
+        return cachedIndex || [];
+      })
+      .finally(() => {
+        pendingBuild = null;
+      });
+  }
+
+  // Keep answering from the stale index while a rebuild is in flight
+  return cachedIndex || pendingBuild;
+}
+
+export async function getIndexedProducts(ids: string[]): Promise<Product[]> {
+  const index = await getIndex();
+  return index
+    .filter((entry) => ids.indexOf(entry.product._id) !== -1)
+    .map((entry) => entry.product);
+}
+
+export function invalidateSearchIndex(): void {
+  cachedAt = 0;
+}
+
+function bestMatch(queryToken: string, tokens: string[], allowPrefix: boolean): number {
+  let best = 0;
+  for (let i = 0; i < tokens.length && best < 1; i++) {
+    best = Math.max(best, matchToken(queryToken, tokens[i], allowPrefix));
+  }
+  return best;
+}
+
+/**
+ * Scores a product against the query tokens. Every token has to match some
+ * field; only the last token is treated as a prefix since it may still be typed.
+ * Returns 0 when the product does not match.
+ */
+function scoreProduct(entry: IndexedProduct, queryTokens: string[], phrase: string): { score: number; fuzzy: boolean } {
+  let score = 0;
+  let fuzzy = false;
+
+  for (let i = 0; i < queryTokens.length; i++) {
+    const allowPrefix = i === queryTokens.length - 1;
+    const title = bestMatch(queryTokens[i], entry.title, allowPrefix);
+    const keywords = bestMatch(queryTokens[i], entry.keywords, allowPrefix);
+    const description = bestMatch(queryTokens[i], entry.description, allowPrefix);
+
+    if (title === 0 && keywords === 0 && description === 0) return { score: 0, fuzzy: false };
+
+    // Only typo matches for this token (see matchToken)
+    fuzzy = fuzzy || Math.max(title, keywords, description) < 0.8;
+    score += Math.max(
+      title * FIELD_WEIGHTS.title,
+      keywords * FIELD_WEIGHTS.keywords,
+      description * FIELD_WEIGHTS.description
+    );
+  }
+
+  if (queryTokens.length > 1 && entry.phrase.includes(phrase)) {
+    score += FIELD_WEIGHTS.title;
+  }
+
+  return { score, fuzzy };
+}
+
+function matchesFilters(entry: IndexedProduct, query: SearchQuery, skip?: keyof SearchQuery): boolean {
+  const { product } = entry;
+  if (skip !== 'category' && query.category && product.category?._id !== query.category) return false;
+  if (skip !== 'minPrice' && query.minPrice != null && entry.price < query.minPrice) return false;
+  if (skip !== 'maxPrice' && query.maxPrice != null && entry.price > query.maxPrice) return false;
+  if (skip !== 'inStock' && query.inStock && !product.inStock) return false;
+  if (skip !== 'onSale' && query.onSale && !entry.onSale) return false;
+  return true;
+}
+
+// Each facet counts matches with every other active filter applied, so options never dead-end
+function buildFacets(matches: IndexedProduct[], query: SearchQuery): SearchFacets {
+  const categories: Record<string, { id: string; name: string; count: number }> = {};
+  let min = Infinity;
+  let max = 0;
+  let inStock = 0;
+  let onSale = 0;
+
+  matches.forEach((entry) => {
+    const { product } = entry;
+    if (matchesFilters(entry, query, 'category') && product.category?._id) {
+      const id = product.category._id;
+      categories[id] = categories[id] || { id, name: product.category.name, count: 0 };
+      categories[id].count++;
+    }
+    if (matchesFilters(entry, { ...query, minPrice: undefined, maxPrice: undefined })) {
+      min = Math.min(min, entry.price);
+      max = Math.max(max, entry.price);
+    }
+    if (matchesFilters(entry, query, 'inStock') && product.inStock) inStock++;
+    if (matchesFilters(entry, query, 'onSale') && entry.onSale) onSale++;
+  });
+
+  return {
+    categories: Object.keys(categories)
+      .map((id) => categories[id])
+      .sort((a, b) => b.count - a.count),
+    price: { min: min === Infinity ? 0 : min, max },
+    inStock,
+    onSale,
+  };
+}
+
+export async function searchProducts(query: SearchQuery): Promise<SearchResult> {
+  const index = await getIndex();
+  const queryTokens = tokenize(query.q || '');
+  const phrase = normalizeSearchText(query.q || '');
+
+  let corrected = queryTokens.length > 0;
+  const scored: Array<{ entry: IndexedProduct; score: number }> = [];
+
+  index.forEach((entry) => {
+    if (queryTokens.length === 0) {
+      scored.push({ entry, score: 0 });
+      return;
+    }
+    const { score, fuzzy } = scoreProduct(entry, queryTokens, phrase);
+    if (score > 0) {
+      scored.push({ entry, score });
+      corrected = corrected && fuzzy;
+    }
+  });
+
+  const facets = buildFacets(scored.map((item) => item.entry), query);
+  const filtered = scored.filter((item) => matchesFilters(item.entry, query));
+
+  filtered.sort((a, b) => {
+    switch (query.sort) {
+      case 'price_asc':
+        return a.entry.price - b.entry.price;
+      case 'price_desc':
+        return b.entry.price - a.entry.price;
+      case 'newest':
+        return b.entry.createdAt - a.entry.createdAt;
+      default:
+        // In-stock items win ties so relevant but unavailable products sink
+        return b.score - a.score || Number(b.entry.product.inStock) - Number(a.entry.product.inStock);
+    }
+  });
+
+  const limit = Math.min(Math.max(query.limit || DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const totalPages = Math.max(Math.ceil(filtered.length / limit), 1);
+  const page = Math.min(Math.max(query.page || 1, 1), totalPages);
+
+  return {
+    products: filtered.slice((page - 1) * limit, page * limit).map((item) => item.entry.product),
+    facets,
+    pagination: { total: filtered.length, page, limit, totalPages },
+    corrected: scored.length > 0 && corrected,
+  };
+}
+
+const MAX_CATEGORY_SUGGESTIONS = 2;
+
+// Matching categories first, then the best matching products
+export async function getSearchSuggestions(q: string, locale: ContentLocale = 'en', limit = 6): Promise<SearchSuggestion[]> {
+  const queryTokens = tokenize(q);
+  if (queryTokens.length === 0) return [];
+
+  const { products } = await searchProducts({ q, limit });
+  const categories: SearchSuggestion[] = [];
+
+  products.forEach((product) => {
+    const category = product.category;
+    if (!category?._id || categories.some((item) => item.id === category._id)) return;
+
+    const categoryTokens = tokenize(`${category.name} ${category.type}`);
+    if (queryTokens.some((token) => bestMatch(token, categoryTokens, true) > 0)) {
+      categories.push({ type: 'category', id: category._id, label: category.name });
+    }
+  });
+
+  return categories.slice(0, MAX_CATEGORY_SUGGESTIONS).concat(
+    products.map((product) => ({
+      type: 'product' as const,
+      id: product._id,
+      label: product.title?.[locale] || product.title?.en,
+      handle: product.handle,
+      image: product.images?.[0]?.secure_url,
+      price: getEffectivePrice(product),
+      currency: product.currency,
+    }))
+  );
+}
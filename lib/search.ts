@@ -0,0 +1,165 @@
+/**
+ * Search Text Utilities
+ * Shared by the server index and the search UI: normalizes Arabic and
+ * English text, tokenizes queries and scores tokens with typo tolerance
+ */
+
+import type { Product } from './api';
+
+export type SearchSort = 'relevance' | 'price_asc' | 'price_desc' | 'newest';
+
+export interface SearchFilters {
+  category?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  inStock?: boolean;
+  onSale?: boolean;
+}
+
+export interface SearchQuery extends SearchFilters {
+  q?: string;
+  sort?: SearchSort;
+  page?: number;
+  limit?: number;
+}
+
+export interface SearchFacets {
+  categories: Array<{ id: string; name: string; count: number }>;
+  price: { min: number; max: number };
+  inStock: number;
+  onSale: number;
+}
+
+export interface SearchResult {
+  products: Product[];
+  facets: SearchFacets;
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  };
+  // Set when the query only matched through typo tolerance
+  corrected?: boolean;
+}
+
+export interface SearchSuggestion {
+  type: 'product' | 'category';
+  id: string;
+  label: string;
+  handle?: string;
+  image?: string;
+  price?: number;
+  currency?: string;
+}
+
+// Harakat, superscript alef and Quranic marks
+const ARABIC_DIACRITICS = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED]/g;
+const TATWEEL = /\u0640/g;
+// Combining marks left behind by NFD on Latin letters (é -> e)
+const LATIN_ACCENTS = /[\u0300-\u036f]/g;
+
+const ARABIC_LETTER_MAP: Record<string, string> = {
+  'أ': 'ا',
+  'إ': 'ا',
+  'آ': 'ا',
+  'ٱ': 'ا',
+  'ؤ': 'و',
+  'ئ': 'ي',
+  'ى': 'ي',
+  'ة': 'ه',
+};
+
+const ARABIC_LETTER_PATTERN = new RegExp(`[${Object.keys(ARABIC_LETTER_MAP).join('')}]`, 'g');
+
+// Arabic-Indic and Eastern Arabic-Indic digits
+const ARABIC_DIGITS = /[\u0660-\u0669\u06F0-\u06F9]/g;
+
+// Anything that is not a letter or digit in the scripts we index splits tokens
+const TOKEN_SEPARATOR = /[^a-z0-9\u0621-\u064A]+/;
+
+// Arabic definite article, so "التيشيرت" matches "تيشيرت"
+const ARABIC_ARTICLE = /^(ال|وال|بال|فال|لل)(?=.{2,})/;
+
+export const MIN_QUERY_LENGTH = 2;
+
+export function normalizeSearchText(text: string): string {
+  if (!text) return '';
+
+  return text
+    .normalize('NFD')
+    .replace(LATIN_ACCENTS, '')
+    .replace(ARABIC_DIACRITICS, '')
+    .replace(TATWEEL, '')
+    .replace(ARABIC_LETTER_PATTERN, (letter) => ARABIC_LETTER_MAP[letter])
+    .replace(ARABIC_DIGITS, (digit) => String(digit.charCodeAt(0) % 16))
+    .toLowerCase()
+    .trim();
+}
+
+export function tokenize(text: string): string[] {
+  return normalizeSearchText(text)
+    .split(TOKEN_SEPARATOR)
+    .map((token) => token.replace(ARABIC_ARTICLE, ''))
+    .filter(Boolean);
+}
+
+// Optimal string alignment distance, capped so long mismatches bail out early
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousRow: number[] = [];
+  let row: number[] = [];
+  let beforePrevious: number[] = [];
+
+  for (let j = 0; j <= b.length; j++) previousRow[j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      // Adjacent transposition counts as a single typo ("hoodei" -> "hoodie")
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1);
+      }
+      row[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    beforePrevious = previousRow;
+    previousRow = row;
+  }
+
+  return previousRow[b.length];
+}
+
+// Short tokens must match exactly; longer ones tolerate one or two typos
+export function allowedTypos(token: string): number {
+  if (token.length < 4) return 0;
+  if (token.length < 8) return 1;
+  return 2;
+}
+
+/**
+ * Scores how well a query token matches an indexed token:
+ * 1 for an exact match, 0.8 for a prefix (as-you-type), 0.6 for a typo, 0 otherwise
+ */
+export function matchToken(queryToken: string, indexedToken: string, allowPrefix: boolean): number {
+  if (queryToken === indexedToken) return 1;
+  if (allowPrefix && queryToken.length >= MIN_QUERY_LENGTH && indexedToken.startsWith(queryToken)) {
+    return 0.8;
+  }
+
+  const max = allowedTypos(queryToken);
+  if (max === 0) return 0;
+
+  let distance = editDistance(queryToken, indexedToken, max);
+  // A partially typed word with a typo is compared against the same-length prefix
+  if (allowPrefix && distance > max && indexedToken.length > queryToken.length) {
+    distance = editDistance(queryToken, indexedToken.slice(0, queryToken.length), max);
+  }
+
+  return distance <= max ? 0.6 : 0;
+}
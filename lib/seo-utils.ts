@@ -1,4 +1,5 @@
 import { config } from './config';
+import { getHreflang } from './locales';
 import { Metadata } from 'next';
 
 export interface SEOConfig {
@@ -137,8 +138,7 @@ export function generateHreflangAlternates(path: string, locales?: string[]) {
   
   if (Array.isArray(supportedLocales) && supportedLocales.length > 0) {
     supportedLocales.forEach(locale => {
-      const hreflang = locale === 'en' ? 'en-US' : 'ar-SA';
-      alternates[hreflang] = `${config.site.url}/${locale}${path}`;
+      alternates[getHreflang(locale)] = `${config.site.url}/${locale}${path}`;
     });
   }
   
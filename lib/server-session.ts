@@ -0,0 +1,23 @@
+import { cookies } from 'next/headers';
+import type { User } from './api';
+import { fetchSessionUser, SESSION_COOKIE } from './session';
+
+/**
+ * Server Session
+ * Lets server components and server actions find out who is signed in.
+ * Middleware has already refreshed an expired access token by the time they
+ * render, so the session cookie is current.
+ */
+
+export interface ServerSession {
+  user: User;
+  authorization: string;
+}
+
+export async function getServerSession(): Promise<ServerSession | null> {
+  const authorization = cookies().get(SESSION_COOKIE)?.value;
+  if (!authorization) return null;
+
+  const user = await fetchSessionUser(authorization);
+  return user ? { user, authorization } : null;
+}
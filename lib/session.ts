@@ -0,0 +1,166 @@
+import type { NextRequest, NextResponse } from 'next/server';
+import type { User } from './api';
+
+/**
+ * Sessions
+ * Backend tokens are kept in httpOnly cookies set by the frontend's auth
+ * routes, so client scripts never see them. Route handlers read the session
+ * with getRequestAuthorization, middleware refreshes an expired access token
+ * from the refresh cookie before the request reaches a page or route, and
+ * server components resolve the user with getServerSession.
+ * Kept free of Node-only APIs so middleware can use it on the edge runtime.
+ */
+
+const BACKEND_API_URL = process.env.BACKEND_API_URL || 'http://localhost:3000/api';
+
+export const SESSION_COOKIE = 'logen_session';
+export const REFRESH_COOKIE = 'logen_refresh';
+
+// Used when a token carries no readable expiry
+const DEFAULT_SESSION_TTL = 15 * 60;
+const DEFAULT_REFRESH_TTL = 30 * 24 * 60 * 60;
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: string;
+}
+
+// Expiry (ms) of a JWT, which the backend may send with a "user "/"admin " prefix
+export function getTokenExpiry(token: string): number | null {
+  try {
+    const jwt = token.split(' ').pop() || '';
+    const payload = jwt.split('.')[1];
+    if (!payload) return null;
+
+    const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+    const exp = JSON.parse(json)?.exp;
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+function getMaxAge(token: string, fallbackSeconds: number, expiresAt?: string): number {
+  const expiry = getTokenExpiry(token) || (expiresAt ? new Date(expiresAt).getTime() : NaN);
+  if (!Number.isFinite(expiry)) return fallbackSeconds;
+  return Math.max(0, Math.floor((expiry - Date.now()) / 1000));
+}
+
+function cookieOptions(maxAge: number) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    path: '/',
+    maxAge,
+  };
+}
+
+/**
+ * Stores the tokens on a response. The access cookie expires with the token,
+ * so a missing access cookie next to a refresh cookie means "refresh first".
+ */
+export function setSessionCookies(response: NextResponse, tokens: SessionTokens): void {
+  response.cookies.set(
+    SESSION_COOKIE,
+    tokens.accessToken,
+    cookieOptions(getMaxAge(tokens.accessToken, DEFAULT_SESSION_TTL, tokens.expiresAt))
+  );
+  if (tokens.refreshToken) {
+    response.cookies.set(
+      REFRESH_COOKIE,
+      tokens.refreshToken,
+      cookieOptions(getMaxAge(tokens.refreshToken, DEFAULT_REFRESH_TTL))
+    );
+  }
+}
+
+export function clearSessionCookies(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', cookieOptions(0));
+  response.cookies.set(REFRESH_COOKIE, '', cookieOptions(0));
+}
+
+/**
+ * The backend authorization for a request: an explicit Authorization header
+ * (scripts and server-to-server callers) wins over the session cookie.
+ */
+export function getRequestAuthorization(request: NextRequest): string | null {
+  return request.headers.get('authorization') || request.cookies.get(SESSION_COOKIE)?.value || null;
+}
+
+// Trades a refresh token for a new access token; null when the backend rejects it
+export async function refreshSessionTokens(refreshToken: string): Promise<SessionTokens | null> {
+  try {
+    const response = await fetch(`${BACKEND_API_URL}/v1/auth/refresh-token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken }),
+      cache: 'no-store',
+    });
+    if (!response.ok) return null;
+
+    const data = await response.json();
+    const accessToken = data?.data?.accessToken;
+    if (typeof accessToken !== 'string' || !accessToken) return null;
+
+    return {
+      accessToken,
+      // Backends that rotate refresh tokens send the next one along
+      refreshToken: typeof data.data.refreshToken === 'string' ? data.data.refreshToken : undefined,
+      expiresAt: typeof data.data.expiresAt === 'string' ? data.data.expiresAt : undefined,
+    };
+  } catch (error) {
+    console.error('Session refresh failed:', error);
+    return null;
+  }
+}
+
+// Resolves the user behind a backend authorization through the profile endpoint
+export async function fetchSessionUser(authorization: string): Promise<User | null> {
+  try {
+    const response = await fetch(`${BACKEND_API_URL}/v1/auth/profile`, {
+      headers: {
+        'Content-Type': 'application/json',
+        'authorization': authorization,
+      },
+      cache: 'no-store',
+    });
+    if (!response.ok) return null;
+
+    const data = await response.json();
+    const user: User | undefined = data?.data?.user || data?.data;
+    return user && typeof user === 'object' ? user : null;
+  } catch (error) {
+    console.error('User lookup failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Refreshes an expired session ahead of the request. The new access cookie
+ * is written into the request itself, so the page or route handler behind
+ * the middleware already sees it; the caller copies the returned tokens onto
+ * its response. Returns 'expired' when the refresh token is no longer valid.
+ */
+export async function refreshRequestSession(request: NextRequest): Promise<SessionTokens | 'expired' | null> {
+  const refreshToken = request.cookies.get(REFRESH_COOKIE)?.value;
+  if (!refreshToken || request.cookies.get(SESSION_COOKIE)?.value) return null;
+
+  const tokens = await refreshSessionTokens(refreshToken);
+  if (!tokens) {
+    request.cookies.delete(REFRESH_COOKIE);
+    return 'expired';
+  }
+
+  request.cookies.set(SESSION_COOKIE, tokens.accessToken);
+  return tokens;
+}
+
+export function applySessionRefresh(response: NextResponse, refresh: SessionTokens | 'expired' | null): void {
+  if (refresh === 'expired') {
+    clearSessionCookies(response);
+  } else if (refresh) {
+    setSessionCookies(response, refresh);
+  }
+}
@@ -1,6 +1,9 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { backgroundSync } from './background-sync';
+import { BASE_CURRENCY, resolveSettlementCurrency, staticExchangeRates, sumInCurrency } from './currency';
+import { ExchangeRates } from '@/types';
+import type { Locale } from './locales';
 
 export interface CartItem {
   id: string;
@@ -20,6 +23,7 @@ interface CartStore {
   removeItem: (id: string) => void;
   updateQuantity: (id: string, quantity: number) => void;
   clearCart: () => void;
+  replaceItems: (items: CartItem[]) => void;
   openCart: () => void;
   closeCart: () => void;
   getTotalItems: () => number;
@@ -27,6 +31,17 @@ interface CartStore {
   getCartCurrency: () => string;
 }
 
+// The auth service keeps the signed-in user in localStorage; reading it here avoids an import cycle with ./auth
+function getSignedInUserId(): string | undefined {
+  if (typeof window === 'undefined') return undefined;
+  try {
+    const userData = localStorage.getItem('userData');
+    return userData ? JSON.parse(userData)?.id || undefined : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 export const useCartStore = create<CartStore>()(
   persist(
     (set, get) => ({
@@ -57,8 +72,7 @@ export const useCartStore = create<CartStore>()(
           backgroundSync.syncCartUpdate(
             existingItem.id, 
             updatedQuantity,
-            // TODO: Add user ID when authentication is implemented
-            undefined
+            getSignedInUserId()
           );
         } else {
           const quantity = newItem.quantity || 1;
@@ -70,8 +84,7 @@ export const useCartStore = create<CartStore>()(
           backgroundSync.syncCartUpdate(
             newItem.id, 
             quantity,
-            // TODO: Add user ID when authentication is implemented
-            undefined
+            getSignedInUserId()
           );
         }
       },
@@ -101,8 +114,7 @@ export const useCartStore = create<CartStore>()(
         if (removedProductId) {
           backgroundSync.syncCartRemove(
             removedProductId,
-            // TODO: Add user ID when authentication is implemented
-            undefined
+            getSignedInUserId()
           );
         }
       },
@@ -138,8 +150,7 @@ export const useCartStore = create<CartStore>()(
           backgroundSync.syncCartUpdate(
             updatedProductId, 
             quantity,
-            // TODO: Add user ID when authentication is implemented
-            undefined
+            getSignedInUserId()
           );
         }
       },
@@ -153,6 +164,8 @@ export const useCartStore = create<CartStore>()(
           itemCount: get().items.length
         });
       },
+      // Used when a recovered cart link restores a saved cart as-is
+      replaceItems: (items) => set({ items }),
       openCart: () => set({ isOpen: true }),
       closeCart: () => set({ isOpen: false }),
       getTotalItems: () => {
@@ -162,49 +175,22 @@ export const useCartStore = create<CartStore>()(
       getTotalPrice: () => {
         const items = get().items;
         if (!Array.isArray(items) || items.length === 0) return 0;
-        
-        // Group items by currency
-        const currencyGroups = items.reduce((groups: { [key: string]: number }, item) => {
-          const currency = item.currency || 'SAR';
-          groups[currency] = (groups[currency] || 0) + (item.price * item.quantity);
-          return groups;
-        }, {});
-        
-        // If all items have the same currency, return the total
-        const currencies = Object.keys(currencyGroups);
-        if (currencies.length === 1) {
-          return currencyGroups[currencies[0]];
+
+        // Totals are always in the settlement currency; mixed carts are converted with the latest rates
+        const currency = get().getCartCurrency();
+        const rates = useCurrencyStore.getState().rates || staticExchangeRates;
+        try {
+          return sumInCurrency(items, currency, rates);
+        } catch (error) {
+          console.error('Failed to convert cart total:', error);
+          return items.reduce((total, item) => total + (item.price * item.quantity), 0);
         }
-        
-        // If mixed currencies, convert all to SAR (base currency)
-        // This is a simplified conversion - in a real app, you'd use actual exchange rates
-        const exchangeRates: { [key: string]: number } = {
-          'SAR': 1,
-          'USD': 3.75, // 1 USD = 3.75 SAR
-          'EUR': 4.1,  // 1 EUR = 4.1 SAR
-          'EGP': 0.12  // 1 EGP = 0.12 SAR
-        };
-        
-        return Object.entries(currencyGroups).reduce((total, [currency, amount]) => {
-           const rate = exchangeRates[currency] || 1;
-           return total + (amount * rate);
-         }, 0);
-       },
-       getCartCurrency: () => {
-         const items = get().items;
-         if (!Array.isArray(items) || items.length === 0) return 'SAR';
-         
-         // Get unique currencies in cart
-         const currencies = [...new Set(items.map(item => item.currency || 'SAR'))];
-         
-         // If all items have the same currency, return that currency
-         if (currencies.length === 1) {
-           return currencies[0];
-         }
-         
-         // If mixed currencies, return 'SAR' as the base currency for display
-         return 'SAR';
-       },
+      },
+      getCartCurrency: () => {
+        const items = get().items;
+        if (!Array.isArray(items) || items.length === 0) return BASE_CURRENCY;
+        return resolveSettlementCurrency(items.map((item) => item.currency));
+      },
     }),
     {
       name: 'cart-storage',
@@ -212,6 +198,20 @@ export const useCartStore = create<CartStore>()(
   )
 );
 
+// Debounced full-cart snapshots feed abandoned cart recovery on the server
+const CART_SNAPSHOT_DELAY = 2000;
+let cartSnapshotTimer: ReturnType<typeof setTimeout> | undefined;
+
+if (typeof window !== 'undefined') {
+  useCartStore.subscribe((state, previous) => {
+    if (state.items === previous.items) return;
+    clearTimeout(cartSnapshotTimer);
+    cartSnapshotTimer = setTimeout(() => {
+      backgroundSync.syncCartSnapshot(useCartStore.getState().items, useLanguageStore.getState().language);
+    }, CART_SNAPSHOT_DELAY);
+  });
+}
+
 interface NotificationStore {
   notifications: Array<{
     id: string;
@@ -254,9 +254,33 @@ export const useNotificationStore = create<NotificationStore>((set, get) => ({
   },
   clearNotifications: () => set({ notifications: [] }),
 }));
+interface CurrencyStore {
+  // null shows prices in the currency they are listed in
+  displayCurrency: string | null;
+  rates: ExchangeRates | null;
+  ratesFetchedAt: number | null;
+  setDisplayCurrency: (currency: string | null) => void;
+  setRates: (rates: ExchangeRates) => void;
+}
+
+export const useCurrencyStore = create<CurrencyStore>()(
+  persist(
+    (set) => ({
+      displayCurrency: null,
+      rates: null,
+      ratesFetchedAt: null,
+      setDisplayCurrency: (displayCurrency) => set({ displayCurrency }),
+      setRates: (rates) => set({ rates, ratesFetchedAt: Date.now() }),
+    }),
+    {
+      name: 'currency-storage',
+    }
+  )
+);
+
 interface LanguageStore {
-  language: 'en' | 'ar';
-  setLanguage: (lang: 'en' | 'ar') => void;
+  language: Locale;
+  setLanguage: (lang: Locale) => void;
 }
 
 export const useLanguageStore = create<LanguageStore>()(
@@ -269,4 +293,95 @@ export const useLanguageStore = create<LanguageStore>()(
       name: 'language-storage',
     }
   )
-);
\ No newline at end of file
+);
+
+export interface WishlistItem {
+  id: string;
+  handle: string;
+  title: {
+    en: string;
+    ar: string;
+  };
+  price: number; // Effective price when the item was last seen
+  currency?: string;
+  image: string;
+  inStock: boolean;
+  addedAt: string;
+}
+
+interface WishlistStore {
+  items: WishlistItem[];
+  addItem: (item: Omit<WishlistItem, 'addedAt'> & { addedAt?: string }) => void;
+  removeItem: (id: string) => void;
+  updateItem: (id: string, changes: Partial<Omit<WishlistItem, 'id'>>) => void;
+  setItems: (items: WishlistItem[]) => void;
+  clearWishlist: () => void;
+  isWishlisted: (id: string) => boolean;
+}
+
+export const useWishlistStore = create<WishlistStore>()(
+  persist(
+    (set, get) => ({
+      items: [],
+      addItem: (newItem) => {
+        const items = get().items;
+        if (items.some((item) => item.id === newItem.id)) return;
+
+        set({
+          items: [...items, { ...newItem, addedAt: newItem.addedAt || new Date().toISOString() }],
+        });
+      },
+      removeItem: (id) => {
+        set({ items: get().items.filter((item) => item.id !== id) });
+      },
+      updateItem: (id, changes) => {
+        set({
+          items: get().items.map((item) => (item.id === id ? { ...item, ...changes } : item)),
+        });
+      },
+      setItems: (items) => set({ items: Array.isArray(items) ? items : [] }),
+      clearWishlist: () => set({ items: [] }),
+      isWishlisted: (id) => {
+        const items = get().items;
+        return Array.isArray(items) && items.some((item) => item.id === id);
+      },
+    }),
+    {
+      name: 'wishlist-storage',
+    }
+  )
+);
+
+const MAX_RECENT_SEARCHES = 8;
+
+interface SearchStore {
+  recentSearches: string[];
+  addRecentSearch: (query: string) => void;
+  removeRecentSearch: (query: string) => void;
+  clearRecentSearches: () => void;
+}
+
+export const useSearchStore = create<SearchStore>()(
+  persist(
+    (set, get) => ({
+      recentSearches: [],
+      addRecentSearch: (query) => {
+        const trimmed = query.trim();
+        if (!trimmed) return;
+
+        // Most recent first, without case-insensitive duplicates
+        const others = get().recentSearches.filter(
+          (item) => item.toLowerCase() !== trimmed.toLowerCase()
+        );
+        set({ recentSearches: [trimmed, ...others].slice(0, MAX_RECENT_SEARCHES) });
+      },
+      removeRecentSearch: (query) => {
+        set({ recentSearches: get().recentSearches.filter((item) => item !== query) });
+      },
+      clearRecentSearches: () => set({ recentSearches: [] }),
+    }),
+    {
+      name: 'search-storage',
+    }
+  )
+);
@@ -0,0 +1,8 @@
+import { timingSafeEqual } from 'crypto';
+
+// Constant-time string comparison for secrets and signatures (Node runtime only)
+export function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
@@ -1,32 +1,29 @@
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { BASE_CURRENCY, formatMoney } from './currency';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
-export function formatPrice(price: number, currency?: string): string {
-  if (currency) {
-    // Use the currency-specific formatting
-    const currencySymbols: { [key: string]: string } = {
-      'SAR': 'ر.س',
-      'USD': '$',
-      'EUR': '€',
-      'EGP': 'EGP'
-    };
-    
-    const symbol = currencySymbols[currency] || currency;
-    return `${price.toLocaleString()} ${symbol}`;
-  }
-  
-  // Fallback to SAR if no currency specified
-  return `${price.toLocaleString()} ر.س`;
+export function formatPrice(price: number, currency?: string, locale?: string): string {
+  // Prices without a currency are in the store's base currency
+  return formatMoney(price, currency || BASE_CURRENCY, locale);
 }
 
 export function getImageUrl(path: string): string {
   return path.startsWith('/') ? path : `/${path}`;
 }
 
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+// Trimmed and capped, or undefined for anything but a non-empty string
+export function cleanString(value: unknown, maxLength: number): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim().slice(0, maxLength) : undefined;
+}
+
 export function decodeHtmlEntities(text: string): string {
   if (typeof window !== 'undefined') {
     const textarea = document.createElement('textarea');
@@ -0,0 +1,279 @@
+import { getEffectivePrice, Product, WishlistEntry } from './api';
+import { formatMoney } from './currency';
+import { readJsonFile, resolveDataPath, updateJsonFile } from './file-store';
+import { CONTENT_LOCALES, ContentLocale, getContentLocale, getFormatLocale } from './locales';
+import {
+  getPushSubscriptionStore,
+  isWebPushConfigured,
+  sendPushNotifications,
+  StoredPushSubscription,
+} from './push-subscriptions';
+import { startInterval } from './scheduler';
+import { fetchSessionUser } from './session';
+
+/**
+ * Wishlist Alerts
+ * Watches signed-in shoppers' wishlists on the server and pushes price-drop
+ * and back-in-stock alerts to their own subscriptions. The wishlist routes
+ * keep a snapshot of each saved product (the price and stock the shopper
+ * last saw); the scheduler compares those with the live catalog and moves
+ * the snapshot forward, so each change is announced once.
+ */
+
+export interface WishlistWatch {
+  // Unknown until the product has been seen once; the first check only records it
+  price?: number;
+  inStock?: boolean;
+  updatedAt: string;
+}
+
+// userId -> productId -> snapshot
+type WishlistWatchDocument = Record<string, Record<string, WishlistWatch>>;
+
+type WishlistAlertType = 'price-drop' | 'back-in-stock';
+
+const ALERT_COPY: Record<ContentLocale, {
+  priceDropTitle: string;
+  priceDropBody: string;
+  backInStockTitle: string;
+  backInStockBody: string;
+}> = {
+  en: {
+    priceDropTitle: 'Price Drop Alert! 💰',
+    priceDropBody: '{name} is now {price} (was {oldPrice})',
+    backInStockTitle: 'Back in Stock! 📦',
+    backInStockBody: '{name} is available again at {price}',
+  },
+  ar: {
+    priceDropTitle: 'تنبيه انخفاض السعر! 💰',
+    priceDropBody: '{name} أصبح بسعر {price} بدلاً من {oldPrice}',
+    backInStockTitle: 'عاد إلى المخزون! 📦',
+    backInStockBody: '{name} متوفر الآن بسعر {price}',
+  },
+};
+
+interface WishlistAlert {
+  type: WishlistAlertType;
+  product: Product;
+  oldPrice?: number;
+}
+
+const WATCHES_FILE = resolveDataPath('wishlist-watches.json');
+const BACKEND_API_URL = process.env.BACKEND_API_URL || 'http://localhost:3000/api';
+const SCHEDULER_INTERVAL_MS = parseInt(process.env.WISHLIST_ALERT_INTERVAL || '3600', 10) * 1000;
+
+function updateWatches(mutate: (watches: WishlistWatchDocument) => void): Promise<WishlistWatchDocument> {
+  return updateJsonFile<WishlistWatchDocument>(WATCHES_FILE, {}, (watches) => {
+    mutate(watches);
+    return watches;
+  });
+}
+
+function watchFromEntry(entry: WishlistEntry, existing?: WishlistWatch): WishlistWatch {
+  // An existing snapshot wins so a reload never resets a pending alert
+  if (existing) return existing;
+
+  return {
+    price: entry.priceAtAdd ?? (entry.product ? getEffectivePrice(entry.product) : undefined),
+    inStock: entry.product?.inStock,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+// The account wishlist as returned by the backend replaces the watched set
+export async function syncWishlistWatches(userId: string, entries: WishlistEntry[]): Promise<void> {
+  await updateWatches((watches) => {
+    const current = watches[userId] || {};
+    const next: Record<string, WishlistWatch> = {};
+    entries.forEach((entry) => {
+      if (entry?.productId) next[entry.productId] = watchFromEntry(entry, current[entry.productId]);
+    });
+
+    if (Object.keys(next).length > 0) {
+      watches[userId] = next;
+    } else {
+      delete watches[userId];
+    }
+  });
+}
+
+export async function addWishlistWatch(userId: string, productId: string, priceAtAdd?: number): Promise<void> {
+  await updateWatches((watches) => {
+    const current = watches[userId] || {};
+    current[productId] = watchFromEntry({ productId, priceAtAdd, addedAt: new Date().toISOString() }, current[productId]);
+    watches[userId] = current;
+  });
+}
+
+export async function removeWishlistWatch(userId: string, productId: string): Promise<void> {
+  await updateWatches((watches) => {
+    if (!watches[userId]) return;
+    delete watches[userId][productId];
+    if (Object.keys(watches[userId]).length === 0) delete watches[userId];
+  });
+}
+
+// Applies a watch change for the shopper behind a wishlist request; the wishlist itself never fails over it
+export async function updateSessionWatches(
+  authorization: string,
+  update: (userId: string) => Promise<void>
+): Promise<void> {
+  try {
+    const user = await fetchSessionUser(authorization);
+    if (user?.id) await update(user.id);
+    ensureWishlistAlertScheduler();
+  } catch (error) {
+    console.error('Wishlist watch update failed:', error);
+  }
+}
+
+// Only live data; alerting from a stale catalog would announce changes that never happened
+async function fetchLiveProducts(ids: string[]): Promise<Record<string, Product>> {
+  const products: Record<string, Product> = {};
+
+  await Promise.all(ids.map(async (id) => {
+    try {
+      const response = await fetch(`${BACKEND_API_URL}/products/${encodeURIComponent(id)}`, {
+        headers: { 'Content-Type': 'application/json' },
+        cache: 'no-store',
+      });
+      if (!response.ok) return;
+
+      const data = await response.json();
+      if (data?.data?._id) {
+        products[id] = data.data;
+      }
+    } catch (error) {
+      console.error(`Wishlist alerts: could not load product ${id}:`, error);
+    }
+  }));
+
+  return products;
+}
+
+function buildPushPayload(alert: WishlistAlert, locale: ContentLocale): string {
+  const { product } = alert;
+  const copy = ALERT_COPY[locale];
+  const name = product.title?.[locale] || product.title?.en || product.title?.ar || '';
+  const formatLocale = getFormatLocale(locale);
+  const isPriceDrop = alert.type === 'price-drop';
+  const body = (isPriceDrop ? copy.priceDropBody : copy.backInStockBody)
+    .replace('{name}', name)
+    .replace('{price}', formatMoney(getEffectivePrice(product), product.currency, formatLocale))
+    .replace('{oldPrice}', formatMoney(alert.oldPrice || 0, product.currency, formatLocale));
+
+  return JSON.stringify({
+    title: isPriceDrop ? copy.priceDropTitle : copy.backInStockTitle,
+    body,
+    icon: isPriceDrop ? '/icons/price-drop.png' : '/icons/in-stock.png',
+    badge: '/icons/badge-72x72.png',
+    image: product.images?.[0]?.secure_url || undefined,
+    tag: `${alert.type}-${product._id}`,
+    requireInteraction: true,
+    data: {
+      type: alert.type,
+      productId: product._id,
+      url: `/${locale}/products/${product.handle}`,
+      timestamp: Date.now(),
+    },
+  });
+}
+
+async function sendAlerts(userId: string, alerts: WishlistAlert[]): Promise<void> {
+  const records = (await getPushSubscriptionStore().getByUserId(userId))
+    .filter((record) => record.preferences.priceDrops);
+  if (records.length === 0) return;
+
+  // One payload per language the shopper's browsers use
+  const byLocale: Partial<Record<ContentLocale, StoredPushSubscription[]>> = {};
+  records.forEach((record) => {
+    const locale = getContentLocale(record.profile?.locale);
+    byLocale[locale] = (byLocale[locale] || []).concat(record);
+  });
+
+  for (let i = 0; i < alerts.length; i++) {
+    for (let j = 0; j < CONTENT_LOCALES.length; j++) {
+      const group = byLocale[CONTENT_LOCALES[j]];
+      if (!group) continue;
+      await sendPushNotifications(group, buildPushPayload(alerts[i], CONTENT_LOCALES[j]));
+    }
+  }
+}
+
+async function checkWishlists(): Promise<void> {
+  const watches = await readJsonFile<WishlistWatchDocument>(WATCHES_FILE, {});
+  const ids = Array.from(new Set(
+    Object.keys(watches).reduce<string[]>((all, userId) => all.concat(Object.keys(watches[userId])), [])
+  ));
+  if (ids.length === 0) return;
+
+  const products = await fetchLiveProducts(ids);
+  const alerts: Record<string, WishlistAlert[]> = {};
+  const checkedAt = new Date().toISOString();
+
+  // Move every snapshot forward before sending so a crash never repeats an alert
+  await updateWatches((current) => {
+    Object.keys(current).forEach((userId) => {
+      Object.keys(current[userId]).forEach((productId) => {
+        const product = products[productId];
+        if (!product) return;
+
+        const watch = current[userId][productId];
+        const price = getEffectivePrice(product);
+        const userAlerts: WishlistAlert[] = [];
+
+        if (watch.price !== undefined && price < watch.price) {
+          userAlerts.push({ type: 'price-drop', product, oldPrice: watch.price });
+        }
+        if (watch.inStock === false && product.inStock) {
+          userAlerts.push({ type: 'back-in-stock', product });
+        }
+        if (userAlerts.length > 0) {
+          alerts[userId] = (alerts[userId] || []).concat(userAlerts);
+        }
+
+        current[userId][productId] = { price, inStock: product.inStock, updatedAt: checkedAt };
+      });
+    });
+  });
+
+  if (!isWebPushConfigured()) return;
+
+  const userIds = Object.keys(alerts);
+  for (let i = 0; i < userIds.length; i++) {
+    try {
+      await sendAlerts(userIds[i], alerts[userIds[i]]);
+    } catch (error) {
+      console.error(`Wishlist alerts failed for user ${userIds[i]}:`, error);
+    }
+  }
+}
+
+let runningTick: Promise<void> | null = null;
+
+// Single-flight so the interval and the cron route never overlap
+export function runWishlistAlerts(): Promise<void> {
+  if (!runningTick) {
+    runningTick = checkWishlists()
+      .catch((error) => {
+        console.error('Wishlist alert run failed:', error);
+      })
+      .finally(() => {
+        runningTick = null;
+      });
+  }
+  return runningTick;
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Starts the in-process scheduler on long-running servers. Serverless
+ * deployments set WISHLIST_ALERT_INTERVAL=0 and call the run route from cron.
+ */
+export function ensureWishlistAlertScheduler(): void {
+  if (schedulerTimer || SCHEDULER_INTERVAL_MS <= 0 || typeof setInterval === 'undefined') return;
+  schedulerTimer = startInterval(() => {
+    runWishlistAlerts();
+  }, SCHEDULER_INTERVAL_MS);
+}
@@ -0,0 +1,164 @@
+import React from 'react';
+import { apiClient, getEffectivePrice, Product, WishlistEntry, handleApiError } from './api';
+import { useWishlistStore, WishlistItem } from './store';
+
+/**
+ * Wishlist Service
+ * Keeps the persisted wishlist store in sync with the account wishlist,
+ * and merges the guest list after login. Price-drop and back-in-stock alerts
+ * are sent by the server (see wishlist-alerts).
+ */
+
+export function productToWishlistItem(product: Product): Omit<WishlistItem, 'addedAt'> {
+  return {
+    id: product._id,
+    handle: product.handle,
+    title: {
+      en: product.title?.en || product.title?.ar || '',
+      ar: product.title?.ar || product.title?.en || '',
+    },
+    price: getEffectivePrice(product),
+    currency: product.currency,
+    image: product.images?.[0]?.secure_url || '/mvp-images/1.jpg',
+    inStock: product.inStock,
+  };
+}
+
+function entryToWishlistItem(entry: WishlistEntry, local?: WishlistItem): WishlistItem | null {
+  if (entry.product) {
+    return {
+      ...productToWishlistItem(entry.product),
+      price: getEffectivePrice(entry.product),
+      addedAt: entry.addedAt,
+    };
+  }
+
+  // Backend returned a bare id; keep whatever we already know about it
+  return local ? { ...local, addedAt: entry.addedAt || local.addedAt } : null;
+}
+
+class WishlistService {
+  private syncing: Promise<void> | null = null;
+
+  isWishlisted(productId: string): boolean {
+    return useWishlistStore.getState().isWishlisted(productId);
+  }
+
+  // Returns the new wishlisted state
+  async toggle(product: Product): Promise<boolean> {
+    if (this.isWishlisted(product._id)) {
+      await this.remove(product._id);
+      return false;
+    }
+
+    await this.add(product);
+    return true;
+  }
+
+  async add(product: Product): Promise<void> {
+    const store = useWishlistStore.getState();
+    const item = productToWishlistItem(product);
+    store.addItem(item);
+
+    if (!apiClient.isAuthenticated()) return;
+
+    try {
+      await apiClient.addToWishlist(product._id, item.price);
+    } catch (error) {
+      // Roll back the optimistic update
+      useWishlistStore.getState().removeItem(product._id);
+      throw new Error(handleApiError(error));
+    }
+  }
+
+  async remove(productId: string): Promise<void> {
+    const store = useWishlistStore.getState();
+    const previous = store.items.find((item) => item.id === productId);
+    store.removeItem(productId);
+
+    if (!apiClient.isAuthenticated()) return;
+
+    try {
+      await apiClient.removeFromWishlist(productId);
+    } catch (error) {
+      if (previous) {
+        useWishlistStore.getState().addItem(previous);
+      }
+      throw new Error(handleApiError(error));
+    }
+  }
+
+  private applyServerEntries(entries: WishlistEntry[]): void {
+    const localItems = useWishlistStore.getState().items;
+    const items = entries
+      .map((entry) => entryToWishlistItem(entry, localItems.find((item) => item.id === entry.productId)))
+      .filter((item): item is WishlistItem => item !== null);
+
+    useWishlistStore.getState().setItems(items);
+  }
+
+  async loadFromServer(): Promise<void> {
+    if (!apiClient.isAuthenticated()) return;
+    if (this.syncing) return this.syncing;
+
+    this.syncing = (async () => {
+      try {
+        const entries = await apiClient.getWishlist();
+        this.applyServerEntries(entries);
+      } catch (error) {
+        console.error('Failed to load wishlist:', error);
+      } finally {
+        this.syncing = null;
+      }
+    })();
+
+    return this.syncing;
+  }
+
+  // Called after login: union the guest list into the account list
+  async mergeGuestWishlist(): Promise<void> {
+    if (!apiClient.isAuthenticated()) return;
+
+    const guestItems = useWishlistStore.getState().items;
+    if (guestItems.length === 0) {
+      await this.loadFromServer();
+      return;
+    }
+
+    try {
+      const merged = await apiClient.mergeWishlist(
+        guestItems.map((item) => ({
+          productId: item.id,
+          addedAt: item.addedAt,
+          priceAtAdd: item.price,
+        }))
+      );
+      this.applyServerEntries(merged);
+    } catch (error) {
+      // Keep the local list; the next load will retry against the server
+      console.error('Failed to merge guest wishlist:', error);
+    }
+  }
+}
+
+// Create singleton instance
+export const wishlistService = new WishlistService();
+
+// React hook for wishlist state and actions
+export function useWishlist() {
+  const items = useWishlistStore((state) => state.items);
+
+  const isWishlisted = React.useCallback(
+    (productId: string) => Array.isArray(items) && items.some((item) => item.id === productId),
+    [items]
+  );
+
+  return {
+    items: Array.isArray(items) ? items : [],
+    count: Array.isArray(items) ? items.length : 0,
+    isWishlisted,
+    toggle: wishlistService.toggle.bind(wishlistService),
+    remove: wishlistService.remove.bind(wishlistService),
+    refresh: wishlistService.loadFromServer.bind(wishlistService),
+  };
+}
@@ -1,49 +1,147 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { config as appConfig } from './lib/config';
+import { hasAdminApiKey } from './lib/admin-auth';
+import { errorResponse } from './lib/api-response';
+import { negotiateLocale } from './lib/locales';
+import {
+  API_POLICIES,
+  findRoutePolicy,
+  isAdminRole,
+  LOGIN_PATH,
+  PAGE_POLICIES,
+  RoutePolicy,
+  sanitizeReturnTo,
+} from './lib/route-policies';
+import {
+  applySessionRefresh,
+  fetchSessionUser,
+  getRequestAuthorization,
+  getTokenExpiry,
+  refreshRequestSession,
+  SESSION_COOKIE,
+} from './lib/session';
 
-const locales = appConfig?.i18n?.locales || ['en', 'ar'];
-const defaultLocale = appConfig?.i18n?.defaultLocale || 'en';
+// Enabled locales from the registry (lib/locales)
+const locales: string[] = appConfig.i18n.locales;
+const defaultLocale = appConfig.i18n.defaultLocale;
 
 // Get the preferred locale from the request
 function getLocale(request: NextRequest): string {
   // Check if locale is in the pathname
-  const pathname = request.nextUrl.pathname;
-  
-  // Ensure locales is an array before using array methods
-  const localesArray = Array.isArray(locales) ? locales : ['en', 'ar'];
-  
-  const pathnameHasLocale = localesArray.some(
-    (locale: string) => pathname.startsWith(`/${locale}/`) || pathname === `/${locale}`
-  );
-
-  if (pathnameHasLocale) {
-    const pathLocale = pathname.split('/')[1];
-    return localesArray.includes(pathLocale) ? pathLocale : defaultLocale;
+  const pathLocale = getPathLocale(request.nextUrl.pathname);
+  if (pathLocale) {
+    return pathLocale;
   }
 
   // Check Accept-Language header
-  const acceptLanguage = request.headers.get('accept-language');
-  if (acceptLanguage) {
-    const preferredLocales = acceptLanguage
-      .split(',')
-      .map((lang) => lang.split(';')[0].trim().split('-')[0])
-      .filter((lang) => localesArray.includes(lang));
-    
-    if (preferredLocales.length > 0) {
-      return preferredLocales[0];
-    }
+  const preferredLocale = negotiateLocale(request.headers.get('accept-language'), locales);
+  if (preferredLocale) {
+    return preferredLocale;
   }
 
   // Check cookies
   const localeCookie = request.cookies.get('locale')?.value;
-  if (localeCookie && localesArray.includes(localeCookie)) {
+  if (localeCookie && locales.includes(localeCookie)) {
     return localeCookie;
   }
 
   return defaultLocale;
 }
 
-export function middleware(request: NextRequest) {
+// Auth routes that manage the session cookies themselves
+const SESSION_ROUTES = ['/api/v1/auth/login', '/api/v1/auth/refresh-token', '/api/v1/auth/logout'];
+
+function needsSession(pathname: string): boolean {
+  return !(
+    pathname.startsWith('/_next/') ||
+    pathname.includes('.') ||
+    SESSION_ROUTES.indexOf(pathname) !== -1
+  );
+}
+
+/**
+ * Checks the caller against a policy; 401 without a live session, 403
+ * without the role. 'authenticated' only rejects missing and expired tokens
+ * here, since the signature can't be checked on the edge: every handler
+ * behind it forwards the token to the backend, which verifies it and
+ * answers 401 itself, and server-side stores are keyed by the user the
+ * backend resolves (fetchSessionUser), never by the token's own claims.
+ */
+async function checkAccess(request: NextRequest, policy: RoutePolicy): Promise<200 | 401 | 403> {
+  if (policy.access === 'admin' && hasAdminApiKey(request)) return 200;
+
+  const authorization = getRequestAuthorization(request);
+  if (!authorization) return 401;
+
+  const expiry = getTokenExpiry(authorization);
+  if (expiry !== null && expiry <= Date.now()) return 401;
+  if (policy.access === 'authenticated') return 200;
+
+  const user = await fetchSessionUser(authorization);
+  if (!user) return 401;
+  return isAdminRole(user.role) ? 200 : 403;
+}
+
+function getPathLocale(pathname: string): string | null {
+  const segment = pathname.split('/')[1];
+  return locales.includes(segment) ? segment : null;
+}
+
+/**
+ * Applies the route policy table. API routes get a JSON 401/403; pages
+ * redirect to the login page of their locale, which sends the user back to
+ * returnTo after signing in.
+ */
+async function enforceRoutePolicy(request: NextRequest): Promise<NextResponse | null> {
+  const { pathname, search } = request.nextUrl;
+
+  if (pathname.startsWith('/api/')) {
+    const policy = findRoutePolicy(API_POLICIES, pathname, request.method);
+    if (!policy) return null;
+
+    const status = await checkAccess(request, policy);
+    if (status === 200) return null;
+
+    return status === 401
+      ? errorResponse(401, 'UNAUTHORIZED', 'Authentication required')
+      : errorResponse(403, 'FORBIDDEN', 'Admin access required');
+  }
+
+  // Pages are checked once their URL carries a locale
+  const locale = getPathLocale(pathname);
+  if (!locale) return null;
+  const pagePath = pathname.slice(locale.length + 1) || '/';
+
+  // Signed-in users have no business on the login page, unless they need to switch accounts
+  if (pagePath === LOGIN_PATH) {
+    const params = request.nextUrl.searchParams;
+    if (request.cookies.get(SESSION_COOKIE)?.value && params.get('reason') !== 'forbidden') {
+      const returnTo = sanitizeReturnTo(params.get('returnTo')) || `/${locale}`;
+      return NextResponse.redirect(new URL(returnTo, request.url));
+    }
+    return null;
+  }
+
+  const policy = findRoutePolicy(PAGE_POLICIES, pagePath);
+  if (!policy) return null;
+
+  const status = await checkAccess(request, policy);
+  if (status === 200) return null;
+
+  const loginUrl = new URL(`/${locale}${LOGIN_PATH}`, request.url);
+  loginUrl.searchParams.set('returnTo', `${pathname}${search}`);
+  if (status === 403) loginUrl.searchParams.set('reason', 'forbidden');
+  return NextResponse.redirect(loginUrl);
+}
+
+export async function middleware(request: NextRequest) {
+  const refresh = needsSession(request.nextUrl.pathname) ? await refreshRequestSession(request) : null;
+  const response = (await enforceRoutePolicy(request)) || routeRequest(request);
+  applySessionRefresh(response, refresh);
+  return response;
+}
+
+function routeRequest(request: NextRequest): NextResponse {
   const pathname = request.nextUrl.pathname;
   const searchParams = request.nextUrl.searchParams;
 
@@ -60,7 +158,7 @@ export function middleware(request: NextRequest) {
     pathname.includes('.') ||
     searchParams.has('_rsc') // Skip RSC payload requests
   ) {
-    const response = NextResponse.next();
+    const response = NextResponse.next({ request: { headers: request.headers } });
     
     // Add performance and security headers for static assets
     if (pathname.startsWith('/_next/static/') || pathname.match(/\.(js|css|woff2?|png|jpg|jpeg|gif|svg|ico)$/)) {
@@ -83,15 +181,12 @@ export function middleware(request: NextRequest) {
   }
 
   // Check if pathname already has a locale
-  const localesArray = Array.isArray(locales) ? locales : ['en', 'ar'];
-  const pathnameHasLocale = localesArray.some(
-    (locale: string) => pathname.startsWith(`/${locale}/`) || pathname === `/${locale}`
-  );
+  const pathLocale = getPathLocale(pathname);
 
-  if (pathnameHasLocale) {
-    // Extract locale from pathname and set cookie
-    const locale = pathname.split('/')[1];
-    const response = NextResponse.next();
+  if (pathLocale) {
+    // Remember the pathname's locale in a cookie
+    const locale = pathLocale;
+    const response = NextResponse.next({ request: { headers: request.headers } });
     
     // Add performance and security headers
     response.headers.set('X-Frame-Options', 'DENY');
@@ -132,7 +227,7 @@ export function middleware(request: NextRequest) {
 
 export const config = {
   matcher: [
-    // Skip all internal paths (_next), API routes, and static files
-    '/((?!api|_next/static|_next/image|favicon.ico|robots.txt|sitemap.xml|manifest.json|sw.js|offline.html).*)',
+    // Skip internal paths (_next) and static files; API routes run for session refresh
+    '/((?!_next/static|_next/image|favicon.ico|robots.txt|sitemap.xml|manifest.json|sw.js|offline.html).*)',
   ],
 };
\ No newline at end of file
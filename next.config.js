@@ -6,9 +6,11 @@ const withBundleAnalyzer = require('@next/bundle-analyzer')({
 const nextConfig = {
   // Performance optimizations
   experimental: {
+    // Runs instrumentation.ts: locale registry check, request metrics and the health monitor
+    instrumentationHook: true,
     optimizeCss: true,
     optimizePackageImports: ['lucide-react', 'framer-motion', '@tanstack/react-query'],
-    serverComponentsExternalPackages: ['sharp'],
+    serverComponentsExternalPackages: ['sharp', 'puppeteer-core'],
     webVitalsAttribution: ['CLS', 'LCP'],
     gzipSize: true,
     // Add performance optimizations
@@ -110,10 +110,11 @@ self.addEventListener('notificationclick', (event) => {
       url = '/products';
       break;
     case 'checkout':
-      url = '/checkout';
+      // Cart reminders restore the exact cart before continuing to checkout
+      url = data.type === 'cart-reminder' ? `${data.url}&next=checkout` : '/checkout';
       break;
     case 'view-cart':
-      url = '/cart';
+      url = data.type === 'cart-reminder' ? data.url : '/cart';
       break;
     case 'buy':
     case 'view-product':
@@ -172,6 +173,14 @@ self.addEventListener('sync', (event) => {
   if (event.tag === 'background-sync') {
     event.waitUntil(handleBackgroundSync());
   }
+
+  if (event.tag === 'form-sync') {
+    event.waitUntil(handleFormSync());
+  }
+
+  if (event.tag === 'cart-sync') {
+    event.waitUntil(handleCartSync());
+  }
 });
 
 // Helper function to handle save for later action
@@ -242,6 +251,106 @@ async function handleBackgroundSync() {
   }
 }
 
+// Form endpoints for submissions queued by lib/background-sync.ts
+const FORM_SYNC_ENDPOINTS = {
+  'contact-form': '/api/v1/contact'
+};
+
+// Replay queued form submissions; each carries its own submissionId so the
+// server acknowledges duplicates instead of delivering them twice
+async function handleFormSync() {
+  const db = await openSyncDB();
+  const submissions = await getAllFromStore(db, 'form-submissions');
+
+  for (const submission of submissions) {
+    const formType = submission.data && submission.data.formType;
+    const endpoint = FORM_SYNC_ENDPOINTS[formType] || '/api/v1/forms/sync';
+
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(submission)
+      });
+
+      // Keep server errors and rate limits queued for the next sync
+      if (response.status >= 500 || response.status === 429) {
+        continue;
+      }
+
+      await deleteFromStore(db, 'form-submissions', submission.id);
+    } catch (error) {
+      console.error('Failed to replay form submission:', error);
+    }
+  }
+}
+
+// Replay cart changes queued offline by lib/background-sync.ts, oldest first.
+// A later snapshot supersedes an earlier one, so the queue stops at the first
+// failure rather than letting an old cart overwrite a newer one next time
+async function handleCartSync() {
+  const db = await openSyncDB();
+  const updates = await getAllFromStore(db, 'cart-updates');
+
+  for (const update of updates) {
+    try {
+      const response = await fetch('/api/v1/cart/sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update)
+      });
+
+      // Keep server errors and rate limits queued for the next sync
+      if (response.status >= 500 || response.status === 429) {
+        return;
+      }
+
+      await deleteFromStore(db, 'cart-updates', update.id);
+    } catch (error) {
+      console.error('Failed to replay cart update:', error);
+      return;
+    }
+  }
+}
+
+function openSyncDB() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open('logen-sync-db', 1);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+
+    request.onupgradeneeded = (event) => {
+      const db = event.target.result;
+      ['cart-updates', 'analytics-events', 'form-submissions'].forEach((storeName) => {
+        if (!db.objectStoreNames.contains(storeName)) {
+          db.createObjectStore(storeName, { keyPath: 'id', autoIncrement: true });
+        }
+      });
+    };
+  });
+}
+
+function getAllFromStore(db, storeName) {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([storeName], 'readonly');
+    const request = transaction.objectStore(storeName).getAll();
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+  });
+}
+
+function deleteFromStore(db, storeName, id) {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([storeName], 'readwrite');
+    const request = transaction.objectStore(storeName).delete(id);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve();
+  });
+}
+
 // IndexedDB helpers
 function openIndexedDB() {
   return new Promise((resolve, reject) => {
@@ -0,0 +1,670 @@
+#!/usr/bin/env node
+
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+const { IntlMessageFormat } = require('intl-messageformat');
+
+// Usage:
+//   node scripts/check-translations.js                   report, fail on regressions against the baseline
+//   node scripts/check-translations.js --strict          fail on every issue, ignoring the baseline
+//   node scripts/check-translations.js --extract         add hardcoded strings to the catalogs as new keys
+//   node scripts/check-translations.js --update-baseline accept the current issues as the baseline
+
+const ROOT = process.cwd();
+const MESSAGES_DIR = path.join(ROOT, 'messages');
+const BASELINE_FILE = path.join(ROOT, 'scripts', 'i18n-baseline.json');
+const REFERENCE_LOCALE = 'en';
+
+// Directories scanned for hardcoded text; API routes and server libraries answer in English by design
+const SOURCE_DIRS = ['app', 'components', 'hooks'];
+// Directories scanned for catalog key usage
+const USAGE_DIRS = ['app', 'components', 'hooks', 'lib'];
+const IGNORED_PATHS = [/^app\/api\//, /\.test\.tsx?$/, /\.d\.ts$/, /page-old\.tsx$/, /\/seo-demo\//];
+
+// JSX attributes whose values are read or heard by shoppers
+const USER_FACING_PROPS = ['placeholder', 'title', 'alt', 'aria-label', 'aria-description', 'aria-placeholder', 'label', 'helperText', 'description', 'message'];
+// Calls whose string arguments end up on screen
+const USER_FACING_CALLS = ['setError', 'setSuccess', 'setMessage', 'alert', 'confirm', 'addNotification', 'toast'];
+// Calls that receive a whole object of validation messages
+const VALIDATION_CALLS = ['setFormErrors', 'setErrors', 'setFieldErrors'];
+// Object properties that carry on-screen text, e.g. addNotification({ title, message })
+const USER_FACING_KEYS = ['title', 'message', 'description', 'label', 'placeholder'];
+// Variables holding validation messages, e.g. errors.email = 'Email is invalid'
+const ERROR_OBJECT_PATTERN = /errors?$/i;
+// Conditions that pick the language inline, e.g. isRTL ? 'تسوق' : 'Shop'
+const LANGUAGE_CONDITION_PATTERN = /\b(isRTL|isArabic|language|locale|lang)\b/;
+const IGNORE_MARKER = 'i18n-ignore';
+
+const TRANSLATOR_FACTORIES = ['useTranslations', 'getTranslator', 'createTranslator'];
+const MESSAGES_FACTORIES = ['useMessages', 'getMessages'];
+
+class TranslationChecker {
+  constructor(options) {
+    this.options = options;
+    this.catalogs = {};
+    this.hardcoded = [];
+    this.usedKeys = new Set();
+    this.usedPrefixes = new Set();
+    this.referencedMissing = new Map();
+    this.issues = {
+      missing: [],
+      obsolete: [],
+      untranslated: [],
+      invalid: [],
+      mismatched: [],
+      unused: []
+    };
+  }
+
+  run() {
+    console.log('🌐 Checking translations...\n');
+
+    this.loadCatalogs();
+    if (!this.catalogs[REFERENCE_LOCALE]) {
+      console.error(`❌ Reference catalog messages/${REFERENCE_LOCALE}.json not found.`);
+      process.exit(1);
+    }
+
+    const files = this.findSourceFiles();
+    files.forEach(file => this.scanFile(file));
+
+    this.checkCatalogs();
+    this.checkUsage();
+
+    if (this.options.extract) {
+      this.extract();
+      return;
+    }
+
+    this.generateReport();
+
+    if (this.options.updateBaseline) {
+      this.writeBaseline();
+      console.log(`\n✅ Baseline updated: ${path.relative(ROOT, BASELINE_FILE)}`);
+      process.exit(0);
+    }
+
+    const regressions = this.findRegressions();
+    if (regressions.length > 0) {
+      console.log(`\n❌ Translation check failed with ${regressions.length} new issue(s):`);
+      regressions.forEach(regression => console.log(`   ${regression}`));
+      console.log('\n💡 Move the text into messages/*.json (npm run i18n:extract), or mark a deliberate');
+      console.log(`   exception with an "${IGNORE_MARKER}" comment on the line above.`);
+      process.exit(1);
+    }
+
+    console.log('\n✅ No new translation issues.');
+    process.exit(0);
+  }
+
+  // Catalogs
+
+  loadCatalogs() {
+    fs.readdirSync(MESSAGES_DIR)
+      .filter(file => file.endsWith('.json'))
+      .forEach(file => {
+        const locale = path.basename(file, '.json');
+        const raw = fs.readFileSync(path.join(MESSAGES_DIR, file), 'utf8');
+        const messages = JSON.parse(raw);
+        this.catalogs[locale] = {
+          file: path.join(MESSAGES_DIR, file),
+          trailingNewline: raw.endsWith('\n'),
+          messages,
+          flat: this.flatten(messages)
+        };
+      });
+  }
+
+  flatten(messages, prefix = '', result = new Map()) {
+    Object.keys(messages).forEach(key => {
+      const value = messages[key];
+      const fullKey = prefix ? `${prefix}.${key}` : key;
+      if (value && typeof value === 'object') {
+        this.flatten(value, fullKey, result);
+      } else {
+        result.set(fullKey, String(value));
+      }
+    });
+    return result;
+  }
+
+  isNamespace(key) {
+    const prefix = `${key}.`;
+    return Array.from(this.catalogs[REFERENCE_LOCALE].flat.keys()).some(existing => existing.startsWith(prefix));
+  }
+
+  // Argument names of an ICU message, or null when it doesn't parse
+  getArguments(message, locale) {
+    let ast;
+    try {
+      ast = new IntlMessageFormat(message, locale).getAst();
+    } catch (error) {
+      return null;
+    }
+
+    const names = new Set();
+    const walk = elements => elements.forEach(element => {
+      if (element.value && typeof element.value === 'string' && element.type !== 0) {
+        names.add(element.value);
+      }
+      if (element.options) {
+        Object.keys(element.options).forEach(option => walk(element.options[option].value));
+      }
+      if (element.children) {
+        walk(element.children);
+      }
+    });
+    walk(ast);
+    return Array.from(names).sort();
+  }
+
+  checkCatalogs() {
+    const reference = this.catalogs[REFERENCE_LOCALE].flat;
+
+    Object.keys(this.catalogs).forEach(locale => {
+      const flat = this.catalogs[locale].flat;
+
+      flat.forEach((value, key) => {
+        const args = this.getArguments(value, locale);
+        if (!args) {
+          this.issues.invalid.push(`${locale}:${key}`);
+          return;
+        }
+        if (locale === REFERENCE_LOCALE) return;
+
+        if (!reference.has(key)) {
+          this.issues.obsolete.push(`${locale}:${key}`);
+          return;
+        }
+        const referenceArgs = this.getArguments(reference.get(key), REFERENCE_LOCALE);
+        if (referenceArgs && referenceArgs.join(',') !== args.join(',')) {
+          this.issues.mismatched.push(`${locale}:${key}`);
+        }
+        if (value === reference.get(key) && /[A-Za-z]{2,}/.test(value)) {
+          this.issues.untranslated.push(`${locale}:${key}`);
+        }
+      });
+
+      if (locale !== REFERENCE_LOCALE) {
+        reference.forEach((value, key) => {
+          if (!flat.has(key)) {
+            this.issues.missing.push(`${locale}:${key}`);
+          }
+        });
+      }
+    });
+  }
+
+  checkUsage() {
+    const prefixes = Array.from(this.usedPrefixes);
+    this.catalogs[REFERENCE_LOCALE].flat.forEach((value, key) => {
+      const used = this.usedKeys.has(key) || prefixes.some(prefix => key === prefix || key.startsWith(`${prefix}.`));
+      if (!used) {
+        this.issues.unused.push(key);
+      }
+    });
+
+    // Keys the code asks for that no catalog has
+    this.referencedMissing.forEach((file, key) => {
+      this.issues.missing.push(`${REFERENCE_LOCALE}:${key}`);
+    });
+  }
+
+  // Source scanning
+
+  findSourceFiles() {
+    const files = [];
+    const walk = dir => {
+      if (!fs.existsSync(dir)) return;
+      fs.readdirSync(dir).forEach(item => {
+        const fullPath = path.join(dir, item);
+        const relativePath = path.relative(ROOT, fullPath).split(path.sep).join('/');
+        if (fs.statSync(fullPath).isDirectory()) {
+          walk(fullPath);
+        } else if (/\.tsx?$/.test(item) && !IGNORED_PATHS.some(pattern => pattern.test(relativePath))) {
+          files.push(relativePath);
+        }
+      });
+    };
+    USAGE_DIRS.forEach(dir => walk(path.join(ROOT, dir)));
+    return files;
+  }
+
+  scanFile(file) {
+    const source = fs.readFileSync(path.join(ROOT, file), 'utf8');
+    const sourceFile = ts.createSourceFile(file, source, ts.ScriptTarget.Latest, true, file.endsWith('.tsx') ? ts.ScriptKind.TSX : ts.ScriptKind.TS);
+    const lines = source.split('\n');
+    const checkHardcoded = SOURCE_DIRS.some(dir => file.startsWith(`${dir}/`));
+    const bindings = new Map();
+
+    const isIgnored = node => {
+      const line = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line;
+      return (lines[line] || '').includes(IGNORE_MARKER) || (lines[line - 1] || '').includes(IGNORE_MARKER);
+    };
+
+    const report = (node, text, kind) => {
+      if (!checkHardcoded || isIgnored(node)) return;
+      const line = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+      this.hardcoded.push({ file, line, text, kind });
+    };
+
+    const collectLiterals = (expression, kind, localized) => {
+      if (!expression || localized) return;
+      if (ts.isStringLiteral(expression) || ts.isNoSubstitutionTemplateLiteral(expression)) {
+        if (this.isUserFacingText(expression.text, kind)) report(expression, expression.text, kind);
+      } else if (ts.isTemplateExpression(expression)) {
+        const text = this.templateText(expression);
+        if (this.isUserFacingText(text, kind)) report(expression, text, kind);
+      } else if (ts.isConditionalExpression(expression)) {
+        if (LANGUAGE_CONDITION_PATTERN.test(expression.condition.getText(sourceFile))) return;
+        collectLiterals(expression.whenTrue, kind);
+        collectLiterals(expression.whenFalse, kind);
+      } else if (ts.isBinaryExpression(expression)) {
+        const operator = expression.operatorToken.kind;
+        if (operator === ts.SyntaxKind.PlusToken) {
+          collectLiterals(expression.left, kind);
+          collectLiterals(expression.right, kind);
+        } else if (operator === ts.SyntaxKind.BarBarToken || operator === ts.SyntaxKind.QuestionQuestionToken) {
+          // A fallback behind a catalog lookup is covered by the missing key report
+          if (!this.readsCatalog(expression.left, bindings)) {
+            collectLiterals(expression.left, kind);
+            collectLiterals(expression.right, kind);
+          }
+        }
+      } else if (ts.isParenthesizedExpression(expression) || ts.isAsExpression(expression)) {
+        collectLiterals(expression.expression, kind);
+      } else if (ts.isObjectLiteralExpression(expression)) {
+        if (this.isLocalizedObject(expression)) return;
+        expression.properties.forEach(property => {
+          if (!ts.isPropertyAssignment(property)) return;
+          const name = property.name.getText(sourceFile).replace(/['"]/g, '');
+          if (kind === 'validation' || USER_FACING_KEYS.includes(name)) {
+            collectLiterals(property.initializer, kind);
+          }
+        });
+      }
+    };
+
+    const visit = (node, localized) => {
+      this.recordBinding(node, bindings);
+      this.recordUsage(node, bindings, file);
+
+      if (ts.isConditionalExpression(node) && LANGUAGE_CONDITION_PATTERN.test(node.condition.getText(sourceFile))) {
+        visit(node.condition, localized);
+        visit(node.whenTrue, true);
+        visit(node.whenFalse, true);
+        return;
+      }
+      if (ts.isObjectLiteralExpression(node) && this.isLocalizedObject(node)) {
+        ts.forEachChild(node, child => visit(child, true));
+        return;
+      }
+
+      if (!localized) {
+        if (ts.isJsxText(node)) {
+          const text = node.getText(sourceFile).replace(/\s+/g, ' ').trim();
+          if (this.isUserFacingText(text, 'jsx-text')) report(node, text, 'jsx-text');
+        } else if (ts.isJsxAttribute(node) && USER_FACING_PROPS.includes(node.name.getText(sourceFile))) {
+          const initializer = node.initializer;
+          if (initializer && ts.isStringLiteral(initializer)) {
+            collectLiterals(initializer, 'prop');
+          } else if (initializer && ts.isJsxExpression(initializer)) {
+            collectLiterals(initializer.expression, 'prop');
+          }
+        } else if (ts.isCallExpression(node)) {
+          const callee = this.calleeName(node);
+          if (USER_FACING_CALLS.includes(callee)) {
+            node.arguments.forEach(argument => collectLiterals(argument, 'message'));
+          } else if (VALIDATION_CALLS.includes(callee)) {
+            node.arguments.forEach(argument => collectLiterals(argument, 'validation'));
+          }
+        } else if (
+          ts.isBinaryExpression(node) &&
+          node.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+          (ts.isPropertyAccessExpression(node.left) || ts.isElementAccessExpression(node.left)) &&
+          ERROR_OBJECT_PATTERN.test(node.left.expression.getText(sourceFile))
+        ) {
+          collectLiterals(node.right, 'validation');
+        }
+      }
+
+      ts.forEachChild(node, child => visit(child, localized));
+    };
+
+    visit(sourceFile, false);
+  }
+
+  isUserFacingText(text, kind) {
+    if (!text || !/[A-Za-z]{2,}/.test(text)) return false;
+    // Already Arabic, so it was written per language
+    if (/[؀-ۿ]/.test(text)) return false;
+    if (/^(https?:|mailto:|tel:|\/|#|\.\/)/.test(text)) return false;
+    if (kind === 'jsx-text') return true;
+    // Identifiers and option values are not prose; prose has a space or starts with a capital
+    return /\s/.test(text.trim()) || /^[A-Z][a-z]/.test(text);
+  }
+
+  templateText(expression) {
+    let text = expression.head.text;
+    expression.templateSpans.forEach(span => {
+      const name = ts.isIdentifier(span.expression)
+        ? span.expression.text
+        : ts.isPropertyAccessExpression(span.expression) ? span.expression.name.text : 'value';
+      text += `{${name}}${span.literal.text}`;
+    });
+    return text;
+  }
+
+  // { en: 'Home', ar: 'الرئيسية' } is already translated
+  isLocalizedObject(expression) {
+    const names = expression.properties
+      .filter(property => property.name)
+      .map(property => property.name.getText().replace(/['"]/g, ''));
+    return names.includes('en') && names.includes('ar');
+  }
+
+  calleeName(call) {
+    const callee = call.expression;
+    if (ts.isIdentifier(callee)) return callee.text;
+    if (ts.isPropertyAccessExpression(callee)) return callee.name.text;
+    return '';
+  }
+
+  // Remembers which local names hold a catalog or a translator
+  recordBinding(node, bindings) {
+    if (!ts.isVariableDeclaration(node) || !node.initializer) return;
+    const initializer = ts.isAwaitExpression(node.initializer) ? node.initializer.expression : node.initializer;
+    if (!ts.isCallExpression(initializer)) return;
+    const factory = this.calleeName(initializer);
+
+    if (ts.isIdentifier(node.name)) {
+      if (MESSAGES_FACTORIES.includes(factory)) {
+        bindings.set(node.name.text, { kind: 'messages' });
+      } else if (TRANSLATOR_FACTORIES.includes(factory)) {
+        const namespace = factory === 'useTranslations' && initializer.arguments[0] && ts.isStringLiteral(initializer.arguments[0])
+          ? initializer.arguments[0].text
+          : '';
+        bindings.set(node.name.text, { kind: 'translator', namespace });
+      }
+    } else if (ts.isObjectBindingPattern(node.name) && factory === 'useLocale') {
+      node.name.elements.forEach(element => {
+        const property = (element.propertyName || element.name).getText();
+        if (!ts.isIdentifier(element.name)) return;
+        if (property === 'messages') bindings.set(element.name.text, { kind: 'messages' });
+        if (property === 't') bindings.set(element.name.text, { kind: 'translator', namespace: '' });
+      });
+    }
+  }
+
+  readsCatalog(expression, bindings) {
+    let current = expression;
+    while (current && (ts.isPropertyAccessExpression(current) || ts.isElementAccessExpression(current) || ts.isCallExpression(current) || ts.isNonNullExpression(current))) {
+      current = current.expression;
+    }
+    return !!current && ts.isIdentifier(current) && bindings.has(current.text);
+  }
+
+  markUsed(key, file, mustExist) {
+    const flat = this.catalogs[REFERENCE_LOCALE].flat;
+    if (flat.has(key)) {
+      this.usedKeys.add(key);
+    } else if (this.isNamespace(key)) {
+      this.usedPrefixes.add(key);
+    } else if (mustExist && !this.referencedMissing.has(key)) {
+      this.referencedMissing.set(key, file);
+    }
+  }
+
+  recordUsage(node, bindings, file) {
+    // Any literal spelling out a full key, e.g. getTranslator(locale)('nav.home')
+    if (ts.isStringLiteral(node) && this.catalogs[REFERENCE_LOCALE].flat.has(node.text)) {
+      this.usedKeys.add(node.text);
+      return;
+    }
+
+    // t('key'), t.rich('key'), t.has('key')
+    if (ts.isCallExpression(node)) {
+      const callee = node.expression;
+      const target = ts.isPropertyAccessExpression(callee) ? callee.expression : callee;
+      const binding = ts.isIdentifier(target) ? bindings.get(target.text) : null;
+      if (!binding || binding.kind !== 'translator' || node.arguments.length === 0) return;
+
+      const argument = node.arguments[0];
+      const isHasCheck = ts.isPropertyAccessExpression(callee) && callee.name.text === 'has';
+      if (ts.isStringLiteral(argument) || ts.isNoSubstitutionTemplateLiteral(argument)) {
+        const key = binding.namespace ? `${binding.namespace}.${argument.text}` : argument.text;
+        this.markUsed(key, file, !isHasCheck);
+      } else if (ts.isTemplateExpression(argument) && argument.head.text.endsWith('.')) {
+        // t(`health.windows.${name}`) uses whatever sits under the static part
+        const head = argument.head.text.slice(0, -1);
+        const key = binding.namespace ? `${binding.namespace}.${head}` : head;
+        if (this.isNamespace(key)) this.usedPrefixes.add(key);
+      } else if (binding.namespace) {
+        this.usedPrefixes.add(binding.namespace);
+      }
+      return;
+    }
+
+    // messages.pages?.about?.title, messages.hero[titleKey]
+    if (!ts.isPropertyAccessExpression(node) && !ts.isElementAccessExpression(node)) return;
+    const parent = node.parent;
+    if (parent && (ts.isPropertyAccessExpression(parent) || ts.isElementAccessExpression(parent)) && parent.expression === node) return;
+
+    const segments = [];
+    let current = node;
+    while (ts.isPropertyAccessExpression(current) || ts.isElementAccessExpression(current) || ts.isNonNullExpression(current)) {
+      if (ts.isPropertyAccessExpression(current)) {
+        segments.unshift(current.name.text);
+      } else if (ts.isElementAccessExpression(current)) {
+        if (ts.isStringLiteral(current.argumentExpression)) {
+          segments.unshift(current.argumentExpression.text);
+        } else {
+          // Everything past a computed segment is unknown
+          segments.length = 0;
+        }
+      }
+      current = current.expression;
+    }
+    if (!ts.isIdentifier(current) || !bindings.has(current.text) || bindings.get(current.text).kind !== 'messages') return;
+    if (segments.length === 0) return;
+
+    // Walk down the catalog; a string method after a message (.replace) ends the path
+    const flat = this.catalogs[REFERENCE_LOCALE].flat;
+    for (let i = 1; i <= segments.length; i++) {
+      const key = segments.slice(0, i).join('.');
+      if (flat.has(key)) {
+        this.usedKeys.add(key);
+        return;
+      }
+      if (!this.isNamespace(key)) {
+        this.markUsed(key, file, true);
+        return;
+      }
+    }
+    // The path stops at a namespace: it is passed around or indexed dynamically
+    this.usedPrefixes.add(segments.join('.'));
+  }
+
+  // Extraction
+
+  fileNamespace(file) {
+    const parsed = path.parse(file);
+    const isRouteFile = ['page', 'layout', 'not-found', 'error', 'loading'].includes(parsed.name);
+    const words = isRouteFile
+      ? file.split('/').slice(0, -1)
+        .filter(segment => !['app', '[locale]'].includes(segment) && !/^\(.*\)$/.test(segment))
+        .map(segment => segment.replace(/[[\]]/g, ''))
+        .concat(parsed.name)
+      : [parsed.name];
+    if (isRouteFile && words.length === 1) words.unshift('home');
+    return this.camelCase(words.join(' '));
+  }
+
+  camelCase(text) {
+    const words = text
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .split(/[^A-Za-z0-9]+/)
+      .filter(Boolean)
+      .map(word => word.toLowerCase());
+    const result = words.map((word, index) => index === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1)).join('');
+    return /^[0-9]/.test(result) ? `n${result}` : result;
+  }
+
+  setNested(messages, key, value) {
+    const segments = key.split('.');
+    let current = messages;
+    segments.slice(0, -1).forEach(segment => {
+      if (!current[segment] || typeof current[segment] !== 'object') current[segment] = {};
+      current = current[segment];
+    });
+    current[segments[segments.length - 1]] = value;
+  }
+
+  extract() {
+    const reference = this.catalogs[REFERENCE_LOCALE];
+    const existingByText = new Map();
+    reference.flat.forEach((value, key) => {
+      if (!existingByText.has(value)) existingByText.set(value, key);
+    });
+
+    const added = [];
+    const reused = [];
+    this.hardcoded.forEach(finding => {
+      const message = finding.text.replace(/'/g, "''");
+      if (existingByText.has(message)) {
+        reused.push({ ...finding, key: existingByText.get(message) });
+        return;
+      }
+
+      const namespace = this.fileNamespace(finding.file);
+      const slug = this.camelCase(finding.text.split(/\s+/).slice(0, 5).join(' ')).slice(0, 40) || 'text';
+      let key = `${namespace}.${slug}`;
+      for (let suffix = 2; reference.flat.has(key) || this.isNamespace(key); suffix++) {
+        key = `${namespace}.${slug}${suffix}`;
+      }
+
+      // Other locales start from the English text, so they show up as untranslated
+      Object.keys(this.catalogs).forEach(locale => {
+        this.setNested(this.catalogs[locale].messages, key, message);
+        this.catalogs[locale].flat.set(key, message);
+      });
+      existingByText.set(message, key);
+      added.push({ ...finding, key });
+    });
+
+    Object.keys(this.catalogs).forEach(locale => {
+      const catalog = this.catalogs[locale];
+      fs.writeFileSync(catalog.file, JSON.stringify(catalog.messages, null, 2) + (catalog.trailingNewline ? '\n' : ''), 'utf8');
+    });
+
+    console.log(`📝 Extracted ${added.length} new message(s) into messages/*.json`);
+    added.concat(reused).forEach(finding => {
+      console.log(`   ${finding.file}:${finding.line}  "${finding.text}"  →  t('${finding.key}')`);
+    });
+    if (added.length > 0) {
+      console.log(`\n💡 Replace each string with its key, then translate the new entries in the other locales.`);
+    }
+    process.exit(0);
+  }
+
+  // Reporting
+
+  currentState() {
+    const hardcoded = {};
+    this.hardcoded.forEach(finding => {
+      hardcoded[finding.file] = (hardcoded[finding.file] || 0) + 1;
+    });
+    const state = { hardcoded };
+    Object.keys(this.issues).forEach(type => {
+      state[type] = Array.from(new Set(this.issues[type])).sort();
+    });
+    return state;
+  }
+
+  readBaseline() {
+    if (this.options.strict || !fs.existsSync(BASELINE_FILE)) {
+      return { hardcoded: {} };
+    }
+    return JSON.parse(fs.readFileSync(BASELINE_FILE, 'utf8'));
+  }
+
+  writeBaseline() {
+    const state = this.currentState();
+    const sortedHardcoded = {};
+    Object.keys(state.hardcoded).sort().forEach(file => {
+      sortedHardcoded[file] = state.hardcoded[file];
+    });
+    fs.writeFileSync(BASELINE_FILE, JSON.stringify({ ...state, hardcoded: sortedHardcoded }, null, 2) + '\n', 'utf8');
+  }
+
+  findRegressions() {
+    const baseline = this.readBaseline();
+    const state = this.currentState();
+    const regressions = [];
+
+    Object.keys(state.hardcoded).forEach(file => {
+      const allowed = (baseline.hardcoded || {})[file] || 0;
+      if (state.hardcoded[file] > allowed) {
+        regressions.push(`hardcoded: ${file} has ${state.hardcoded[file]} hardcoded string(s), baseline ${allowed}`);
+      }
+    });
+    Object.keys(this.issues).forEach(type => {
+      const accepted = new Set(baseline[type] || []);
+      state[type].forEach(id => {
+        if (!accepted.has(id)) regressions.push(`${type}: ${id}`);
+      });
+    });
+    return regressions;
+  }
+
+  generateReport() {
+    const locales = Object.keys(this.catalogs);
+    const state = this.currentState();
+
+    console.log('📊 Translation Report');
+    console.log('='.repeat(50));
+    console.log(`\n📈 Summary:`);
+    console.log(`   Locales: ${locales.join(', ')} (reference: ${REFERENCE_LOCALE})`);
+    console.log(`   Catalog keys: ${this.catalogs[REFERENCE_LOCALE].flat.size}`);
+    console.log(`   Hardcoded strings: ${this.hardcoded.length} in ${Object.keys(state.hardcoded).length} file(s)`);
+
+    const sections = [
+      ['invalid', '❌ Invalid ICU messages'],
+      ['missing', '❌ Missing keys'],
+      ['mismatched', '❌ Arguments differ from the reference'],
+      ['obsolete', '⚠️  Keys not in the reference catalog'],
+      ['untranslated', '⚠️  Untranslated (same as the reference)'],
+      ['unused', '⚠️  Unused keys']
+    ];
+    sections.forEach(([type, title]) => {
+      const ids = state[type];
+      if (ids.length === 0) return;
+      console.log(`\n${title} (${ids.length}):`);
+      ids.forEach(id => {
+        const file = type === 'missing' ? this.referencedMissing.get(id.split(':')[1]) : null;
+        console.log(`   ${id}${file ? `  (used in ${file})` : ''}`);
+      });
+    });
+
+    if (this.hardcoded.length > 0) {
+      console.log(`\n⚠️  Hardcoded strings (${this.hardcoded.length}):`);
+      this.hardcoded.forEach(finding => {
+        console.log(`   ${finding.file}:${finding.line}  [${finding.kind}]  "${finding.text}"`);
+      });
+    }
+  }
+}
+
+// Run the checker
+const args = process.argv.slice(2);
+try {
+  new TranslationChecker({
+    extract: args.includes('--extract'),
+    strict: args.includes('--strict'),
+    updateBaseline: args.includes('--update-baseline')
+  }).run();
+} catch (error) {
+  console.error('❌ Translation check failed:', error);
+  process.exit(1);
+}
@@ -61,6 +61,7 @@ export interface DetailedHealthStatus extends HealthStatus {
       status: 'pass' | 'fail' | 'warn' | 'healthy' | 'warning' | 'error';
       message?: string;
       duration?: number;
+      details?: Record<string, unknown>;
     };
   };
   system: {
@@ -72,26 +73,35 @@ export interface DetailedHealthStatus extends HealthStatus {
     cpu: {
       usage: number;
       cores?: number;
+      loadAverage?: number[];
     };
     disk: {
       used: number;
       total: number;
       percentage: number;
     };
+    // Memory of this server process, from process.memoryUsage()
+    process?: {
+      rss: number;
+      heapUsed: number;
+      heapTotal: number;
+      external: number;
+    };
   };
 }
 
 export interface HealthMetrics {
+  timestamp?: string;
   requests: {
     total: number;
     success: number;
     error: number;
     averageResponseTime: number;
-  };
-  database: {
-    connections: number;
-    queries: number;
-    averageQueryTime: number;
+    perMinute?: number;
+    // Latency percentiles in ms over the most recent requests
+    p50?: number;
+    p95?: number;
+    p99?: number;
   };
   cache: {
     hits: number;
@@ -100,6 +110,42 @@ export interface HealthMetrics {
   };
 }
 
+export type HealthWindow = '24h' | '7d' | '30d';
+
+// Average check latency over one slice of a window; null when nothing was recorded
+export interface HealthSparkPoint {
+  at: string;
+  latency: number | null;
+}
+
+export interface HealthIncident {
+  id: string;
+  check: string;
+  critical: boolean;
+  status: 'open' | 'resolved';
+  openedAt: string;
+  resolvedAt?: string;
+  // Message of the failure that opened the incident, then of the latest one
+  message: string;
+  failures: number;
+}
+
+export interface HealthHistory {
+  timestamp: string;
+  windows: HealthWindow[];
+  // Uptime target in percent the dashboard measures each check against
+  sloTarget: number;
+  checks: {
+    [key: string]: {
+      critical: boolean;
+      // Share of samples in the window that weren't errors, in percent; null without samples
+      uptime: Record<HealthWindow, number | null>;
+      latency: Record<HealthWindow, HealthSparkPoint[]>;
+    };
+  };
+  incidents: HealthIncident[];
+}
+
 // Internationalization Types
 export interface LocaleConfig {
   code: string;
@@ -107,6 +153,10 @@ export interface LocaleConfig {
   nativeName: string;
   direction: 'ltr' | 'rtl';
   flag: string;
+  // Language-region tag used for hreflang and og:locale, e.g. 'ar-SA'
+  hreflang: string;
+  // Intl locale for numbers and dates, e.g. 'ar-EG' for Arabic digits with Egyptian conventions
+  formatLocale: string;
 }
 
 export interface CurrencyConfig {
@@ -114,6 +164,14 @@ export interface CurrencyConfig {
   symbol: string;
   name: string;
   decimals: number;
+  symbolPosition?: 'before' | 'after';
+}
+
+export interface ExchangeRates {
+  base: string;
+  rates: Record<string, number>;
+  updatedAt: string;
+  source?: 'live' | 'cache' | 'fallback';
 }
 
 export interface LocalizedContent {